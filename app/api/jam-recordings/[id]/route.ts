@@ -0,0 +1,15 @@
+import { NextResponse } from 'next/server';
+import { getJamRecordingsDir, readJamRecording } from '@/lib/jam-session-recorder';
+
+export const dynamic = 'force-dynamic';
+
+export function GET(
+  _request: Request,
+  { params }: { params: { id: string } }
+) {
+  const entries = readJamRecording(getJamRecordingsDir(process.cwd()), params.id);
+  if (!entries) {
+    return NextResponse.json({ error: 'Jam recording not found' }, { status: 404 });
+  }
+  return NextResponse.json({ id: params.id, entries });
+}
@@ -0,0 +1,10 @@
+import { NextResponse } from 'next/server';
+import { getJamRecordingsDir, listJamRecordings } from '@/lib/jam-session-recorder';
+
+// Recordings change on disk while the server runs; never serve a cached list.
+export const dynamic = 'force-dynamic';
+
+export function GET() {
+  const recordings = listJamRecordings(getJamRecordingsDir(process.cwd()));
+  return NextResponse.json({ recordings });
+}
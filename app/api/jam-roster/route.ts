@@ -0,0 +1,9 @@
+import { NextResponse } from 'next/server';
+import { loadAgentRoster } from '@/lib/jam-roster-loader';
+
+// Persona front-matter can change between jams; always re-read it.
+export const dynamic = 'force-dynamic';
+
+export function GET() {
+  return NextResponse.json({ agents: loadAgentRoster(process.cwd()) });
+}
@@ -0,0 +1,10 @@
+import { NextResponse } from 'next/server';
+import { getJamSnapshotsDir, listJamSessionSnapshots } from '@/lib/jam-session-snapshot';
+
+// Snapshots are rewritten after every jam turn; never serve a cached list.
+export const dynamic = 'force-dynamic';
+
+export function GET() {
+  const sessions = listJamSessionSnapshots(getJamSnapshotsDir(process.cwd()));
+  return NextResponse.json({ sessions });
+}
@@ -4,8 +4,35 @@ import { NextResponse } from 'next/server';
 import type { WebSocket, WebSocketServer } from 'ws';
 import { AgentProcessManager } from '@/lib/agent-process-manager';
 import { evaluate_jam_admission } from '@/lib/jam-admission';
+import { normalizeArrangementSections } from '@/lib/jam-arrangement';
+import { normalizeAutoTickSchedule } from '@/lib/jam-auto-tick-schedule';
+import { normalizeMixUpdate } from '@/lib/jam-mixer';
+import {
+  normalizeSessionBudget,
+  parseJamSessionBudget,
+  parseJamTokenPricing,
+} from '@/lib/jam-usage';
+import { getAgentRosterKeys } from '@/lib/jam-roster';
+import {
+  JamRoom,
+  JamRoomRegistry,
+  normalizeJamRoomMemberName,
+  normalizeJamRoomName,
+} from '@/lib/jam-rooms';
+import { syncAgentRoster } from '@/lib/jam-roster-loader';
+import {
+  JamSessionRecorder,
+  getJamRecordingsDir,
+  isJamRecordingEnabled,
+} from '@/lib/jam-session-recorder';
 import { createNormalRuntimeProcess } from '@/lib/runtime-factory';
 import type { RuntimeEvent, RuntimeProcess } from '@/lib/runtime-process';
+import {
+  getJamSnapshotsDir,
+  readJamSessionSnapshot,
+  writeJamSessionSnapshot,
+  type JamSessionSnapshot,
+} from '@/lib/jam-session-snapshot';
 import {
   apply_camera_sample_freshness,
   build_conductor_interpretation_result,
@@ -27,15 +54,24 @@ export function GET() {
 // Store active runtime processes per client
 const clientProcesses = new Map<WebSocket, RuntimeProcess>();
 
-// Store agent process managers per client (for jam sessions)
-const agentManagers = new Map<WebSocket, AgentProcessManager>();
-const pendingJamStarts = new Map<WebSocket, Promise<void>>();
+// Jam rooms: each client is in exactly one (a private one until it joins a
+// named room). Jams, their pending starts and recordings belong to the room.
+const jamRooms = new JamRoomRegistry<WebSocket>();
+const agentManagers = new Map<JamRoom<WebSocket>, AgentProcessManager>();
+const pendingJamStarts = new Map<JamRoom<WebSocket>, Promise<void>>();
+// Agents of each room's jam, known before the manager finishes starting
+const roomJamAgents = new Map<JamRoom<WebSocket>, string[]>();
 const contextInspectorEnabledByClient = new Map<WebSocket, boolean>();
+// JSONL session recordings per room (see lib/jam-session-recorder.ts)
+const jamRecorders = new Map<JamRoom<WebSocket>, JamSessionRecorder>();
 
 const MAX_CONCURRENT_JAMS = getPositiveInt(process.env.MAX_CONCURRENT_JAMS, 1);
-const MAX_TOTAL_AGENT_PROCESSES = getPositiveInt(process.env.MAX_TOTAL_AGENT_PROCESSES, 4);
+// Defaults to one full band; read per jam start so roster edits are honoured
+const MAX_TOTAL_AGENT_PROCESSES_OVERRIDE = getPositiveInt(process.env.MAX_TOTAL_AGENT_PROCESSES, 0) || null;
 const CAMERA_SAMPLE_MAX_AGE_MS = getPositiveInt(process.env.CAMERA_SAMPLE_MAX_AGE_MS, 5_000);
 const CAMERA_SAMPLE_MAX_FUTURE_SKEW_MS = getPositiveInt(process.env.CAMERA_SAMPLE_MAX_FUTURE_SKEW_MS, 1_500);
+const JAM_SESSION_BUDGET = parseJamSessionBudget(process.env);
+const JAM_TOKEN_PRICING = parseJamTokenPricing(process.env);
 
 // Per-client timing for latency measurement
 const directiveTimers = new Map<WebSocket, { start: number; lastEvent: number; events: string[] }>();
@@ -74,20 +110,55 @@ interface BrowserMessage {
     | 'stop'
     | 'ping'
     | 'start_jam'
+    | 'resume_jam'
     | 'set_jam_preset'
+    | 'set_arrangement'
+    | 'skip_section'
+    | 'set_agent_mix'
+    | 'set_auto_tick_schedule'
+    | 'set_session_budget'
+    | 'resolve_harmony_proposal'
+    | 'revert_agent_pattern'
     | 'boss_directive'
+    | 'cancel_directive'
     | 'camera_directive'
     | 'stop_jam'
     | 'audio_feedback'
-    | 'set_context_inspector';
+    | 'set_context_inspector'
+    | 'join_room'
+    | 'leave_room'
+    | 'hand_off_boss'
+    | 'sync_jam';
   text?: string;
   activeAgents?: string[];
   targetAgent?: string;
   presetId?: string;
+  sessionId?: string;
+  // Song-form sections for set_arrangement; null clears the arrangement.
+  arrangement?: unknown;
   enabled?: boolean;
   payload?: AudioFeatureSnapshot;
   // Vision capture payload from browser camera hook.
   visionPayload?: CameraDirectivePayload;
+  // join_room: room to join and the name other members see
+  room?: string;
+  name?: string;
+  // hand_off_boss: member id that becomes boss
+  memberId?: number;
+  // set_agent_mix / revert_agent_pattern: roster key, plus the channel fields
+  // to change or the pattern history version to restore
+  agent?: string;
+  mix?: unknown;
+  version?: number;
+  // cancel_directive: queued directive id from directive_queue_update
+  directiveId?: number;
+  // set_auto_tick_schedule: { mode, bars }
+  schedule?: unknown;
+  // set_session_budget: { maxCostUsd, maxTokens }; null or absent clears a limit
+  budget?: unknown;
+  // resolve_harmony_proposal: proposal id from jam state, and the boss's call
+  proposalId?: number;
+  approve?: boolean;
 }
 
 interface ServerMessage {
@@ -98,7 +169,8 @@ interface ServerMessage {
     | 'status'
     | 'error'
     | 'pong'
-    | 'conductor_intent';
+    | 'conductor_intent'
+    | 'jam_room_state';
   text?: string;
   toolName?: string;
   toolInput?: Record<string, unknown>;
@@ -146,6 +218,29 @@ function getIncomingRequestWsProtocol(request: IncomingMessage): 'ws' | 'wss' {
   return request.socket instanceof TLSSocket ? 'wss' : 'ws';
 }
 
+function startJamRecording(room: JamRoom<WebSocket>, workingDir: string, agents: string[]): JamSessionRecorder | null {
+  closeJamRecording(room, 'restarted');
+  if (!isJamRecordingEnabled()) return null;
+
+  const recorder = new JamSessionRecorder({ dir: getJamRecordingsDir(workingDir), activeAgents: agents });
+  if (!recorder.isActive) return null;
+
+  jamRecorders.set(room, recorder);
+  console.log(`[Runtime WS] Recording jam session to ${recorder.filePath}`);
+  return recorder;
+}
+
+function recordJamInput(room: JamRoom<WebSocket>, type: string, payload: unknown): void {
+  jamRecorders.get(room)?.recordInput(type, payload);
+}
+
+function closeJamRecording(room: JamRoom<WebSocket>, reason: string): void {
+  const recorder = jamRecorders.get(room);
+  if (!recorder) return;
+  void recorder.close(reason);
+  jamRecorders.delete(room);
+}
+
 function getActiveAgentCount(manager: AgentProcessManager): number {
   return manager.getJamStateSnapshot().activeAgents.length;
 }
@@ -156,12 +251,88 @@ function countActiveAgentProcesses(): number {
   }, 0);
 }
 
-async function awaitPendingJamStart(client: WebSocket): Promise<void> {
-  const pendingStart = pendingJamStarts.get(client);
+async function awaitPendingJamStart(room: JamRoom<WebSocket>): Promise<void> {
+  const pendingStart = pendingJamStarts.get(room);
   if (!pendingStart) return;
   await pendingStart;
 }
 
+// ─── Jam rooms ──────────────────────────────────────────────────────
+
+function getPrivateRoomName(clientId: number): string {
+  // '~' never survives normalizeJamRoomName, so named rooms cannot collide
+  return `~private-${clientId}`;
+}
+
+function joinPrivateRoom(client: WebSocket, memberName = 'You'): JamRoom<WebSocket> {
+  const clientId = clientIds.get(client) ?? 0;
+  return jamRooms.join(client, clientId, getPrivateRoomName(clientId), memberName, { isPrivate: true });
+}
+
+function getClientRoom(client: WebSocket): JamRoom<WebSocket> {
+  return jamRooms.getRoom(client) ?? joinPrivateRoom(client);
+}
+
+function isRoomJamActive(room: JamRoom<WebSocket>): boolean {
+  return agentManagers.has(room) || pendingJamStarts.has(room);
+}
+
+function sendRoomState(room: JamRoom<WebSocket>): void {
+  const jam = {
+    active: agentManagers.has(room),
+    activeAgents: roomJamAgents.get(room) ?? [],
+  };
+  for (const member of room.clients()) {
+    const state = room.getState(member, jam);
+    if (state) sendToClient(member, { type: 'jam_room_state', payload: state });
+  }
+}
+
+/** Reject a jam-control message from a spectator. */
+function requireBoss(client: WebSocket, room: JamRoom<WebSocket>, action: string): boolean {
+  if (room.isBoss(client)) return true;
+  sendErrorToClient(client, `Only the boss can ${action} in room "${room.name}".`);
+  sendToClient(client, { type: 'status', status: 'done' });
+  return false;
+}
+
+async function stopRoomJam(room: JamRoom<WebSocket>, reason: string): Promise<void> {
+  pendingJamStarts.delete(room);
+  roomJamAgents.delete(room);
+  const jamManager = agentManagers.get(room);
+  if (jamManager) {
+    console.log(`[Runtime WS] Stopping jam in room ${room.name} (${reason})`);
+    await jamManager.stop();
+    agentManagers.delete(room);
+  }
+  closeJamRecording(room, reason);
+  room.clearCatchUp();
+}
+
+/**
+ * Take a client out of its room. The jam keeps running for the remaining
+ * members (a departing boss hands over to the earliest joiner); the last
+ * member out stops it.
+ */
+async function leaveJamRoom(client: WebSocket, reason: string): Promise<void> {
+  const left = jamRooms.leave(client);
+  if (!left) return;
+
+  const { room, promoted, isEmpty } = left;
+  if (isEmpty) {
+    await stopRoomJam(room, reason);
+    return;
+  }
+
+  if (promoted) {
+    console.log(
+      `[Runtime WS] Boss of room ${room.name} left; promoted client #${clientIds.get(promoted) ?? '?'}`
+    );
+    agentManagers.get(room)?.setContextInspectorEnabled(contextInspectorEnabledByClient.get(promoted) ?? true);
+  }
+  sendRoomState(room);
+}
+
 async function startRuntimeForClient(
   client: WebSocket,
   workingDir: string,
@@ -271,6 +442,7 @@ export function SOCKET(
   clientIds.set(client, clientId);
   console.log(`[Runtime WS] Client #${clientId} connected, total: ${server.clients.size}`);
   contextInspectorEnabledByClient.set(client, true);
+  joinPrivateRoom(client);
 
   // Send initial connecting status
   sendToClient(client, {
@@ -280,6 +452,8 @@ export function SOCKET(
 
   // Get the working directory from environment or use current
   const workingDir = process.cwd();
+  // Same roster the browser fetched from /api/jam-roster (mentions, camera targets, admission)
+  syncAgentRoster(workingDir);
 
   // Extract port from Host header to pass to MCP server
   const host = request.headers.host || 'localhost:3000';
@@ -312,6 +486,7 @@ export function SOCKET(
     try {
       const message = JSON.parse(data.toString()) as BrowserMessage;
       const runtimeProcess = clientProcesses.get(client);
+      const room = getClientRoom(client);
 
       switch (message.type) {
         case 'user_input':
@@ -342,9 +517,24 @@ export function SOCKET(
           runtimeProcess?.stop();
           break;
 
-        case 'start_jam': {
-          // Jam start — create AgentProcessManager and spawn per-agent processes
-          const agents = message.activeAgents || [];
+        case 'start_jam':
+        case 'resume_jam': {
+          // Jam start — create AgentProcessManager and spawn per-agent processes.
+          // Resume rebuilds the manager from an on-disk session snapshot instead.
+          if (!requireBoss(client, room, 'start a jam')) break;
+          let resumeSnapshot: JamSessionSnapshot | null = null;
+          if (message.type === 'resume_jam') {
+            resumeSnapshot = message.sessionId
+              ? readJamSessionSnapshot(getJamSnapshotsDir(workingDir), message.sessionId)
+              : null;
+            if (!resumeSnapshot) {
+              sendErrorToClient(client, `Cannot resume jam: session "${message.sessionId ?? ''}" not found.`);
+              sendToClient(client, { type: 'status', status: 'done' });
+              break;
+            }
+          }
+
+          const agents = resumeSnapshot ? resumeSnapshot.activeAgents : message.activeAgents || [];
 
           if (agents.length === 0) {
             sendErrorToClient(client, 'Cannot start jam: select at least one agent.');
@@ -352,21 +542,26 @@ export function SOCKET(
             break;
           }
 
-          startTimer(client, `JAM_START (agents: ${agents.join(', ')})`);
+          startTimer(
+            client,
+            resumeSnapshot
+              ? `JAM_RESUME (session: ${resumeSnapshot.sessionId}, agents: ${agents.join(', ')})`
+              : `JAM_START (agents: ${agents.join(', ')})`
+          );
           sendToClient(client, { type: 'status', status: 'thinking' });
 
-          const existingManager = agentManagers.get(client);
-          const existingClientAgents = existingManager ? getActiveAgentCount(existingManager) : 0;
+          const existingManager = agentManagers.get(room);
+          const existingRoomAgents = existingManager ? getActiveAgentCount(existingManager) : 0;
           const activeJams = agentManagers.size;
           const activeAgentProcesses = countActiveAgentProcesses();
 
           const admission = evaluate_jam_admission({
             active_jams: activeJams,
             active_agent_processes: activeAgentProcesses,
-            existing_client_agents: existingClientAgents,
+            existing_client_agents: existingRoomAgents,
             requested_agents: agents.length,
             max_concurrent_jams: MAX_CONCURRENT_JAMS,
-            max_total_agent_processes: MAX_TOTAL_AGENT_PROCESSES,
+            max_total_agent_processes: MAX_TOTAL_AGENT_PROCESSES_OVERRIDE ?? getAgentRosterKeys().length,
           });
 
           if (!admission.allowed) {
@@ -387,51 +582,72 @@ export function SOCKET(
             `projected_agents=${admission.details.projected_agent_processes}`
           );
 
-          // Stop any existing manager for this client
+          // Stop any existing manager for this room
           if (existingManager) {
             await existingManager.stop();
-            agentManagers.delete(client);
+            agentManagers.delete(room);
           }
 
-          // Broadcast callback sends jam messages directly to the browser client
+          const recorder = startJamRecording(room, workingDir, agents);
+          room.clearCatchUp();
+
+          // Broadcast callback sends jam messages to every browser in the room
           // The browser's useRuntimeTerminal hook forwards these to useJamSession handlers
-          const broadcastToClient = (message: { type: string; payload: unknown }) => {
-            if (client.readyState === 1) { // WebSocket.OPEN
-              client.send(JSON.stringify(message));
-            }
+          const broadcastToRoom = (message: { type: string; payload: unknown }) => {
+            recorder?.recordOutput(message);
+            room.broadcast(message);
           };
-          const manager = new AgentProcessManager({ workingDir, broadcast: broadcastToClient });
+          const snapshotsDir = getJamSnapshotsDir(workingDir);
+          const manager = new AgentProcessManager({
+            workingDir,
+            broadcast: broadcastToRoom,
+            onSnapshot: (snapshot) => writeJamSessionSnapshot(snapshotsDir, snapshot),
+            budget: JAM_SESSION_BUDGET,
+            tokenPricing: JAM_TOKEN_PRICING,
+          });
           manager.setContextInspectorEnabled(contextInspectorEnabledByClient.get(client) ?? true);
-          agentManagers.set(client, manager);
+          agentManagers.set(room, manager);
+          roomJamAgents.set(room, [...agents]);
+          // Spectators switch into the jam view before the first state update
+          sendRoomState(room);
 
-          const startPromise = manager.start(agents, { mode: 'staged_silent' });
-          pendingJamStarts.set(client, startPromise);
+          const startPromise = resumeSnapshot
+            ? manager.resume(resumeSnapshot)
+            : manager.start(agents, { mode: 'staged_silent' });
+          pendingJamStarts.set(room, startPromise);
 
           startPromise.then(() => {
             endTimer(client);
             sendToClient(client, { type: 'status', status: 'done' });
           }).catch(async (error) => {
             console.error('[Runtime WS] AgentProcessManager start failed:', error);
-            if (agentManagers.get(client) === manager) {
+            if (agentManagers.get(room) === manager) {
               try {
                 await manager.stop();
               } catch (stopError) {
                 console.error('[Runtime WS] Cleanup after start failure failed:', stopError);
               }
-              agentManagers.delete(client);
+              agentManagers.delete(room);
+              roomJamAgents.delete(room);
+            }
+            if (recorder && jamRecorders.get(room) === recorder) {
+              closeJamRecording(room, 'start_failed');
             }
+            room.clearCatchUp();
+            sendRoomState(room);
             endTimer(client);
-            sendErrorToClient(client, `Failed to start jam: ${error.message}`);
+            sendErrorToClient(client, `Failed to ${resumeSnapshot ? 'resume' : 'start'} jam: ${error.message}`);
             sendToClient(client, { type: 'status', status: 'done' });
           }).finally(() => {
-            if (pendingJamStarts.get(client) === startPromise) {
-              pendingJamStarts.delete(client);
+            if (pendingJamStarts.get(room) === startPromise) {
+              pendingJamStarts.delete(room);
             }
           });
           break;
         }
 
         case 'set_jam_preset': {
+          if (!requireBoss(client, room, 'change the jam preset')) break;
           if (!message.presetId) {
             sendErrorToClient(client, 'Missing jam preset id.');
             sendToClient(client, { type: 'status', status: 'done' });
@@ -439,7 +655,7 @@ export function SOCKET(
           }
 
           try {
-            await awaitPendingJamStart(client);
+            await awaitPendingJamStart(room);
           } catch (error) {
             const err = error as Error;
             sendErrorToClient(client, `Cannot set jam preset before jam startup completes: ${err.message}`);
@@ -447,7 +663,7 @@ export function SOCKET(
             break;
           }
 
-          const manager = agentManagers.get(client);
+          const manager = agentManagers.get(room);
           if (!manager) {
             sendErrorToClient(client, 'No active jam session for preset selection.');
             sendToClient(client, { type: 'status', status: 'done' });
@@ -455,6 +671,7 @@ export function SOCKET(
           }
 
           startTimer(client, `SET_JAM_PRESET: ${message.presetId}`);
+          recordJamInput(room, 'set_jam_preset', { presetId: message.presetId });
           sendToClient(client, { type: 'status', status: 'thinking' });
 
           manager.setJamPreset(message.presetId).then(() => {
@@ -469,11 +686,55 @@ export function SOCKET(
           break;
         }
 
+        case 'set_arrangement':
+        case 'skip_section': {
+          if (!requireBoss(client, room, 'change the song form')) break;
+          const isSkip = message.type === 'skip_section';
+          const sections = isSkip || message.arrangement === null
+            ? null
+            : normalizeArrangementSections(message.arrangement);
+          if (!isSkip && message.arrangement !== null && !sections) {
+            sendErrorToClient(client, 'Invalid arrangement.');
+            sendToClient(client, { type: 'status', status: 'done' });
+            break;
+          }
+
+          try {
+            await awaitPendingJamStart(room);
+          } catch (error) {
+            const err = error as Error;
+            sendErrorToClient(client, `Cannot change arrangement before jam startup completes: ${err.message}`);
+            sendToClient(client, { type: 'status', status: 'done' });
+            break;
+          }
+
+          const manager = agentManagers.get(room);
+          if (!manager) {
+            sendErrorToClient(client, 'No active jam session for arrangement changes.');
+            sendToClient(client, { type: 'status', status: 'done' });
+            break;
+          }
+
+          startTimer(client, isSkip ? 'SKIP_SECTION' : `SET_ARRANGEMENT: ${sections?.length ?? 0} sections`);
+          recordJamInput(room, message.type, isSkip ? {} : { sections });
+
+          const change = isSkip ? manager.skipArrangementSection() : manager.setArrangement(sections);
+          change.then(() => {
+            endTimer(client);
+          }).catch((error) => {
+            console.error('[Runtime WS] Arrangement change failed:', error);
+            endTimer(client);
+            sendErrorToClient(client, `Arrangement change failed: ${error.message}`);
+          });
+          break;
+        }
+
         case 'boss_directive': {
+          if (!requireBoss(client, room, 'send directives')) break;
           const text = message.text;
           if (text) {
             try {
-              await awaitPendingJamStart(client);
+              await awaitPendingJamStart(room);
             } catch (error) {
               const err = error as Error;
               sendErrorToClient(client, `Cannot send directive before jam startup completes: ${err.message}`);
@@ -481,7 +742,7 @@ export function SOCKET(
               break;
             }
 
-            const manager = agentManagers.get(client);
+            const manager = agentManagers.get(room);
             if (!manager) {
               sendErrorToClient(client, 'No active jam session for boss directive.');
               sendToClient(client, { type: 'status', status: 'done' });
@@ -489,6 +750,11 @@ export function SOCKET(
             }
 
             startTimer(client, `BOSS_DIRECTIVE: "${text.substring(0, 50)}" (target: ${message.targetAgent || 'all'})`);
+            recordJamInput(room, 'boss_directive', {
+              text,
+              targetAgent: message.targetAgent ?? null,
+              activeAgents: message.activeAgents || [],
+            });
             sendToClient(client, { type: 'status', status: 'thinking' });
 
             manager.handleDirective(text, message.targetAgent, message.activeAgents || []).then(() => {
@@ -507,7 +773,20 @@ export function SOCKET(
           break;
         }
 
+        case 'cancel_directive': {
+          if (!requireBoss(client, room, 'cancel directives')) break;
+          const manager = agentManagers.get(room);
+          if (!manager || typeof message.directiveId !== 'number') break;
+
+          recordJamInput(room, 'cancel_directive', { directiveId: message.directiveId });
+          if (!manager.cancelDirective(message.directiveId)) {
+            sendErrorToClient(client, 'That directive already started or is no longer queued.');
+          }
+          break;
+        }
+
         case 'camera_directive': {
+          if (!requireBoss(client, room, 'send camera cues')) break;
           const messagePayload = message.visionPayload;
           if (!messagePayload) {
             sendToClient(client, {
@@ -547,7 +826,7 @@ export function SOCKET(
           });
 
           try {
-            await awaitPendingJamStart(client);
+            await awaitPendingJamStart(room);
           } catch (error) {
             const err = error as Error;
             sendErrorToClient(client, `Cannot send camera cue before jam startup completes: ${err.message}`);
@@ -555,7 +834,7 @@ export function SOCKET(
             break;
           }
 
-          const manager = agentManagers.get(client);
+          const manager = agentManagers.get(room);
           if (!manager) {
             sendToClient(client, {
               type: 'conductor_intent',
@@ -589,6 +868,10 @@ export function SOCKET(
               'interpreted',
               interpretation.diagnostics
             );
+            recordJamInput(room, 'camera_directive', {
+              sample: freshnessCheckedSample,
+              result: interpreted,
+            });
             if (!interpreted.accepted || !interpreted.interpretation?.directive.trim()) {
               sendToClient(client, { type: 'conductor_intent', payload: interpreted });
               endTimer(client);
@@ -657,29 +940,228 @@ export function SOCKET(
         }
 
         case 'stop_jam': {
-          pendingJamStarts.delete(client);
-          const jamManager = agentManagers.get(client);
-          if (jamManager) {
-            console.log(`[Runtime WS] Stopping jam for client #${clientIds.get(client) || '?'}`);
-            await jamManager.stop();
-            agentManagers.delete(client);
-          }
+          if (!requireBoss(client, room, 'stop the jam')) break;
+          await stopRoomJam(room, 'stopped');
+          sendRoomState(room);
           sendToClient(client, { type: 'status', status: 'done' });
           break;
         }
 
+        case 'join_room': {
+          const roomName = normalizeJamRoomName(message.room);
+          if (!roomName) {
+            sendErrorToClient(client, 'Room names need at least one letter or digit.');
+            break;
+          }
+          if (room.name === roomName) {
+            sendRoomState(room);
+            break;
+          }
+          if (room.isBoss(client) && isRoomJamActive(room)) {
+            sendErrorToClient(client, `Stop the jam or hand off the boss role before leaving room "${room.name}".`);
+            break;
+          }
+
+          const memberName = normalizeJamRoomMemberName(message.name, `Guest ${clientId}`);
+          await leaveJamRoom(client, 'left');
+          const joined = jamRooms.join(client, clientId, roomName, memberName);
+          console.log(
+            `[Runtime WS] Client #${clientId} joined room ${joined.name} as ${joined.getRole(client)} ` +
+            `(${joined.size} member${joined.size === 1 ? '' : 's'})`
+          );
+          sendRoomState(joined);
+          break;
+        }
+
+        case 'sync_jam':
+          // Sent by a member once its jam view is mounted, so the replay is not dropped
+          room.sendCatchUp(client);
+          break;
+
+        case 'leave_room': {
+          if (room.isPrivate) {
+            sendRoomState(room);
+            break;
+          }
+          if (room.isBoss(client) && isRoomJamActive(room)) {
+            sendErrorToClient(client, `Stop the jam or hand off the boss role before leaving room "${room.name}".`);
+            break;
+          }
+          const memberName = room.getMemberName(client) ?? undefined;
+          await leaveJamRoom(client, 'left');
+          sendRoomState(joinPrivateRoom(client, memberName));
+          break;
+        }
+
+        case 'hand_off_boss': {
+          const newBoss = typeof message.memberId === 'number'
+            ? room.handOffBoss(client, message.memberId)
+            : null;
+          if (!newBoss) {
+            sendErrorToClient(client, 'Only the boss can hand off the boss role, and only to another member of the room.');
+            break;
+          }
+          console.log(`[Runtime WS] Client #${clientId} handed the boss role in room ${room.name} to client #${message.memberId}`);
+          agentManagers.get(room)?.setContextInspectorEnabled(contextInspectorEnabledByClient.get(newBoss) ?? true);
+          sendRoomState(room);
+          break;
+        }
+
         case 'ping':
           sendToClient(client, { type: 'pong' });
           break;
 
+        case 'set_agent_mix': {
+          if (!requireBoss(client, room, 'change the mix')) break;
+          const mix = normalizeMixUpdate(message.mix);
+          if (typeof message.agent !== 'string' || !mix) {
+            sendErrorToClient(client, 'Invalid mixer change.');
+            break;
+          }
+
+          try {
+            await awaitPendingJamStart(room);
+          } catch (error) {
+            const err = error as Error;
+            sendErrorToClient(client, `Cannot change the mix before jam startup completes: ${err.message}`);
+            break;
+          }
+
+          const manager = agentManagers.get(room);
+          if (!manager) {
+            sendErrorToClient(client, 'No active jam session for mixer changes.');
+            break;
+          }
+
+          recordJamInput(room, 'set_agent_mix', { agent: message.agent, mix });
+          try {
+            manager.setAgentMix(message.agent, mix);
+          } catch (error) {
+            sendErrorToClient(client, `Mixer change failed: ${(error as Error).message}`);
+          }
+          break;
+        }
+
+        case 'set_auto_tick_schedule': {
+          if (!requireBoss(client, room, 'change the auto-tick schedule')) break;
+          const schedule = normalizeAutoTickSchedule(message.schedule);
+          if (!schedule) {
+            sendErrorToClient(client, 'Invalid auto-tick schedule.');
+            break;
+          }
+
+          try {
+            await awaitPendingJamStart(room);
+          } catch (error) {
+            const err = error as Error;
+            sendErrorToClient(client, `Cannot change the auto-tick schedule before jam startup completes: ${err.message}`);
+            break;
+          }
+
+          const manager = agentManagers.get(room);
+          if (!manager) {
+            sendErrorToClient(client, 'No active jam session for auto-tick changes.');
+            break;
+          }
+
+          recordJamInput(room, 'set_auto_tick_schedule', { schedule });
+          manager.setAutoTickSchedule(schedule);
+          break;
+        }
+
+        case 'set_session_budget': {
+          if (!requireBoss(client, room, 'change the session budget')) break;
+          const budget = normalizeSessionBudget(message.budget);
+          if (!budget) {
+            sendErrorToClient(client, 'Invalid session budget.');
+            break;
+          }
+
+          try {
+            await awaitPendingJamStart(room);
+          } catch (error) {
+            const err = error as Error;
+            sendErrorToClient(client, `Cannot change the session budget before jam startup completes: ${err.message}`);
+            break;
+          }
+
+          const manager = agentManagers.get(room);
+          if (!manager) {
+            sendErrorToClient(client, 'No active jam session for budget changes.');
+            break;
+          }
+
+          recordJamInput(room, 'set_session_budget', { budget });
+          manager.setSessionBudget(budget);
+          break;
+        }
+
+        case 'resolve_harmony_proposal': {
+          if (!requireBoss(client, room, 'resolve harmony proposals')) break;
+          if (typeof message.proposalId !== 'number' || typeof message.approve !== 'boolean') {
+            sendErrorToClient(client, 'Invalid harmony proposal decision.');
+            break;
+          }
+
+          try {
+            await awaitPendingJamStart(room);
+          } catch (error) {
+            const err = error as Error;
+            sendErrorToClient(client, `Cannot resolve a harmony proposal before jam startup completes: ${err.message}`);
+            break;
+          }
+
+          const manager = agentManagers.get(room);
+          if (!manager) {
+            sendErrorToClient(client, 'No active jam session for harmony proposals.');
+            break;
+          }
+
+          recordJamInput(room, 'resolve_harmony_proposal', { proposalId: message.proposalId, approve: message.approve });
+          manager.resolveHarmonyProposal(message.proposalId, message.approve).catch((error) => {
+            sendErrorToClient(client, `Harmony proposal decision failed: ${error.message}`);
+          });
+          break;
+        }
+
+        case 'revert_agent_pattern': {
+          if (!requireBoss(client, room, 'revert patterns')) break;
+          if (typeof message.agent !== 'string' || typeof message.version !== 'number') {
+            sendErrorToClient(client, 'Invalid pattern revert.');
+            break;
+          }
+
+          try {
+            await awaitPendingJamStart(room);
+          } catch (error) {
+            const err = error as Error;
+            sendErrorToClient(client, `Cannot revert a pattern before jam startup completes: ${err.message}`);
+            break;
+          }
+
+          const manager = agentManagers.get(room);
+          if (!manager) {
+            sendErrorToClient(client, 'No active jam session for pattern reverts.');
+            break;
+          }
+
+          recordJamInput(room, 'revert_agent_pattern', { agent: message.agent, version: message.version });
+          manager.revertAgentPattern(message.agent, message.version).catch((error) => {
+            sendErrorToClient(client, `Pattern revert failed: ${error.message}`);
+          });
+          break;
+        }
+
         case 'audio_feedback': {
-          if (!message.payload) break;
-          if (!agentManagers.get(client)) break;
+          // Every member hears the jam; only the boss's analysis steers it
+          if (!message.payload || !room.isBoss(client)) break;
+          if (!agentManagers.get(room)) break;
 
-          const manager = agentManagers.get(client);
+          const manager = agentManagers.get(room);
           if (!manager) break;
 
           const candidate = message.payload as AudioFeatureSnapshot;
+          recordJamInput(room, 'audio_feedback', candidate);
           manager.handleAudioFeedback(candidate);
           break;
         }
@@ -687,7 +1169,8 @@ export function SOCKET(
         case 'set_context_inspector': {
           const enabled = Boolean(message.enabled);
           contextInspectorEnabledByClient.set(client, enabled);
-          const manager = agentManagers.get(client);
+          if (!room.isBoss(client)) break;
+          const manager = agentManagers.get(room);
           manager?.setContextInspectorEnabled(enabled);
           break;
         }
@@ -707,6 +1190,7 @@ export function SOCKET(
       clearTimeout(pendingStart);
       pendingStarts.delete(client);
       console.log(`[Runtime WS] Client #${cid} cancelled pending process start (StrictMode unmount)`);
+      await leaveJamRoom(client, 'disconnected');
       contextInspectorEnabledByClient.delete(client);
       clientIds.delete(client);
       return;
@@ -719,15 +1203,8 @@ export function SOCKET(
       clientProcesses.delete(client);
     }
 
-    // Clean up agent process manager if active
-    const jamManager = agentManagers.get(client);
-    if (jamManager) {
-      console.log(`[Runtime WS] Stopping agent manager for client #${cid}`);
-      await jamManager.stop();
-      agentManagers.delete(client);
-    }
-
-    pendingJamStarts.delete(client);
+    // Leave the jam room; the jam stops only when its last member is gone
+    await leaveJamRoom(client, 'disconnected');
     contextInspectorEnabledByClient.delete(client);
 
     clientIds.delete(client);
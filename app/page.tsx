@@ -9,20 +9,36 @@ import { BossInputBar } from '@/components/BossInputBar';
 import { PatternDisplay } from '@/components/PatternDisplay';
 import { AgentSelectionModal } from '@/components/AgentSelectionModal';
 import { AudioStartButton } from '@/components/AudioStartButton';
+import { JamReplayModal } from '@/components/JamReplayModal';
+import { JamArrangementEditor } from '@/components/JamArrangementEditor';
+import { JamRoomPanel } from '@/components/JamRoomPanel';
 import {
+  useAgentRoster,
   useAudioFeedback,
   useCameraConductor,
+  useJamAudioRecorder,
+  useJamReplay,
   useJamSession,
   useRuntimeTerminal,
   useStrudel,
   useWebSocket,
 } from '@/hooks';
+import { downloadBlob } from '@/hooks/download-blob';
 import { PRESETS } from '@/lib/musical-context-presets';
+import { DEFAULT_JAM_QUANTIZE_BARS, type JamQuantizeBars } from '@/lib/jam-quantize';
+import { buildJamMidiFile, getMidiExportFileName } from '@/lib/jam-midi-export';
+import { isMixChannelAudible } from '@/lib/jam-mixer';
+import { describePatternValidationIssue } from '@/lib/pattern-parser';
 import {
   AGENT_META,
+  type ArrangementSection,
   type CameraDirectivePayload,
   type ConductorInterpreterResult,
+  type DirectiveErrorPayload,
   type ExecutePayload,
+  type JamRecordingEntry,
+  type JamRecordingSummary,
+  type JamSessionSnapshotSummary,
 } from '@/lib/types';
 
 const StrudelPanel = dynamic(
@@ -32,6 +48,7 @@ const StrudelPanel = dynamic(
 
 const SILENT_JAM_PATTERN = 'silence';
 
+// Built-in band blurbs; other roster agents show their role description
 const AGENT_HINTS: Record<string, string> = {
   drums: 'Syncopation-obsessed, provides the rhythmic foundation',
   bass: 'Selfless minimalist who locks in with the kick drum',
@@ -48,9 +65,21 @@ export default function Home() {
   const [lastSentJamPresetId, setLastSentJamPresetId] = useState<string | null>(null);
   const [isCameraConductorEnabled, setIsCameraConductorEnabled] = useState(false);
   const [lastConductorIntentSummary, setLastConductorIntentSummary] = useState<string | null>(null);
+  const [showReplayPicker, setShowReplayPicker] = useState(false);
+  const [showArrangementEditor, setShowArrangementEditor] = useState(false);
+  const [jamQuantizeBars, setJamQuantizeBars] = useState<JamQuantizeBars>(DEFAULT_JAM_QUANTIZE_BARS);
   const pendingExecuteFrameRef = useRef<number | null>(null);
 
-  const { ref, setCode, evaluate, stop, onEditorReady } = useStrudel();
+  const {
+    ref,
+    setCode,
+    evaluate,
+    stop,
+    onEditorReady,
+    queueCode,
+    cancelQueuedCode,
+    queuedChange,
+  } = useStrudel();
 
   // Handle tool calls from the runtime terminal
   const handleToolUse = useCallback((toolName: string, toolInput: Record<string, unknown>) => {
@@ -115,6 +144,9 @@ export default function Home() {
     setLastConductorIntentSummary(`Camera cue skipped (${confidenceLabel}): ${reason}${signalSummary}`);
   }, []);
 
+  // Band roster from .codex/agents front-matter (applied to AGENT_META)
+  const { agentKeys } = useAgentRoster();
+
   // Lift useRuntimeTerminal to page level so sendStartJam is accessible
   const runtimeTerminal = useRuntimeTerminal({
     onToolUse: handleToolUse,
@@ -124,6 +156,7 @@ export default function Home() {
 
   const jam = useJamSession({
     sendStartJam: runtimeTerminal.sendStartJam,
+    sendResumeJam: runtimeTerminal.sendResumeJam,
     sendStopJam: runtimeTerminal.sendStopJam,
     isRuntimeConnected: runtimeTerminal.isConnected,
   });
@@ -134,29 +167,60 @@ export default function Home() {
     error: runtimeTerminalError,
     lines: runtimeLines,
     sendJamPreset,
+    sendArrangement,
+    sendSkipSection,
+    sendAgentMix,
+    sendRevertPattern,
+    sendCancelDirective,
+    sendAutoTickSchedule,
+    sendSessionBudget,
+    sendHarmonyProposalDecision,
     sendBossDirective,
     sendCameraDirective,
     sendMessage,
     clearLines,
     sendAudioFeedback,
+    roomState,
+    sendJoinRoom,
+    sendLeaveRoom,
+    sendHandOffBoss,
+    sendJamSync,
   } = runtimeTerminal;
 
+  // Shared-room members other than the boss follow the jam without steering it
+  const isSpectator = Boolean(roomState && !roomState.isPrivate && roomState.role === 'spectator');
+
   // Destructure stable callbacks to satisfy React Compiler + exhaustive-deps
   const {
     addChatMessage,
     addBossDirective,
     requestStartJam,
     confirmStartJam,
+    confirmResumeJam,
     cancelStartJam,
+    resumableSessions,
     chatMessages,
     selectedAgents,
     activatedAgents,
     mutedAgents,
+    mixer,
+    patternHistory,
+    harmony,
+    patternChanges,
+    currentRound,
+    directiveQueue,
     isJamming,
     isJamReady,
+    isReplaying,
+    startReplaySession,
+    enterSharedJam,
+    leaveSharedJam,
     stopJam,
     musicalContext,
     autoTickTiming,
+    arrangement,
+    usage,
+    harmonyProposals,
     agentStates,
     agentPatternChangeGlows,
     agentContextWindows,
@@ -164,21 +228,41 @@ export default function Home() {
     showAgentSelection,
     handleAgentThought,
     handleAgentCommentary,
+    handleAgentRequest,
     handleAgentStatus,
     handleAutoTickTimingUpdate,
+    handleDirectiveQueueUpdate,
     handleMusicalContextUpdate,
     handleJamStateUpdate,
   } = jam;
 
   useAudioFeedback({
-    enabled: isJamming && audioReady && isRuntimeConnected,
+    enabled: isJamming && !isReplaying && !isSpectator && audioReady && isRuntimeConnected,
     isAudioRunning: isPlaying,
     onFeedback: sendAudioFeedback,
     analysisIntervalMs: 1_000,
   });
 
-  // Per-agent message filtering: each agent sees their own optional commentary
-  // plus boss directives (both broadcast and targeted)
+  const {
+    recording: audioRecording,
+    error: audioRecordingError,
+    startRecording: startAudioRecording,
+    stopRecording: stopAudioRecording,
+  } = useJamAudioRecorder({
+    enabled: isJamming && audioReady,
+    session: {
+      preset: selectedJamPresetId,
+      genre: musicalContext.genre,
+      bpm: musicalContext.bpm,
+      key: musicalContext.key,
+      timeSignature: musicalContext.timeSignature,
+      round: currentRound,
+      agents: activatedAgents,
+    },
+  });
+
+  // Per-agent message filtering: each agent sees their own optional commentary,
+  // band requests it sent or received, plus boss directives (both broadcast and targeted)
   const agentMessages = useMemo(() => {
     const result: Record<string, typeof chatMessages> = {};
     for (const key of selectedAgents) {
@@ -186,6 +270,9 @@ export default function Home() {
         if (msg.type === 'agent_commentary') {
           return msg.agent === key;
         }
+        if (msg.type === 'agent_request') {
+          return msg.agent === key || msg.targetAgent === key;
+        }
         if (msg.type === 'boss_directive') {
           return !msg.targetAgent || msg.targetAgent === key;
         }
@@ -248,6 +335,10 @@ export default function Home() {
         || turnSource === 'directive'
         || turnSource === 'auto-tick'
         || turnSource === 'staged-silent'
+        || turnSource === 'resume'
+        || turnSource === 'agent-request'
+        || turnSource === 'mixer'
+        || turnSource === 'revert'
       ) {
         executePayload.turnSource = turnSource;
       }
@@ -270,10 +361,18 @@ export default function Home() {
 
   const handleExecute = useCallback((payload: ExecutePayload) => {
     handleJamExecute(payload);
+    setError(null);
 
+    // Jam turns wait for the next bar/phrase boundary; arming silence and
+    // normal-mode code play immediately.
     const code = payload.code;
+    if (isJamming && payload.turnSource && queueCode(code, jamQuantizeBars)) {
+      return;
+    }
+
+    // Playing now supersedes anything still waiting on a boundary
+    cancelQueuedCode();
     setCode(code);
-    setError(null);
 
     if (pendingExecuteFrameRef.current !== null) {
       cancelAnimationFrame(pendingExecuteFrameRef.current);
@@ -285,7 +384,7 @@ export default function Home() {
       setIsPlaying(true);
       pendingExecuteFrameRef.current = null;
     });
-  }, [evaluate, handleJamExecute, setCode]);
+  }, [evaluate, handleJamExecute, setCode, isJamming, queueCode, cancelQueuedCode, jamQuantizeBars]);
 
   const handleStop = useCallback(() => {
     if (pendingExecuteFrameRef.current !== null) {
@@ -296,6 +395,44 @@ export default function Home() {
     setIsPlaying(false);
   }, [stop]);
 
+  // Recorded inputs are surfaced in chat; the recorded outputs already carry their effect
+  const handleReplayInput = useCallback((entry: JamRecordingEntry) => {
+    if (entry.type === 'boss_directive') {
+      const payload = entry.payload as { text?: string; targetAgent?: string | null };
+      if (payload.text) {
+        addBossDirective(payload.text, payload.targetAgent ?? undefined);
+      }
+    } else if (entry.type === 'camera_directive') {
+      const payload = entry.payload as { result?: ConductorInterpreterResult };
+      const directive = payload.result?.accepted ? payload.result.interpretation?.directive : undefined;
+      if (directive) {
+        addChatMessage({ type: 'system', text: `Camera cue: ${directive}` });
+      }
+    }
+  }, [addBossDirective, addChatMessage]);
+
+  const handleReplayComplete = useCallback(() => {
+    handleStop();
+    addChatMessage({ type: 'system', text: 'Replay finished.' });
+  }, [handleStop, addChatMessage]);
+
+  const replay = useJamReplay({
+    onOutput: handleJamBroadcast,
+    onInput: handleReplayInput,
+    onComplete: handleReplayComplete,
+  });
+
+  const {
+    recordings: jamRecordings,
+    isLoadingRecordings,
+    replayError,
+    activeRecording,
+    replayProgressMs,
+    refreshRecordings,
+    startReplay,
+    stopReplay,
+  } = replay;
+
   // Wire jam broadcast messages from ai-ws/runtime-ws to jam session handlers
   // AgentProcessManager sends these directly to the browser client (not via /api/ws)
   useEffect(() => {
@@ -307,6 +444,9 @@ export default function Home() {
         case 'agent_commentary':
           handleAgentCommentary(message.payload as Parameters<typeof handleAgentCommentary>[0]);
           break;
+        case 'agent_request':
+          handleAgentRequest(message.payload as Parameters<typeof handleAgentRequest>[0]);
+          break;
         case 'agent_status':
           handleAgentStatus(message.payload as Parameters<typeof handleAgentStatus>[0]);
           break;
@@ -324,19 +464,30 @@ export default function Home() {
         case 'auto_tick_timing_update':
           handleAutoTickTimingUpdate(message.payload as Parameters<typeof handleAutoTickTimingUpdate>[0]);
           break;
-        case 'directive_error':
+        case 'directive_queue_update':
+          handleDirectiveQueueUpdate(message.payload as Parameters<typeof handleDirectiveQueueUpdate>[0]);
+          break;
+        case 'directive_error': {
+          // Invalid patterns come with located issues; show where each one is
+          const { message: errorText, pattern, issues } = message.payload as DirectiveErrorPayload;
+          const issueText = pattern && issues?.length
+            ? issues.map((issue) => describePatternValidationIssue(pattern, issue)).join('; ')
+            : '';
           addChatMessage({
             type: 'system',
-            text: (message.payload as { message: string }).message,
+            text: issueText ? `${errorText} ${issueText}.` : errorText,
           });
           break;
+        }
       }
     };
   }, [
     handleAgentThought,
     handleAgentCommentary,
+    handleAgentRequest,
     handleAgentStatus,
     handleAutoTickTimingUpdate,
+    handleDirectiveQueueUpdate,
     handleJamStateUpdate,
     normalizeExecutePayload,
     handleExecute,
@@ -387,6 +538,19 @@ export default function Home() {
     confirmStartJam(agents);
   }, [handleStop, confirmStartJam]);
 
+  const handleConfirmResumeJam = useCallback((session: JamSessionSnapshotSummary) => {
+    handleStop();
+    // A resumed session already has its preset applied; re-arm Play so
+    // directives work immediately and the restored pattern keeps playing.
+    const resumedPreset = session.genre
+      ? PRESETS.find((preset) => preset.genre === session.genre) ?? null
+      : null;
+    setSelectedJamPresetId(resumedPreset?.id ?? null);
+    setJamPlayRequested(Boolean(resumedPreset));
+    setLastSentJamPresetId(resumedPreset?.id ?? null);
+    confirmResumeJam(session);
+  }, [handleStop, confirmResumeJam]);
+
   const handleSelectJamPreset = useCallback((presetId: string | null) => {
     // We do not support clearing the preset after Play has started, because the
     // backend has no "unset preset" command and would drift from the UI.
@@ -417,7 +581,7 @@ export default function Home() {
   ]);
 
   const handleJamPlay = useCallback(() => {
-    if (!isJamming || !isJamReady || !audioReady || !isRuntimeConnected) return;
+    if (!isJamming || isSpectator || !isJamReady || !audioReady || !isRuntimeConnected) return;
     if (!selectedJamPresetId) return;
 
     if (!jamPlayRequested) {
@@ -437,6 +601,7 @@ export default function Home() {
     }
   }, [
     isJamming,
+    isSpectator,
     isJamReady,
     audioReady,
     isRuntimeConnected,
@@ -450,11 +615,126 @@ export default function Home() {
 
   const handleStopJamAndAudio = useCallback(() => {
     handleStop();
+    stopReplay();
     setSelectedJamPresetId(null);
     setJamPlayRequested(false);
     setLastSentJamPresetId(null);
     stopJam();
-  }, [handleStop, stopJam]);
+  }, [handleStop, stopReplay, stopJam]);
+
+  // Leaving a shared room drops this client's view of its jam; the jam itself keeps running
+  const handleLeaveRoom = useCallback(() => {
+    if (isJamming && !isReplaying) {
+      handleStop();
+      setSelectedJamPresetId(null);
+      setJamPlayRequested(false);
+      setLastSentJamPresetId(null);
+      leaveSharedJam();
+    }
+    sendLeaveRoom();
+  }, [isJamming, isReplaying, handleStop, leaveSharedJam, sendLeaveRoom]);
+
+  const roomJamActive = Boolean(roomState?.jamActive);
+  const roomActiveAgents = roomState?.activeAgents;
+
+  // Spectators enter and leave the jam view as the boss starts and stops the room's jam
+  useEffect(() => {
+    if (!isSpectator || isReplaying) return;
+    const rafId = window.requestAnimationFrame(() => {
+      if (roomJamActive && !isJamming && roomActiveAgents) {
+        handleStop();
+        setSelectedJamPresetId(null);
+        setJamPlayRequested(false);
+        setLastSentJamPresetId(null);
+        enterSharedJam(roomActiveAgents);
+      } else if (!roomJamActive && isJamming) {
+        handleStop();
+        leaveSharedJam();
+      }
+    });
+    return () => window.cancelAnimationFrame(rafId);
+  }, [isSpectator, isReplaying, roomJamActive, roomActiveAgents, isJamming, handleStop, enterSharedJam, leaveSharedJam]);
+
+  // Once the jam view is mounted, fetch the room's latest state and pattern
+  useEffect(() => {
+    if (isSpectator && isJamming && !isReplaying) {
+      sendJamSync();
+    }
+  }, [isSpectator, isJamming, isReplaying, sendJamSync]);
+
+  // A spectator promoted mid-jam takes over the running preset, as resume does
+  useEffect(() => {
+    if (isSpectator || isReplaying || !isJamming || jamPlayRequested) return;
+    if (!roomState || roomState.isPrivate || !roomState.jamActive || !musicalContext.genre) return;
+    const runningPreset = PRESETS.find((preset) => preset.genre === musicalContext.genre);
+    if (!runningPreset) return;
+    const rafId = window.requestAnimationFrame(() => {
+      setSelectedJamPresetId(runningPreset.id);
+      setJamPlayRequested(true);
+      setLastSentJamPresetId(runningPreset.id);
+    });
+    return () => window.cancelAnimationFrame(rafId);
+  }, [isSpectator, isReplaying, isJamming, jamPlayRequested, roomState, musicalContext.genre]);
+
+  const handleOpenReplayPicker = useCallback(() => {
+    setShowReplayPicker(true);
+    void refreshRecordings();
+  }, [refreshRecordings]);
+
+  const handleCancelReplayPicker = useCallback(() => {
+    setShowReplayPicker(false);
+  }, []);
+
+  const handleEditArrangement = useCallback(() => {
+    setShowArrangementEditor(true);
+  }, []);
+
+  const handleCancelArrangementEditor = useCallback(() => {
+    setShowArrangementEditor(false);
+  }, []);
+
+  const handleSaveArrangement = useCallback((sections: ArrangementSection[]) => {
+    sendArrangement(sections);
+    setShowArrangementEditor(false);
+  }, [sendArrangement]);
+
+  const handleClearArrangement = useCallback(() => {
+    sendArrangement(null);
+    setShowArrangementEditor(false);
+  }, [sendArrangement]);
+
+  // What is audible right now, expanded over `cycles` bars into a .mid download
+  const handleExportMidi = useCallback((cycles: number) => {
+    const audibleAgents = activatedAgents.filter((key) => (
+      !mutedAgents.includes(key) && isMixChannelAudible(key, mixer, activatedAgents)
+    ));
+    const bytes = buildJamMidiFile(
+      audibleAgents.map((key) => ({
+        key,
+        pattern: agentStates[key]?.pattern || SILENT_JAM_PATTERN,
+        gain: mixer[key]?.gain ?? 1,
+      })),
+      { bpm: musicalContext.bpm, timeSignature: musicalContext.timeSignature, cycles }
+    );
+    downloadBlob(
+      new Blob([bytes], { type: 'audio/midi' }),
+      getMidiExportFileName(musicalContext.genre, musicalContext.bpm)
+    );
+  }, [activatedAgents, agentStates, mixer, musicalContext, mutedAgents]);
+
+  const handleStartReplay = useCallback((recording: JamRecordingSummary) => {
+    handleStop();
+    setShowReplayPicker(false);
+    setSelectedJamPresetId(null);
+    setJamPlayRequested(false);
+    setLastSentJamPresetId(null);
+    startReplaySession(recording.activeAgents);
+    void startReplay(recording).then((started) => {
+      if (!started) {
+        stopJam();
+      }
+    });
+  }, [handleStop, startReplaySession, startReplay, stopJam]);
 
   const isJamPresetApplying = Boolean(
     jamPlayRequested
@@ -466,6 +746,8 @@ export default function Home() {
 
   const canPlayJam = Boolean(
     isJamming
+    && !isReplaying
+    && !isSpectator
     && isJamReady
     && isRuntimeConnected
     && audioReady
@@ -476,11 +758,21 @@ export default function Home() {
 
   const canSendJamDirectives = Boolean(
     isJamming
+    && !isReplaying
+    && !isSpectator
     && isJamReady
     && selectedJamPresetId
     && isJamPlayArmed
   );
 
+  const canControlBand = Boolean(
+    isJamming
+    && !isReplaying
+    && !isSpectator
+    && isJamReady
+    && isRuntimeConnected
+  );
+
   const canUseCameraConductor = Boolean(
     isJamming
     && isJamReady
@@ -543,7 +835,11 @@ export default function Home() {
         } else if (e.key === '.') {
           if (isJamming) {
             e.preventDefault();
-            handleStopJamAndAudio();
+            if (isSpectator) {
+              handleLeaveRoom();
+            } else {
+              handleStopJamAndAudio();
+            }
           }
         }
       }
@@ -551,9 +847,7 @@ export default function Home() {
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [isJamming, handleJamPlay, handleStopJamAndAudio]);
-
-  const agentKeys = Object.keys(AGENT_META);
+  }, [isJamming, isSpectator, handleJamPlay, handleStopJamAndAudio, handleLeaveRoom]);
 
   return (
     <main className="flex flex-col h-screen overflow-hidden">
@@ -574,17 +868,40 @@ export default function Home() {
               isJamReady={isJamReady}
               isPresetApplying={isJamPresetApplying}
               autoTickTiming={autoTickTiming}
-              showAutoTickCountdown={isJamPlayArmed && activatedAgents.length > 0}
+              showAutoTickCountdown={(isJamPlayArmed || isReplaying) && activatedAgents.length > 0}
               errorMessage={runtimeTerminalError}
               onSelectPreset={handleSelectJamPreset}
               onPlayJam={handleJamPlay}
-              onStopJam={handleStopJamAndAudio}
+              onStopJam={isSpectator ? handleLeaveRoom : handleStopJamAndAudio}
               isCameraConductorEnabled={isCameraConductorEnabled}
               isCameraConductorReady={isCameraConductorReady}
               canEnableCameraConductor={canUseCameraConductor}
               cameraConductorError={cameraConductorError}
               cameraConductorIntentStatus={cameraConductorIntentStatus}
               onToggleCameraConductor={setIsCameraConductorEnabled}
+              replayStatus={activeRecording
+                ? { progressMs: replayProgressMs, durationMs: activeRecording.durationMs }
+                : null}
+              roomState={isReplaying ? null : roomState}
+              onHandOffBoss={sendHandOffBoss}
+              arrangement={arrangement}
+              quantizeBars={jamQuantizeBars}
+              queuedPatternBars={queuedChange?.bars ?? null}
+              onQuantizeBarsChange={setJamQuantizeBars}
+              onEditArrangement={handleEditArrangement}
+              onSkipSection={sendSkipSection}
+              onExportMidi={activatedAgents.length > 0 ? handleExportMidi : undefined}
+              audioRecording={audioRecording}
+              audioRecordingError={audioRecordingError}
+              onStartAudioRecording={isPlaying || audioRecording ? startAudioRecording : undefined}
+              onStopAudioRecording={stopAudioRecording}
+              directiveQueue={isReplaying ? null : directiveQueue}
+              onCancelDirective={canControlBand ? sendCancelDirective : undefined}
+              onAutoTickScheduleChange={canControlBand ? sendAutoTickSchedule : undefined}
+              usage={usage}
+              onSessionBudgetChange={canControlBand ? sendSessionBudget : undefined}
+              harmonyProposals={harmonyProposals}
+              onResolveHarmonyProposal={canControlBand ? sendHarmonyProposalDecision : undefined}
             />
 
             {/* Agent columns grid */}
@@ -598,6 +915,12 @@ export default function Home() {
                   agentKey={key}
                   agentState={agentStates[key]}
                   isMuted={mutedAgents.includes(key)}
+                  mixChannel={mixer[key]}
+                  onMixChange={canControlBand ? sendAgentMix : undefined}
+                  patternHistory={patternHistory[key]}
+                  harmony={harmony[key]}
+                  patternChanges={patternChanges[key]}
+                  onRevertPattern={canControlBand ? sendRevertPattern : undefined}
                   messages={agentMessages[key] ?? []}
                   isPatternChange={agentPatternChangeGlows[key]}
                   contextWindow={agentContextWindows[key]}
@@ -619,6 +942,7 @@ export default function Home() {
             <PatternDisplay
               agentStates={agentStates}
               selectedAgents={selectedAgents}
+              patternChanges={patternChanges}
             />
           </div>
         ) : (
@@ -680,24 +1004,43 @@ export default function Home() {
               </p>
 
               {/* Error banner */}
-              {(wsError || error || !isExecutionWsConnected) && (
+              {(wsError || error || replayError || !isExecutionWsConnected) && (
                 <div className="w-full max-w-4xl mb-6 bg-red-900/30 border border-red-500/50 rounded-xl p-3">
                   <p className="text-red-200 text-sm font-mono">
                     {wsError
                       || error
+                      || replayError
                       || 'Execution WebSocket disconnected. Playback updates may not reach Strudel until it reconnects.'}
                   </p>
                 </div>
               )}
 
-              {/* Start Jam CTA */}
+              {/* Start Jam CTA — in a shared room only the boss starts the jam */}
+              {!isSpectator && (
+                <button
+                  onClick={requestStartJam}
+                  className="px-10 py-5 rounded-2xl font-display font-bold text-xl bg-gradient-to-r from-amber-500 to-amber-600 hover:from-amber-400 hover:to-amber-500 text-stage-black transition-all duration-200 hover:scale-105 animate-glow-pulse mb-4"
+                >
+                  Start a Jam Session
+                </button>
+              )}
+
+              {/* Replay a recorded session — no model calls */}
               <button
-                onClick={requestStartJam}
-                className="px-10 py-5 rounded-2xl font-display font-bold text-xl bg-gradient-to-r from-amber-500 to-amber-600 hover:from-amber-400 hover:to-amber-500 text-stage-black transition-all duration-200 hover:scale-105 animate-glow-pulse mb-10"
+                onClick={handleOpenReplayPicker}
+                className="px-5 py-2 rounded-lg text-sm font-medium border border-stage-border bg-stage-dark/60 hover:bg-stage-mid/60 text-stage-text transition-colors mb-10"
               >
-                Start a Jam Session
+                Replay a Session
               </button>
 
+              {/* Shared jam room: boss steers, spectators watch and listen */}
+              <JamRoomPanel
+                roomState={roomState}
+                isConnected={isRuntimeConnected}
+                onJoin={sendJoinRoom}
+                onLeave={handleLeaveRoom}
+              />
+
             {/* Stage plot — the band lineup */}
             <div className="w-full max-w-3xl mb-10">
                 {/* Stage floor */}
@@ -743,7 +1086,7 @@ export default function Home() {
                               {meta.name}
                             </span>
                             <span className="text-stage-muted text-sm text-center leading-snug max-w-[180px]">
-                              {AGENT_HINTS[key]}
+                              {AGENT_HINTS[key] ?? meta.role}
                             </span>
                           </div>
                         </div>
@@ -782,6 +1125,31 @@ note("c3 e3 g3 c4").sound("piano")._pianoroll({ fold: 1 })`}
           onConfirm={handleConfirmStartJam}
           onCancel={cancelStartJam}
           initialSelection={selectedAgents}
+          resumableSessions={resumableSessions}
+          onResume={handleConfirmResumeJam}
+        />
+      )}
+
+      {/* Recorded session picker */}
+      {showReplayPicker && (
+        <JamReplayModal
+          recordings={jamRecordings}
+          isLoading={isLoadingRecordings}
+          error={replayError}
+          onRefresh={refreshRecordings}
+          onSelect={handleStartReplay}
+          onCancel={handleCancelReplayPicker}
+        />
+      )}
+
+      {/* Song-form editor */}
+      {isJamming && !isReplaying && !isSpectator && showArrangementEditor && (
+        <JamArrangementEditor
+          sections={arrangement?.sections ?? null}
+          currentIndex={arrangement?.currentIndex}
+          onSave={handleSaveArrangement}
+          onClear={handleClearArrangement}
+          onCancel={handleCancelArrangementEditor}
         />
       )}
 
@@ -3,13 +3,27 @@
 import { useEffect, useRef, useCallback, useState } from 'react';
 import type { CSSProperties } from 'react';
 import type {
+  AgentHarmonyReport,
+  AgentMixChannel,
+  AgentPatternVersion,
   AgentState,
   JamChatMessage,
   AgentContextWindow,
   AudioContextSummary,
+  PatternChange,
 } from '@/lib/types';
 import { AGENT_META } from '@/lib/types';
 import { get_agent_status_display } from '@/lib/agent-status-ui';
+import { formatHarmonyReport } from '@/lib/jam-harmony-check';
+import { formatPatternChanges } from '@/lib/pattern-diff';
+import {
+  DEFAULT_MIX_CHANNEL,
+  MIXER_GAIN_MAX,
+  MIXER_GAIN_MIN,
+  MIXER_PAN_MAX,
+  MIXER_PAN_MIN,
+  type AgentMixUpdate,
+} from '@/lib/jam-mixer';
 
 interface AgentColumnProps {
   agentKey: string;
@@ -19,6 +33,15 @@ interface AgentColumnProps {
   isPatternChange?: boolean;
   contextWindow?: AgentContextWindow;
   isContextInspectorEnabled?: boolean;
+  mixChannel?: AgentMixChannel;
+  // Omitted for spectators and replays: the strip then only shows the mix
+  onMixChange?: (agentKey: string, mix: AgentMixUpdate) => void;
+  patternHistory?: AgentPatternVersion[];
+  onRevertPattern?: (agentKey: string, version: number) => void;
+  // Absent for agents with no checkable note layers (drums, silence)
+  harmony?: AgentHarmonyReport;
+  // What the agent's latest turn changed; empty when it held its pattern
+  patternChanges?: PatternChange[];
 }
 
 function StatusDot({
@@ -40,6 +63,176 @@ function StatusDot({
   );
 }
 
+function HarmonyBadge({ agentKey, report }: { agentKey: string; report: AgentHarmonyReport }) {
+  const inKey = report.outOfKey.length === 0;
+  return (
+    <span
+      data-testid={`harmony-badge-${agentKey}`}
+      title={formatHarmonyReport(report)}
+      className={`text-[10px] px-1.5 py-0.5 rounded border whitespace-nowrap ${
+        inKey
+          ? 'text-emerald-300 border-emerald-500/30 bg-emerald-500/10'
+          : 'text-amber-300 border-amber-500/30 bg-amber-500/10'
+      }`}
+    >
+      {inKey ? 'in key' : `${report.outOfKey.length} off key`}
+    </span>
+  );
+}
+
+function formatPan(pan: number): string {
+  if (pan === 0) return 'C';
+  return `${pan < 0 ? 'L' : 'R'}${Math.round(Math.abs(pan) * 100)}`;
+}
+
+function MixerStrip({
+  agentKey,
+  channel,
+  onMixChange,
+}: {
+  agentKey: string;
+  channel: AgentMixChannel;
+  onMixChange?: (agentKey: string, mix: AgentMixUpdate) => void;
+}) {
+  // Faders move locally while dragging and send one change on release
+  const [draft, setDraft] = useState<AgentMixUpdate | null>(null);
+  const gain = draft?.gain ?? channel.gain;
+  const pan = draft?.pan ?? channel.pan;
+  const disabled = !onMixChange;
+
+  const commit = () => {
+    if (draft && onMixChange) onMixChange(agentKey, draft);
+    setDraft(null);
+  };
+
+  const toggleClass = (active: boolean, activeClass: string) => (
+    `px-1.5 rounded text-[10px] font-bold border ${
+      active ? activeClass : 'border-stage-border text-stage-muted'
+    } disabled:opacity-50`
+  );
+
+  return (
+    <div
+      data-testid={`agent-mixer-${agentKey}`}
+      className="flex items-center gap-2 px-3 py-1 border-b border-stage-border bg-stage-dark/60"
+    >
+      <label className="flex items-center gap-1 flex-1 min-w-0 text-[10px] text-stage-muted" title="Gain">
+        <span className="w-8 text-right tabular-nums">{Math.round(gain * 100)}%</span>
+        <input
+          type="range"
+          aria-label="Gain"
+          className="flex-1 min-w-0 h-1 accent-amber-400"
+          min={MIXER_GAIN_MIN}
+          max={MIXER_GAIN_MAX}
+          step={0.05}
+          value={gain}
+          disabled={disabled}
+          onChange={(e) => setDraft({ gain: Number(e.target.value) })}
+          onPointerUp={commit}
+          onKeyUp={commit}
+          onDoubleClick={() => onMixChange?.(agentKey, { gain: DEFAULT_MIX_CHANNEL.gain })}
+        />
+      </label>
+      <label className="flex items-center gap-1 w-20 shrink-0 text-[10px] text-stage-muted" title="Pan">
+        <input
+          type="range"
+          aria-label="Pan"
+          className="flex-1 min-w-0 h-1 accent-amber-400"
+          min={MIXER_PAN_MIN}
+          max={MIXER_PAN_MAX}
+          step={0.05}
+          value={pan}
+          disabled={disabled}
+          onChange={(e) => setDraft({ pan: Number(e.target.value) })}
+          onPointerUp={commit}
+          onKeyUp={commit}
+          onDoubleClick={() => onMixChange?.(agentKey, { pan: DEFAULT_MIX_CHANNEL.pan })}
+        />
+        <span className="w-6 tabular-nums">{formatPan(pan)}</span>
+      </label>
+      <button
+        type="button"
+        aria-pressed={channel.solo}
+        title="Solo"
+        disabled={disabled}
+        className={toggleClass(channel.solo, 'border-amber-400 bg-amber-400/20 text-amber-300')}
+        onClick={() => onMixChange?.(agentKey, { solo: !channel.solo })}
+      >
+        S
+      </button>
+      <button
+        type="button"
+        aria-pressed={channel.mute}
+        title="Mute"
+        disabled={disabled}
+        className={toggleClass(channel.mute, 'border-red-400 bg-red-400/20 text-red-300')}
+        onClick={() => onMixChange?.(agentKey, { mute: !channel.mute })}
+      >
+        M
+      </button>
+    </div>
+  );
+}
+
+function PatternHistoryMenu({
+  agentKey,
+  history,
+  onRevertPattern,
+}: {
+  agentKey: string;
+  history: AgentPatternVersion[];
+  onRevertPattern?: (agentKey: string, version: number) => void;
+}) {
+  const current = history[history.length - 1];
+  // Newest first; the current version is shown in the summary instead
+  const earlier = history.slice(0, -1).reverse();
+
+  return (
+    <details data-testid={`agent-history-${agentKey}`} className="border-b border-stage-border bg-stage-dark/60">
+      <summary className="cursor-pointer px-3 py-0.5 text-[10px] uppercase tracking-wide text-stage-muted">
+        History{current ? ` · v${current.version} (round ${current.round})` : ''}
+      </summary>
+      {earlier.length === 0 ? (
+        <p className="px-3 pb-1 text-[11px] text-stage-muted italic">No earlier patterns yet.</p>
+      ) : (
+        <ul className="max-h-40 overflow-y-auto pb-1">
+          {earlier.map((entry) => (
+            <li key={entry.version}>
+              <button
+                type="button"
+                disabled={!onRevertPattern}
+                title={entry.directive ? `BOSS: ${entry.directive}` : entry.pattern}
+                className="w-full px-3 py-0.5 text-left hover:bg-stage-border/40 disabled:cursor-default disabled:hover:bg-transparent"
+                onClick={() => onRevertPattern?.(agentKey, entry.version)}
+              >
+                <span className="text-[10px] text-stage-muted">
+                  v{entry.version} · round {entry.round} · {entry.turnSource}
+                  {onRevertPattern ? ' · revert' : ''}
+                </span>
+                <code className="block truncate font-mono text-[10px] text-stage-text">{entry.pattern}</code>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </details>
+  );
+}
+
+function PatternChangeList({ agentKey, changes }: { agentKey: string; changes: PatternChange[] }) {
+  if (changes.length === 0) return null;
+  return (
+    <ul
+      data-testid={`agent-changes-${agentKey}`}
+      className="border-b border-stage-border bg-stage-dark/40 px-3 py-0.5 font-mono text-[10px] text-stage-muted"
+    >
+      {formatPatternChanges(changes).map((phrase, index) => (
+        <li key={index} className="truncate">{phrase}</li>
+      ))}
+    </ul>
+  );
+}
+
 function ColumnMessage({ message, agentKey }: { message: JamChatMessage; agentKey: string }) {
   const meta = AGENT_META[agentKey];
 
@@ -66,6 +259,27 @@ function ColumnMessage({ message, agentKey }: { message: JamChatMessage; agentKe
     );
   }
 
+  if (message.type === 'agent_request') {
+    // Inter-agent chat: shown in both the sender's and the recipient's column
+    const isOutgoing = message.agent === agentKey;
+    const otherKey = isOutgoing ? message.targetAgent : message.agent;
+    const otherMeta = otherKey ? AGENT_META[otherKey] : undefined;
+    const otherLabel = `${otherMeta?.emoji ?? ''} ${otherMeta?.name ?? otherKey ?? ''}`.trim();
+
+    return (
+      <div
+        className={`px-2 py-1.5 border-l-2 ${
+          isOutgoing ? 'ml-4 border-stage-border' : 'mr-4 border-sky-500/50 bg-sky-900/10'
+        }`}
+      >
+        <span className={`text-xs font-semibold ${otherMeta?.colors.accent ?? 'text-stage-muted'}`}>
+          {isOutgoing ? `to ${otherLabel}` : `${otherLabel} (to you)`}
+        </span>
+        <p className="text-xs text-stage-text">{message.text}</p>
+      </div>
+    );
+  }
+
   if (message.type === 'system') {
     return (
       <div className="px-2 py-1 text-center">
@@ -133,6 +347,12 @@ export function AgentColumn({
   isPatternChange = false,
   contextWindow,
   isContextInspectorEnabled = false,
+  mixChannel = DEFAULT_MIX_CHANNEL,
+  onMixChange,
+  patternHistory = [],
+  onRevertPattern,
+  harmony,
+  patternChanges = [],
 }: AgentColumnProps) {
   const meta = AGENT_META[agentKey];
   const scrollRef = useRef<HTMLDivElement>(null);
@@ -181,6 +401,7 @@ export function AgentColumn({
           <div className="flex items-center gap-2">
             <span className="text-base">{meta.emoji}</span>
             <span className={`text-sm font-bold ${meta.colors.accent}`}>{meta.name}</span>
+            {harmony && <HarmonyBadge agentKey={agentKey} report={harmony} />}
             {isContextInspectorEnabled && (
               <span className="text-[10px] uppercase tracking-wide text-stage-muted">
                 Context
@@ -190,6 +411,10 @@ export function AgentColumn({
           <StatusDot status={agentState.status} agentKey={agentKey} isMuted={isMuted} />
         </div>
 
+        <MixerStrip agentKey={agentKey} channel={mixChannel} onMixChange={onMixChange} />
+        <PatternHistoryMenu agentKey={agentKey} history={patternHistory} onRevertPattern={onRevertPattern} />
+        <PatternChangeList agentKey={agentKey} changes={patternChanges} />
+
         {isContextInspectorEnabled && inspectorOpen && (
           <div className="absolute z-20 left-2 right-2 top-full max-h-[55vh] overflow-y-auto rounded-md border border-stage-border bg-stage-black/95 shadow-xl backdrop-blur">
             <div className="px-2.5 py-2 border-b border-stage-border bg-stage-dark/90">
@@ -220,6 +445,11 @@ export function AgentColumn({
                           {turn.isBroadcastDirective ? 'BOSS (all):' : 'BOSS (targeted):'} {turn.directive}
                         </p>
                       )}
+                      {turn.preemptedBy !== undefined && (
+                        <p className="text-[11px] text-amber-200 mt-1">
+                          Aborted for BOSS cue: {turn.preemptedBy}
+                        </p>
+                      )}
                     </div>
 
                     <div className="px-2 py-1.5 space-y-1.5">
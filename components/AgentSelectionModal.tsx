@@ -1,16 +1,19 @@
 'use client';
 
 import { useState, useCallback, useEffect } from 'react';
-import { AGENT_META } from '@/lib/types';
+import { AGENT_META, type JamSessionSnapshotSummary } from '@/lib/types';
 
 interface AgentSelectionModalProps {
   onConfirm: (agents: string[]) => void;
   onCancel: () => void;
   initialSelection?: string[];
+  resumableSessions?: JamSessionSnapshotSummary[];
+  onResume?: (session: JamSessionSnapshotSummary) => void;
 }
 
-const AGENT_KEYS = Object.keys(AGENT_META);
+const MAX_RESUMABLE_SESSIONS_SHOWN = 5;
 
+// Built-in band blurbs; other roster agents show their role description
 const AGENT_HINTS: Record<string, string> = {
   drums: 'Syncopation-obsessed, provides the rhythmic foundation',
   bass: 'Selfless minimalist who locks in with the kick drum',
@@ -21,9 +24,16 @@ const AGENT_HINTS: Record<string, string> = {
 export function AgentSelectionModal({
   onConfirm,
   onCancel,
-  initialSelection = AGENT_KEYS,
+  initialSelection,
+  resumableSessions = [],
+  onResume,
 }: AgentSelectionModalProps) {
-  const [selected, setSelected] = useState<Set<string>>(new Set(initialSelection));
+  // Read at render: the roster may have been replaced since module load
+  const agentKeys = Object.keys(AGENT_META);
+  const [selected, setSelected] = useState<Set<string>>(() => {
+    const initial = (initialSelection ?? agentKeys).filter((key) => agentKeys.includes(key));
+    return new Set(initial.length > 0 ? initial : agentKeys);
+  });
 
   const toggle = useCallback((key: string) => {
     setSelected((prev) => {
@@ -38,8 +48,8 @@ export function AgentSelectionModal({
   }, []);
 
   const handleConfirm = useCallback(() => {
-    // Preserve order from AGENT_KEYS
-    const agents = AGENT_KEYS.filter((k) => selected.has(k));
+    // Preserve roster order
+    const agents = Object.keys(AGENT_META).filter((k) => selected.has(k));
     onConfirm(agents);
   }, [selected, onConfirm]);
 
@@ -65,7 +75,7 @@ export function AgentSelectionModal({
         <p className="text-sm text-stage-text mb-5">Choose which agents join the jam</p>
 
         <div className="space-y-2 mb-6">
-          {AGENT_KEYS.map((key) => {
+          {agentKeys.map((key) => {
             const meta = AGENT_META[key];
             const isSelected = selected.has(key);
             return (
@@ -81,7 +91,7 @@ export function AgentSelectionModal({
                 <span className="text-xl">{meta.emoji}</span>
                 <div className="flex-1">
                   <span className="font-semibold block">{meta.name}</span>
-                  <span className="text-xs text-stage-text">{AGENT_HINTS[key]}</span>
+                  <span className="text-xs text-stage-text">{AGENT_HINTS[key] ?? meta.role}</span>
                 </div>
                 <div
                   className={`w-5 h-5 rounded border-2 flex items-center justify-center transition-colors ${
@@ -103,6 +113,34 @@ export function AgentSelectionModal({
           })}
         </div>
 
+        {onResume && resumableSessions.length > 0 && (
+          <div className="mb-6">
+            <p className="text-xs uppercase tracking-wide text-stage-muted mb-2">Or resume a session</p>
+            <div className="space-y-2">
+              {resumableSessions.slice(0, MAX_RESUMABLE_SESSIONS_SHOWN).map((session) => (
+                <button
+                  key={session.sessionId}
+                  onClick={() => onResume(session)}
+                  className="w-full flex items-center gap-3 px-4 py-2 rounded-lg border border-stage-border bg-stage-dark/50 hover:bg-stage-mid/50 transition-colors text-left"
+                >
+                  <div className="flex-1 min-w-0">
+                    <span className="font-semibold text-white block truncate">
+                      {session.genre || 'Unconfigured jam'}
+                      {session.genre ? ` · ${session.key} · ${session.bpm} BPM` : ''}
+                    </span>
+                    <span className="text-xs text-stage-text">
+                      Round {session.round} · saved {new Date(session.savedAt).toLocaleString()}
+                    </span>
+                  </div>
+                  <span className="text-lg shrink-0">
+                    {session.activeAgents.map((key) => AGENT_META[key]?.emoji ?? '').join(' ')}
+                  </span>
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
         <div className="flex gap-3">
           <button
             onClick={onCancel}
@@ -43,7 +43,10 @@ export function BossInputBar({
   const filteredAgents = selectedAgents.filter((key) => {
     if (!mentionFilter) return true;
     const meta = AGENT_META[key];
-    return meta.name.toLowerCase().startsWith(mentionFilter.toLowerCase());
+    if (!meta) return false;
+    const filter = mentionFilter.toLowerCase();
+    // Roster mentions need not match the display name
+    return meta.name.toLowerCase().startsWith(filter) || meta.mention.slice(1).toLowerCase().startsWith(filter);
   });
 
   const insertMention = useCallback((agentKey: string) => {
@@ -0,0 +1,272 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { ArrangementSection, ArrangementSectionKind } from '@/lib/types';
+import {
+  ARRANGEMENT_MAX_BARS,
+  ARRANGEMENT_MAX_SECTIONS,
+  ARRANGEMENT_SECTION_KINDS,
+  ARRANGEMENT_SECTION_LABELS,
+  DEFAULT_ARRANGEMENT,
+  cloneArrangementSection,
+  normalizeArrangementSections,
+} from '@/lib/jam-arrangement';
+
+interface JamArrangementEditorProps {
+  sections: ArrangementSection[] | null;
+  currentIndex?: number;
+  onSave: (sections: ArrangementSection[]) => void;
+  onClear: () => void;
+  onCancel: () => void;
+}
+
+// Form rows keep raw text so half-typed numbers and chords are not rejected mid-edit
+interface SectionDraft {
+  kind: ArrangementSectionKind;
+  bars: string;
+  energy: string;
+  key: string;
+  chords: string;
+}
+
+function toDraft(section: ArrangementSection): SectionDraft {
+  return {
+    kind: section.kind,
+    bars: String(section.bars),
+    energy: String(section.energy),
+    key: section.key ?? '',
+    chords: (section.chords ?? []).join(' '),
+  };
+}
+
+function fromDrafts(drafts: SectionDraft[]): ArrangementSection[] | null {
+  return normalizeArrangementSections(drafts.map((draft) => ({
+    kind: draft.kind,
+    bars: Number(draft.bars),
+    energy: Number(draft.energy),
+    key: draft.key,
+    chords: draft.chords.split(/[\s,]+/),
+  })));
+}
+
+export function JamArrangementEditor({
+  sections,
+  currentIndex,
+  onSave,
+  onClear,
+  onCancel,
+}: JamArrangementEditorProps) {
+  const [drafts, setDrafts] = useState<SectionDraft[]>(
+    () => (sections ?? DEFAULT_ARRANGEMENT.map(cloneArrangementSection)).map(toDraft)
+  );
+  const [error, setError] = useState<string | null>(null);
+
+  // Escape closes, matching AgentSelectionModal
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        onCancel();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onCancel]);
+
+  const updateDraft = (index: number, patch: Partial<SectionDraft>) => {
+    setDrafts((prev) => prev.map((draft, i) => (i === index ? { ...draft, ...patch } : draft)));
+    setError(null);
+  };
+
+  const moveDraft = (index: number, offset: -1 | 1) => {
+    setDrafts((prev) => {
+      const target = index + offset;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const removeDraft = (index: number) => {
+    setDrafts((prev) => prev.filter((_, i) => i !== index));
+    setError(null);
+  };
+
+  const addDraft = () => {
+    setDrafts((prev) => [...prev, { kind: 'verse', bars: '16', energy: '5', key: '', chords: '' }]);
+  };
+
+  const handleSave = () => {
+    const normalized = fromDrafts(drafts);
+    if (!normalized) {
+      setError(
+        `Each section needs 1–${ARRANGEMENT_MAX_BARS} bars, an energy from 1 to 10, ` +
+        'and a key like "D minor" if one is given.'
+      );
+      return;
+    }
+    onSave(normalized);
+  };
+
+  const inputClass = 'bg-stage-black border border-stage-border text-white rounded px-2 py-1 text-sm';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm">
+      <div className="bg-stage-black border border-stage-border rounded-xl p-6 w-full max-w-3xl shadow-2xl shadow-amber-500/5">
+        <div className="mb-5">
+          <h2 className="text-xl font-display font-bold text-white mb-1">Song Form</h2>
+          <p className="text-sm text-stage-text">
+            Sections advance automatically by bar count; the band hears which section is playing
+          </p>
+        </div>
+
+        {error && (
+          <p className="text-xs text-red-300 bg-red-500/10 border border-red-500/30 px-2 py-1 rounded mb-4">
+            {error}
+          </p>
+        )}
+
+        <div className="grid grid-cols-[1.5rem_8rem_4rem_4rem_7rem_1fr_auto] gap-2 items-center text-xs text-stage-muted mb-2 px-1">
+          <span />
+          <span>Section</span>
+          <span>Bars</span>
+          <span>Energy</span>
+          <span>Key</span>
+          <span>Chords</span>
+          <span />
+        </div>
+
+        <div className="space-y-2 mb-4 max-h-80 overflow-y-auto px-1">
+          {drafts.map((draft, index) => (
+            <div
+              key={index}
+              className="grid grid-cols-[1.5rem_8rem_4rem_4rem_7rem_1fr_auto] gap-2 items-center"
+            >
+              <span className={`text-xs font-mono ${index === currentIndex ? 'text-emerald-300' : 'text-stage-muted'}`}>
+                {index + 1}
+              </span>
+              <select
+                value={draft.kind}
+                onChange={(e) => updateDraft(index, { kind: e.target.value as ArrangementSectionKind })}
+                className={inputClass}
+                aria-label={`Section ${index + 1} type`}
+              >
+                {ARRANGEMENT_SECTION_KINDS.map((kind) => (
+                  <option key={kind} value={kind}>{ARRANGEMENT_SECTION_LABELS[kind]}</option>
+                ))}
+              </select>
+              <input
+                type="number"
+                min={1}
+                max={ARRANGEMENT_MAX_BARS}
+                value={draft.bars}
+                onChange={(e) => updateDraft(index, { bars: e.target.value })}
+                className={inputClass}
+                aria-label={`Section ${index + 1} bars`}
+              />
+              <input
+                type="number"
+                min={1}
+                max={10}
+                value={draft.energy}
+                onChange={(e) => updateDraft(index, { energy: e.target.value })}
+                className={inputClass}
+                aria-label={`Section ${index + 1} energy`}
+              />
+              <input
+                type="text"
+                value={draft.key}
+                placeholder="Keep"
+                onChange={(e) => updateDraft(index, { key: e.target.value })}
+                className={inputClass}
+                aria-label={`Section ${index + 1} key`}
+              />
+              <input
+                type="text"
+                value={draft.chords}
+                placeholder="Keep"
+                onChange={(e) => updateDraft(index, { chords: e.target.value })}
+                className={`${inputClass} font-mono`}
+                aria-label={`Section ${index + 1} chords`}
+              />
+              <div className="flex items-center gap-1">
+                <button
+                  onClick={() => moveDraft(index, -1)}
+                  disabled={index === 0}
+                  className="px-1.5 py-0.5 rounded text-xs text-stage-text hover:bg-stage-mid/70 disabled:opacity-30"
+                  aria-label={`Move section ${index + 1} up`}
+                >
+                  ↑
+                </button>
+                <button
+                  onClick={() => moveDraft(index, 1)}
+                  disabled={index === drafts.length - 1}
+                  className="px-1.5 py-0.5 rounded text-xs text-stage-text hover:bg-stage-mid/70 disabled:opacity-30"
+                  aria-label={`Move section ${index + 1} down`}
+                >
+                  ↓
+                </button>
+                <button
+                  onClick={() => removeDraft(index)}
+                  disabled={drafts.length === 1}
+                  className="px-1.5 py-0.5 rounded text-xs text-red-300 hover:bg-red-500/10 disabled:opacity-30"
+                  aria-label={`Remove section ${index + 1}`}
+                >
+                  ✕
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex items-center gap-2 mb-6">
+          <button
+            onClick={addDraft}
+            disabled={drafts.length >= ARRANGEMENT_MAX_SECTIONS}
+            className="px-2.5 py-1 rounded text-xs font-medium border border-stage-border bg-stage-mid/40 text-stage-text hover:bg-stage-mid/70 disabled:opacity-50"
+          >
+            + Add Section
+          </button>
+          <button
+            onClick={() => {
+              setDrafts(DEFAULT_ARRANGEMENT.map(toDraft));
+              setError(null);
+            }}
+            className="px-2.5 py-1 rounded text-xs font-medium border border-stage-border bg-stage-mid/40 text-stage-text hover:bg-stage-mid/70"
+          >
+            Reset to Default
+          </button>
+          {sections && (
+            <button
+              onClick={onClear}
+              className="ml-auto px-2.5 py-1 rounded text-xs font-medium border border-red-500/40 bg-red-500/10 text-red-300 hover:bg-red-500/20"
+            >
+              Remove Song Form
+            </button>
+          )}
+        </div>
+
+        <div className="flex gap-3">
+          <button
+            onClick={onCancel}
+            className="flex-1 px-4 py-2.5 bg-stage-dark hover:bg-stage-mid text-stage-text rounded-lg font-medium transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={drafts.length === 0}
+            className="flex-1 px-4 py-2.5 bg-amber-500 hover:bg-amber-400 text-stage-black rounded-lg font-medium transition-colors disabled:opacity-50"
+          >
+            Save
+          </button>
+        </div>
+
+        <p className="text-xs text-stage-muted text-center mt-3">
+          Esc to cancel
+        </p>
+      </div>
+    </div>
+  );
+}
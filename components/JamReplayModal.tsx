@@ -0,0 +1,102 @@
+'use client';
+
+import { useEffect } from 'react';
+import { AGENT_META, type JamRecordingSummary } from '@/lib/types';
+import { formatJamRecordingDuration } from '@/lib/jam-recording';
+
+interface JamReplayModalProps {
+  recordings: JamRecordingSummary[];
+  isLoading: boolean;
+  error?: string | null;
+  onRefresh: () => void;
+  onSelect: (recording: JamRecordingSummary) => void;
+  onCancel: () => void;
+}
+
+export function JamReplayModal({
+  recordings,
+  isLoading,
+  error,
+  onRefresh,
+  onSelect,
+  onCancel,
+}: JamReplayModalProps) {
+  // Escape closes, matching AgentSelectionModal
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        onCancel();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onCancel]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm">
+      <div className="bg-stage-black border border-stage-border rounded-xl p-6 w-full max-w-lg shadow-2xl shadow-amber-500/5">
+        <div className="flex items-start justify-between mb-5">
+          <div>
+            <h2 className="text-xl font-display font-bold text-white mb-1">Replay a Session</h2>
+            <p className="text-sm text-stage-text">Recorded jams play back at their original timing</p>
+          </div>
+          <button
+            onClick={onRefresh}
+            disabled={isLoading}
+            className="px-2.5 py-1 rounded text-xs font-medium border border-stage-border bg-stage-mid/40 text-stage-text hover:bg-stage-mid/70 disabled:opacity-50"
+          >
+            {isLoading ? 'Loading…' : 'Refresh'}
+          </button>
+        </div>
+
+        {error && (
+          <p className="text-xs text-red-300 bg-red-500/10 border border-red-500/30 px-2 py-1 rounded mb-4">
+            {error}
+          </p>
+        )}
+
+        <div className="space-y-2 mb-6 max-h-80 overflow-y-auto">
+          {!isLoading && recordings.length === 0 && (
+            <p className="text-sm text-stage-muted text-center py-6">No recorded jam sessions yet.</p>
+          )}
+          {recordings.map((recording) => (
+            <button
+              key={recording.id}
+              onClick={() => onSelect(recording)}
+              disabled={recording.activeAgents.length === 0}
+              className="w-full flex items-center gap-3 px-4 py-3 rounded-lg border border-stage-border bg-stage-dark/50 hover:bg-stage-mid/50 transition-colors text-left disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <div className="flex-1 min-w-0">
+                <span className="font-semibold text-white block truncate">
+                  {recording.startedAt ? new Date(recording.startedAt).toLocaleString() : recording.id}
+                </span>
+                <span className="text-xs text-stage-text">
+                  {formatJamRecordingDuration(recording.durationMs)}
+                  {' · '}
+                  {recording.directiveCount} directive{recording.directiveCount !== 1 ? 's' : ''}
+                  {' · '}
+                  {recording.eventCount} events
+                </span>
+              </div>
+              <span className="text-lg shrink-0">
+                {recording.activeAgents.map((key) => AGENT_META[key]?.emoji ?? '').join(' ')}
+              </span>
+            </button>
+          ))}
+        </div>
+
+        <button
+          onClick={onCancel}
+          className="w-full px-4 py-2.5 bg-stage-dark hover:bg-stage-mid text-stage-text rounded-lg font-medium transition-colors"
+        >
+          Cancel
+        </button>
+
+        <p className="text-xs text-stage-muted text-center mt-3">
+          Esc to cancel
+        </p>
+      </div>
+    </div>
+  );
+}
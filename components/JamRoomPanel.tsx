@@ -0,0 +1,96 @@
+'use client';
+
+import { useState } from 'react';
+import type { JamRoomState } from '@/lib/types';
+import { JAM_ROOM_MEMBER_NAME_MAX_LENGTH, JAM_ROOM_NAME_MAX_LENGTH } from '@/lib/jam-rooms';
+
+interface JamRoomPanelProps {
+  roomState: JamRoomState | null;
+  isConnected: boolean;
+  onJoin: (room: string, name: string) => void;
+  onLeave: () => void;
+}
+
+/** Landing-page controls for joining a shared jam room as boss or spectator. */
+export function JamRoomPanel({ roomState, isConnected, onJoin, onLeave }: JamRoomPanelProps) {
+  const [roomName, setRoomName] = useState('');
+  const [memberName, setMemberName] = useState('');
+
+  const sharedRoom = roomState && !roomState.isPrivate ? roomState : null;
+  const boss = sharedRoom?.members.find((member) => member.role === 'boss') ?? null;
+  const canJoin = isConnected && roomName.trim().length > 0;
+
+  if (sharedRoom) {
+    return (
+      <div className="w-full max-w-md mb-10 rounded-xl border border-amber-500/30 bg-stage-dark/60 p-4">
+        <div className="flex items-center justify-between gap-3 mb-3">
+          <div>
+            <p className="text-xs uppercase tracking-wide text-amber-300">Room</p>
+            <p className="font-mono text-white">{sharedRoom.room}</p>
+          </div>
+          <button
+            onClick={onLeave}
+            className="px-3 py-1.5 rounded-md text-sm font-medium border border-stage-border bg-stage-mid/40 hover:bg-stage-mid/70 text-stage-text transition-colors"
+          >
+            Leave Room
+          </button>
+        </div>
+        <ul className="flex flex-wrap gap-2 mb-3">
+          {sharedRoom.members.map((member) => (
+            <li
+              key={member.id}
+              className={`px-2 py-0.5 rounded text-xs border ${
+                member.role === 'boss'
+                  ? 'border-amber-500/50 bg-amber-500/10 text-amber-200'
+                  : 'border-stage-border bg-stage-mid/40 text-stage-text'
+              }`}
+            >
+              {member.name}
+              {member.id === sharedRoom.memberId ? ' (you)' : ''}
+              {member.role === 'boss' ? ' · boss' : ''}
+            </li>
+          ))}
+        </ul>
+        <p className="text-sm text-stage-muted">
+          {sharedRoom.role === 'boss'
+            ? 'You are the boss: start a jam and everyone in the room hears it.'
+            : `Waiting for ${boss?.name ?? 'the boss'} to start the jam…`}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <form
+      className="w-full max-w-md mb-10 flex flex-wrap items-center gap-2"
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (canJoin) onJoin(roomName.trim(), memberName.trim());
+      }}
+    >
+      <input
+        value={roomName}
+        onChange={(e) => setRoomName(e.target.value)}
+        maxLength={JAM_ROOM_NAME_MAX_LENGTH}
+        placeholder="Room name"
+        aria-label="Jam room name"
+        className="flex-1 min-w-[140px] bg-stage-black border border-stage-border text-white rounded px-2 py-1.5 text-sm"
+      />
+      <input
+        value={memberName}
+        onChange={(e) => setMemberName(e.target.value)}
+        maxLength={JAM_ROOM_MEMBER_NAME_MAX_LENGTH}
+        placeholder="Your name"
+        aria-label="Your name in the room"
+        className="flex-1 min-w-[120px] bg-stage-black border border-stage-border text-white rounded px-2 py-1.5 text-sm"
+      />
+      <button
+        type="submit"
+        disabled={!canJoin}
+        className="px-4 py-1.5 rounded-lg text-sm font-medium border border-stage-border bg-stage-dark/60 hover:bg-stage-mid/60 text-stage-text transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        Join Room
+      </button>
+    </form>
+  );
+}
@@ -1,7 +1,43 @@
 'use client';
 
 import { useEffect, useMemo, useState } from 'react';
-import type { AutoTickTiming, MusicalContext } from '@/lib/types';
+import type {
+  AutoTickSchedule,
+  AutoTickTiming,
+  DirectiveQueuePayload,
+  HarmonyProposal,
+  JamArrangementState,
+  JamRoomState,
+  JamSessionBudget,
+  JamUsageSnapshot,
+  MusicalContext,
+} from '@/lib/types';
+import { AGENT_META } from '@/lib/types';
+import { formatJamRecordingDuration } from '@/lib/jam-recording';
+import { formatArrangementSectionLabel } from '@/lib/jam-arrangement';
+import { deriveCyclesPerMinute } from '@/lib/jam-tempo';
+import {
+  JAM_QUANTIZE_OPTIONS,
+  formatQuantizeTarget,
+  isJamQuantizeBars,
+  type JamQuantizeBars,
+} from '@/lib/jam-quantize';
+import {
+  AUTO_TICK_BARS_OPTIONS,
+  AUTO_TICK_MODE_OPTIONS,
+  DEFAULT_AUTO_TICK_SCHEDULE,
+  isAutoTickMode,
+  isTempoRelativeSchedule,
+} from '@/lib/jam-auto-tick-schedule';
+import { formatTokenCount, formatUsd } from '@/lib/jam-usage';
+import { formatHarmonyProposalValue, getHarmonyProposalQuorum } from '@/lib/jam-harmony-proposals';
+import { DEFAULT_MIDI_EXPORT_CYCLES, MIDI_EXPORT_CYCLE_OPTIONS } from '@/lib/jam-midi-export';
+import {
+  DEFAULT_JAM_AUDIO_RECORD_BARS,
+  JAM_AUDIO_RECORD_BAR_OPTIONS,
+  type JamAudioFormat,
+} from '@/lib/jam-audio-export';
+import type { JamAudioRecordingStatus } from '@/hooks/useJamAudioRecorder';
 import type { JamPreset } from '@/lib/musical-context-presets';
 import { presetToMusicalContext } from '@/lib/musical-context-presets';
 
@@ -24,10 +60,39 @@ interface JamTopBarProps {
   canEnableCameraConductor?: boolean;
   cameraConductorError?: string | null;
   cameraConductorIntentStatus?: string | null;
+  // Set while replaying a recorded session: live controls are hidden
+  replayStatus?: { progressMs: number; durationMs: number } | null;
+  // Shared jam room; spectators see the jam but not its controls
+  roomState?: JamRoomState | null;
+  arrangement?: JamArrangementState | null;
+  quantizeBars?: JamQuantizeBars;
+  // Bars the next jam pattern is waiting on; null when nothing is queued
+  queuedPatternBars?: number | null;
+  // Boss directives still waiting for a band turn
+  directiveQueue?: DirectiveQueuePayload | null;
+  // Model usage and the session budget governor
+  usage?: JamUsageSnapshot | null;
+  // Key and chord proposals awaiting the band's quorum, plus recent outcomes
+  harmonyProposals?: HarmonyProposal[];
   onSelectPreset: (presetId: string | null) => void;
   onPlayJam: () => void;
   onStopJam: () => void;
   onToggleCameraConductor?: (enabled: boolean) => void;
+  onEditArrangement?: () => void;
+  onSkipSection?: () => void;
+  onQuantizeBarsChange?: (bars: JamQuantizeBars) => void;
+  onHandOffBoss?: (memberId: number) => void;
+  onCancelDirective?: (directiveId: number) => void;
+  onAutoTickScheduleChange?: (schedule: AutoTickSchedule) => void;
+  onSessionBudgetChange?: (budget: JamSessionBudget) => void;
+  onResolveHarmonyProposal?: (proposalId: number, approve: boolean) => void;
+  // Download the current patterns as a MIDI file, expanded over this many bars
+  onExportMidi?: (cycles: number) => void;
+  // Record the Strudel output for this many bars (null: until stopped or the jam ends)
+  audioRecording?: JamAudioRecordingStatus | null;
+  audioRecordingError?: string | null;
+  onStartAudioRecording?: (bars: number | null, format: JamAudioFormat) => void;
+  onStopAudioRecording?: () => void;
 }
 
 export function JamTopBar({
@@ -49,13 +114,39 @@ export function JamTopBar({
   canEnableCameraConductor = false,
   cameraConductorError,
   cameraConductorIntentStatus = null,
+  replayStatus = null,
+  roomState = null,
+  arrangement = null,
+  quantizeBars = 0,
+  queuedPatternBars = null,
+  directiveQueue = null,
+  usage = null,
+  harmonyProposals = [],
   onSelectPreset,
   onPlayJam,
   onStopJam,
   onToggleCameraConductor,
+  onEditArrangement,
+  onSkipSection,
+  onQuantizeBarsChange,
+  onHandOffBoss,
+  onCancelDirective,
+  onAutoTickScheduleChange,
+  onSessionBudgetChange,
+  onResolveHarmonyProposal,
+  onExportMidi,
+  audioRecording = null,
+  audioRecordingError = null,
+  onStartAudioRecording,
+  onStopAudioRecording,
 }: JamTopBarProps) {
   const [clockNowMs, setClockNowMs] = useState<number>(() => Date.now());
+  const [midiExportCycles, setMidiExportCycles] = useState<number>(DEFAULT_MIDI_EXPORT_CYCLES);
+  // 0 in the select stands for the whole session
+  const [audioRecordBars, setAudioRecordBars] = useState<number>(DEFAULT_JAM_AUDIO_RECORD_BARS);
+  const [audioRecordFormat, setAudioRecordFormat] = useState<JamAudioFormat>('wav');
   const [localAutoTickDeadlineMs, setLocalAutoTickDeadlineMs] = useState<number | null>(null);
+  const [localSectionDeadlineMs, setLocalSectionDeadlineMs] = useState<number | null>(null);
 
   const selectedPreset = useMemo(
     () => (selectedPresetId ? presets.find((preset) => preset.id === selectedPresetId) ?? null : null),
@@ -102,6 +193,35 @@ export function JamTopBar({
     return () => window.clearInterval(intervalId);
   }, [showAutoTickCountdown, localAutoTickDeadlineMs]);
 
+  useEffect(() => {
+    const rafId = window.requestAnimationFrame(() => {
+      if (!arrangement?.nextSectionAtMs) {
+        setLocalSectionDeadlineMs(null);
+        return;
+      }
+
+      // Same anchoring as the autotick countdown
+      const millisUntilSection = Math.max(0, arrangement.nextSectionAtMs - arrangement.serverNowMs);
+      const now = Date.now();
+      setClockNowMs(now);
+      setLocalSectionDeadlineMs(now + millisUntilSection);
+    });
+
+    return () => window.cancelAnimationFrame(rafId);
+  }, [arrangement?.nextSectionAtMs, arrangement?.serverNowMs]);
+
+  useEffect(() => {
+    if (localSectionDeadlineMs === null) {
+      return;
+    }
+
+    const intervalId = window.setInterval(() => {
+      setClockNowMs(Date.now());
+    }, 500);
+
+    return () => window.clearInterval(intervalId);
+  }, [localSectionDeadlineMs]);
+
   const autoTickRemainingMs = localAutoTickDeadlineMs === null
     ? null
     : Math.max(0, localAutoTickDeadlineMs - clockNowMs);
@@ -114,71 +234,465 @@ export function JamTopBar({
     ? 0
     : Math.min(100, Math.max(0, ((autoTickIntervalMs - autoTickRemainingMs) / autoTickIntervalMs) * 100));
   const isAutoTickImminent = autoTickRemainingMs !== null && autoTickRemainingMs <= 3_000;
+  const autoTickSchedule = autoTickTiming?.schedule ?? DEFAULT_AUTO_TICK_SCHEDULE;
+  // Round-robin ticks prompt one agent; name it next to the countdown
+  const nextAutoTickAgent = autoTickSchedule.mode === 'round_robin' && autoTickTiming?.nextAgents?.length === 1
+    ? AGENT_META[autoTickTiming.nextAgents[0]]?.name ?? autoTickTiming.nextAgents[0]
+    : null;
+  const isReplay = replayStatus !== null;
+  const sharedRoom = roomState && !roomState.isPrivate ? roomState : null;
+  const isSpectator = sharedRoom?.role === 'spectator';
+  const showLiveControls = !isReplay && !isSpectator;
+  const roomBoss = sharedRoom?.members.find((member) => member.role === 'boss') ?? null;
+  const handOffCandidates = sharedRoom && !isSpectator
+    ? sharedRoom.members.filter((member) => member.id !== sharedRoom.memberId)
+    : [];
+
+  const currentSection = arrangement ? arrangement.sections[arrangement.currentIndex] ?? null : null;
+  const nextSection = arrangement ? arrangement.sections[arrangement.currentIndex + 1] ?? null : null;
+  const cyclesPerMinute = deriveCyclesPerMinute(musicalContext.bpm, musicalContext.timeSignature);
+  // Bars left in the section, interpolated locally between server updates
+  const sectionBarsLeft = arrangement && currentSection
+    ? localSectionDeadlineMs !== null && cyclesPerMinute > 0
+      ? (Math.max(0, localSectionDeadlineMs - clockNowMs) / 60_000) * cyclesPerMinute
+      : arrangement.barsUntilNext ?? currentSection.bars - arrangement.barsElapsed
+    : null;
+  const sectionProgressPct = currentSection && sectionBarsLeft !== null
+    ? Math.min(100, Math.max(0, ((currentSection.bars - sectionBarsLeft) / currentSection.bars) * 100))
+    : 0;
+  const totalArrangementBars = arrangement
+    ? arrangement.sections.reduce((sum, section) => sum + section.bars, 0)
+    : 0;
+  const budgetState = usage?.budgetState ?? 'ok';
+  const pendingHarmonyCount = harmonyProposals.filter((proposal) => proposal.status === 'pending').length;
+  const budgetPct = usage?.budgetUsedFraction != null ? Math.min(100, usage.budgetUsedFraction * 100) : null;
+  const usageSummary = usage
+    ? [
+      `${formatUsd(usage.session.costUsd)}${usage.budget.maxCostUsd !== null ? ` / ${formatUsd(usage.budget.maxCostUsd)}` : ''}`,
+      `${formatTokenCount(usage.session.inputTokens + usage.session.outputTokens)}${usage.budget.maxTokens !== null ? ` / ${formatTokenCount(usage.budget.maxTokens)}` : ''} tok`,
+    ].join(' · ')
+    : null;
+  const replayProgressPct = replayStatus && replayStatus.durationMs > 0
+    ? Math.min(100, (replayStatus.progressMs / replayStatus.durationMs) * 100)
+    : 0;
 
   return (
     <div className="flex flex-wrap items-center gap-3 px-4 py-2 bg-stage-dark border-b border-stage-border shrink-0">
-      <label className="flex items-center gap-2 text-sm text-stage-text shrink-0">
-        <span className="text-xs uppercase tracking-wide text-stage-muted">Preset</span>
-        <select
-          value={selectedPresetId ?? ''}
-          onChange={(e) => onSelectPreset(e.target.value || null)}
-          disabled={isPresetLocked}
-          className="bg-stage-black border border-stage-border text-white rounded px-2 py-1 text-sm min-w-[220px] disabled:opacity-60 disabled:cursor-not-allowed"
-          aria-label="Jam genre preset"
+      {replayStatus && (
+        <div className="flex items-center gap-2 px-2 py-1 rounded border border-purple-500/40 bg-purple-500/10 shrink-0">
+          <span className="text-xs uppercase tracking-wide text-purple-300">Replay</span>
+          <span className="text-sm font-mono text-stage-text whitespace-nowrap">
+            {formatJamRecordingDuration(replayStatus.progressMs)} / {formatJamRecordingDuration(replayStatus.durationMs)}
+          </span>
+          <div className="h-1.5 w-20 rounded-full bg-stage-mid overflow-hidden" aria-hidden="true">
+            <div className="h-full bg-purple-400" style={{ width: `${replayProgressPct}%` }} />
+          </div>
+        </div>
+      )}
+
+      {sharedRoom && (
+        <div className="flex items-center gap-2 px-2 py-1 rounded border border-amber-500/40 bg-amber-500/10 shrink-0">
+          <span className="text-xs uppercase tracking-wide text-amber-300">Room</span>
+          <span className="text-sm font-mono text-stage-text whitespace-nowrap">{sharedRoom.room}</span>
+          <span className="text-xs text-stage-muted whitespace-nowrap">
+            {sharedRoom.members.length} in room · {isSpectator ? `spectating${roomBoss ? ` · boss: ${roomBoss.name}` : ''}` : 'you are the boss'}
+          </span>
+          {onHandOffBoss && handOffCandidates.length > 0 && (
+            <select
+              value=""
+              onChange={(e) => {
+                const memberId = Number(e.target.value);
+                if (e.target.value && Number.isInteger(memberId)) onHandOffBoss(memberId);
+              }}
+              className="bg-stage-black border border-stage-border text-white rounded px-1.5 py-0.5 text-xs"
+              aria-label="Hand off the boss role"
+            >
+              <option value="">Hand off boss…</option>
+              {handOffCandidates.map((member) => (
+                <option key={member.id} value={member.id}>
+                  {member.name}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+      )}
+
+      {showLiveControls && (
+        <label className="flex items-center gap-2 text-sm text-stage-text shrink-0">
+          <span className="text-xs uppercase tracking-wide text-stage-muted">Preset</span>
+          <select
+            value={selectedPresetId ?? ''}
+            onChange={(e) => onSelectPreset(e.target.value || null)}
+            disabled={isPresetLocked}
+            className="bg-stage-black border border-stage-border text-white rounded px-2 py-1 text-sm min-w-[220px] disabled:opacity-60 disabled:cursor-not-allowed"
+            aria-label="Jam genre preset"
+          >
+            <option value="">Select a genre preset…</option>
+            {presets.map((preset) => (
+              <option key={preset.id} value={preset.id}>
+                {preset.genre}
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
+
+      {showLiveControls && (
+        <button
+          onClick={onPlayJam}
+          disabled={!canPlayJam}
+          className={`px-3 py-1.5 rounded-md text-sm font-medium transition-colors shrink-0 ${
+            isPlaying
+              ? 'bg-green-600 text-white'
+              : 'bg-stage-mid hover:bg-stage-border text-white'
+          } disabled:opacity-50 disabled:cursor-not-allowed`}
         >
-          <option value="">Select a genre preset…</option>
-          {presets.map((preset) => (
-            <option key={preset.id} value={preset.id}>
-              {preset.genre}
-            </option>
-          ))}
-        </select>
-      </label>
+          {isPlaying ? '▶ Playing' : '▶ Play'}
+        </button>
+      )}
 
-      <button
-        onClick={onPlayJam}
-        disabled={!canPlayJam}
-        className={`px-3 py-1.5 rounded-md text-sm font-medium transition-colors shrink-0 ${
-          isPlaying
-            ? 'bg-green-600 text-white'
-            : 'bg-stage-mid hover:bg-stage-border text-white'
-        } disabled:opacity-50 disabled:cursor-not-allowed`}
-      >
-        {isPlaying ? '▶ Playing' : '▶ Play'}
-      </button>
+      {onQuantizeBarsChange && (
+        <label className="flex items-center gap-2 text-sm text-stage-text shrink-0">
+          <span className="text-xs uppercase tracking-wide text-stage-muted">Quantize</span>
+          <select
+            value={quantizeBars}
+            onChange={(e) => {
+              const bars = Number(e.target.value);
+              if (isJamQuantizeBars(bars)) onQuantizeBarsChange(bars);
+            }}
+            className="bg-stage-black border border-stage-border text-white rounded px-2 py-1 text-sm"
+            aria-label="Pattern change quantization"
+          >
+            {JAM_QUANTIZE_OPTIONS.map((option) => (
+              <option key={option.bars} value={option.bars}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
+
+      {showLiveControls && onAutoTickScheduleChange && (
+        <label className="flex items-center gap-2 text-sm text-stage-text shrink-0">
+          <span className="text-xs uppercase tracking-wide text-stage-muted">Autotick</span>
+          <select
+            value={autoTickSchedule.mode}
+            onChange={(e) => {
+              const mode = e.target.value;
+              if (isAutoTickMode(mode)) onAutoTickScheduleChange({ ...autoTickSchedule, mode });
+            }}
+            className="bg-stage-black border border-stage-border text-white rounded px-2 py-1 text-sm"
+            aria-label="Auto-tick schedule"
+          >
+            {AUTO_TICK_MODE_OPTIONS.map((option) => (
+              <option key={option.mode} value={option.mode}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          {isTempoRelativeSchedule(autoTickSchedule) && (
+            <select
+              value={autoTickSchedule.bars}
+              onChange={(e) => onAutoTickScheduleChange({ ...autoTickSchedule, bars: Number(e.target.value) })}
+              className="bg-stage-black border border-stage-border text-white rounded px-2 py-1 text-sm"
+              aria-label="Bars between auto-ticks"
+            >
+              {AUTO_TICK_BARS_OPTIONS.map((bars) => (
+                <option key={bars} value={bars}>
+                  {bars} bars
+                </option>
+              ))}
+            </select>
+          )}
+        </label>
+      )}
+
+      {queuedPatternBars !== null && (
+        <span className="text-xs text-amber-300 bg-amber-500/10 border border-amber-500/30 px-2 py-1 rounded shrink-0 animate-pulse">
+          Queued for {formatQuantizeTarget(queuedPatternBars)}
+        </span>
+      )}
+
+      {directiveQueue && directiveQueue.pending.length > 0 && (
+        <details className="relative shrink-0" data-testid="directive-queue">
+          <summary className="list-none cursor-pointer text-xs text-amber-300 bg-amber-500/10 border border-amber-500/30 px-2 py-1 rounded whitespace-nowrap">
+            {directiveQueue.pending.length} cue{directiveQueue.pending.length === 1 ? '' : 's'} queued
+            {directiveQueue.etaMs !== null ? ` · ~${Math.max(1, Math.round(directiveQueue.etaMs / 1000))}s` : ''}
+          </summary>
+          <ul className="absolute z-30 left-0 top-full mt-1 w-72 rounded-md border border-stage-border bg-stage-black/95 shadow-xl py-1">
+            {directiveQueue.pending.map((directive) => {
+              const target = directive.targetAgent ? AGENT_META[directive.targetAgent] : null;
+              return (
+                <li key={directive.id} className="flex items-start gap-2 px-2 py-1">
+                  <span className="flex-1 min-w-0 text-xs text-stage-text break-words">
+                    <span className="text-amber-300">
+                      {target ? `@${target.name}` : 'All'}
+                      {directive.cueCount > 1 ? ` (${directive.cueCount} cues)` : ''}:
+                    </span>{' '}
+                    {directive.text}
+                  </span>
+                  {onCancelDirective && (
+                    <button
+                      type="button"
+                      onClick={() => onCancelDirective(directive.id)}
+                      className="text-xs text-stage-muted hover:text-red-300"
+                      aria-label={`Cancel queued directive: ${directive.text}`}
+                    >
+                      ✕
+                    </button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </details>
+      )}
+
+      {usage && usageSummary && (
+        <details className="relative shrink-0" data-testid="budget-meter">
+          <summary className="list-none cursor-pointer flex items-center gap-2 px-2 py-1 rounded border border-stage-border bg-stage-black/60">
+            <span className="text-xs uppercase tracking-wide text-stage-muted">Budget</span>
+            <span className="text-xs font-mono text-stage-text whitespace-nowrap">{usageSummary}</span>
+            {budgetPct !== null && (
+              <div className="h-1.5 w-16 rounded-full bg-stage-mid overflow-hidden" aria-hidden="true">
+                <div
+                  className={`h-full ${budgetState === 'paused' ? 'bg-red-400' : budgetState === 'slowed' ? 'bg-amber-400' : 'bg-cyan-400'}`}
+                  style={{ width: `${budgetPct}%` }}
+                />
+              </div>
+            )}
+            {budgetState !== 'ok' && (
+              <span className={`text-xs whitespace-nowrap ${budgetState === 'paused' ? 'text-red-300' : 'text-amber-300'}`}>
+                {budgetState === 'paused' ? 'Autotick paused' : 'Autotick slowed'}
+              </span>
+            )}
+          </summary>
+          <div className="absolute z-30 left-0 top-full mt-1 w-80 rounded-md border border-stage-border bg-stage-black/95 shadow-xl p-2 space-y-2">
+            <ul className="space-y-0.5">
+              {Object.entries(usage.agents).map(([key, totals]) => (
+                <li key={key} className="flex items-center gap-2 text-xs text-stage-text">
+                  <span className="flex-1 min-w-0 truncate">{AGENT_META[key]?.name ?? key}</span>
+                  <span className="font-mono text-stage-muted whitespace-nowrap">
+                    {totals.turns} turns · {totals.turns > 0 ? (totals.durationMs / totals.turns / 1000).toFixed(1) : '0.0'}s avg
+                  </span>
+                  <span className="font-mono whitespace-nowrap">
+                    {formatTokenCount(totals.inputTokens + totals.outputTokens)} tok · {formatUsd(totals.costUsd)}
+                  </span>
+                </li>
+              ))}
+              {Object.keys(usage.agents).length === 0 && (
+                <li className="text-xs text-stage-muted">No agent turns yet</li>
+              )}
+            </ul>
+            {showLiveControls && onSessionBudgetChange && (
+              <form
+                // Remount so the inputs show the server's budget after each change
+                key={`${usage.budget.maxCostUsd}:${usage.budget.maxTokens}`}
+                className="flex items-center gap-2 pt-2 border-t border-stage-border"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  const data = new FormData(e.currentTarget);
+                  const readLimit = (name: string) => {
+                    const value = Number(data.get(name));
+                    return data.get(name) !== '' && Number.isFinite(value) && value > 0 ? value : null;
+                  };
+                  onSessionBudgetChange({ maxCostUsd: readLimit('maxCostUsd'), maxTokens: readLimit('maxTokens') });
+                }}
+              >
+                <input
+                  name="maxCostUsd"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  placeholder="$ limit"
+                  defaultValue={usage.budget.maxCostUsd ?? ''}
+                  className="w-20 bg-stage-black border border-stage-border text-white rounded px-1.5 py-0.5 text-xs"
+                  aria-label="Session cost limit in USD"
+                />
+                <input
+                  name="maxTokens"
+                  type="number"
+                  min="0"
+                  step="1000"
+                  placeholder="Token limit"
+                  defaultValue={usage.budget.maxTokens ?? ''}
+                  className="w-24 bg-stage-black border border-stage-border text-white rounded px-1.5 py-0.5 text-xs"
+                  aria-label="Session token limit"
+                />
+                <button
+                  type="submit"
+                  className="px-1.5 py-0.5 rounded text-xs border border-stage-border bg-stage-mid/40 text-stage-text hover:bg-stage-mid/70"
+                >
+                  Set
+                </button>
+              </form>
+            )}
+          </div>
+        </details>
+      )}
+
+      {harmonyProposals.length > 0 && (
+        <details className="relative shrink-0" data-testid="harmony-proposals">
+          <summary className="list-none cursor-pointer text-xs text-violet-300 bg-violet-500/10 border border-violet-500/30 px-2 py-1 rounded whitespace-nowrap">
+            Harmony{pendingHarmonyCount > 0 ? ` · ${pendingHarmonyCount} open` : ''}
+          </summary>
+          <ul className="absolute z-30 left-0 top-full mt-1 w-80 rounded-md border border-stage-border bg-stage-black/95 shadow-xl py-1">
+            {[...harmonyProposals].reverse().map((proposal) => {
+              const isPending = proposal.status === 'pending';
+              return (
+                <li key={proposal.id} className="flex items-start gap-2 px-2 py-1">
+                  <span className="flex-1 min-w-0 text-xs text-stage-text break-words">
+                    <span className={isPending ? 'text-violet-300' : 'text-stage-muted'}>
+                      {AGENT_META[proposal.proposedBy]?.name ?? proposal.proposedBy}:
+                    </span>{' '}
+                    {formatHarmonyProposalValue(proposal)}
+                    <span className="block text-stage-muted">
+                      {isPending
+                        ? `${proposal.supporters.length}/${getHarmonyProposalQuorum(proposal.kind)} for · ${proposal.objectors.length} against`
+                        : `${proposal.status}${proposal.resolvedBy === 'boss' ? ' by boss' : ''} · ${proposal.supporters.length} for · ${proposal.objectors.length} against`}
+                    </span>
+                  </span>
+                  {isPending && showLiveControls && onResolveHarmonyProposal && (
+                    <span className="flex gap-1 shrink-0">
+                      <button
+                        type="button"
+                        onClick={() => onResolveHarmonyProposal(proposal.id, true)}
+                        className="px-1.5 py-0.5 rounded text-xs border border-emerald-500/40 text-emerald-300 hover:bg-emerald-500/15"
+                        aria-label={`Approve ${formatHarmonyProposalValue(proposal)}`}
+                      >
+                        Approve
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => onResolveHarmonyProposal(proposal.id, false)}
+                        className="px-1.5 py-0.5 rounded text-xs border border-stage-border text-stage-muted hover:text-red-300"
+                        aria-label={`Reject ${formatHarmonyProposalValue(proposal)}`}
+                      >
+                        Reject
+                      </button>
+                    </span>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </details>
+      )}
+
+      {onExportMidi && (
+        <div className="flex items-center gap-1 shrink-0" data-testid="midi-export">
+          <select
+            value={midiExportCycles}
+            onChange={(e) => setMidiExportCycles(Number(e.target.value))}
+            className="bg-stage-black border border-stage-border text-white rounded px-1.5 py-1 text-xs"
+            aria-label="Bars to export as MIDI"
+          >
+            {MIDI_EXPORT_CYCLE_OPTIONS.map((cycles) => (
+              <option key={cycles} value={cycles}>
+                {cycles} bars
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={() => onExportMidi(midiExportCycles)}
+            className="px-2 py-1 rounded text-xs border border-stage-border bg-stage-mid/40 text-stage-text hover:bg-stage-mid/70"
+          >
+            Export MIDI
+          </button>
+        </div>
+      )}
+
+      {onStartAudioRecording && (
+        <div className="flex items-center gap-1 shrink-0" data-testid="audio-record">
+          {audioRecording ? (
+            <button
+              type="button"
+              onClick={onStopAudioRecording}
+              className="px-2 py-1 rounded text-xs border border-red-500/60 bg-red-500/15 text-red-300 hover:bg-red-500/25"
+              title={`Recording ${audioRecording.format.toUpperCase()}`}
+            >
+              <span className="animate-pulse">●</span>{' '}
+              Stop rec{audioRecording.bars !== null ? ` (${audioRecording.bars} bars)` : ''}
+            </button>
+          ) : (
+            <>
+              <select
+                value={audioRecordBars}
+                onChange={(e) => setAudioRecordBars(Number(e.target.value))}
+                className="bg-stage-black border border-stage-border text-white rounded px-1.5 py-1 text-xs"
+                aria-label="Bars to record"
+              >
+                {JAM_AUDIO_RECORD_BAR_OPTIONS.map((bars) => (
+                  <option key={bars} value={bars}>
+                    {bars} bars
+                  </option>
+                ))}
+                <option value={0}>Session</option>
+              </select>
+              <select
+                value={audioRecordFormat}
+                onChange={(e) => setAudioRecordFormat(e.target.value === 'webm' ? 'webm' : 'wav')}
+                className="bg-stage-black border border-stage-border text-white rounded px-1.5 py-1 text-xs"
+                aria-label="Audio recording format"
+              >
+                <option value="wav">WAV</option>
+                <option value="webm">WebM</option>
+              </select>
+              <button
+                type="button"
+                onClick={() => onStartAudioRecording(audioRecordBars > 0 ? audioRecordBars : null, audioRecordFormat)}
+                className="px-2 py-1 rounded text-xs border border-stage-border bg-stage-mid/40 text-stage-text hover:bg-stage-mid/70"
+              >
+                Record
+              </button>
+            </>
+          )}
+          {audioRecordingError && (
+            <span className="text-xs text-red-400" title={audioRecordingError}>!</span>
+          )}
+        </div>
+      )}
 
       <button
         onClick={onStopJam}
         className="px-3 py-1.5 bg-red-600 hover:bg-red-500 text-white rounded-md text-sm font-medium transition-colors shrink-0"
       >
-        Stop
+        {isSpectator ? 'Leave' : 'Stop'}
       </button>
 
-      <button
-        onClick={() => onToggleCameraConductor?.(!isCameraConductorEnabled)}
-        disabled={!canEnableCameraConductor}
-        className={`px-2.5 py-1 rounded text-xs font-medium border shrink-0 transition-colors ${
-          isCameraConductorEnabled
-            ? 'border-cyan-400/60 bg-cyan-500/15 text-cyan-200'
-            : 'border-stage-border bg-stage-mid/40 text-stage-text hover:bg-stage-mid/70'
-        } disabled:opacity-50 disabled:cursor-not-allowed`}
-      >
-        Camera Conductor: {isCameraConductorEnabled ? 'On' : 'Off'}
-      </button>
+      {showLiveControls && (
+        <button
+          onClick={() => onToggleCameraConductor?.(!isCameraConductorEnabled)}
+          disabled={!canEnableCameraConductor}
+          className={`px-2.5 py-1 rounded text-xs font-medium border shrink-0 transition-colors ${
+            isCameraConductorEnabled
+              ? 'border-cyan-400/60 bg-cyan-500/15 text-cyan-200'
+              : 'border-stage-border bg-stage-mid/40 text-stage-text hover:bg-stage-mid/70'
+          } disabled:opacity-50 disabled:cursor-not-allowed`}
+        >
+          Camera Conductor: {isCameraConductorEnabled ? 'On' : 'Off'}
+        </button>
+      )}
 
-      {isPresetLocked && (
+      {showLiveControls && isPresetLocked && (
         <span className="text-xs text-amber-300 bg-amber-500/10 border border-amber-500/30 px-2 py-1 rounded shrink-0">
           Preset locked after first join
         </span>
       )}
 
       {!isJamReady && (
-        <span className="text-xs text-stage-text shrink-0">Starting jam session…</span>
+        <span className="text-xs text-stage-text shrink-0">
+          {isReplay
+            ? 'Waiting for recorded jam state…'
+            : isSpectator ? 'Joining the room’s jam…' : 'Starting jam session…'}
+        </span>
       )}
-      {isJamReady && !selectedPresetId && (
+      {showLiveControls && isJamReady && !selectedPresetId && (
         <span className="text-xs text-stage-text shrink-0">Choose a preset to enable Play</span>
       )}
-      {isJamReady && selectedPresetId && !isAudioReady && (
+      {showLiveControls && isJamReady && selectedPresetId && !isAudioReady && (
         <span className="text-xs text-stage-text shrink-0">Start audio to enable Play</span>
       )}
       {isJamReady && selectedPresetId && isAudioReady && isPresetApplying && (
@@ -188,7 +702,9 @@ export function JamTopBar({
       )}
       {showAutoTickCountdown && autoTickSecondsRemaining !== null && (
         <div className="flex items-center gap-2 px-2 py-1 rounded border border-stage-border bg-stage-black/60 shrink-0">
-          <span className="text-xs text-stage-muted whitespace-nowrap">Next Autotick in</span>
+          <span className="text-xs text-stage-muted whitespace-nowrap">
+            Next Autotick{nextAutoTickAgent ? ` (${nextAutoTickAgent})` : ''} in
+          </span>
           <span className={`text-sm font-mono font-semibold whitespace-nowrap ${isAutoTickImminent ? 'text-amber-300' : 'text-stage-text'}`}>
             {autoTickSecondsRemaining}s
           </span>
@@ -200,8 +716,67 @@ export function JamTopBar({
           </div>
         </div>
       )}
+      {arrangement && currentSection && (
+        <div className="flex items-center gap-2 px-2 py-1 rounded border border-emerald-500/30 bg-emerald-500/5 shrink-0">
+          <span className="text-xs uppercase tracking-wide text-emerald-300 whitespace-nowrap">
+            {formatArrangementSectionLabel(currentSection)}
+          </span>
+          <div className="flex h-1.5 w-32 gap-px rounded-full overflow-hidden" aria-hidden="true">
+            {arrangement.sections.map((section, index) => (
+              <div
+                key={index}
+                className="h-full bg-stage-mid overflow-hidden"
+                style={{ width: `${(section.bars / totalArrangementBars) * 100}%` }}
+                title={formatArrangementSectionLabel(section)}
+              >
+                <div
+                  className="h-full bg-emerald-400"
+                  style={{
+                    width: index < arrangement.currentIndex
+                      ? '100%'
+                      : index === arrangement.currentIndex ? `${sectionProgressPct}%` : '0%',
+                  }}
+                />
+              </div>
+            ))}
+          </div>
+          <span className="text-xs text-stage-text whitespace-nowrap">
+            {!arrangement.isRunning
+              ? 'Starts with the band'
+              : nextSection && sectionBarsLeft !== null
+                ? `${Math.ceil(sectionBarsLeft)} bars → ${formatArrangementSectionLabel(nextSection)}`
+                : 'Final section'}
+          </span>
+          {showLiveControls && nextSection && onSkipSection && (
+            <button
+              onClick={onSkipSection}
+              className="px-1.5 py-0.5 rounded text-xs border border-stage-border bg-stage-mid/40 text-stage-text hover:bg-stage-mid/70"
+            >
+              Skip ▸
+            </button>
+          )}
+          {showLiveControls && onEditArrangement && (
+            <button
+              onClick={onEditArrangement}
+              className="px-1.5 py-0.5 rounded text-xs border border-stage-border bg-stage-mid/40 text-stage-text hover:bg-stage-mid/70"
+            >
+              Edit
+            </button>
+          )}
+        </div>
+      )}
+      {showLiveControls && !arrangement && isJamReady && onEditArrangement && (
+        <button
+          onClick={onEditArrangement}
+          className="px-2.5 py-1 rounded text-xs font-medium border border-stage-border bg-stage-mid/40 text-stage-text hover:bg-stage-mid/70 shrink-0"
+        >
+          Song Form
+        </button>
+      )}
       {showAutoTickCountdown && autoTickSecondsRemaining === null && (
-        <span className="text-xs text-stage-text shrink-0">Syncing autotick...</span>
+        <span className="text-xs text-stage-text shrink-0">
+          {budgetState === 'paused' ? 'Autotick paused: session budget spent' : 'Syncing autotick...'}
+        </span>
       )}
       {errorMessage && (
         <span className="text-xs text-red-300 bg-red-500/10 border border-red-500/30 px-2 py-1 rounded shrink-0 max-w-[420px] truncate">
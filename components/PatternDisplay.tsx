@@ -1,15 +1,18 @@
 'use client';
 
 import { useState, useCallback } from 'react';
-import type { AgentState } from '@/lib/types';
+import type { AgentState, PatternChange } from '@/lib/types';
 import { AGENT_META } from '@/lib/types';
+import { formatPatternChanges } from '@/lib/pattern-diff';
 
 interface PatternDisplayProps {
   agentStates: Record<string, AgentState>;
   selectedAgents: string[];
+  // Latest turn's changes per agent, shown after the code
+  patternChanges?: Record<string, PatternChange[]>;
 }
 
-export function PatternDisplay({ agentStates, selectedAgents }: PatternDisplayProps) {
+export function PatternDisplay({ agentStates, selectedAgents, patternChanges = {} }: PatternDisplayProps) {
   const [collapsed, setCollapsed] = useState(false);
 
   const toggle = useCallback(() => setCollapsed((prev) => !prev), []);
@@ -37,6 +40,11 @@ export function PatternDisplay({ agentStates, selectedAgents }: PatternDisplayPr
               <code className="text-stage-text truncate">
                 {state.pattern || <span className="text-stage-muted italic">silence</span>}
               </code>
+              {(patternChanges[key]?.length ?? 0) > 0 && (
+                <span data-testid={`pattern-changes-${key}`} className="max-w-[45%] shrink-0 truncate text-stage-muted">
+                  {formatPatternChanges(patternChanges[key]).join(' · ')}
+                </span>
+              )}
             </div>
           ))}
         </div>
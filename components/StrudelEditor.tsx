@@ -3,13 +3,20 @@
 import { useEffect, useRef } from 'react';
 
 // Type definitions for the Strudel web component
-interface StrudelEditorElement extends HTMLElement {
+export interface StrudelEditorElement extends HTMLElement {
   editor: {
     setCode: (code: string) => void;
     evaluate: (autostart?: boolean) => void;
     stop: () => void;
     toggle: () => void;
     code: string;
+    repl?: {
+      scheduler?: {
+        started: boolean;
+        cps: number;
+        now: () => number;
+      };
+    };
   };
 }
 
@@ -1,13 +1,16 @@
 'use client';
 
 import { forwardRef, useRef, useImperativeHandle, useCallback } from 'react';
-import StrudelEditor from '@/components/StrudelEditor';
+import StrudelEditor, { type StrudelEditorElement } from '@/components/StrudelEditor';
+import type { SchedulerPosition } from '@/lib/jam-quantize';
 
 // Types
 export interface StrudelPanelHandle {
   setCode: (code: string) => void;
   evaluate: (autostart?: boolean) => void;
   stop: () => void;
+  // Current cycle position of the running scheduler; null while stopped
+  getSchedulerPosition: () => SchedulerPosition | null;
 }
 
 export interface StrudelPanelProps {
@@ -20,7 +23,7 @@ export interface StrudelPanelProps {
 
 const StrudelPanel = forwardRef<StrudelPanelHandle, StrudelPanelProps>(
   function StrudelPanel({ initialCode, className, onError, onPlayStateChange, onReady }, ref) {
-    const editorRef = useRef<{ setCode: (code: string) => void; evaluate: (autostart?: boolean) => void; stop: () => void } | null>(null);
+    const editorRef = useRef<StrudelEditorElement['editor'] | null>(null);
 
     // Create the handle object that will be shared via callback and ref
     const createHandle = useCallback((): StrudelPanelHandle => ({
@@ -33,6 +36,11 @@ const StrudelPanel = forwardRef<StrudelPanelHandle, StrudelPanelProps>(
       stop: () => {
         editorRef.current?.stop();
       },
+      getSchedulerPosition: () => {
+        const scheduler = editorRef.current?.repl?.scheduler;
+        if (!scheduler?.started) return null;
+        return { cycle: scheduler.now(), cps: scheduler.cps };
+      },
     }), []);
 
     const handleEditorReady = useCallback((editor: typeof editorRef.current) => {
@@ -0,0 +1,15 @@
+/**
+ * Save a Blob through a temporary link. The object URL outlives the click:
+ * revoking it in the same tick can cancel the download in some browsers.
+ */
+
+const OBJECT_URL_LIFETIME_MS = 60_000;
+
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), OBJECT_URL_LIFETIME_MS);
+}
@@ -2,11 +2,12 @@ export { useWebSocket } from './useWebSocket';
 export type { UseWebSocketOptions, UseWebSocketReturn } from './useWebSocket';
 
 export { useStrudel } from './useStrudel';
-export type { UseStrudelReturn } from './useStrudel';
+export type { UseStrudelReturn, QueuedPatternChange } from './useStrudel';
 
 export { useRuntimeTerminal, useAiTerminal, useCodexTerminal } from './useRuntimeTerminal';
 export { useCameraConductor } from './useCameraConductor';
 export { useAudioFeedback } from './useAudioFeedback';
+export { useJamAudioRecorder } from './useJamAudioRecorder';
 export type {
   RuntimeStatus,
   AiStatus,
@@ -20,6 +21,18 @@ export type {
   UseCodexTerminalReturn,
 } from './useRuntimeTerminal';
 export type { UseAudioFeedbackOptions } from './useAudioFeedback';
+export type {
+  JamAudioRecorderSession,
+  JamAudioRecordingStatus,
+  UseJamAudioRecorderOptions,
+  UseJamAudioRecorderReturn,
+} from './useJamAudioRecorder';
 
 export { useJamSession } from './useJamSession';
 export type { UseJamSessionReturn } from './useJamSession';
+
+export { useAgentRoster } from './useAgentRoster';
+export type { UseAgentRosterReturn } from './useAgentRoster';
+
+export { useJamReplay } from './useJamReplay';
+export type { UseJamReplayOptions, UseJamReplayReturn } from './useJamReplay';
@@ -0,0 +1,45 @@
+/**
+ * Taps on the Strudel output bus, shared by the audio-feedback analyser and
+ * the jam audio recorder. Browser-only: both helpers load @strudel/webaudio or
+ * superdough on demand.
+ */
+
+export async function getStrudelAudioContext(): Promise<AudioContext | null> {
+  try {
+    const { getAudioContext } = await import('@strudel/webaudio');
+    return getAudioContext();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Connect the mixed Strudel output to `node`. Returns the bus node (so the
+ * caller can disconnect from it later), or null when no output exists yet.
+ */
+export async function connectToStrudelOutput(
+  node: AudioNode,
+  logTag: string
+): Promise<AudioNode | null> {
+  try {
+    const { getSuperdoughAudioController } = await import('superdough');
+    const controller = getSuperdoughAudioController() as {
+      output?: {
+        destinationGain?: AudioNode;
+        channelMerger?: AudioNode;
+      };
+    };
+    const output = controller.output;
+    const busNode = output?.destinationGain ?? output?.channelMerger;
+
+    if (!busNode) {
+      return null;
+    }
+
+    busNode.connect(node);
+    return busNode;
+  } catch (error) {
+    console.warn(`[${logTag}] Could not attach to Strudel output bus:`, error);
+    return null;
+  }
+}
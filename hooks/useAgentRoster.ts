@@ -0,0 +1,49 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { AGENT_META } from '@/lib/types';
+import { applyAgentRoster, normalizeAgentRoster } from '@/lib/jam-roster';
+
+export interface UseAgentRosterReturn {
+  agentKeys: string[];  // live roster keys, in column order
+}
+
+/**
+ * Load the band roster from /api/jam-roster and apply it to AGENT_META.
+ * Until it arrives (or if it fails) the built-in band is used. The returned
+ * keys change when the roster is applied, re-rendering everything that reads
+ * AGENT_META.
+ */
+export function useAgentRoster(): UseAgentRosterReturn {
+  const [agentKeys, setAgentKeys] = useState<string[]>(() => Object.keys(AGENT_META));
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadRoster = async () => {
+      try {
+        const response = await fetch('/api/jam-roster');
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}`);
+        }
+        const body = await response.json() as { agents?: unknown };
+        const roster = normalizeAgentRoster(body.agents);
+        if (!roster) {
+          throw new Error('invalid roster');
+        }
+        if (cancelled) return;
+        applyAgentRoster(roster);
+        setAgentKeys(roster.map((meta) => meta.key));
+      } catch (error) {
+        console.warn('[AgentRoster] Failed to load band roster; using the built-in band:', error);
+      }
+    };
+
+    void loadRoster();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return { agentKeys };
+}
@@ -2,6 +2,7 @@
 
 import { useEffect } from 'react';
 import type { AudioFeatureSnapshot } from '@/lib/types';
+import { connectToStrudelOutput, getStrudelAudioContext } from './strudel-output-bus';
 
 interface AudioAnalysisState {
   context: AudioContext;
@@ -42,41 +43,6 @@ function toLoudnessScore(rms: number): number {
   return normalizeFeature(shifted, 0, 100);
 }
 
-async function getAudioContext(): Promise<AudioContext | null> {
-  try {
-    const { getAudioContext: getStrudelAudioContext } = await import('@strudel/webaudio');
-    return getStrudelAudioContext();
-  } catch {
-    return null;
-  }
-}
-
-async function attachAnalyserToStrudelOutput(
-  analyser: AnalyserNode
-): Promise<AudioNode | null> {
-  try {
-    const { getSuperdoughAudioController } = await import('superdough');
-    const controller = getSuperdoughAudioController() as {
-      output?: {
-        destinationGain?: AudioNode;
-        channelMerger?: AudioNode;
-      };
-    };
-    const output = controller.output;
-    const busNode = output?.destinationGain ?? output?.channelMerger;
-
-    if (!busNode) {
-      return null;
-    }
-
-    busNode.connect(analyser);
-    return busNode;
-  } catch (error) {
-    console.warn('[AudioFeedback] Could not attach to Strudel output bus:', error);
-    return null;
-  }
-}
-
 function computeFeatures(params: {
   context: AudioContext;
   freqData: Uint8Array<ArrayBufferLike>;
@@ -173,7 +139,7 @@ export function useAudioFeedback(options: UseAudioFeedbackOptions): void {
     let analysisState: AudioAnalysisState | null = null;
 
     const setup = async () => {
-      const context = await getAudioContext();
+      const context = await getStrudelAudioContext();
       if (!context || !mounted) {
         return;
       }
@@ -188,7 +154,7 @@ export function useAudioFeedback(options: UseAudioFeedbackOptions): void {
         analyser.connect(silentSink);
         silentSink.connect(context.destination);
 
-        const busNode = await attachAnalyserToStrudelOutput(analyser);
+        const busNode = await connectToStrudelOutput(analyser, 'AudioFeedback');
         if (!busNode) {
           console.warn('[AudioFeedback] No output source available for analysis.');
           analyser.disconnect();
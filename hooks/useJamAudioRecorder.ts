@@ -0,0 +1,246 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  encodeWav,
+  getBarsDurationMs,
+  getJamAudioExportBaseName,
+  joinSampleBlocks,
+  serializeJamAudioExportMetadata,
+  type JamAudioExportMetadata,
+  type JamAudioFormat,
+} from '@/lib/jam-audio-export';
+import { downloadBlob } from './download-blob';
+import { connectToStrudelOutput, getStrudelAudioContext } from './strudel-output-bus';
+
+// What the take is labelled with; read when recording starts (and the round again when it stops)
+export interface JamAudioRecorderSession {
+  preset: string | null;
+  genre: string;
+  bpm: number;
+  key: string;
+  timeSignature: string;
+  round: number;
+  agents: string[];
+}
+
+export interface UseJamAudioRecorderOptions {
+  // Recording finishes (and downloads) when this turns false, e.g. the jam stops
+  enabled: boolean;
+  session: JamAudioRecorderSession;
+}
+
+export interface JamAudioRecordingStatus {
+  format: JamAudioFormat;
+  bars: number | null;
+  startedAtMs: number;
+}
+
+export interface UseJamAudioRecorderReturn {
+  recording: JamAudioRecordingStatus | null;
+  error: string | null;
+  startRecording: (bars: number | null, format: JamAudioFormat) => Promise<void>;
+  stopRecording: () => Promise<void>;
+}
+
+interface ActiveCapture {
+  status: JamAudioRecordingStatus;
+  session: JamAudioRecorderSession;
+  sampleRate: number;
+  stopTimer: ReturnType<typeof setTimeout> | null;
+  finish: () => Promise<Blob>;
+  teardown: () => void;
+}
+
+const WAV_BLOCK_SIZE = 4096;
+const WAV_CHANNELS = 2;
+const WEBM_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/webm'];
+
+async function startWebmCapture(context: AudioContext): Promise<Pick<ActiveCapture, 'finish' | 'teardown'> | null> {
+  if (typeof MediaRecorder === 'undefined') {
+    throw new Error('This browser cannot record WebM audio.');
+  }
+  const destination = context.createMediaStreamDestination();
+  const releaseDestination = () => destination.stream.getTracks().forEach((track) => track.stop());
+  const busNode = await connectToStrudelOutput(destination, 'JamAudioRecorder');
+  if (!busNode) {
+    releaseDestination();
+    return null;
+  }
+
+  const mimeType = WEBM_MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+  let recorder: MediaRecorder;
+  try {
+    recorder = new MediaRecorder(destination.stream, mimeType ? { mimeType } : undefined);
+  } catch (err) {
+    busNode.disconnect(destination);
+    releaseDestination();
+    throw err;
+  }
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+  recorder.start(1_000);
+
+  return {
+    finish: () => new Promise<Blob>((resolve) => {
+      recorder.onstop = () => resolve(new Blob(chunks, { type: recorder.mimeType || 'audio/webm' }));
+      recorder.stop();
+    }),
+    teardown: () => {
+      if (recorder.state !== 'inactive') recorder.stop();
+      busNode.disconnect(destination);
+      releaseDestination();
+    },
+  };
+}
+
+async function startWavCapture(context: AudioContext): Promise<Pick<ActiveCapture, 'finish' | 'teardown'> | null> {
+  const processor = context.createScriptProcessor(WAV_BLOCK_SIZE, WAV_CHANNELS, WAV_CHANNELS);
+  const silentSink = context.createGain();
+  // The processor only runs while connected to the destination; keep that branch inaudible.
+  silentSink.gain.value = 0;
+  processor.connect(silentSink);
+  silentSink.connect(context.destination);
+
+  const busNode = await connectToStrudelOutput(processor, 'JamAudioRecorder');
+  if (!busNode) {
+    processor.disconnect();
+    silentSink.disconnect();
+    return null;
+  }
+
+  const blocks: Float32Array[][] = [];
+  processor.onaudioprocess = (event) => {
+    const input = event.inputBuffer;
+    blocks.push(Array.from({ length: WAV_CHANNELS }, (_, channel) => (
+      new Float32Array(input.getChannelData(Math.min(channel, input.numberOfChannels - 1)))
+    )));
+  };
+
+  return {
+    finish: async () => new Blob(
+      [encodeWav(joinSampleBlocks(blocks, WAV_CHANNELS), context.sampleRate)],
+      { type: 'audio/wav' }
+    ),
+    teardown: () => {
+      processor.onaudioprocess = null;
+      busNode.disconnect(processor);
+      processor.disconnect();
+      silentSink.disconnect();
+    },
+  };
+}
+
+/**
+ * Records the Strudel output bus (the same node useAudioFeedback analyses) to
+ * WAV or WebM. A take runs for `bars` bars at the session tempo, or until
+ * stopped when `bars` is null, then downloads the audio with a sidecar JSON.
+ */
+export function useJamAudioRecorder(options: UseJamAudioRecorderOptions): UseJamAudioRecorderReturn {
+  const { enabled } = options;
+  const [recording, setRecording] = useState<JamAudioRecordingStatus | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const captureRef = useRef<ActiveCapture | null>(null);
+  // Set while startRecording awaits the audio graph, so a double click starts one take
+  const startingRef = useRef(false);
+  const sessionRef = useRef(options.session);
+  sessionRef.current = options.session;
+
+  const stopRecording = useCallback(async () => {
+    const capture = captureRef.current;
+    if (!capture) return;
+    captureRef.current = null;
+    if (capture.stopTimer) clearTimeout(capture.stopTimer);
+
+    try {
+      const blob = await capture.finish();
+      const { session, status } = capture;
+      const metadata: JamAudioExportMetadata = {
+        format: status.format,
+        preset: session.preset,
+        genre: session.genre,
+        bpm: session.bpm,
+        key: session.key,
+        timeSignature: session.timeSignature,
+        bars: status.bars,
+        roundFrom: session.round,
+        roundTo: Math.max(session.round, sessionRef.current.round),
+        agents: session.agents,
+        startedAt: new Date(status.startedAtMs).toISOString(),
+        durationMs: Date.now() - status.startedAtMs,
+        sampleRate: capture.sampleRate,
+      };
+      const baseName = getJamAudioExportBaseName(metadata);
+      downloadBlob(blob, `${baseName}.${status.format}`);
+      downloadBlob(
+        new Blob([serializeJamAudioExportMetadata(metadata)], { type: 'application/json' }),
+        `${baseName}.json`
+      );
+    } catch (err) {
+      console.warn('[JamAudioRecorder] Could not finish recording:', err);
+      setError('Recording failed.');
+    } finally {
+      capture.teardown();
+      setRecording(null);
+    }
+  }, []);
+
+  const startRecording = useCallback(async (bars: number | null, format: JamAudioFormat) => {
+    if (captureRef.current || startingRef.current) return;
+    startingRef.current = true;
+    setError(null);
+
+    let context: AudioContext | null;
+    let started: Pick<ActiveCapture, 'finish' | 'teardown'> | null = null;
+    try {
+      context = await getStrudelAudioContext();
+      if (context) {
+        started = format === 'webm' ? await startWebmCapture(context) : await startWavCapture(context);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Recording failed.');
+      return;
+    } finally {
+      startingRef.current = false;
+    }
+    if (!context) {
+      setError('Audio is not running.');
+      return;
+    }
+    if (!started) {
+      setError('No Strudel output to record yet.');
+      return;
+    }
+
+    const session = sessionRef.current;
+    const status: JamAudioRecordingStatus = { format, bars, startedAtMs: Date.now() };
+    captureRef.current = {
+      ...started,
+      status,
+      session,
+      sampleRate: context.sampleRate,
+      stopTimer: bars !== null
+        ? setTimeout(() => void stopRecording(), getBarsDurationMs(bars, session.bpm, session.timeSignature))
+        : null,
+    };
+    setRecording(status);
+  }, [stopRecording]);
+
+  // Jam stopped or audio went away: keep what was captured so far
+  useEffect(() => {
+    if (!enabled) void stopRecording();
+  }, [enabled, stopRecording]);
+
+  // Unmount: drop the take without downloading
+  useEffect(() => () => {
+    const capture = captureRef.current;
+    if (!capture) return;
+    captureRef.current = null;
+    if (capture.stopTimer) clearTimeout(capture.stopTimer);
+    capture.teardown();
+  }, []);
+
+  return { recording, error, startRecording, stopRecording };
+}
@@ -0,0 +1,150 @@
+'use client';
+
+import { useState, useCallback, useRef, useEffect } from 'react';
+import { buildJamReplayTimeline } from '@/lib/jam-recording';
+import type { JamRecordingEntry, JamRecordingSummary } from '@/lib/types';
+
+export interface UseJamReplayOptions {
+  /** Recorded jam broadcasts, fed through the same path as live server messages. */
+  onOutput: (message: { type: string; payload: unknown }) => void;
+  /** Recorded boss/camera inputs, for surfacing in the jam chat. */
+  onInput?: (entry: JamRecordingEntry) => void;
+  onComplete?: () => void;
+}
+
+export interface UseJamReplayReturn {
+  recordings: JamRecordingSummary[];
+  isLoadingRecordings: boolean;
+  replayError: string | null;
+  activeRecording: JamRecordingSummary | null;
+  replayProgressMs: number;
+  isReplaying: boolean;
+  refreshRecordings: () => Promise<void>;
+  startReplay: (recording: JamRecordingSummary) => Promise<boolean>;
+  stopReplay: () => void;
+}
+
+export function useJamReplay(options: UseJamReplayOptions): UseJamReplayReturn {
+  const [recordings, setRecordings] = useState<JamRecordingSummary[]>([]);
+  const [isLoadingRecordings, setIsLoadingRecordings] = useState(false);
+  const [replayError, setReplayError] = useState<string | null>(null);
+  const [activeRecording, setActiveRecording] = useState<JamRecordingSummary | null>(null);
+  const [replayProgressMs, setReplayProgressMs] = useState(0);
+
+  // Keep latest callbacks in refs so a running replay never dispatches to stale handlers
+  const onOutputRef = useRef(options.onOutput);
+  const onInputRef = useRef(options.onInput);
+  const onCompleteRef = useRef(options.onComplete);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const replayTokenRef = useRef(0);
+
+  useEffect(() => {
+    onOutputRef.current = options.onOutput;
+    onInputRef.current = options.onInput;
+    onCompleteRef.current = options.onComplete;
+  }, [options.onOutput, options.onInput, options.onComplete]);
+
+  // Invalidate any in-flight load or scheduled entry
+  const cancelScheduled = useCallback(() => {
+    replayTokenRef.current++;
+    if (timerRef.current !== null) {
+      clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+  }, []);
+
+  const refreshRecordings = useCallback(async () => {
+    setIsLoadingRecordings(true);
+    setReplayError(null);
+    try {
+      const response = await fetch('/api/jam-recordings');
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      const body = await response.json() as { recordings?: JamRecordingSummary[] };
+      setRecordings(body.recordings ?? []);
+    } catch (error) {
+      setReplayError(`Failed to load recordings: ${(error as Error).message}`);
+    } finally {
+      setIsLoadingRecordings(false);
+    }
+  }, []);
+
+  const stopReplay = useCallback(() => {
+    cancelScheduled();
+    setActiveRecording(null);
+    setReplayProgressMs(0);
+  }, [cancelScheduled]);
+
+  const startReplay = useCallback(async (recording: JamRecordingSummary) => {
+    stopReplay();
+    const token = replayTokenRef.current;
+    setReplayError(null);
+
+    let entries: JamRecordingEntry[];
+    try {
+      const response = await fetch(`/api/jam-recordings/${encodeURIComponent(recording.id)}`);
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      const body = await response.json() as { entries?: JamRecordingEntry[] };
+      entries = buildJamReplayTimeline(body.entries ?? []);
+    } catch (error) {
+      if (token === replayTokenRef.current) {
+        setReplayError(`Failed to load recording: ${(error as Error).message}`);
+      }
+      return false;
+    }
+
+    // Stopped or restarted while the recording was loading
+    if (token !== replayTokenRef.current) return false;
+
+    setActiveRecording(recording);
+    const startedAt = Date.now();
+
+    // Schedule each entry against the replay start so drift does not accumulate
+    const scheduleNext = (index: number) => {
+      if (token !== replayTokenRef.current) return;
+      if (index >= entries.length) {
+        timerRef.current = null;
+        setReplayProgressMs(recording.durationMs);
+        onCompleteRef.current?.();
+        return;
+      }
+
+      const entry = entries[index];
+      const delayMs = Math.max(0, entry.offsetMs - (Date.now() - startedAt));
+      timerRef.current = setTimeout(() => {
+        if (token !== replayTokenRef.current) return;
+        setReplayProgressMs(entry.offsetMs);
+        if (entry.kind === 'output') {
+          onOutputRef.current({ type: entry.type, payload: entry.payload });
+        } else {
+          onInputRef.current?.(entry);
+        }
+        scheduleNext(index + 1);
+      }, delayMs);
+    };
+
+    scheduleNext(0);
+    return true;
+  }, [stopReplay]);
+
+  useEffect(() => {
+    return () => {
+      cancelScheduled();
+    };
+  }, [cancelScheduled]);
+
+  return {
+    recordings,
+    isLoadingRecordings,
+    replayError,
+    activeRecording,
+    replayProgressMs,
+    isReplaying: activeRecording !== null,
+    refreshRecordings,
+    startReplay,
+    stopReplay,
+  };
+}
@@ -2,28 +2,37 @@
 
 import { useState, useCallback, useRef, useEffect } from 'react';
 import type {
+  AgentMixChannel,
+  AgentHarmonyReport,
+  AgentPatternVersion,
   AgentState,
   MusicalContext,
   ExecutePayload,
   JamChatMessage,
   AutoTickTiming,
   AutoTickTimingPayload,
+  DirectiveQueuePayload,
+  JamArrangementState,
+  JamUsageSnapshot,
+  HarmonyProposal,
+  PatternChange,
   AgentThoughtPayload,
   AgentCommentaryPayload,
+  AgentRequestPayload,
   AgentStatusPayload,
   MusicalContextPayload,
   JamStatePayload,
   AgentContextWindow,
+  JamSessionSnapshotSummary,
 } from '@/lib/types';
 import { AGENT_META } from '@/lib/types';
 
 const MAX_CHAT_MESSAGES = 500;
 const AGENT_PATTERN_GLOW_DURATION_MS = 2000;
 
-const ALL_AGENT_KEYS = Object.keys(AGENT_META);
-
 interface UseJamSessionOptions {
   sendStartJam: (activeAgents: string[]) => void;
+  sendResumeJam?: (sessionId: string) => void;
   sendStopJam: () => void;
   isRuntimeConnected?: boolean;
   isAiConnected?: boolean;
@@ -32,17 +41,30 @@ interface UseJamSessionOptions {
 export interface UseJamSessionReturn {
   // State
   isJamming: boolean;
+  isReplaying: boolean;
   agentStates: Record<string, AgentState>;
   musicalContext: MusicalContext;
   chatMessages: JamChatMessage[];
   autoTickTiming: AutoTickTiming | null;
+  arrangement: JamArrangementState | null;
+  usage: JamUsageSnapshot | null;
+  harmonyProposals: HarmonyProposal[];
   selectedAgents: string[];
   activatedAgents: string[];
   mutedAgents: string[];
+  mixer: Record<string, AgentMixChannel>;
+  patternHistory: Record<string, AgentPatternVersion[]>;
+  harmony: Record<string, AgentHarmonyReport>;
+  // Each agent's changes from its latest turn, from agent_thought
+  patternChanges: Record<string, PatternChange[]>;
+  // Round of the latest jam_state_update; 0 before the first one
+  currentRound: number;
+  directiveQueue: DirectiveQueuePayload | null;
   showAgentSelection: boolean;
   isJamReady: boolean;
   agentPatternChangeGlows: Record<string, boolean>;
   agentContextWindows: Record<string, AgentContextWindow>;
+  resumableSessions: JamSessionSnapshotSummary[];
 
   // Actions
   startJam: () => void;
@@ -52,28 +74,31 @@ export interface UseJamSessionReturn {
   clearChatMessages: () => void;
   requestStartJam: () => void;
   confirmStartJam: (agents: string[]) => void;
+  confirmResumeJam: (session: JamSessionSnapshotSummary) => void;
   cancelStartJam: () => void;
+  startReplaySession: (agents: string[]) => void;
+  enterSharedJam: (agents: string[]) => void;
+  leaveSharedJam: () => void;
 
   // Callbacks (wire into useWebSocket in page.tsx)
   handleAgentThought: (payload: AgentThoughtPayload) => void;
   handleAgentCommentary: (payload: AgentCommentaryPayload) => void;
+  handleAgentRequest: (payload: AgentRequestPayload) => void;
   handleAgentStatus: (payload: AgentStatusPayload) => void;
   handleExecute: (payload: ExecutePayload) => void;
   handleAutoTickTimingUpdate: (payload: AutoTickTimingPayload) => void;
+  handleDirectiveQueueUpdate: (payload: DirectiveQueuePayload) => void;
   handleMusicalContextUpdate: (payload: MusicalContextPayload) => void;
   handleJamStateUpdate: (payload: JamStatePayload) => void;
 }
 
-const DEFAULT_AGENTS: Record<string, AgentState> = Object.fromEntries(
-  Object.entries(AGENT_META).map(([key, meta]) => [
-    key,
-    { name: meta.name, emoji: meta.emoji, pattern: '', fallbackPattern: '', thoughts: '', status: 'idle' as const, lastUpdated: '' },
-  ])
-);
-
+// Built from the live roster each time, so agents loaded from /api/jam-roster get columns
 function cloneDefaultAgents(): Record<string, AgentState> {
   return Object.fromEntries(
-    Object.entries(DEFAULT_AGENTS).map(([key, agent]) => [key, { ...agent }])
+    Object.entries(AGENT_META).map(([key, meta]) => [
+      key,
+      { name: meta.name, emoji: meta.emoji, pattern: '', fallbackPattern: '', thoughts: '', status: 'idle' as const, lastUpdated: '' },
+    ])
   );
 }
 
@@ -88,26 +113,39 @@ const DEFAULT_MUSICAL_CONTEXT: MusicalContext = {
 };
 
 export function useJamSession(options: UseJamSessionOptions): UseJamSessionReturn {
-  const { sendStartJam, sendStopJam } = options;
+  const { sendStartJam, sendResumeJam, sendStopJam } = options;
   const isRuntimeConnected =
     options.isRuntimeConnected
     ?? options.isAiConnected
     ?? false;
 
   const [isJamming, setIsJamming] = useState(false);
+  // Replay sessions are driven by a recorded log (useJamReplay), not the server
+  const [isReplaying, setIsReplaying] = useState(false);
   const [agentStates, setAgentStates] = useState<Record<string, AgentState>>(cloneDefaultAgents);
   const [musicalContext, setMusicalContext] = useState<MusicalContext>(DEFAULT_MUSICAL_CONTEXT);
   const [chatMessages, setChatMessages] = useState<JamChatMessage[]>([]);
   const [autoTickTiming, setAutoTickTiming] = useState<AutoTickTiming | null>(null);
-  const [selectedAgents, setSelectedAgents] = useState<string[]>([...ALL_AGENT_KEYS]);
+  const [arrangement, setArrangement] = useState<JamArrangementState | null>(null);
+  const [usage, setUsage] = useState<JamUsageSnapshot | null>(null);
+  const [harmonyProposals, setHarmonyProposals] = useState<HarmonyProposal[]>([]);
+  const [selectedAgents, setSelectedAgents] = useState<string[]>(() => Object.keys(AGENT_META));
   const [activatedAgents, setActivatedAgents] = useState<string[]>([]);
   const [mutedAgents, setMutedAgents] = useState<string[]>([]);
+  const [mixer, setMixer] = useState<Record<string, AgentMixChannel>>({});
+  const [patternHistory, setPatternHistory] = useState<Record<string, AgentPatternVersion[]>>({});
+  const [harmony, setHarmony] = useState<Record<string, AgentHarmonyReport>>({});
+  const [patternChanges, setPatternChanges] = useState<Record<string, PatternChange[]>>({});
+  const [currentRound, setCurrentRound] = useState(0);
+  const [directiveQueue, setDirectiveQueue] = useState<DirectiveQueuePayload | null>(null);
   const [showAgentSelection, setShowAgentSelection] = useState(false);
   const [isJamReady, setIsJamReady] = useState(false);
   const [agentPatternChangeGlows, setAgentPatternChangeGlows] = useState<Record<string, boolean>>({});
   const [agentContextWindows, setAgentContextWindows] = useState<Record<string, AgentContextWindow>>({});
+  const [resumableSessions, setResumableSessions] = useState<JamSessionSnapshotSummary[]>([]);
 
   const selectedAgentsRef = useRef(selectedAgents);
+  const isReplayingRef = useRef(false);
   const currentSessionIdRef = useRef<string | null>(null);
   const patternGlowTimersRef = useRef<Record<string, ReturnType<typeof setTimeout>>>({});
 
@@ -169,9 +207,18 @@ export function useJamSession(options: UseJamSessionOptions): UseJamSessionRetur
     setIsJamReady(false);
     setActivatedAgents([]);
     setMutedAgents([]);
+    setMixer({});
+    setPatternHistory({});
+    setHarmony({});
+    setPatternChanges({});
+    setCurrentRound(0);
+    setDirectiveQueue(null);
     setAgentStates(cloneDefaultAgents());
     setMusicalContext(DEFAULT_MUSICAL_CONTEXT);
     setAutoTickTiming(null);
+    setArrangement(null);
+    setUsage(null);
+    setHarmonyProposals([]);
     setAgentContextWindows({});
     currentSessionIdRef.current = null;
     clearAllPatternGlows();
@@ -180,22 +227,46 @@ export function useJamSession(options: UseJamSessionOptions): UseJamSessionRetur
 
   const stopJam = useCallback(() => {
     setIsJamming(false);
+    setIsReplaying(false);
     setIsJamReady(false);
     setActivatedAgents([]);
     setMutedAgents([]);
+    setMixer({});
+    setPatternHistory({});
+    setHarmony({});
+    setPatternChanges({});
+    setCurrentRound(0);
+    setDirectiveQueue(null);
     clearChatMessages();
     setAgentStates(cloneDefaultAgents());
     setMusicalContext(DEFAULT_MUSICAL_CONTEXT);
     setAutoTickTiming(null);
+    setArrangement(null);
+    setUsage(null);
+    setHarmonyProposals([]);
     setAgentContextWindows({});
     currentSessionIdRef.current = null;
     clearAllPatternGlows();
-    // Tell server to kill agent processes
-    sendStopJam();
+    // Tell server to kill agent processes (a replay never started any)
+    if (isReplayingRef.current) {
+      isReplayingRef.current = false;
+    } else {
+      sendStopJam();
+    }
   }, [clearAllPatternGlows, clearChatMessages, sendStopJam]);
 
   const requestStartJam = useCallback(() => {
     setShowAgentSelection(true);
+
+    // Offer saved sessions in the selection modal; failures just hide the option
+    fetch('/api/jam-sessions')
+      .then((response) => (response.ok ? response.json() : { sessions: [] }))
+      .then((body: { sessions?: JamSessionSnapshotSummary[] }) => {
+        setResumableSessions(body.sessions ?? []);
+      })
+      .catch(() => {
+        setResumableSessions([]);
+      });
   }, []);
 
   const confirmStartJam = useCallback((agents: string[]) => {
@@ -205,9 +276,18 @@ export function useJamSession(options: UseJamSessionOptions): UseJamSessionRetur
     setIsJamReady(false);
     setActivatedAgents([]);
     setMutedAgents([]);
+    setMixer({});
+    setPatternHistory({});
+    setHarmony({});
+    setPatternChanges({});
+    setCurrentRound(0);
+    setDirectiveQueue(null);
     setAgentStates(cloneDefaultAgents());
     setMusicalContext(DEFAULT_MUSICAL_CONTEXT);
     setAutoTickTiming(null);
+    setArrangement(null);
+    setUsage(null);
+    setHarmonyProposals([]);
     setAgentContextWindows({});
     currentSessionIdRef.current = null;
     clearAllPatternGlows();
@@ -217,10 +297,119 @@ export function useJamSession(options: UseJamSessionOptions): UseJamSessionRetur
     sendStartJam(agents);
   }, [clearAllPatternGlows, sendStartJam]);
 
+  const confirmResumeJam = useCallback((session: JamSessionSnapshotSummary) => {
+    if (!sendResumeJam) return;
+    setSelectedAgents(session.activeAgents);
+    selectedAgentsRef.current = session.activeAgents;
+    setShowAgentSelection(false);
+    setIsJamReady(false);
+    setActivatedAgents([]);
+    setMutedAgents([]);
+    setMixer({});
+    setPatternHistory({});
+    setHarmony({});
+    setPatternChanges({});
+    setCurrentRound(0);
+    setDirectiveQueue(null);
+    setAgentStates(cloneDefaultAgents());
+    setMusicalContext(DEFAULT_MUSICAL_CONTEXT);
+    setAutoTickTiming(null);
+    setArrangement(null);
+    setUsage(null);
+    setHarmonyProposals([]);
+    setAgentContextWindows({});
+    // The server keeps the snapshot's session id; accept its state updates
+    currentSessionIdRef.current = session.sessionId;
+    clearAllPatternGlows();
+
+    setIsJamming(true);
+    sendResumeJam(session.sessionId);
+  }, [clearAllPatternGlows, sendResumeJam]);
+
   const cancelStartJam = useCallback(() => {
     setShowAgentSelection(false);
   }, []);
 
+  const startReplaySession = useCallback((agents: string[]) => {
+    setSelectedAgents(agents);
+    selectedAgentsRef.current = agents;
+    setShowAgentSelection(false);
+    setIsJamReady(false);
+    setActivatedAgents([]);
+    setMutedAgents([]);
+    setMixer({});
+    setPatternHistory({});
+    setHarmony({});
+    setPatternChanges({});
+    setCurrentRound(0);
+    setDirectiveQueue(null);
+    clearChatMessages();
+    setAgentStates(cloneDefaultAgents());
+    setMusicalContext(DEFAULT_MUSICAL_CONTEXT);
+    setAutoTickTiming(null);
+    setArrangement(null);
+    setUsage(null);
+    setHarmonyProposals([]);
+    setAgentContextWindows({});
+    currentSessionIdRef.current = null;
+    clearAllPatternGlows();
+
+    // Enter the jam UI without contacting the server
+    isReplayingRef.current = true;
+    setIsReplaying(true);
+    setIsJamming(true);
+  }, [clearAllPatternGlows, clearChatMessages]);
+
+  // Spectators follow the room's jam: the boss starts and stops it on the server
+  const enterSharedJam = useCallback((agents: string[]) => {
+    setSelectedAgents(agents);
+    selectedAgentsRef.current = agents;
+    setShowAgentSelection(false);
+    setIsJamReady(false);
+    setActivatedAgents([]);
+    setMutedAgents([]);
+    setMixer({});
+    setPatternHistory({});
+    setHarmony({});
+    setPatternChanges({});
+    setCurrentRound(0);
+    setDirectiveQueue(null);
+    clearChatMessages();
+    setAgentStates(cloneDefaultAgents());
+    setMusicalContext(DEFAULT_MUSICAL_CONTEXT);
+    setAutoTickTiming(null);
+    setArrangement(null);
+    setUsage(null);
+    setHarmonyProposals([]);
+    setAgentContextWindows({});
+    currentSessionIdRef.current = null;
+    clearAllPatternGlows();
+    setIsJamming(true);
+  }, [clearAllPatternGlows, clearChatMessages]);
+
+  const leaveSharedJam = useCallback(() => {
+    setIsJamming(false);
+    setIsJamReady(false);
+    setActivatedAgents([]);
+    setMutedAgents([]);
+    setMixer({});
+    setPatternHistory({});
+    setHarmony({});
+    setPatternChanges({});
+    setCurrentRound(0);
+    setDirectiveQueue(null);
+    clearChatMessages();
+    setAgentStates(cloneDefaultAgents());
+    setMusicalContext(DEFAULT_MUSICAL_CONTEXT);
+    setAutoTickTiming(null);
+    setArrangement(null);
+    setUsage(null);
+    setHarmonyProposals([]);
+    setAgentContextWindows({});
+    currentSessionIdRef.current = null;
+    clearAllPatternGlows();
+  }, [clearAllPatternGlows, clearChatMessages]);
+
   // --- Callbacks for useWebSocket ---
 
   const handleAgentThought = useCallback((payload: AgentThoughtPayload) => {
@@ -239,6 +428,10 @@ export function useJamSession(options: UseJamSessionOptions): UseJamSessionRetur
         },
       };
     });
+    if (payload.changes) {
+      const changes = payload.changes;
+      setPatternChanges((prev) => ({ ...prev, [payload.agent]: changes }));
+    }
   }, []);
 
   const handleAgentCommentary = useCallback((payload: AgentCommentaryPayload) => {
@@ -254,6 +447,20 @@ export function useJamSession(options: UseJamSessionOptions): UseJamSessionRetur
     });
   }, [addChatMessage]);
 
+  const handleAgentRequest = useCallback((payload: AgentRequestPayload) => {
+    const agentInfo = AGENT_META[payload.from];
+    if (!agentInfo || !AGENT_META[payload.to]) return;
+
+    addChatMessage({
+      type: 'agent_request',
+      agent: payload.from,
+      agentName: agentInfo.name,
+      emoji: agentInfo.emoji,
+      text: payload.text,
+      targetAgent: payload.to,
+    });
+  }, [addChatMessage]);
+
   const handleAgentStatus = useCallback((payload: AgentStatusPayload) => {
     setAgentStates((prev) => {
       const agent = prev[payload.agent];
@@ -283,6 +490,11 @@ export function useJamSession(options: UseJamSessionOptions): UseJamSessionRetur
     setAutoTickTiming(payload.autoTick);
   }, [isJamming]);
 
+  const handleDirectiveQueueUpdate = useCallback((payload: DirectiveQueuePayload) => {
+    if (!isJamming) return;
+    setDirectiveQueue(payload);
+  }, [isJamming]);
+
   const handleJamStateUpdate = useCallback((payload: JamStatePayload) => {
     if (!isJamming) return;
 
@@ -299,11 +511,18 @@ export function useJamSession(options: UseJamSessionOptions): UseJamSessionRetur
 
     setAgentStates(jamState.agents);
     setMusicalContext(jamState.musicalContext);
+    setCurrentRound(jamState.currentRound ?? 0);
     setActivatedAgents(jamState.activatedAgents ?? jamState.activeAgents);
     setMutedAgents(jamState.mutedAgents ?? []);
+    setMixer(jamState.mixer ?? {});
+    setPatternHistory(jamState.patternHistory ?? {});
+    setHarmony(jamState.harmony ?? {});
     if (jamState.autoTick) {
       setAutoTickTiming(jamState.autoTick);
     }
+    setArrangement(jamState.arrangement ?? null);
+    setUsage(jamState.usage ?? null);
+    setHarmonyProposals(jamState.harmonyProposals ?? []);
     const diagnosticsDelta = payload.diagnostics?.agentContextWindowsDelta;
     if (diagnosticsDelta && typeof diagnosticsDelta === 'object') {
       setAgentContextWindows((prev) => {
@@ -327,17 +546,28 @@ export function useJamSession(options: UseJamSessionOptions): UseJamSessionRetur
 
   return {
     isJamming,
+    isReplaying,
     agentStates,
     musicalContext,
     chatMessages,
     autoTickTiming,
+    arrangement,
+    usage,
+    harmonyProposals,
     selectedAgents,
     activatedAgents,
     mutedAgents,
+    mixer,
+    patternHistory,
+    harmony,
+    patternChanges,
+    currentRound,
+    directiveQueue,
     showAgentSelection,
     isJamReady,
     agentPatternChangeGlows,
     agentContextWindows,
+    resumableSessions,
 
     startJam,
     stopJam,
@@ -346,13 +576,19 @@ export function useJamSession(options: UseJamSessionOptions): UseJamSessionRetur
     clearChatMessages,
     requestStartJam,
     confirmStartJam,
+    confirmResumeJam,
     cancelStartJam,
+    startReplaySession,
+    enterSharedJam,
+    leaveSharedJam,
 
     handleAgentThought,
     handleAgentCommentary,
+    handleAgentRequest,
     handleAgentStatus,
     handleExecute,
     handleAutoTickTimingUpdate,
+    handleDirectiveQueueUpdate,
     handleMusicalContextUpdate,
     handleJamStateUpdate,
   };
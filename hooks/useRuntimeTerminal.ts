@@ -4,6 +4,12 @@ import type { AudioFeatureSnapshot } from '@/lib/types';
 import type { ConductorInterpreterResult } from '@/lib/types';
 import type { CameraDirectivePayload } from '@/lib/types';
 import type { JamAgentKey } from '@/lib/types';
+import { isAgentRosterKey } from '@/lib/jam-roster';
+import type { ArrangementSection } from '@/lib/types';
+import type { JamRoomState } from '@/lib/types';
+import type { AutoTickSchedule } from '@/lib/types';
+import type { JamSessionBudget } from '@/lib/types';
+import type { AgentMixUpdate } from '@/lib/jam-mixer';
 
 import { useState, useEffect, useRef, useCallback } from 'react';
 
@@ -30,14 +36,28 @@ export interface UseRuntimeTerminalReturn {
   status: RuntimeStatus;
   isConnected: boolean;
   error: string | null;
+  roomState: JamRoomState | null;  // this client's jam room (private until a named room is joined)
   sendMessage: (text: string) => void;
   sendStartJam: (activeAgents: string[]) => void;
+  sendResumeJam: (sessionId: string) => void;
   sendJamPreset: (presetId: string) => void;
+  sendArrangement: (sections: ArrangementSection[] | null) => void;
+  sendSkipSection: () => void;
+  sendAgentMix: (agent: string, mix: AgentMixUpdate) => void;
+  sendRevertPattern: (agent: string, version: number) => void;
+  sendCancelDirective: (directiveId: number) => void;
+  sendAutoTickSchedule: (schedule: AutoTickSchedule) => void;
+  sendSessionBudget: (budget: JamSessionBudget) => void;
+  sendHarmonyProposalDecision: (proposalId: number, approve: boolean) => void;
   sendBossDirective: (text: string, targetAgent?: string, activeAgents?: string[]) => void;
   sendStopJam: () => void;
   setContextInspectorEnabled: (enabled: boolean) => void;
   sendAudioFeedback: (payload: AudioFeatureSnapshot) => void;
   sendCameraDirective: (payload: CameraDirectivePayload, activeAgents?: string[]) => void;
+  sendJoinRoom: (room: string, name: string) => void;
+  sendLeaveRoom: () => void;
+  sendHandOffBoss: (memberId: number) => void;
+  sendJamSync: () => void;
   clearLines: () => void;
 }
 
@@ -46,10 +66,8 @@ export type UseCodexTerminalReturn = UseRuntimeTerminalReturn;
 export type UseAiTerminalOptions = UseRuntimeTerminalOptions;
 export type UseAiTerminalReturn = UseRuntimeTerminalReturn;
 
-const CONDUCTOR_INTENT_AGENT_KEYS = new Set(['drums', 'bass', 'melody', 'chords'] as const);
-
 function isConductorAgentKey(value: unknown): value is JamAgentKey {
-  return typeof value === 'string' && CONDUCTOR_INTENT_AGENT_KEYS.has(value as JamAgentKey);
+  return isAgentRosterKey(value);
 }
 
 function getDefaultWsUrl(): string {
@@ -74,6 +92,7 @@ export function useRuntimeTerminal(
   const [status, setStatus] = useState<RuntimeStatus>('connecting');
   const [isConnected, setIsConnected] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [roomState, setRoomState] = useState<JamRoomState | null>(null);
 
   const wsRef = useRef<WebSocket | null>(null);
   const onToolUseRef = useRef(onToolUse);
@@ -85,7 +104,10 @@ export function useRuntimeTerminal(
   const handleMessageRef = useRef<((event: MessageEvent) => void) | null>(null);
   const contextInspectorEnabledRef = useRef(true);
   const shouldReconnectRef = useRef(true);
-  const queuedStartJamAgentsRef = useRef<string[] | null>(null);
+  // start_jam / resume_jam message to send once the socket (re)opens
+  const queuedJamStartMessageRef = useRef<Record<string, unknown> | null>(null);
+  // Named room to rejoin after a reconnect (the server puts new sockets in a private room)
+  const joinedRoomRef = useRef<{ room: string; name: string } | null>(null);
   const MAX_RECONNECT_ATTEMPTS = 5;
 
   useEffect(() => {
@@ -177,15 +199,23 @@ export function useRuntimeTerminal(
           // Jam session messages from AgentProcessManager
           case 'agent_thought':
           case 'agent_commentary':
+          case 'agent_request':
           case 'agent_status':
           case 'execute':
           case 'jam_state_update':
           case 'auto_tick_timing_update':
           case 'auto_tick_fired':
           case 'directive_error':
+          case 'directive_queue_update':
             onJamBroadcastRef.current?.(message);
             break;
 
+          case 'jam_room_state':
+            if (message.payload && typeof message.payload === 'object') {
+              setRoomState(message.payload as JamRoomState);
+            }
+            break;
+
           case 'conductor_intent':
             if (message.payload && typeof message.payload === 'object') {
               const payload = message.payload as Record<string, unknown>;
@@ -261,10 +291,15 @@ export function useRuntimeTerminal(
         enabled: contextInspectorEnabledRef.current,
       }));
 
-      const queuedAgents = queuedStartJamAgentsRef.current;
-      if (queuedAgents) {
-        ws.send(JSON.stringify({ type: 'start_jam', activeAgents: queuedAgents }));
-        queuedStartJamAgentsRef.current = null;
+      const joinedRoom = joinedRoomRef.current;
+      if (joinedRoom) {
+        ws.send(JSON.stringify({ type: 'join_room', ...joinedRoom }));
+      }
+
+      const queuedJamStartMessage = queuedJamStartMessageRef.current;
+      if (queuedJamStartMessage) {
+        ws.send(JSON.stringify(queuedJamStartMessage));
+        queuedJamStartMessageRef.current = null;
       }
     };
 
@@ -272,6 +307,7 @@ export function useRuntimeTerminal(
       if (!shouldReconnectRef.current) return;
       setIsConnected(false);
       setStatus('error');
+      setRoomState(null);
       currentAssistantLineRef.current = null;
 
       // Auto-reconnect with exponential backoff, up to max attempts
@@ -345,18 +381,26 @@ export function useRuntimeTerminal(
     }
   }, [addLine, connect]);
 
-  const sendStartJam = useCallback((activeAgents: string[]) => {
+  const sendJamStartMessage = useCallback((message: Record<string, unknown>) => {
     if (wsRef.current?.readyState === WebSocket.OPEN) {
-      wsRef.current.send(JSON.stringify({ type: 'start_jam', activeAgents }));
-      queuedStartJamAgentsRef.current = null;
+      wsRef.current.send(JSON.stringify(message));
+      queuedJamStartMessageRef.current = null;
       return;
     }
 
-    queuedStartJamAgentsRef.current = activeAgents;
+    queuedJamStartMessageRef.current = message;
     setError('Runtime is not connected yet. Reconnecting to start jam...');
     connect();
   }, [connect, setError]);
 
+  const sendStartJam = useCallback((activeAgents: string[]) => {
+    sendJamStartMessage({ type: 'start_jam', activeAgents });
+  }, [sendJamStartMessage]);
+
+  const sendResumeJam = useCallback((sessionId: string) => {
+    sendJamStartMessage({ type: 'resume_jam', sessionId });
+  }, [sendJamStartMessage]);
+
   const sendBossDirective = useCallback((text: string, targetAgent?: string, activeAgents?: string[]) => {
     const trimmedText = text.trim();
     if (!trimmedText) {
@@ -380,6 +424,54 @@ export function useRuntimeTerminal(
     }
   }, []);
 
+  const sendArrangement = useCallback((sections: ArrangementSection[] | null) => {
+    if (wsRef.current?.readyState === WebSocket.OPEN) {
+      wsRef.current.send(JSON.stringify({ type: 'set_arrangement', arrangement: sections }));
+    }
+  }, []);
+
+  const sendSkipSection = useCallback(() => {
+    if (wsRef.current?.readyState === WebSocket.OPEN) {
+      wsRef.current.send(JSON.stringify({ type: 'skip_section' }));
+    }
+  }, []);
+
+  const sendAgentMix = useCallback((agent: string, mix: AgentMixUpdate) => {
+    if (wsRef.current?.readyState === WebSocket.OPEN) {
+      wsRef.current.send(JSON.stringify({ type: 'set_agent_mix', agent, mix }));
+    }
+  }, []);
+
+  const sendRevertPattern = useCallback((agent: string, version: number) => {
+    if (wsRef.current?.readyState === WebSocket.OPEN) {
+      wsRef.current.send(JSON.stringify({ type: 'revert_agent_pattern', agent, version }));
+    }
+  }, []);
+
+  const sendCancelDirective = useCallback((directiveId: number) => {
+    if (wsRef.current?.readyState === WebSocket.OPEN) {
+      wsRef.current.send(JSON.stringify({ type: 'cancel_directive', directiveId }));
+    }
+  }, []);
+
+  const sendAutoTickSchedule = useCallback((schedule: AutoTickSchedule) => {
+    if (wsRef.current?.readyState === WebSocket.OPEN) {
+      wsRef.current.send(JSON.stringify({ type: 'set_auto_tick_schedule', schedule }));
+    }
+  }, []);
+
+  const sendSessionBudget = useCallback((budget: JamSessionBudget) => {
+    if (wsRef.current?.readyState === WebSocket.OPEN) {
+      wsRef.current.send(JSON.stringify({ type: 'set_session_budget', budget }));
+    }
+  }, []);
+
+  const sendHarmonyProposalDecision = useCallback((proposalId: number, approve: boolean) => {
+    if (wsRef.current?.readyState === WebSocket.OPEN) {
+      wsRef.current.send(JSON.stringify({ type: 'resolve_harmony_proposal', proposalId, approve }));
+    }
+  }, []);
+
   const sendStopJam = useCallback(() => {
     if (wsRef.current?.readyState === WebSocket.OPEN) {
       wsRef.current.send(JSON.stringify({ type: 'stop_jam' }));
@@ -431,6 +523,33 @@ export function useRuntimeTerminal(
     }
   }, []);
 
+  const sendJoinRoom = useCallback((room: string, name: string) => {
+    joinedRoomRef.current = { room, name };
+    if (wsRef.current?.readyState === WebSocket.OPEN) {
+      wsRef.current.send(JSON.stringify({ type: 'join_room', room, name }));
+    }
+  }, []);
+
+  const sendLeaveRoom = useCallback(() => {
+    joinedRoomRef.current = null;
+    if (wsRef.current?.readyState === WebSocket.OPEN) {
+      wsRef.current.send(JSON.stringify({ type: 'leave_room' }));
+    }
+  }, []);
+
+  const sendHandOffBoss = useCallback((memberId: number) => {
+    if (wsRef.current?.readyState === WebSocket.OPEN) {
+      wsRef.current.send(JSON.stringify({ type: 'hand_off_boss', memberId }));
+    }
+  }, []);
+
+  // Ask for the room's latest jam state and pattern (late joiners)
+  const sendJamSync = useCallback(() => {
+    if (wsRef.current?.readyState === WebSocket.OPEN) {
+      wsRef.current.send(JSON.stringify({ type: 'sync_jam' }));
+    }
+  }, []);
+
   const clearLines = useCallback(() => {
     setLines([]);
     currentAssistantLineRef.current = null;
@@ -441,14 +560,28 @@ export function useRuntimeTerminal(
     status,
     isConnected,
     error,
+    roomState,
     sendMessage,
     sendStartJam,
+    sendResumeJam,
     sendJamPreset,
+    sendArrangement,
+    sendSkipSection,
+    sendAgentMix,
+    sendRevertPattern,
+    sendCancelDirective,
+    sendAutoTickSchedule,
+    sendSessionBudget,
+    sendHarmonyProposalDecision,
     sendBossDirective,
     sendStopJam,
     sendCameraDirective,
     setContextInspectorEnabled,
     sendAudioFeedback,
+    sendJoinRoom,
+    sendLeaveRoom,
+    sendHandOffBoss,
+    sendJamSync,
     clearLines,
   };
 }
@@ -1,7 +1,13 @@
 'use client';
 
-import { useRef, useCallback } from 'react';
+import { useRef, useCallback, useEffect, useState } from 'react';
 import type { StrudelPanelHandle } from '@/components/StrudelPanel';
+import { JAM_QUANTIZE_LEAD_MS, getQuantizedDelayMs } from '@/lib/jam-quantize';
+
+export interface QueuedPatternChange {
+  applyAtMs: number;  // local clock time the queued pattern starts sounding
+  bars: number;       // quantization grid it is waiting on
+}
 
 export interface UseStrudelReturn {
   ref: React.RefObject<StrudelPanelHandle>;
@@ -9,6 +15,10 @@ export interface UseStrudelReturn {
   evaluate: (autostart?: boolean) => void;
   stop: () => void;
   onEditorReady: (handle: StrudelPanelHandle) => void;
+  // Hold code until the next `bars` boundary; false if the scheduler is not running
+  queueCode: (code: string, bars: number) => boolean;
+  cancelQueuedCode: () => void;
+  queuedChange: QueuedPatternChange | null;
 }
 
 export function useStrudel(): UseStrudelReturn {
@@ -22,6 +32,11 @@ export function useStrudel(): UseStrudelReturn {
   const pendingCodeRef = useRef<string | null>(null);
   const pendingEvaluateRef = useRef<boolean | null>(null);
 
+  // Bar-quantized pattern waiting for its boundary
+  const [queuedChange, setQueuedChange] = useState<QueuedPatternChange | null>(null);
+  const queuedCodeRef = useRef<string | null>(null);
+  const queueTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
   const setCode = useCallback((code: string) => {
     const handle = editorHandleRef.current;
     if (isReadyRef.current && handle) {
@@ -41,13 +56,48 @@ export function useStrudel(): UseStrudelReturn {
     }
   }, []);
 
+  const cancelQueuedCode = useCallback(() => {
+    if (queueTimerRef.current !== null) {
+      clearTimeout(queueTimerRef.current);
+      queueTimerRef.current = null;
+    }
+    queuedCodeRef.current = null;
+    setQueuedChange(null);
+  }, []);
+
+  const queueCode = useCallback((code: string, bars: number) => {
+    const handle = editorHandleRef.current;
+    const position = isReadyRef.current && handle ? handle.getSchedulerPosition() : null;
+    if (!position || bars <= 0) return false;
+
+    // A newer pattern replaces the one already waiting on the same boundary
+    queuedCodeRef.current = code;
+    if (queueTimerRef.current !== null) return true;
+
+    const delayMs = getQuantizedDelayMs(position, bars);
+    setQueuedChange({ applyAtMs: Date.now() + delayMs + JAM_QUANTIZE_LEAD_MS, bars });
+    queueTimerRef.current = setTimeout(() => {
+      queueTimerRef.current = null;
+      const queuedCode = queuedCodeRef.current;
+      queuedCodeRef.current = null;
+      setQueuedChange(null);
+
+      const current = editorHandleRef.current;
+      if (queuedCode === null || !current) return;
+      current.setCode(queuedCode);
+      current.evaluate(true);
+    }, delayMs);
+    return true;
+  }, []);
+
   const stop = useCallback(() => {
+    cancelQueuedCode();
     const handle = editorHandleRef.current;
     // Only stop if editor is ready (nothing to stop otherwise)
     if (isReadyRef.current && handle) {
       handle.stop();
     }
-  }, []);
+  }, [cancelQueuedCode]);
 
   const onEditorReady = useCallback((handle: StrudelPanelHandle) => {
     // Store the handle directly (bypasses broken ref forwarding from next/dynamic)
@@ -67,5 +117,14 @@ export function useStrudel(): UseStrudelReturn {
     }
   }, []);
 
-  return { ref, setCode, evaluate, stop, onEditorReady };
+  useEffect(() => {
+    return () => {
+      if (queueTimerRef.current !== null) {
+        clearTimeout(queueTimerRef.current);
+        queueTimerRef.current = null;
+      }
+    };
+  }, []);
+
+  return { ref, setCode, evaluate, stop, onEditorReady, queueCode, cancelQueuedCode, queuedChange };
 }
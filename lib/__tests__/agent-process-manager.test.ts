@@ -65,7 +65,7 @@ import { spawn } from 'child_process';
 import * as fs from 'fs';
 import { AgentProcessManager, BroadcastFn } from '../agent-process-manager';
 import { JAM_GOVERNANCE } from '../jam-governance-constants';
-import type { MusicalContext, JamTurnSource, ExecutePayload } from '../types';
+import type { MusicalContext, JamTurnSource, ExecutePayload, DirectiveQueuePayload, DirectiveErrorPayload, JamStateDiagnostics, HarmonyProposal } from '../types';
 
 const mockedSpawn = vi.mocked(spawn);
 
@@ -124,6 +124,7 @@ function createFakeProcess() {
     stderr: PassThrough;
     pid: number;
     killed: boolean;
+    exitCode: number | null;
     kill: (signal?: string) => boolean;
   };
   proc.stdin = stdin;
@@ -131,6 +132,7 @@ function createFakeProcess() {
   proc.stderr = stderr;
   proc.pid = Math.floor(Math.random() * 10000);
   proc.killed = false;
+  proc.exitCode = null;
   proc.kill = vi.fn((signal?: string) => {
     proc.killed = true;
     proc.emit('exit', 0, signal || 'SIGTERM');
@@ -155,6 +157,8 @@ function sendAgentResponse(
       suggested_key?: unknown;
       suggested_chords?: unknown;
     };
+    requests?: unknown;
+    votes?: unknown;
   }
 ) {
   // Send assistant message with the JSON response
@@ -242,12 +246,15 @@ interface BroadcastJamState {
   activeAgents: string[];
   activatedAgents: string[];
   mutedAgents?: string[];
+  mixer?: Record<string, { gain: number; pan: number; solo: boolean; mute: boolean }>;
+  harmonyProposals?: HarmonyProposal[];
 }
 
 interface BroadcastJamStatePayload {
   jamState: BroadcastJamState;
   combinedPattern: string;
   turnSource?: JamTurnSource;
+  diagnostics?: JamStateDiagnostics;
 }
 
 interface BroadcastExecutePayload {
@@ -364,7 +371,7 @@ describe('AgentProcessManager turn serialization', () => {
     vi.useRealTimers();
   });
 
-  it('directive waits for in-flight tick before executing', async () => {
+  it('directive pre-empts the in-flight tick instead of waiting for it', async () => {
     const { manager, broadcast, processes } = createTestManager();
 
     // Start with one agent (drums)
@@ -389,21 +396,15 @@ describe('AgentProcessManager turn serialization', () => {
     // Flush microtasks so the tick turn starts and attaches its readline listener
     await vi.advanceTimersByTimeAsync(0);
 
-    // Queue a directive BEHIND the in-flight tick
+    // The directive kills drums' tick turn rather than queueing behind it
     const directivePromise = manager.handleDirective(
       'More cowbell!',
       'drums',
       ['drums']
     );
+    expect(drumsProc.kill).toHaveBeenCalledWith('SIGTERM');
 
-    // Respond to the tick (listener is attached, so readline fires)
-    sendAgentResponse(drumsProc, {
-      pattern: 's("bd sd bd sd")',
-      thoughts: 'Evolving',
-      reaction: 'Grooving',
-    });
-
-    // Flush microtasks: tick completes, directive turn starts
+    // Flush microtasks: aborted tick completes, directive turn starts
     await vi.advanceTimersByTimeAsync(0);
 
     // Respond to the directive
@@ -415,14 +416,12 @@ describe('AgentProcessManager turn serialization', () => {
 
     await directivePromise;
 
-    // Verify the turns executed sequentially by checking broadcast calls.
-    // The jam_state_update payloads should show incrementing round numbers:
-    // jam-start = round 1, tick = round 2, directive = round 3
-    const jamStateUpdates = broadcast.mock.calls
-      .filter(([msg]: unknown[]) => (msg as { type: string }).type === 'jam_state_update')
-      .map(([msg]: unknown[]) => (msg as { payload: { jamState: { currentRound: number } } }).payload.jamState.currentRound);
-
-    expect(jamStateUpdates).toEqual([1, 2, 3]);
+    // Turns stay serialized: jam-start = round 1, aborted tick = round 2,
+    // directive = round 3
+    const jamStateUpdates = getJamStateUpdatePayloads(broadcast);
+    expect(jamStateUpdates.map((item) => item.jamState.currentRound)).toEqual([1, 2, 3]);
+    expect(getJamStateForRound(broadcast, 2)?.agents.drums).toMatchObject({ pattern: 's("bd sd")' });
+    expect(getLatestJamState(broadcast)?.agents.drums).toMatchObject({ pattern: 's("bd sd cp sd")' });
   });
 
   it('broadcasts jam_start jam_state_update with explicit turnSource', async () => {
@@ -636,6 +635,9 @@ describe('AgentProcessManager turn serialization', () => {
 
     expect(writtenPrompt).toContain('Required keys: pattern, thoughts.');
     expect(writtenPrompt).toContain('Optional keys: commentary, decision (tempo_delta_pct');
+    expect(writtenPrompt).toContain('requests ([{"to": "<AGENT NAME>", "text": "..."}])');
+    // Votes are only read on auto-ticks
+    expect(writtenPrompt).not.toContain('votes (');
     expect(writtenPrompt).toContain('commentary is an optional short band-chat line about feel/interplay/boss cues. Omit commentary instead of filler.');
     expect(writtenPrompt).toContain('Use decision only when relevant; omit decision or any field when not relevant or not confident.');
 
@@ -649,6 +651,36 @@ describe('AgentProcessManager turn serialization', () => {
     await manager.stop();
   });
 
+  it('leaves votes out of directive prompts, which never count them', async () => {
+    const { manager, processes } = createTestManager();
+
+    const startPromise = manager.start(['drums']);
+    await vi.advanceTimersByTimeAsync(0);
+    const drumsProc = getNthProcess(processes, 0);
+    drumsProc.stdin.read();
+    sendAgentResponse(drumsProc, {
+      pattern: 's("bd sd")',
+      thoughts: 'Opening beat',
+      reaction: 'Kickoff',
+    });
+    await startPromise;
+
+    const directivePromise = manager.handleDirective('Drop the bass', 'drums', ['drums']);
+    await vi.advanceTimersByTimeAsync(0);
+    const directivePrompt = String(drumsProc.stdin.read());
+    expect(directivePrompt).toContain('DIRECTIVE from the boss');
+    expect(directivePrompt).toContain('requests ([{"to": "<AGENT NAME>", "text": "..."}]).');
+    expect(directivePrompt).not.toContain('votes (');
+
+    sendAgentResponse(drumsProc, {
+      pattern: 's("bd bd")',
+      thoughts: 'Double kick',
+      reaction: 'Drop the bass',
+    });
+    await directivePromise;
+    await manager.stop();
+  });
+
   it('uses profile-based jam codex args without deprecated tool flags', async () => {
     const { manager, processes } = createTestManager();
 
@@ -749,6 +781,8 @@ describe('AgentProcessManager turn serialization', () => {
     await startPromise;
 
     broadcast.mockClear();
+    const prompts: string[] = [];
+    drumsProc.stdin.on('data', (chunk) => prompts.push(String(chunk)));
 
     const directivePromise = manager.handleDirective(
       'half time feel, keep it punchy',
@@ -774,13 +808,26 @@ describe('AgentProcessManager turn serialization', () => {
       .map(([msg]: unknown[]) => msg as { type: string; payload?: { code?: string } })
       .filter((msg) => msg.type === 'execute');
     expect(executeMessages).toHaveLength(1);
-    expect(executeMessages[0].payload?.code).toBe('s("bd sd")');
+    expect(executeMessages[0].payload?.code).toBe('setcpm(60/4)\ns("bd sd")');
 
     const directiveErrors = broadcast.mock.calls
-      .map(([msg]: unknown[]) => msg as { type: string; payload?: { message?: string } })
+      .map(([msg]: unknown[]) => msg as { type: string; payload?: DirectiveErrorPayload })
       .filter((msg) => msg.type === 'directive_error');
     expect(directiveErrors).toHaveLength(1);
     expect(directiveErrors[0].payload?.message).toContain('invalid pattern');
+    expect(directiveErrors[0].payload?.pattern).toBe('s("bd > sd")');
+    expect(directiveErrors[0].payload?.issues).toEqual([{
+      code: 'unbalanced_delimiter',
+      message: 's(): unmatched ">" in mini string',
+      start: 6,
+      end: 7,
+      suggestion: 'remove ">"',
+    }]);
+
+    // The retry prompt points at the problem
+    const retryPrompt = prompts.find((prompt) => prompt.includes('RETRY NOTICE'));
+    expect(retryPrompt).toContain('PATTERN PROBLEMS:');
+    expect(retryPrompt).toContain('- s(): unmatched ">" in mini string at col 7 — remove ">" (at `>`)');
 
     const agentThoughts = broadcast.mock.calls
       .map(([msg]: unknown[]) => msg as { type: string })
@@ -839,7 +886,7 @@ describe('AgentProcessManager turn serialization', () => {
       .map(([msg]: unknown[]) => msg as { type: string; payload?: { code?: string } })
       .filter((msg) => msg.type === 'execute');
     expect(executeMessages).toHaveLength(1);
-    expect(executeMessages[0].payload?.code).toBe('s("bd cp sd cp")');
+    expect(executeMessages[0].payload?.code).toBe('setcpm(120/4)\ns("bd cp sd cp")');
 
     const directiveErrors = broadcast.mock.calls
       .map(([msg]: unknown[]) => msg as { type: string })
@@ -1267,12 +1314,13 @@ describe('AgentProcessManager turn serialization', () => {
     });
     await startPromise;
 
-    // Send two directives concurrently
+    // Send a second directive while the first one's turn is in flight
+    // (two queued cues for the same agent would be superseded instead)
     const d1 = manager.handleDirective('Faster!', 'drums', ['drums']);
+    await vi.advanceTimersByTimeAsync(0);
     const d2 = manager.handleDirective('Louder!', 'drums', ['drums']);
 
     // First directive gets the agent — respond to it
-    await vi.advanceTimersByTimeAsync(0);
     sendAgentResponse(drumsProc, {
       pattern: 's("bd sd bd sd").fast(2)',
       thoughts: 'Going faster',
@@ -1320,17 +1368,10 @@ describe('AgentProcessManager turn serialization', () => {
     vi.advanceTimersByTime(JAM_GOVERNANCE.AUTO_TICK_INTERVAL_MS);
     await vi.advanceTimersByTimeAsync(0);
 
-    // Queue directive behind the in-flight tick
+    // The directive aborts the in-flight tick
     const directivePromise = manager.handleDirective('Test', 'drums', ['drums']);
 
-    // Respond to tick
-    sendAgentResponse(drumsProc, {
-      pattern: 's("bd sd")',
-      thoughts: 'Tick',
-      reaction: 'Tick',
-    });
-
-    // Flush: tick completes, directive starts
+    // Flush: aborted tick completes, directive starts
     await vi.advanceTimersByTimeAsync(0);
 
     // Respond to directive
@@ -1551,7 +1592,7 @@ describe('AgentProcessManager musical context updates', () => {
       .map(([msg]: unknown[]) => msg as { type: string; payload?: { code?: string } })
       .filter((msg) => msg.type === 'execute');
     expect(executeMessages.length).toBeGreaterThanOrEqual(2); // jam-start + directive
-    expect(executeMessages[executeMessages.length - 1].payload?.code).toBe('s("bd sd bd sd")');
+    expect(executeMessages[executeMessages.length - 1].payload?.code).toBe('setcpm(140/4)\ns("bd sd bd sd")');
 
     // Find the jam_state_update from the directive (round 2)
     const directiveJamState = getJamStateForRound(broadcast, 2);
@@ -1566,6 +1607,36 @@ describe('AgentProcessManager musical context updates', () => {
     await manager.stop();
   });
 
+  it('explicit BPM re-clocks the composed pattern even when agents keep their pattern', async () => {
+    const { manager, broadcast, processes } = createTestManager();
+
+    const startPromise = manager.start(['drums']);
+    await vi.advanceTimersByTimeAsync(0);
+
+    const drumsProc = getNthProcess(processes, 0);
+    sendAgentResponse(drumsProc, {
+      pattern: 's("bd sd")',
+      thoughts: 'Opening',
+    });
+    await startPromise;
+
+    const directivePromise = manager.handleDirective('BPM 132', 'drums', ['drums']);
+    await vi.advanceTimersByTimeAsync(0);
+
+    sendAgentResponse(drumsProc, {
+      pattern: 'no_change',
+      thoughts: 'Same groove, new clock',
+    });
+    await directivePromise;
+
+    const executePayloads = getExecutePayloads(broadcast);
+    const latest = executePayloads[executePayloads.length - 1];
+    expect(latest.code).toBe('setcpm(132/4)\ns("bd sd")');
+    expect(latest.changed).toBe(false);
+
+    await manager.stop();
+  });
+
   it('relative energy change uses model decision delta', async () => {
     const { manager, broadcast, processes } = createTestManager();
 
@@ -3517,7 +3588,7 @@ describe('AgentProcessManager context suggestions', () => {
     await manager.stop();
   });
 
-  it('applies chord suggestion with high confidence', async () => {
+  it('applies a high-confidence chord suggestion once a bandmate endorses it', async () => {
     const { manager, broadcast, processes } = createTestManager();
 
     const startPromise = manager.start(['drums', 'melody']);
@@ -3552,9 +3623,44 @@ describe('AgentProcessManager context suggestions', () => {
 
     await vi.advanceTimersByTimeAsync(0);
 
-    const jamState = getLatestJamState(broadcast);
-    expect(jamState).toBeDefined();
+    // One voice opens a proposal; the chords stay until the band agrees
+    let jamState = getLatestJamState(broadcast);
+    expect(jamState!.musicalContext.chordProgression).toEqual(['Cm', 'Ab', 'Eb', 'Bb']);
+    expect(jamState!.harmonyProposals).toEqual([
+      expect.objectContaining({ id: 1, kind: 'chords', proposedBy: 'melody', supporters: ['melody'], status: 'pending' }),
+    ]);
+
+    vi.advanceTimersByTime(JAM_GOVERNANCE.AUTO_TICK_INTERVAL_MS);
+    await vi.advanceTimersByTimeAsync(0);
+
+    // Buffered prompts so far; the latest auto-tick lists the open proposal and asks for votes
+    const drumsPrompts = String(getProcessByKey(processes, 'drums').stdin.read());
+    expect(drumsPrompts).toContain('OPEN HARMONY PROPOSALS:\n#1 chords → Dm → G → Cm — for: ');
+    const latestAutoTickPrompt = drumsPrompts.slice(drumsPrompts.lastIndexOf('<manager_turn>'));
+    expect(latestAutoTickPrompt).toContain('votes ([{"proposal": <id>, "vote": "endorse" | "object"}])');
+    expect(latestAutoTickPrompt).toContain('votes endorse or object to open harmony proposals');
+
+    sendAgentResponse(getProcessByKey(processes, 'drums'), {
+      pattern: 'no_change',
+      thoughts: 'Those changes work',
+      reaction: 'Backing it',
+      votes: [{ proposal: 1, vote: 'endorse' }],
+    });
+    sendAgentResponse(getProcessByKey(processes, 'melody'), {
+      pattern: 'no_change',
+      thoughts: 'Waiting',
+      reaction: 'Holding',
+    });
+
+    await vi.advanceTimersByTimeAsync(0);
+
+    jamState = getLatestJamState(broadcast);
     expect(jamState!.musicalContext.chordProgression).toEqual(['Dm', 'G', 'Cm']);
+    expect(jamState!.harmonyProposals?.[0]).toMatchObject({
+      status: 'applied',
+      resolvedBy: 'band',
+      supporters: ['melody', 'drums'],
+    });
 
     await manager.stop();
   });
@@ -4221,3 +4327,473 @@ describe('AgentProcessManager auto-tick timing broadcasts', () => {
     await manager.stop();
   });
 });
+
+describe('AgentProcessManager agent-to-agent requests', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.clearAllMocks();
+    vi.mocked(fs.existsSync).mockImplementation(default_exists_sync_impl);
+    setupRuntimeCheckMocks();
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+  });
+
+  function getAgentRequests(broadcast: ReturnType<typeof vi.fn>): Array<{ from: string; to: string; text: string }> {
+    return broadcast.mock.calls
+      .map(([msg]: unknown[]) => msg as { type: string; payload?: { from: string; to: string; text: string } })
+      .filter((msg) => msg.type === 'agent_request' && !!msg.payload)
+      .map((msg) => ({ from: msg.payload!.from, to: msg.payload!.to, text: msg.payload!.text }));
+  }
+
+  function captureStdin(proc: ReturnType<typeof createFakeProcess>): string[] {
+    const written: string[] = [];
+    proc.stdin.on('data', (chunk) => written.push(String(chunk)));
+    return written;
+  }
+
+  async function startDrumsAndBass(drumsRequests?: unknown) {
+    const harness = createTestManager();
+    const startPromise = harness.manager.start(['drums', 'bass']);
+    await vi.advanceTimersByTimeAsync(0);
+
+    const drumsProc = getProcessByKey(harness.processes, 'drums');
+    const bassProc = getProcessByKey(harness.processes, 'bass');
+    sendAgentResponse(drumsProc, {
+      pattern: 's("bd sd")',
+      thoughts: 'Opening drums',
+      requests: drumsRequests,
+    });
+    sendAgentResponse(bassProc, { pattern: 'note("c2 g2 c2 g2")', thoughts: 'Opening bass' });
+    await startPromise;
+    return { ...harness, drumsProc, bassProc };
+  }
+
+  it('routes a request as a targeted turn for the recipient and caps the reply chain', async () => {
+    const { manager, broadcast, processes } = createTestManager();
+    const startPromise = manager.start(['drums', 'bass']);
+    await vi.advanceTimersByTimeAsync(0);
+
+    const drumsProc = getProcessByKey(processes, 'drums');
+    const bassProc = getProcessByKey(processes, 'bass');
+    const bassPrompts = captureStdin(bassProc);
+    sendAgentResponse(drumsProc, {
+      pattern: 's("bd sd")',
+      thoughts: 'Opening drums',
+      requests: [{ to: '@GROOVE', text: 'simplify so I can fill' }],
+    });
+    sendAgentResponse(bassProc, { pattern: 'note("c2 g2 c2 g2")', thoughts: 'Opening bass' });
+    await startPromise;
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(getAgentRequests(broadcast)).toEqual([{ from: 'drums', to: 'bass', text: 'simplify so I can fill' }]);
+    expect(bassPrompts.join('')).toContain('🥁 BEAT (drums) SAYS TO YOU: simplify so I can fill');
+
+    // GROOVE answers and asks back (depth 2, allowed)
+    sendAgentResponse(bassProc, {
+      pattern: 'note("c2 ~ ~ ~")',
+      thoughts: 'Thinning out',
+      commentary: 'Space is yours, BEAT.',
+      requests: [{ to: 'BEAT', text: 'land the fill on the one' }],
+    });
+    await vi.advanceTimersByTimeAsync(0);
+
+    const requestExecute = getExecutePayloads(broadcast).find((payload) => payload.turnSource === 'agent-request');
+    expect(requestExecute?.changedAgents).toEqual(['bass']);
+    expect(getAgentRequests(broadcast).map((request) => request.to)).toEqual(['bass', 'drums']);
+
+    // BEAT answers with a third hop, which is past the chain depth limit
+    sendAgentResponse(drumsProc, {
+      pattern: 's("bd sd [sd sd] sd")',
+      thoughts: 'Fill into the one',
+      requests: [{ to: 'GROOVE', text: 'now come back in' }],
+    });
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(getAgentRequests(broadcast)).toHaveLength(2);
+    expect(getLatestJamState(broadcast)?.currentRound).toBe(3);
+
+    await manager.stop();
+  });
+
+  it('ignores requests addressed to agents outside the jam', async () => {
+    const { manager, broadcast } = await startDrumsAndBass([{ to: 'melody', text: 'come in on the next bar' }]);
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(getAgentRequests(broadcast)).toEqual([]);
+    expect(getExecutePayloads(broadcast).some((payload) => payload.turnSource === 'agent-request')).toBe(false);
+    expect(manager.getJamStateSnapshot().currentRound).toBe(1);
+
+    await manager.stop();
+  });
+
+  it('never lets a bandmate silence the recipient', async () => {
+    const { manager, broadcast, bassProc } = await startDrumsAndBass([{ to: 'bass', text: 'drop out for a bit' }]);
+    await vi.advanceTimersByTimeAsync(0);
+
+    sendAgentResponse(bassProc, { pattern: 'silence', thoughts: 'Dropping out' });
+    await vi.advanceTimersByTimeAsync(0);
+
+    const jamState = getLatestJamState(broadcast);
+    expect((jamState!.agents.bass as { pattern: string }).pattern).toBe('note("c2 g2 c2 g2")');
+    expect((jamState!.agents.bass as { status: string }).status).toBe('playing');
+
+    await manager.stop();
+  });
+});
+
+describe('AgentProcessManager mixer', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.clearAllMocks();
+    vi.mocked(fs.existsSync).mockImplementation(default_exists_sync_impl);
+    setupRuntimeCheckMocks();
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+  });
+
+  async function startDrumsAndBass() {
+    const harness = createTestManager();
+    const startPromise = harness.manager.start(['drums', 'bass']);
+    await vi.advanceTimersByTimeAsync(0);
+
+    const drumsProc = getProcessByKey(harness.processes, 'drums');
+    const bassProc = getProcessByKey(harness.processes, 'bass');
+    sendAgentResponse(drumsProc, { pattern: 's("bd sd")', thoughts: 'Opening drums' });
+    sendAgentResponse(bassProc, { pattern: 'note("c2 g2")', thoughts: 'Opening bass' });
+    await startPromise;
+    return { ...harness, drumsProc, bassProc };
+  }
+
+  it('applies gain, pan, solo and mute around each layer and syncs jam state', async () => {
+    const { manager, broadcast } = await startDrumsAndBass();
+    expect(getLatestJamState(broadcast)?.mixer?.bass).toEqual({ gain: 1, pan: 0, solo: false, mute: false });
+
+    manager.setAgentMix('bass', { gain: 0.8, pan: -0.5 });
+    let execute = getExecutePayloads(broadcast).at(-1);
+    expect(execute?.turnSource).toBe('mixer');
+    expect(execute?.code).toContain('s("bd sd")');
+    expect(execute?.code).toContain('note("c2 g2").postgain(0.8).pan(0.25)');
+
+    manager.setAgentMix('drums', { solo: true });
+    execute = getExecutePayloads(broadcast).at(-1);
+    expect(execute?.code).toContain('s("bd sd")');
+    expect(execute?.code).not.toContain('note("c2 g2")');
+
+    manager.setAgentMix('drums', { solo: false, mute: true });
+    execute = getExecutePayloads(broadcast).at(-1);
+    expect(execute?.code).not.toContain('s("bd sd")');
+    expect(execute?.code).toContain('note("c2 g2")');
+    expect(getLatestJamState(broadcast)?.mixer?.drums).toEqual({ gain: 1, pan: 0, solo: false, mute: true });
+    // Channel mute is a mixer move, not an agent-level mute
+    expect(getLatestJamState(broadcast)?.mutedAgents).toEqual([]);
+
+    expect(() => manager.setAgentMix('melody', { gain: 0.5 })).toThrow('ARIA is not in this jam session');
+
+    await manager.stop();
+  });
+
+  it('handles mixer directives without consulting the agents', async () => {
+    const { manager, broadcast, drumsProc, bassProc } = await startDrumsAndBass();
+    const prompts: string[] = [];
+    drumsProc.stdin.on('data', (chunk) => prompts.push(String(chunk)));
+    bassProc.stdin.on('data', (chunk) => prompts.push(String(chunk)));
+    await vi.advanceTimersByTimeAsync(0);
+    prompts.length = 0; // drop the buffered opening prompts
+
+    await manager.handleDirective('bass up a bit', undefined, ['drums', 'bass']);
+    await manager.handleDirective('solo', 'drums', ['drums', 'bass']);
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(prompts).toEqual([]);
+    expect(manager.getJamStateSnapshot().mixer).toEqual({
+      drums: { gain: 1, pan: 0, solo: true, mute: false },
+      bass: { gain: 1.1, pan: 0, solo: false, mute: false },
+    });
+    expect(manager.getJamStateSnapshot().currentRound).toBe(1);
+
+    await manager.handleDirective('unsolo', undefined, ['drums', 'bass']);
+    expect(getExecutePayloads(broadcast).at(-1)?.code).toContain('note("c2 g2").postgain(1.1)');
+
+    await manager.stop();
+  });
+});
+
+describe('AgentProcessManager pattern history', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.clearAllMocks();
+    vi.mocked(fs.existsSync).mockImplementation(default_exists_sync_impl);
+    setupRuntimeCheckMocks();
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+  });
+
+  async function startDrumsThenChange() {
+    const harness = createTestManager();
+    const startPromise = harness.manager.start(['drums']);
+    await vi.advanceTimersByTimeAsync(0);
+    const drumsProc = getProcessByKey(harness.processes, 'drums');
+    sendAgentResponse(drumsProc, { pattern: 's("bd sd")', thoughts: 'Opening' });
+    await startPromise;
+
+    const directive = harness.manager.handleDirective('Busier!', 'drums', ['drums']);
+    await vi.advanceTimersByTimeAsync(0);
+    sendAgentResponse(drumsProc, { pattern: 's("bd*4 sd*4")', thoughts: 'Busy' });
+    await directive;
+
+    const prompts: string[] = [];
+    drumsProc.stdin.on('data', (chunk) => prompts.push(String(chunk)));
+    await vi.advanceTimersByTimeAsync(0);
+    prompts.length = 0; // drop the buffered earlier prompts
+    return { ...harness, drumsProc, prompts };
+  }
+
+  it('records versions and reverts without a model turn, then tells the agent', async () => {
+    const { manager, broadcast, drumsProc, prompts } = await startDrumsThenChange();
+    expect(manager.getJamStateSnapshot().patternHistory.drums.map((entry) => ({
+      version: entry.version,
+      turnSource: entry.turnSource,
+      directive: entry.directive,
+    }))).toEqual([
+      { version: 1, turnSource: 'jam-start', directive: undefined },
+      { version: 2, turnSource: 'directive', directive: 'Busier!' },
+    ]);
+
+    await manager.revertAgentPattern('drums', 1);
+    expect(prompts).toEqual([]);
+    const execute = getExecutePayloads(broadcast).at(-1);
+    expect(execute?.turnSource).toBe('revert');
+    expect(execute?.changedAgents).toEqual(['drums']);
+    expect(execute?.code).toContain('s("bd sd")');
+    expect(manager.getJamStateSnapshot().patternHistory.drums.at(-1)).toMatchObject({
+      version: 3,
+      pattern: 's("bd sd")',
+      turnSource: 'revert',
+      revertOf: 1,
+    });
+
+    vi.advanceTimersByTime(JAM_GOVERNANCE.AUTO_TICK_INTERVAL_MS);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(prompts.join('')).toContain('BOSS ROLLED YOUR PATTERN BACK to what you played in round 1. You had moved on to: s("bd*4 sd*4")');
+    sendAgentResponse(drumsProc, { pattern: 'no_change', thoughts: 'Holding the restored groove' });
+    await vi.advanceTimersByTimeAsync(0);
+
+    await expect(manager.revertAgentPattern('drums', 42)).rejects.toThrow('BEAT has no pattern version 42');
+
+    await manager.stop();
+  });
+
+  it('repeats the revert note when a directive answer has to be repaired', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const { manager, drumsProc, prompts } = await startDrumsThenChange();
+    await manager.revertAgentPattern('drums', 1);
+
+    const directive = manager.handleDirective('Add a fill', 'drums', ['drums']);
+    await vi.advanceTimersByTimeAsync(0);
+    sendAgentResponse(drumsProc, { pattern: 's("bd sd").lpff(800)', thoughts: 'Fill' });
+    await vi.advanceTimersByTimeAsync(0);
+
+    // Both the first prompt and the rebuilt retry prompt carry the one-shot note
+    const written = prompts.join('');
+    expect(written).toContain('RETRY NOTICE');
+    expect(written.split('BOSS ROLLED YOUR PATTERN BACK to what you played in round 1.')).toHaveLength(3);
+
+    sendAgentResponse(drumsProc, { pattern: 's("bd sd cp")', thoughts: 'Fill' });
+    await directive;
+    await manager.stop();
+  });
+
+  it('handles "go back" directives from the history', async () => {
+    const { manager, broadcast, prompts } = await startDrumsThenChange();
+
+    await manager.handleDirective('go back to what you had a round ago', 'drums', ['drums']);
+    expect(prompts).toEqual([]);
+    expect(manager.getJamStateSnapshot().agents.drums.pattern).toBe('s("bd sd")');
+    expect(manager.getJamStateSnapshot().patternHistory.drums.at(-1)?.directive)
+      .toBe('go back to what you had a round ago');
+
+    await manager.handleDirective('go back 5 versions', 'drums', ['drums']);
+    const directiveErrors = broadcast.mock.calls
+      .map(([msg]: unknown[]) => msg as { type: string; payload?: { message?: string } })
+      .filter((msg) => msg.type === 'directive_error');
+    expect(directiveErrors.at(-1)?.payload?.message).toBe('BEAT has no earlier pattern to go back to.');
+
+    await manager.stop();
+  });
+});
+
+describe('AgentProcessManager directive queue', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.clearAllMocks();
+    vi.mocked(fs.existsSync).mockImplementation(default_exists_sync_impl);
+    setupRuntimeCheckMocks();
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+  });
+
+  function getQueueUpdates(broadcast: ReturnType<typeof vi.fn>): DirectiveQueuePayload[] {
+    return broadcast.mock.calls
+      .map(([msg]: unknown[]) => msg as { type: string; payload?: DirectiveQueuePayload })
+      .filter((msg) => msg.type === 'directive_queue_update' && !!msg.payload)
+      .map((msg) => msg.payload!);
+  }
+
+  it('coalesces, supersedes and cancels cues queued behind a running turn', async () => {
+    const { manager, broadcast, processes } = createTestManager();
+    const startPromise = manager.start(['drums', 'bass']);
+    await vi.advanceTimersByTimeAsync(0);
+    const drumsProc = getProcessByKey(processes, 'drums');
+    const bassProc = getProcessByKey(processes, 'bass');
+    sendAgentResponse(drumsProc, { pattern: 's("bd sd")', thoughts: 'Opening drums' });
+    sendAgentResponse(bassProc, { pattern: 'note("c2 g2")', thoughts: 'Opening bass' });
+    await startPromise;
+    const bassPrompts: string[] = [];
+    bassProc.stdin.on('data', (chunk) => bassPrompts.push(String(chunk)));
+
+    // Drums' directive turn is in flight; everything below waits behind it
+    const running = manager.handleDirective('Hold it', 'drums', ['drums', 'bass']);
+    await vi.advanceTimersByTimeAsync(0);
+    const broadcastCues = [
+      manager.handleDirective('more energy', undefined, ['drums', 'bass']),
+      manager.handleDirective('darker', undefined, ['drums', 'bass']),
+    ];
+    const bassCues = [
+      manager.handleDirective('walk it up', 'bass', ['drums', 'bass']),
+      manager.handleDirective('play roots', 'bass', ['drums', 'bass']),
+    ];
+    const cancelled = manager.handleDirective('fill!', 'drums', ['drums', 'bass']);
+
+    const queued = getQueueUpdates(broadcast).at(-1)!;
+    expect(queued.activeTurn?.label).toBe('directive');
+    expect(queued.etaMs).not.toBeNull();
+    expect(queued.pending.map(({ text, targetAgent, cueCount }) => ({ text, targetAgent, cueCount }))).toEqual([
+      { text: 'more energy; darker', targetAgent: undefined, cueCount: 2 },
+      { text: 'play roots', targetAgent: 'bass', cueCount: 1 },
+      { text: 'fill!', targetAgent: 'drums', cueCount: 1 },
+    ]);
+    expect(manager.cancelDirective(queued.pending[2].id)).toBe(true);
+    expect(getQueueUpdates(broadcast).at(-1)!.pending).toHaveLength(2);
+
+    sendAgentResponse(drumsProc, { pattern: 's("bd ~ sd ~")', thoughts: 'Holding' });
+    await running;
+    await vi.advanceTimersByTimeAsync(0);
+
+    // One turn answers both broadcast cues
+    sendAgentResponse(drumsProc, { pattern: 's("bd*2 sd")', thoughts: 'Energy' });
+    sendAgentResponse(bassProc, { pattern: 'note("c2 eb2")', thoughts: 'Darker' });
+    await Promise.all(broadcastCues);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(bassPrompts.join('')).toContain('BOSS SAYS: more energy; darker');
+
+    sendAgentResponse(bassProc, { pattern: 'note("c2 c2")', thoughts: 'Roots' });
+    await Promise.all([...bassCues, cancelled]);
+
+    expect(bassPrompts.join('')).toContain('BOSS SAYS TO YOU: play roots');
+    expect(bassPrompts.join('')).not.toContain('walk it up');
+    // jam-start, Hold it, the coalesced broadcast, play roots
+    expect(manager.getJamStateSnapshot().currentRound).toBe(4);
+    expect(manager.cancelDirective(queued.pending[0].id)).toBe(false);
+
+    await manager.stop();
+  });
+});
+
+describe('AgentProcessManager auto-tick preemption', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.clearAllMocks();
+    vi.mocked(fs.existsSync).mockImplementation(default_exists_sync_impl);
+    setupRuntimeCheckMocks();
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+  });
+
+  it('aborts only the targeted agent, keeps its thread and reports the round', async () => {
+    const { manager, broadcast, processes } = createTestManager();
+    const startPromise = manager.start(['drums', 'bass']);
+    await vi.advanceTimersByTimeAsync(0);
+    const drumsProc = getProcessByKey(processes, 'drums');
+    const bassProc = getProcessByKey(processes, 'bass');
+    sendThreadStarted(drumsProc, 'thread-drums');
+    sendAgentResponse(drumsProc, { pattern: 's("bd sd")', thoughts: 'Opening drums' });
+    sendAgentResponse(bassProc, { pattern: 'note("c2 g2")', thoughts: 'Opening bass' });
+    await startPromise;
+
+    vi.advanceTimersByTime(JAM_GOVERNANCE.AUTO_TICK_INTERVAL_MS);
+    await vi.advanceTimersByTimeAsync(0);
+    // The killed turn had already announced a replacement thread
+    sendThreadStarted(drumsProc, 'thread-half-written');
+
+    const directivePromise = manager.handleDirective('Half-time feel', 'drums', ['drums', 'bass']);
+    expect(drumsProc.kill).toHaveBeenCalled();
+    expect(bassProc.kill).not.toHaveBeenCalled();
+
+    // Bass still finishes its round
+    sendAgentResponse(bassProc, { pattern: 'note("c2 eb2")', thoughts: 'Evolving bass' });
+    await vi.advanceTimersByTimeAsync(0);
+    sendAgentResponse(drumsProc, { pattern: 's("bd ~ ~ ~ sd ~ ~ ~")', thoughts: 'Half-time' });
+    await directivePromise;
+
+    const tickPayload = getJamStateUpdatePayloads(broadcast).find((item) => item.turnSource === 'auto-tick')!;
+    expect(tickPayload.jamState.currentRound).toBe(2);
+    expect(tickPayload.jamState.agents.drums).toMatchObject({ pattern: 's("bd sd")' });
+    expect(tickPayload.jamState.agents.bass).toMatchObject({ pattern: 'note("c2 eb2")' });
+    expect(tickPayload.diagnostics?.preemptedAutoTick).toMatchObject({
+      round: 2,
+      agents: ['drums'],
+      directive: 'Half-time feel',
+    });
+    const drumsTurns = tickPayload.diagnostics?.agentContextWindowsDelta?.drums?.turns ?? [];
+    expect(drumsTurns[0]).toMatchObject({
+      turnSource: 'auto-tick',
+      outcome: 'preempted',
+      preemptedBy: 'Half-time feel',
+      thread: { threadIdBefore: 'thread-drums', threadIdAfter: 'thread-drums' },
+    });
+
+    expect(getLatestJamState(broadcast)?.agents.drums).toMatchObject({ pattern: 's("bd ~ ~ ~ sd ~ ~ ~")' });
+    expect(manager.getSessionSnapshot()?.agents.drums.threadId).toBe('thread-drums');
+
+    await manager.stop();
+  });
+
+  it('aborts every in-flight agent for a broadcast directive', async () => {
+    const { manager, broadcast, processes } = createTestManager();
+    const startPromise = manager.start(['drums', 'bass']);
+    await vi.advanceTimersByTimeAsync(0);
+    const drumsProc = getProcessByKey(processes, 'drums');
+    const bassProc = getProcessByKey(processes, 'bass');
+    sendAgentResponse(drumsProc, { pattern: 's("bd sd")', thoughts: 'Opening drums' });
+    sendAgentResponse(bassProc, { pattern: 'note("c2 g2")', thoughts: 'Opening bass' });
+    await startPromise;
+
+    vi.advanceTimersByTime(JAM_GOVERNANCE.AUTO_TICK_INTERVAL_MS);
+    await vi.advanceTimersByTimeAsync(0);
+
+    const directivePromise = manager.handleDirective('Everyone drop out', undefined, ['drums', 'bass']);
+    expect(drumsProc.kill).toHaveBeenCalled();
+    expect(bassProc.kill).toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(0);
+
+    const tickPayload = getJamStateUpdatePayloads(broadcast).find((item) => item.turnSource === 'auto-tick')!;
+    expect(tickPayload.diagnostics?.preemptedAutoTick?.agents).toEqual(['drums', 'bass']);
+
+    sendAgentResponse(drumsProc, { pattern: 'silence', thoughts: 'Out' });
+    sendAgentResponse(bassProc, { pattern: 'silence', thoughts: 'Out' });
+    await directivePromise;
+    expect(getLatestJamState(broadcast)?.agents.bass).toMatchObject({ pattern: 'silence' });
+
+    await manager.stop();
+  });
+});
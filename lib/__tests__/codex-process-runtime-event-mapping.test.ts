@@ -92,6 +92,25 @@ describe('map_codex_event_to_runtime_events', () => {
       },
     ]);
 
+    const metered = map_codex_event_to_runtime_events(
+      {
+        type: 'turn.completed',
+        usage: { input_tokens: 2400, cached_input_tokens: 1800, output_tokens: 96 },
+      },
+      { saw_assistant_delta: false }
+    );
+    expect(metered.events).toEqual([
+      {
+        type: 'status',
+        status: 'done',
+        metrics: {
+          input_tokens: 2400,
+          cached_input_tokens: 1800,
+          output_tokens: 96,
+        },
+      },
+    ]);
+
     const failed = map_codex_event_to_runtime_events(
       {
         type: 'turn.failed',
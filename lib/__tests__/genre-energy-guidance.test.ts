@@ -1,5 +1,12 @@
-import { describe, it, expect, beforeEach } from 'vitest';
-import { buildGenreEnergySection } from '../genre-energy-guidance';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  buildGenreEnergySection,
+  formatDensityNudgeForPrompt,
+  getGenreDensityRange,
+} from '../genre-energy-guidance';
+import { JAM_GOVERNANCE } from '../jam-governance-constants';
+import { AgentProcessManager } from '../agent-process-manager';
+import { ScriptedJamAgentRunner } from '../scripted-jam-agent-runner';
 
 // Reset the module-level cache between tests so each test gets a fresh parse
 beforeEach(async () => {
@@ -35,4 +42,70 @@ describe('buildGenreEnergySection', () => {
     expect(result).toContain('comp chops');
     expect(result).toContain('</genre_energy_guidance>');
   });
+
+  it('keeps DENSITY lines out of the prompt section', () => {
+    expect(buildGenreEnergySection(workingDir, 'dark ambient', 'drums')).not.toContain('DENSITY');
+  });
+});
+
+describe('getGenreDensityRange', () => {
+  it('reads the band for the energy level, falling back to Generic per role', () => {
+    expect(getGenreDensityRange(workingDir, 'Dark Ambient', 'bass', 2)).toEqual({ band: 'LOW', min: 0.25, max: 1 });
+    expect(getGenreDensityRange(workingDir, 'Drum & Bass', 'drums', 9)).toEqual({ band: 'HIGH', min: 12, max: 48 });
+    // Drum & Bass has no melody DENSITY line
+    expect(getGenreDensityRange(workingDir, 'Drum & Bass', 'melody', 5)).toEqual({ band: 'MID', min: 1, max: 8 });
+    expect(getGenreDensityRange(workingDir, 'nonexistent', 'drums', 5)).toEqual({ band: 'MID', min: 4, max: 20 });
+    expect(getGenreDensityRange(workingDir, 'Pop', 'unknown', 5)).toBeNull();
+  });
+});
+
+describe('formatDensityNudgeForPrompt', () => {
+  it('nudges only outside the range', () => {
+    const range = { band: 'LOW' as const, min: 0.25, max: 3 };
+    expect(formatDensityNudgeForPrompt(2, range, 'Dark Ambient', 'drums', 2)).toEqual([]);
+    expect(formatDensityNudgeForPrompt(16, range, 'Dark Ambient', 'drums', 2)).toEqual([
+      'DENSITY CHECK: your pattern plays ~16 events per cycle; drums in Dark Ambient at energy 2 (LOW) usually plays 0.25-3. Thin it out (fewer onsets, more rests) unless the extra motion is deliberate.',
+    ]);
+  });
+});
+
+describe('AgentProcessManager density nudge', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('nudges an agent far off the genre density once per cooldown', async () => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    // First preset (Dark Ambient, 4/4), so the syncopation figure does not depend on a random meter
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    const runner = new ScriptedJamAgentRunner({ workingDir });
+    const runScriptedTurn = runner.runTurn.bind(runner);
+    const tickPrompts: Array<{ agentKey: string; prompt: string }> = [];
+    // Busier than any genre allows at any energy
+    vi.spyOn(runner, 'runTurn').mockImplementation(async (request) => {
+      if (request.prompt.includes('AUTO-TICK')) tickPrompts.push({ agentKey: request.agentKey, prompt: request.prompt });
+      const output = await runScriptedTurn(request);
+      return { ...output, text: JSON.stringify({ ...JSON.parse(output.text), pattern: 's("hh*64")' }) };
+    });
+    const manager = new AgentProcessManager({ workingDir, broadcast: vi.fn(), runner });
+
+    try {
+      await manager.start(['drums', 'bass']);
+      await vi.advanceTimersByTimeAsync(JAM_GOVERNANCE.AUTO_TICK_INTERVAL_MS + 10);
+      await vi.advanceTimersByTimeAsync(JAM_GOVERNANCE.AUTO_TICK_INTERVAL_MS + 10);
+
+      const drumsTicks = tickPrompts.filter((entry) => entry.agentKey === 'drums');
+      expect(drumsTicks).toHaveLength(2);
+      expect(drumsTicks[0].prompt).toContain('DENSITY CHECK: your pattern plays ~64 events per cycle');
+      expect(drumsTicks[1].prompt).not.toContain('DENSITY CHECK');
+      // Bandmates see the measured figures in BAND STATE
+      const bassTick = tickPrompts.find((entry) => entry.agentKey === 'bass');
+      expect(bassTick?.prompt).toContain('(drums) [hh, 64 ev/cycle, sync 0%, rest 0%]');
+    } finally {
+      await manager.stop();
+    }
+  });
 });
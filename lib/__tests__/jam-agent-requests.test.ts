@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { AgentRequestQueue, normalizeAgentRequests } from '../jam-agent-requests';
+import { JAM_GOVERNANCE } from '../jam-governance-constants';
+
+const BAND = ['drums', 'bass', 'melody', 'chords'];
+
+describe('normalizeAgentRequests', () => {
+  it('keeps well-formed requests up to the per-turn fan-out limit', () => {
+    const result = normalizeAgentRequests([
+      { to: 'GROOVE', text: '  simplify   so I can fill ' },
+      { to: 'ARIA', text: 'leave space in bar 4' },
+    ], 'drums', BAND);
+
+    expect(result).toEqual([{ to: 'bass', text: 'simplify so I can fill' }]);
+    expect(result).toHaveLength(JAM_GOVERNANCE.AGENT_REQUEST_MAX_PER_TURN);
+  });
+
+  it('drops malformed, self-addressed, unknown and empty requests and truncates long text', () => {
+    expect(normalizeAgentRequests({ to: 'bass', text: 'hi' }, 'drums', BAND)).toEqual([]);
+    expect(normalizeAgentRequests([
+      null,
+      { to: 'bass' },
+      { to: '@BEAT', text: 'talking to myself' },
+      { to: 'KEYS', text: 'not in the band' },
+      { to: 'bass', text: '   ' },
+      { to: 'chords', text: 'x'.repeat(300) },
+    ], 'drums', BAND)).toEqual([
+      { to: 'chords', text: 'x'.repeat(JAM_GOVERNANCE.AGENT_REQUEST_MAX_CHARS) },
+    ]);
+  });
+});
+
+describe('AgentRequestQueue', () => {
+  const request = { from: 'drums', to: 'bass', text: 'simplify', depth: 1, round: 1 };
+
+  it('enforces chain depth and the per-pair cooldown', () => {
+    const queue = new AgentRequestQueue();
+    expect(queue.offer({ ...request, depth: JAM_GOVERNANCE.AGENT_REQUEST_MAX_CHAIN_DEPTH + 1 })).toBe('chain_depth');
+    expect(queue.offer(request)).toBeNull();
+    expect(queue.offer({ ...request, round: 1 + JAM_GOVERNANCE.AGENT_REQUEST_PAIR_COOLDOWN_ROUNDS - 1 })).toBe('cooldown');
+    expect(queue.offer({ ...request, from: 'bass', to: 'drums' })).toBeNull();
+    expect(queue.takeAll().map((entry) => `${entry.from}->${entry.to}`)).toEqual(['drums->bass', 'bass->drums']);
+    expect(queue.size).toBe(0);
+    expect(queue.offer({ ...request, round: 1 + JAM_GOVERNANCE.AGENT_REQUEST_PAIR_COOLDOWN_ROUNDS })).toBeNull();
+  });
+
+  it('drops requests once the queue is full and forgets cooldowns on clear', () => {
+    const queue = new AgentRequestQueue();
+    const senders = ['melody', 'chords', 'drums', 'bass'];
+    const results = senders.map((from) => queue.offer({ ...request, from, to: from === 'bass' ? 'drums' : 'bass' }));
+    expect(results.filter((result) => result === null)).toHaveLength(JAM_GOVERNANCE.AGENT_REQUEST_QUEUE_MAX);
+    expect(results[JAM_GOVERNANCE.AGENT_REQUEST_QUEUE_MAX]).toBe('queue_full');
+
+    queue.clear();
+    expect(queue.size).toBe(0);
+    expect(queue.offer(request)).toBeNull();
+  });
+});
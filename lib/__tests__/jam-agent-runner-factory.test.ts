@@ -0,0 +1,65 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+  createJamAgentRunner,
+  getJamAgentRunnerKind,
+  getJamAgentScriptPath,
+} from '../jam-agent-runner-factory';
+
+const original_runner = process.env.JAM_AGENT_RUNNER;
+const original_script_path = process.env.JAM_AGENT_SCRIPT_PATH;
+
+afterEach(() => {
+  if (original_runner === undefined) {
+    delete process.env.JAM_AGENT_RUNNER;
+  } else {
+    process.env.JAM_AGENT_RUNNER = original_runner;
+  }
+
+  if (original_script_path === undefined) {
+    delete process.env.JAM_AGENT_SCRIPT_PATH;
+  } else {
+    process.env.JAM_AGENT_SCRIPT_PATH = original_script_path;
+  }
+});
+
+describe('getJamAgentRunnerKind', () => {
+  it('defaults to codex when unset', () => {
+    delete process.env.JAM_AGENT_RUNNER;
+    expect(getJamAgentRunnerKind()).toBe('codex');
+  });
+
+  it('supports scripted override (case-insensitive)', () => {
+    process.env.JAM_AGENT_RUNNER = 'Scripted';
+    expect(getJamAgentRunnerKind()).toBe('scripted');
+  });
+
+  it('falls back to codex for unknown values', () => {
+    process.env.JAM_AGENT_RUNNER = 'unknown';
+    expect(getJamAgentRunnerKind()).toBe('codex');
+  });
+});
+
+describe('getJamAgentScriptPath', () => {
+  it('is undefined when unset or blank', () => {
+    delete process.env.JAM_AGENT_SCRIPT_PATH;
+    expect(getJamAgentScriptPath()).toBeUndefined();
+
+    process.env.JAM_AGENT_SCRIPT_PATH = '   ';
+    expect(getJamAgentScriptPath()).toBeUndefined();
+  });
+
+  it('returns the configured path', () => {
+    process.env.JAM_AGENT_SCRIPT_PATH = 'fixtures/demo.json';
+    expect(getJamAgentScriptPath()).toBe('fixtures/demo.json');
+  });
+});
+
+describe('createJamAgentRunner', () => {
+  it('creates the runner selected by JAM_AGENT_RUNNER', () => {
+    delete process.env.JAM_AGENT_RUNNER;
+    expect(createJamAgentRunner({ workingDir: process.cwd() }).kind).toBe('codex');
+
+    process.env.JAM_AGENT_RUNNER = 'scripted';
+    expect(createJamAgentRunner({ workingDir: process.cwd() }).kind).toBe('scripted');
+  });
+});
@@ -91,6 +91,13 @@ describe('shared jam policy prompt', () => {
         condensed_anchor:
           'Jam output must be exactly one JSON object with required keys pattern and thoughts; optional commentary and decision may be included when relevant.',
       },
+      {
+        skill_name: 'strudel-validity-policy',
+        skill_content: strudel_skill_content,
+        skill_anchor: 'asks one bandmate for something; keep requests rare and musical.',
+        condensed_anchor:
+          'Use the optional requests array only to ask one bandmate for something specific; boss directives always outrank band requests.',
+      },
       {
         skill_name: 'strudel-validity-policy',
         skill_content: strudel_skill_content,
@@ -0,0 +1,198 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  ArrangementClock,
+  DEFAULT_ARRANGEMENT,
+  formatArrangementForPrompt,
+  normalizeArrangementSections,
+} from '../jam-arrangement';
+import { AgentProcessManager } from '../agent-process-manager';
+import { ScriptedJamAgentRunner } from '../scripted-jam-agent-runner';
+import { deriveCyclesPerMinute } from '../jam-tempo';
+import type { ArrangementSection } from '../types';
+
+const workingDir = process.cwd();
+
+const SONG: ArrangementSection[] = [
+  { kind: 'intro', bars: 4, energy: 2 },
+  { kind: 'verse', bars: 8, energy: 5 },
+  { kind: 'outro', bars: 4, energy: 3 },
+];
+
+describe('normalizeArrangementSections', () => {
+  it('accepts the default arrangement unchanged', () => {
+    expect(normalizeArrangementSections(DEFAULT_ARRANGEMENT)).toEqual(DEFAULT_ARRANGEMENT);
+  });
+
+  it('clamps energy and drops blank key and chords', () => {
+    expect(normalizeArrangementSections([
+      { kind: 'chorus', bars: 16, energy: 14, key: '', chords: ['', ' '] },
+      { kind: 'bridge', bars: 8, energy: 0.2, key: ' D minor ', chords: ['Dm', 'Bb'] },
+    ])).toEqual([
+      { kind: 'chorus', bars: 16, energy: 10 },
+      { kind: 'bridge', bars: 8, energy: 1, key: 'D minor', chords: ['Dm', 'Bb'] },
+    ]);
+  });
+
+  it('rejects unknown kinds, bad bar counts, unknown keys, and empty lists', () => {
+    expect(normalizeArrangementSections([])).toBeNull();
+    expect(normalizeArrangementSections('verse')).toBeNull();
+    expect(normalizeArrangementSections([{ kind: 'solo', bars: 8, energy: 5 }])).toBeNull();
+    expect(normalizeArrangementSections([{ kind: 'verse', bars: 0, energy: 5 }])).toBeNull();
+    expect(normalizeArrangementSections([{ kind: 'verse', bars: 2.5, energy: 5 }])).toBeNull();
+    expect(normalizeArrangementSections([{ kind: 'verse', bars: 8, energy: 5, key: 'H major' }])).toBeNull();
+  });
+});
+
+describe('ArrangementClock', () => {
+  // 4/4 at 120 BPM → 30 bars per minute → 2s per bar
+  const cpm = deriveCyclesPerMinute(120, '4/4');
+
+  it('does not count bars until started', () => {
+    const clock = new ArrangementClock(SONG);
+    expect(clock.isRunning).toBe(false);
+    expect(clock.msUntilNextSection(10_000)).toBeNull();
+    expect(clock.getState(10_000)).toMatchObject({ currentIndex: 0, barsElapsed: 0, barsUntilNext: 4 });
+  });
+
+  it('advances by bar count and carries overflow into the next section', () => {
+    const clock = new ArrangementClock(SONG);
+    clock.sync(0, cpm);
+    expect(clock.msUntilNextSection(0)).toBe(8_000);
+
+    clock.sync(9_000, cpm);
+    expect(clock.advanceDue()).toBe(true);
+    expect(clock.currentSection.kind).toBe('verse');
+    expect(clock.getState(9_000)).toMatchObject({
+      currentIndex: 1,
+      barsElapsed: 0,
+      barsUntilNext: 8,
+      nextSectionAtMs: 24_000,
+    });
+  });
+
+  it('integrates bars at the tempo in effect for each interval', () => {
+    const clock = new ArrangementClock(SONG);
+    clock.sync(0, cpm);
+    // 2 bars at 120 BPM, then the tempo halves
+    clock.sync(4_000, deriveCyclesPerMinute(60, '4/4'));
+    expect(clock.msUntilNextSection(4_000)).toBe(8_000);
+    expect(clock.advanceDue()).toBe(false);
+  });
+
+  it('holds the final section', () => {
+    const clock = new ArrangementClock(SONG, { currentIndex: 2, barsElapsed: 0 });
+    clock.sync(0, cpm);
+    clock.sync(60_000, cpm);
+    expect(clock.advanceDue()).toBe(false);
+    expect(clock.skip()).toBe(false);
+    expect(clock.getState(60_000)).toMatchObject({
+      currentIndex: 2,
+      barsElapsed: 4,
+      barsUntilNext: null,
+      nextSectionAtMs: null,
+    });
+  });
+
+  it('skips to the start of the next section', () => {
+    const clock = new ArrangementClock(SONG);
+    clock.sync(0, cpm);
+    clock.sync(3_000, cpm);
+    expect(clock.skip()).toBe(true);
+    expect(clock.getPosition(3_000)).toEqual({ currentIndex: 1, barsElapsed: 0 });
+  });
+
+  it('keeps its position across edits and reports whether the current section changed', () => {
+    const clock = new ArrangementClock(SONG, { currentIndex: 1, barsElapsed: 6 });
+    expect(clock.replaceSections([SONG[0], SONG[1], { kind: 'chorus', bars: 8, energy: 8 }])).toBe(false);
+    expect(clock.getPosition(0)).toEqual({ currentIndex: 1, barsElapsed: 6 });
+
+    expect(clock.replaceSections([SONG[0], { kind: 'verse', bars: 4, energy: 6 }])).toBe(true);
+    expect(clock.getPosition(0)).toEqual({ currentIndex: 1, barsElapsed: 4 });
+
+    expect(clock.replaceSections([SONG[0]])).toBe(true);
+    expect(clock.getPosition(0)).toEqual({ currentIndex: 0, barsElapsed: 0 });
+  });
+});
+
+describe('formatArrangementForPrompt', () => {
+  it('marks the final section', () => {
+    const clock = new ArrangementClock(SONG, { currentIndex: 2, barsElapsed: 1 });
+    expect(formatArrangementForPrompt(clock.getState(0))).toEqual([
+      'ARRANGEMENT: Intro → Verse → [Outro]',
+      'SECTION: Outro (3/3), bar 2 of 4 — final section. Target energy 3/10.',
+      'Play to this section; bring the song home.',
+    ]);
+  });
+});
+
+describe('AgentProcessManager arrangement', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  async function startAudibleJam() {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const runner = new ScriptedJamAgentRunner({ workingDir });
+    const runTurnSpy = vi.spyOn(runner, 'runTurn');
+    const manager = new AgentProcessManager({ workingDir, broadcast: vi.fn(), runner });
+    await manager.start(['drums', 'bass'], { mode: 'staged_silent' });
+    await manager.setJamPreset('funk');
+    await manager.handleDirective('lay down a pocket', 'drums', ['drums', 'bass']);
+    return { manager, runTurnSpy };
+  }
+
+  it('advances sections on the bar clock, applies section context, and prompts the band', async () => {
+    vi.useFakeTimers();
+    const { manager, runTurnSpy } = await startAudibleJam();
+
+    try {
+      await manager.setArrangement([
+        { kind: 'intro', bars: 4, energy: 2 },
+        { kind: 'chorus', bars: 4, energy: 8, key: 'A minor' },
+      ]);
+
+      let state = manager.getJamStateSnapshot();
+      expect(state.arrangement).toMatchObject({ currentIndex: 0, isRunning: true, barsUntilNext: 4 });
+      expect(state.musicalContext.energy).toBe(2);
+
+      const { bpm, timeSignature } = state.musicalContext;
+      const msPerBar = 60_000 / deriveCyclesPerMinute(bpm, timeSignature);
+      runTurnSpy.mockClear();
+      await vi.advanceTimersByTimeAsync(4 * msPerBar + 10);
+
+      state = manager.getJamStateSnapshot();
+      expect(state.arrangement).toMatchObject({ currentIndex: 1, barsUntilNext: null });
+      expect(state.musicalContext).toMatchObject({ energy: 8, key: 'A minor' });
+      expect(runTurnSpy).toHaveBeenCalledTimes(1);
+      expect(runTurnSpy.mock.calls[0][0].prompt).toContain('SECTION: Chorus (2/2), bar 1 of 4 — final section.');
+    } finally {
+      await manager.stop();
+    }
+  });
+
+  it('skips sections on request and rejects skips it cannot honour', async () => {
+    const { manager, runTurnSpy } = await startAudibleJam();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    try {
+      await expect(manager.skipArrangementSection()).rejects.toThrow('No arrangement is set for this jam.');
+
+      await manager.setArrangement(SONG);
+      runTurnSpy.mockClear();
+      await manager.skipArrangementSection();
+      expect(manager.getJamStateSnapshot().arrangement).toMatchObject({ currentIndex: 1, barsElapsed: 0 });
+      expect(manager.getJamStateSnapshot().musicalContext.energy).toBe(5);
+      await vi.waitFor(() => expect(runTurnSpy).toHaveBeenCalled());
+      expect(runTurnSpy.mock.calls[0][0].prompt).toContain('SECTION: Verse (2/3)');
+
+      await manager.skipArrangementSection();
+      await expect(manager.skipArrangementSection()).rejects.toThrow('Already in the final section.');
+
+      await manager.setArrangement(null);
+      expect(manager.getJamStateSnapshot().arrangement).toBeUndefined();
+    } finally {
+      await manager.stop();
+    }
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import {
+  encodeWav,
+  getBarsDurationMs,
+  getJamAudioExportBaseName,
+  joinSampleBlocks,
+  serializeJamAudioExportMetadata,
+  type JamAudioExportMetadata,
+} from '../jam-audio-export';
+
+const METADATA: JamAudioExportMetadata = {
+  format: 'wav',
+  preset: 'dark-ambient',
+  genre: 'Dark Ambient',
+  bpm: 90,
+  key: 'C# minor',
+  timeSignature: '4/4',
+  bars: 8,
+  roundFrom: 3,
+  roundTo: 7,
+  agents: ['drums', 'bass'],
+  startedAt: '2026-10-18T12:30:00.123Z',
+  durationMs: 21_333,
+  sampleRate: 48_000,
+};
+
+describe('encodeWav', () => {
+  it('writes a 16-bit PCM header and interleaved, clamped samples', () => {
+    const bytes = encodeWav([Float32Array.from([0, 1]), Float32Array.from([-1, 2])], 44_100);
+    const view = new DataView(bytes.buffer);
+    const text = (at: number) => String.fromCharCode(...Array.from(bytes.slice(at, at + 4)));
+
+    expect(bytes.length).toBe(44 + 8);
+    expect([text(0), text(8), text(12), text(36)]).toEqual(['RIFF', 'WAVE', 'fmt ', 'data']);
+    expect(view.getUint32(4, true)).toBe(36 + 8);
+    expect(view.getUint16(22, true)).toBe(2);
+    expect(view.getUint32(24, true)).toBe(44_100);
+    expect(view.getUint32(28, true)).toBe(44_100 * 4);
+    expect(view.getUint16(34, true)).toBe(16);
+    expect(view.getUint32(40, true)).toBe(8);
+    expect([0, 1, 2, 3].map((frame) => view.getInt16(44 + frame * 2, true))).toEqual([0, -32768, 32767, 32767]);
+  });
+
+  it('writes an empty data chunk when nothing was captured', () => {
+    const bytes = encodeWav([], 48_000);
+    expect(bytes.length).toBe(44);
+    expect(new DataView(bytes.buffer).getUint16(22, true)).toBe(1);
+  });
+});
+
+describe('joinSampleBlocks', () => {
+  it('concatenates blocks per channel and fills a missing channel from the first', () => {
+    const channels = joinSampleBlocks([
+      [Float32Array.from([1, 2]), Float32Array.from([3, 4])],
+      [Float32Array.from([5])],
+    ], 2);
+    expect(channels.map((channel) => Array.from(channel))).toEqual([[1, 2, 5], [3, 4, 5]]);
+  });
+});
+
+describe('getBarsDurationMs', () => {
+  it('follows the session tempo and meter', () => {
+    expect(getBarsDurationMs(8, 120, '4/4')).toBe(16_000);
+    expect(getBarsDurationMs(4, 120, '7/8')).toBe(7_000);
+  });
+});
+
+describe('getJamAudioExportBaseName', () => {
+  it('names the take after the preset, tempo, key and rounds', () => {
+    expect(getJamAudioExportBaseName(METADATA)).toBe('jam-dark-ambient-90bpm-cs-minor-r3-r7-2026-10-18t12-30-00z');
+    expect(getJamAudioExportBaseName({ ...METADATA, preset: null, genre: 'Drum & Bass', roundTo: 3 }))
+      .toBe('jam-drum-bass-90bpm-cs-minor-r3-2026-10-18t12-30-00z');
+  });
+
+  it('serializes the sidecar as pretty JSON', () => {
+    expect(JSON.parse(serializeJamAudioExportMetadata(METADATA))).toEqual(METADATA);
+  });
+});
@@ -0,0 +1,120 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  AUTO_TICK_BARS_MAX,
+  AUTO_TICK_BARS_MIN,
+  getAutoTickIntervalMs,
+  normalizeAutoTickSchedule,
+  pickAutoTickTargets,
+} from '../jam-auto-tick-schedule';
+import { JAM_GOVERNANCE } from '../jam-governance-constants';
+import { AgentProcessManager } from '../agent-process-manager';
+import { ScriptedJamAgentRunner } from '../scripted-jam-agent-runner';
+import { deriveCyclesPerMinute } from '../jam-tempo';
+
+const workingDir = process.cwd();
+
+describe('normalizeAutoTickSchedule', () => {
+  it('rejects unknown modes and clamps bars into range', () => {
+    expect(normalizeAutoTickSchedule({ mode: 'whenever', bars: 4 })).toBeNull();
+    expect(normalizeAutoTickSchedule('bars')).toBeNull();
+    expect(normalizeAutoTickSchedule({ mode: 'bars', bars: 0 })).toEqual({ mode: 'bars', bars: AUTO_TICK_BARS_MIN });
+    expect(normalizeAutoTickSchedule({ mode: 'round_robin', bars: 500 })).toEqual({ mode: 'round_robin', bars: AUTO_TICK_BARS_MAX });
+    expect(normalizeAutoTickSchedule({ mode: 'section' })).toEqual({ mode: 'section', bars: 8 });
+  });
+});
+
+describe('getAutoTickIntervalMs', () => {
+  it('derives bar-based spacing from the tempo and keeps the wall clock otherwise', () => {
+    // 120 BPM in 4/4 is 30 bars per minute, two seconds per bar
+    expect(getAutoTickIntervalMs({ mode: 'bars', bars: 8 }, 30)).toBe(16_000);
+    expect(getAutoTickIntervalMs({ mode: 'round_robin', bars: 4 }, 30)).toBe(8_000);
+    expect(getAutoTickIntervalMs({ mode: 'interval', bars: 8 }, 30)).toBe(JAM_GOVERNANCE.AUTO_TICK_INTERVAL_MS);
+    expect(getAutoTickIntervalMs({ mode: 'section', bars: 8 }, 30)).toBe(JAM_GOVERNANCE.AUTO_TICK_INTERVAL_MS);
+  });
+});
+
+describe('pickAutoTickTargets', () => {
+  it('rotates through the band one agent at a time in round-robin mode', () => {
+    const band = ['drums', 'bass', 'melody'];
+    expect(pickAutoTickTargets({ mode: 'bars', bars: 8 }, band, 1)).toEqual(band);
+    expect(pickAutoTickTargets({ mode: 'round_robin', bars: 8 }, band, 1)).toEqual(['bass']);
+    expect(pickAutoTickTargets({ mode: 'round_robin', bars: 8 }, band, 4)).toEqual(['bass']);
+    expect(pickAutoTickTargets({ mode: 'round_robin', bars: 8 }, [], 0)).toEqual([]);
+  });
+});
+
+describe('AgentProcessManager auto-tick schedules', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  async function startJam() {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const runner = new ScriptedJamAgentRunner({ workingDir });
+    const runTurnSpy = vi.spyOn(runner, 'runTurn');
+    const manager = new AgentProcessManager({ workingDir, broadcast: vi.fn(), runner });
+    await manager.start(['drums', 'bass']);
+    const { bpm, timeSignature } = manager.getJamStateSnapshot().musicalContext;
+    const msPerBar = 60_000 / deriveCyclesPerMinute(bpm, timeSignature);
+    return { manager, runTurnSpy, msPerBar };
+  }
+
+  it('prompts one agent per tick every N bars in round-robin mode', async () => {
+    vi.useFakeTimers();
+    const { manager, runTurnSpy, msPerBar } = await startJam();
+
+    try {
+      manager.setAutoTickSchedule({ mode: 'round_robin', bars: 4 });
+      expect(manager.getJamStateSnapshot().autoTick).toMatchObject({
+        intervalMs: Math.round(4 * msPerBar),
+        schedule: { mode: 'round_robin', bars: 4 },
+        nextAgents: ['drums'],
+      });
+
+      runTurnSpy.mockClear();
+      await vi.advanceTimersByTimeAsync(4 * msPerBar + 10);
+      expect(runTurnSpy.mock.calls.map(([request]) => request.agentKey)).toEqual(['drums']);
+      expect(manager.getJamStateSnapshot().autoTick?.nextAgents).toEqual(['bass']);
+
+      await vi.advanceTimersByTimeAsync(4 * msPerBar);
+      expect(runTurnSpy.mock.calls.map(([request]) => request.agentKey)).toEqual(['drums', 'bass']);
+      expect(manager.getSessionSnapshot()?.autoTickSchedule).toEqual({ mode: 'round_robin', bars: 4 });
+    } finally {
+      await manager.stop();
+    }
+  });
+
+  it('ticks on section boundaries and falls back to the interval in the final section', async () => {
+    vi.useFakeTimers();
+    const { manager, runTurnSpy, msPerBar } = await startJam();
+
+    try {
+      manager.setAutoTickSchedule({ mode: 'section', bars: 8 });
+      const introBars = Math.ceil((2 * JAM_GOVERNANCE.AUTO_TICK_INTERVAL_MS) / msPerBar);
+      await manager.setArrangement([
+        { kind: 'intro', bars: introBars, energy: 3 },
+        { kind: 'outro', bars: 4, energy: 2 },
+      ]);
+
+      const state = manager.getJamStateSnapshot();
+      expect(state.autoTick?.nextTickAtMs).toBeCloseTo(state.arrangement!.nextSectionAtMs!, -2);
+
+      // No wall-clock tick inside the section
+      runTurnSpy.mockClear();
+      await vi.advanceTimersByTimeAsync(JAM_GOVERNANCE.AUTO_TICK_INTERVAL_MS + 10);
+      expect(runTurnSpy).not.toHaveBeenCalled();
+
+      // The whole band moves with the section change
+      await vi.advanceTimersByTimeAsync(introBars * msPerBar - JAM_GOVERNANCE.AUTO_TICK_INTERVAL_MS);
+      expect(runTurnSpy.mock.calls.map(([request]) => request.agentKey).sort()).toEqual(['bass', 'drums']);
+      expect(manager.getJamStateSnapshot().autoTick?.intervalMs).toBe(JAM_GOVERNANCE.AUTO_TICK_INTERVAL_MS);
+
+      runTurnSpy.mockClear();
+      await vi.advanceTimersByTimeAsync(JAM_GOVERNANCE.AUTO_TICK_INTERVAL_MS + 10);
+      expect(runTurnSpy).toHaveBeenCalledTimes(2);
+    } finally {
+      await manager.stop();
+    }
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { DirectiveQueue } from '../jam-directive-queue';
+
+describe('DirectiveQueue', () => {
+  it('coalesces broadcast cues and supersedes cues for the same agent', () => {
+    const queue = new DirectiveQueue();
+    expect(queue.offer('more energy', undefined, 'activated', 1_000).outcome).toBe('queued');
+    expect(queue.offer('darker', undefined, 'activated', 1_100).outcome).toBe('coalesced');
+    expect(queue.offer('play roots', 'bass', 'activated', 1_200).outcome).toBe('queued');
+    expect(queue.offer('fill!', 'drums', 'activated', 1_300).outcome).toBe('queued');
+    // Drums' cue is for someone else, so bass can still replace its own
+    expect(queue.offer('walk it up', 'bass', 'activated', 1_400).outcome).toBe('superseded');
+    // A different routing scope is a different turn
+    expect(queue.offer('everyone in', undefined, 'all_selected', 1_500).outcome).toBe('queued');
+
+    expect(queue.list()).toEqual([
+      { id: 1, text: 'more energy; darker', cueCount: 2, queuedAtMs: 1_000 },
+      { id: 2, text: 'walk it up', targetAgent: 'bass', cueCount: 1, queuedAtMs: 1_200 },
+      { id: 3, text: 'fill!', targetAgent: 'drums', cueCount: 1, queuedAtMs: 1_300 },
+      { id: 4, text: 'everyone in', cueCount: 1, queuedAtMs: 1_500 },
+    ]);
+  });
+
+  it('never lets a cue overtake one the boss sent earlier', () => {
+    const queue = new DirectiveQueue();
+    queue.offer('more energy', undefined, 'activated', 1_000);
+    queue.offer('four on the floor', 'drums', 'activated', 1_100);
+    // Folding into the first broadcast would run it before the drums cue
+    expect(queue.offer('darker', undefined, 'activated', 1_200).outcome).toBe('queued');
+    // Replacing the drums cue would run it before "darker"
+    expect(queue.offer('half time', 'drums', 'activated', 1_300).outcome).toBe('queued');
+
+    expect(queue.list().map((entry) => [entry.text, entry.targetAgent])).toEqual([
+      ['more energy', undefined],
+      ['four on the floor', 'drums'],
+      ['darker', undefined],
+      ['half time', 'drums'],
+    ]);
+  });
+
+  it('removes entries when they start or are cancelled', () => {
+    const queue = new DirectiveQueue();
+    const first = queue.offer('a', undefined, 'activated').entry;
+    const second = queue.offer('b', 'drums', 'activated').entry;
+
+    expect(queue.cancel(second.id)).toBe(true);
+    expect(queue.start(second.id)).toBeNull();
+    expect(queue.start(first.id)?.texts).toEqual(['a']);
+    expect(queue.cancel(first.id)).toBe(false);
+    expect(queue.size).toBe(0);
+    // A started entry no longer absorbs new cues
+    expect(queue.offer('c', undefined, 'activated').outcome).toBe('queued');
+  });
+
+  it('estimates the wait from recent turn durations', () => {
+    const queue = new DirectiveQueue();
+    expect(queue.estimateEtaMs(null)).toBeNull();
+
+    queue.offer('a', undefined, 'activated');
+    queue.offer('b', 'drums', 'activated');
+    queue.recordTurnDuration(4_000);
+    queue.recordTurnDuration(8_000);
+    // 2s left of the running turn + two average turns
+    expect(queue.estimateEtaMs(10_000, 14_000)).toBe(2_000 + 2 * 6_000);
+    expect(queue.estimateEtaMs(0, 60_000)).toBe(12_000);
+  });
+});
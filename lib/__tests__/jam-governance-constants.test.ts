@@ -36,15 +36,53 @@ describe('JAM_GOVERNANCE invariants', () => {
     expect(JAM_GOVERNANCE.AUTO_TICK_DAMPENING).toBeLessThanOrEqual(1);
   });
 
+  it('budget slowdown starts before the budget is spent and stretches spacing', () => {
+    expect(JAM_GOVERNANCE.BUDGET_SLOWDOWN_FRACTION).toBeGreaterThan(0);
+    expect(JAM_GOVERNANCE.BUDGET_SLOWDOWN_FRACTION).toBeLessThan(1);
+    expect(JAM_GOVERNANCE.BUDGET_SLOWDOWN_FACTOR).toBeGreaterThan(1);
+  });
+
   it('key consensus requires at least 2 agents', () => {
     expect(JAM_GOVERNANCE.KEY_CONSENSUS_MIN_AGENTS).toBeGreaterThanOrEqual(2);
   });
 
+  it('chord consensus needs a bandmate and proposals stay open for a few rounds', () => {
+    expect(JAM_GOVERNANCE.CHORD_CONSENSUS_MIN_AGENTS).toBeGreaterThanOrEqual(2);
+    expect(JAM_GOVERNANCE.CHORD_CONSENSUS_MIN_AGENTS).toBeLessThanOrEqual(JAM_GOVERNANCE.KEY_CONSENSUS_MIN_AGENTS);
+    expect(Number.isInteger(JAM_GOVERNANCE.HARMONY_PROPOSAL_TTL_ROUNDS)).toBe(true);
+    expect(JAM_GOVERNANCE.HARMONY_PROPOSAL_TTL_ROUNDS).toBeGreaterThanOrEqual(2);
+  });
+
+  it('directive meters allow common odd meters but stay below two bars of 4/4', () => {
+    expect(Number.isInteger(JAM_GOVERNANCE.METER_BEATS_MAX)).toBe(true);
+    expect(JAM_GOVERNANCE.METER_BEATS_MAX).toBeGreaterThanOrEqual(12);
+    expect(JAM_GOVERNANCE.METER_BEATS_MAX).toBeLessThanOrEqual(16);
+  });
+
+  it('harmony repair tolerates a single chromatic passing tone', () => {
+    expect(Number.isInteger(JAM_GOVERNANCE.HARMONY_REPAIR_MIN_OUT_OF_KEY)).toBe(true);
+    expect(JAM_GOVERNANCE.HARMONY_REPAIR_MIN_OUT_OF_KEY).toBeGreaterThanOrEqual(2);
+  });
+
+  it('density nudges wait at least one round between repeats', () => {
+    expect(Number.isInteger(JAM_GOVERNANCE.DENSITY_NUDGE_COOLDOWN_ROUNDS)).toBe(true);
+    expect(JAM_GOVERNANCE.DENSITY_NUDGE_COOLDOWN_ROUNDS).toBeGreaterThanOrEqual(2);
+  });
+
   it('agent timeout is positive and at most equal to auto-tick interval', () => {
     expect(JAM_GOVERNANCE.AGENT_TIMEOUT_MS).toBeGreaterThan(0);
     expect(JAM_GOVERNANCE.AGENT_TIMEOUT_MS).toBeLessThanOrEqual(JAM_GOVERNANCE.AUTO_TICK_INTERVAL_MS);
   });
 
+  it('agent request limits allow at least one routed request without unbounded chains', () => {
+    expect(JAM_GOVERNANCE.AGENT_REQUEST_MAX_PER_TURN).toBeGreaterThanOrEqual(1);
+    expect(JAM_GOVERNANCE.AGENT_REQUEST_MAX_CHAIN_DEPTH).toBeGreaterThanOrEqual(1);
+    expect(Number.isInteger(JAM_GOVERNANCE.AGENT_REQUEST_MAX_CHAIN_DEPTH)).toBe(true);
+    expect(JAM_GOVERNANCE.AGENT_REQUEST_PAIR_COOLDOWN_ROUNDS).toBeGreaterThanOrEqual(1);
+    expect(JAM_GOVERNANCE.AGENT_REQUEST_QUEUE_MAX).toBeGreaterThanOrEqual(JAM_GOVERNANCE.AGENT_REQUEST_MAX_PER_TURN);
+    expect(JAM_GOVERNANCE.AGENT_REQUEST_MAX_CHARS).toBeLessThanOrEqual(JAM_GOVERNANCE.COMMENTARY_MAX_CHARS);
+  });
+
   it('thread compaction streak is an integer and at least 2', () => {
     expect(Number.isInteger(JAM_GOVERNANCE.THREAD_COMPACTION_NO_CHANGE_STREAK)).toBe(true);
     expect(JAM_GOVERNANCE.THREAD_COMPACTION_NO_CHANGE_STREAK).toBeGreaterThanOrEqual(2);
@@ -0,0 +1,182 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  analyzePatternHarmony,
+  directiveInvitesOutsideNotes,
+  formatHarmonyReport,
+  getChordPitchClasses,
+} from '../jam-harmony-check';
+import { AgentProcessManager } from '../agent-process-manager';
+import { ScriptedJamAgentRunner } from '../scripted-jam-agent-runner';
+import type { MusicalContext } from '../types';
+
+const workingDir = process.cwd();
+
+const C_MINOR: MusicalContext = {
+  genre: 'Dark Ambient',
+  key: 'C minor',
+  scale: ['C', 'D', 'Eb', 'F', 'G', 'Ab', 'Bb'],
+  chordProgression: ['Cm', 'Ab', 'Eb', 'Bb'],
+  bpm: 120,
+  timeSignature: '4/4',
+  energy: 5,
+};
+
+describe('getChordPitchClasses', () => {
+  it('reads triads, sevenths and slash chords', () => {
+    expect(getChordPitchClasses('Cm')).toEqual([0, 3, 7]);
+    expect(getChordPitchClasses('Ebmaj7')).toEqual([3, 7, 10, 2]);
+    expect(getChordPitchClasses('Bb7')).toEqual([10, 2, 5, 8]);
+    expect(getChordPitchClasses('Bdim')).toEqual([11, 2, 5]);
+    expect(getChordPitchClasses('C/E')).toEqual([0, 4, 7, 4]);
+    expect(getChordPitchClasses('N.C.')).toBeNull();
+  });
+});
+
+describe('analyzePatternHarmony', () => {
+  it('reports out-of-key notes and non-chord tones across note layers', () => {
+    const report = analyzePatternHarmony(
+      'stack(note("c4 [eb4 f#4] g4 ~").s("piano"), note("<[c3,eb3,g3] [ab2,c3,eb3]>").s("gm_pad_warm"))',
+      C_MINOR
+    );
+    expect(report).toEqual({
+      key: 'C minor',
+      notes: ['C', 'Eb', 'F#', 'G', 'Ab'],
+      outOfKey: ['F#'],
+      nonChordTones: [],
+    });
+  });
+
+  it('spells in-key notes the way the key does and flags scale tones outside every chord', () => {
+    const ctx = { ...C_MINOR, chordProgression: ['Cm', 'Fm'] };
+    expect(analyzePatternHarmony('note("c2 d#2 d2 f2").s("sawtooth")', ctx)).toMatchObject({
+      notes: ['C', 'Eb', 'D', 'F'],
+      outOfKey: [],
+      nonChordTones: ['D'],
+    });
+  });
+
+  it('resolves MIDI numbers and scale degrees', () => {
+    expect(analyzePatternHarmony('note("48 51 54")', C_MINOR)?.outOfKey).toEqual(['Gb']);
+    expect(analyzePatternHarmony('note("0 2 4 6").scale("C:minor")', C_MINOR)).toMatchObject({
+      notes: ['C', 'Eb', 'G', 'Bb'],
+      outOfKey: [],
+    });
+    expect(analyzePatternHarmony('note("0 2 4").scale("D:major")', C_MINOR)?.outOfKey).toEqual(['F#', 'A']);
+  });
+
+  it('skips layers it cannot resolve', () => {
+    expect(analyzePatternHarmony('s("bd sd bd sd")', C_MINOR)).toBeNull();
+    expect(analyzePatternHarmony('note("c3 e3 g3").add(2)', C_MINOR)).toBeNull();
+    expect(analyzePatternHarmony('note("0 2 4").scale("C:bebop")', C_MINOR)).toBeNull();
+    expect(analyzePatternHarmony('silence', C_MINOR)).toBeNull();
+  });
+
+  it('describes the report for the badge tooltip', () => {
+    const report = analyzePatternHarmony('note("c4 d4 f#4 g4")', { ...C_MINOR, chordProgression: ['Cm', 'Fm'] });
+    expect(formatHarmonyReport(report!)).toBe('Outside C minor: F#; non-chord tones: D (plays C D F# G)');
+  });
+});
+
+describe('AgentProcessManager harmony check', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('asks once for a repair when a directive response leaves the key, then reports the agent in key', async () => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const runner = new ScriptedJamAgentRunner({ workingDir });
+    const runScriptedTurn = runner.runTurn.bind(runner);
+    const directivePrompts: string[] = [];
+    vi.spyOn(runner, 'runTurn').mockImplementation(async (request) => {
+      const output = await runScriptedTurn(request);
+      if (!request.prompt.includes('DIRECTIVE from the boss')) return output;
+      directivePrompts.push(request.prompt);
+      const pattern = request.prompt.includes('RETRY NOTICE')
+        ? 'note("c4 e4 g4 b4").s("piano")'
+        : 'note("c4 f#4 c#5 g4").s("piano")';
+      return { ...output, text: JSON.stringify({ ...JSON.parse(output.text), pattern }) };
+    });
+    const manager = new AgentProcessManager({ workingDir, broadcast: vi.fn(), runner });
+
+    try {
+      await manager.start(['melody']);
+      await manager.handleDirective('switch to C major', 'melody', ['melody']);
+
+      expect(directivePrompts).toHaveLength(2);
+      expect(directivePrompts[1]).toContain('Rejection reason: out-of-key notes F#, C# for C major');
+      expect(directivePrompts[1]).toContain('Keep note() pitches in C major (C D E F G A B)');
+
+      const state = manager.getJamStateSnapshot();
+      expect(state.agents.melody.pattern).toBe('note("c4 e4 g4 b4").s("piano")');
+      expect(state.harmony?.melody).toMatchObject({
+        key: 'C major',
+        notes: ['C', 'E', 'G', 'B'],
+        outOfKey: [],
+      });
+    } finally {
+      await manager.stop();
+    }
+  });
+
+  // Melody answers every directive with two notes outside C major
+  async function runOffKeyDirective(directive: string, retryPattern = 'note("c4 f#4 c#5 g4").s("piano")') {
+    const runner = new ScriptedJamAgentRunner({ workingDir });
+    const runScriptedTurn = runner.runTurn.bind(runner);
+    const directivePrompts: string[] = [];
+    vi.spyOn(runner, 'runTurn').mockImplementation(async (request) => {
+      const output = await runScriptedTurn(request);
+      if (!request.prompt.includes('DIRECTIVE from the boss')) return output;
+      directivePrompts.push(request.prompt);
+      const pattern = request.prompt.includes('RETRY NOTICE') ? retryPattern : 'note("c4 f#4 c#5 a4").s("piano")';
+      return { ...output, text: JSON.stringify({ ...JSON.parse(output.text), pattern }) };
+    });
+    const manager = new AgentProcessManager({ workingDir, broadcast: vi.fn(), runner });
+    try {
+      await manager.start(['melody']);
+      await manager.handleDirective(directive, 'melody', ['melody']);
+      return { directivePrompts, pattern: manager.getJamStateSnapshot().agents.melody.pattern };
+    } finally {
+      await manager.stop();
+    }
+  }
+
+  it('skips the repair when the boss asks for outside notes', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const result = await runOffKeyDirective('switch to C major and add some chromatic passing tones');
+
+    expect(result.directivePrompts).toHaveLength(1);
+    expect(result.pattern).toBe('note("c4 f#4 c#5 a4").s("piano")');
+  });
+
+  it('keeps the first answer when the retry is no closer to the key', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const result = await runOffKeyDirective('switch to C major');
+
+    expect(result.directivePrompts).toHaveLength(2);
+    expect(result.pattern).toBe('note("c4 f#4 c#5 a4").s("piano")');
+  });
+
+  it('keeps the first answer when the harmony retry comes back invalid', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const result = await runOffKeyDirective('switch to C major', 'note("c4 e4 g4 b4").lpff(800)');
+
+    expect(result.directivePrompts).toHaveLength(2);
+    expect(result.pattern).toBe('note("c4 f#4 c#5 a4").s("piano")');
+  });
+});
+
+describe('directiveInvitesOutsideNotes', () => {
+  it('recognises requests for chromatic or outside colour', () => {
+    expect(directiveInvitesOutsideNotes('throw in a chromatic run')).toBe(true);
+    expect(directiveInvitesOutsideNotes('play a bit outside for the solo')).toBe(true);
+    expect(directiveInvitesOutsideNotes('add one passing note into the chorus')).toBe(true);
+    expect(directiveInvitesOutsideNotes('go darker and more dissonant')).toBe(true);
+    expect(directiveInvitesOutsideNotes('switch to C major')).toBe(false);
+  });
+});
@@ -0,0 +1,149 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  HARMONY_PROPOSAL_HISTORY_LIMIT,
+  HarmonyProposalBoard,
+  formatHarmonyProposalsForPrompt,
+  normalizeHarmonyProposalVotes,
+} from '../jam-harmony-proposals';
+import { JAM_GOVERNANCE } from '../jam-governance-constants';
+import { AgentProcessManager } from '../agent-process-manager';
+import { ScriptedJamAgentRunner } from '../scripted-jam-agent-runner';
+
+const workingDir = process.cwd();
+
+describe('normalizeHarmonyProposalVotes', () => {
+  it('drops malformed entries and keeps the last vote per proposal', () => {
+    expect(normalizeHarmonyProposalVotes('endorse')).toEqual([]);
+    expect(normalizeHarmonyProposalVotes([
+      { proposal: 1, vote: 'endorse' },
+      { proposal: '2', vote: 'endorse' },
+      { proposal: 3, vote: 'maybe' },
+      { proposal: 1, vote: 'object' },
+    ])).toEqual([{ proposal: 1, vote: 'object' }]);
+  });
+});
+
+describe('HarmonyProposalBoard', () => {
+  it('counts a matching suggestion as an endorsement and reports proposals that reach quorum', () => {
+    const board = new HarmonyProposalBoard();
+    const proposal = board.suggest({ kind: 'key', key: 'Eb major' }, 'bass', 1);
+    expect(board.settle(1)).toEqual([]);
+
+    expect(board.suggest({ kind: 'key', key: 'Eb major' }, 'melody', 2)).toBe(proposal);
+    expect(board.settle(2).map((ready) => ready.id)).toEqual([proposal.id]);
+
+    board.markApplied(proposal.id, 2, 'band');
+    expect(board.list()[0]).toMatchObject({ status: 'applied', resolvedRound: 2, resolvedBy: 'band' });
+    expect(board.getPending(proposal.id)).toBeNull();
+  });
+
+  it('keeps the proposer in support, rejects on a quorum of objections and expires stale proposals', () => {
+    const board = new HarmonyProposalBoard();
+    const chords = board.suggest({ kind: 'chords', chords: ['Dm', 'G', 'C'] }, 'chords', 1);
+    const key = board.suggest({ kind: 'key', key: 'D major' }, 'bass', 1);
+
+    expect(board.vote(chords.id, 'chords', 'object')).toBe(false);
+    board.vote(chords.id, 'drums', 'object');
+    board.vote(chords.id, 'melody', 'object');
+    board.settle(2);
+    expect(board.list().find((entry) => entry.id === chords.id)).toMatchObject({
+      status: 'rejected',
+      supporters: ['chords'],
+      objectors: ['drums', 'melody'],
+    });
+
+    board.settle(1 + JAM_GOVERNANCE.HARMONY_PROPOSAL_TTL_ROUNDS);
+    expect(board.list().find((entry) => entry.id === key.id)?.status).toBe('expired');
+    expect(board.vote(key.id, 'melody', 'endorse')).toBe(false);
+  });
+
+  it('keeps only the most recent resolved proposals', () => {
+    const board = new HarmonyProposalBoard();
+    for (let i = 0; i < HARMONY_PROPOSAL_HISTORY_LIMIT + 2; i++) {
+      const proposal = board.suggest({ kind: 'key', key: `Key ${i}` }, 'bass', i);
+      board.reject(proposal.id, i, 'boss');
+    }
+    const open = board.suggest({ kind: 'key', key: 'A minor' }, 'bass', 20);
+
+    const list = board.list();
+    expect(list).toHaveLength(HARMONY_PROPOSAL_HISTORY_LIMIT + 1);
+    expect(list[0].id).toBe(3);
+    expect(list.at(-1)).toMatchObject({ id: open.id, status: 'pending' });
+  });
+
+  it('lists open proposals for the prompt, marking the agent\'s own', () => {
+    const board = new HarmonyProposalBoard();
+    board.suggest({ kind: 'key', key: 'Eb major' }, 'bass', 1);
+    expect(formatHarmonyProposalsForPrompt(board.list(), 'bass')[1]).toBe(
+      `#1 key → Eb major (yours) — for: GROOVE; against: none; needs ${JAM_GOVERNANCE.KEY_CONSENSUS_MIN_AGENTS}`
+    );
+    expect(formatHarmonyProposalsForPrompt([], 'bass')).toEqual([]);
+  });
+});
+
+describe('AgentProcessManager harmony proposals', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  async function startJamWithChordSuggestion() {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const runner = new ScriptedJamAgentRunner({ workingDir });
+    const runScriptedTurn = runner.runTurn.bind(runner);
+    // Melody suggests new changes on its first auto-tick turn
+    vi.spyOn(runner, 'runTurn').mockImplementation(async (request) => {
+      const output = await runScriptedTurn(request);
+      if (request.agentKey !== 'melody' || !request.prompt.includes('AUTO-TICK')) return output;
+      return {
+        ...output,
+        text: JSON.stringify({
+          ...JSON.parse(output.text),
+          decision: { suggested_chords: ['Fm7', 'Bb7', 'Ebmaj7'], confidence: 'high' },
+        }),
+      };
+    });
+    const manager = new AgentProcessManager({ workingDir, broadcast: vi.fn(), runner });
+    await manager.start(['drums', 'melody']);
+    await vi.advanceTimersByTimeAsync(JAM_GOVERNANCE.AUTO_TICK_INTERVAL_MS + 10);
+    return manager;
+  }
+
+  it('applies a pending proposal on boss approval', async () => {
+    vi.useFakeTimers();
+    const manager = await startJamWithChordSuggestion();
+
+    try {
+      const [proposal] = manager.getJamStateSnapshot().harmonyProposals ?? [];
+      expect(proposal).toMatchObject({ kind: 'chords', proposedBy: 'melody', status: 'pending' });
+      expect(manager.getJamStateSnapshot().musicalContext.chordProgression).not.toEqual(['Fm7', 'Bb7', 'Ebmaj7']);
+
+      await manager.resolveHarmonyProposal(proposal.id, true);
+      const state = manager.getJamStateSnapshot();
+      expect(state.musicalContext.chordProgression).toEqual(['Fm7', 'Bb7', 'Ebmaj7']);
+      expect(state.harmonyProposals?.[0]).toMatchObject({ status: 'applied', resolvedBy: 'boss' });
+
+      await expect(manager.resolveHarmonyProposal(proposal.id, true)).rejects.toThrow('no longer open');
+    } finally {
+      await manager.stop();
+    }
+  });
+
+  it('leaves the harmony alone when the boss rejects a proposal', async () => {
+    vi.useFakeTimers();
+    const manager = await startJamWithChordSuggestion();
+
+    try {
+      const before = manager.getJamStateSnapshot().musicalContext.chordProgression;
+      const [proposal] = manager.getJamStateSnapshot().harmonyProposals ?? [];
+      await manager.resolveHarmonyProposal(proposal.id, false);
+
+      const state = manager.getJamStateSnapshot();
+      expect(state.musicalContext.chordProgression).toEqual(before);
+      expect(state.harmonyProposals?.[0]).toMatchObject({ status: 'rejected', resolvedBy: 'boss' });
+    } finally {
+      await manager.stop();
+    }
+  });
+});
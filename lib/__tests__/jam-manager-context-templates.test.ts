@@ -2,6 +2,7 @@ import { describe, expect, it } from 'vitest';
 
 import type { MusicalContext } from '../types';
 import {
+  buildAgentRequestManagerContext,
   buildAutoTickManagerContext,
   buildDirectiveManagerContext,
   buildJamStartManagerContext,
@@ -78,6 +79,72 @@ describe('jam manager context templates', () => {
     expect(rendered).toContain('Include a decision block if you feel the musical context should evolve.');
   });
 
+  it('renders band requests addressed to the recipient', () => {
+    const rendered = buildAgentRequestManagerContext({
+      roundNumber: 7,
+      musicalContext,
+      requests: [{ fromLabel: '🥁 BEAT (drums)', text: 'simplify so I can fill' }],
+      currentPattern: 'note("c2 eb2")',
+      bandStateLines: ['🥁 BEAT (drums): s("bd sd")'],
+    });
+
+    expect(rendered).toContain('BAND REQUEST — A BANDMATE IS TALKING TO YOU');
+    expect(rendered).toContain('🥁 BEAT (drums) SAYS TO YOU: simplify so I can fill');
+    expect(rendered).toContain('YOUR CURRENT PATTERN: note("c2 eb2")');
+    expect(rendered).toContain('Boss directives outrank bandmates.');
+  });
+
+  it('renders the song-form position when an arrangement is set', () => {
+    const rendered = buildAutoTickManagerContext({
+      roundNumber: 6,
+      musicalContext,
+      currentPattern: 's("bd sd")',
+      bandStateLines: [],
+      arrangement: {
+        sections: [
+          { kind: 'intro', bars: 8, energy: 3 },
+          { kind: 'chorus', bars: 16, energy: 8 },
+          { kind: 'outro', bars: 8, energy: 2 },
+        ],
+        currentIndex: 1,
+        barsElapsed: 4,
+        barsUntilNext: 12,
+        isRunning: true,
+        nextSectionAtMs: null,
+        serverNowMs: 0,
+      },
+    });
+
+    expect(rendered).toContain('ARRANGEMENT: Intro → [Chorus] → Outro');
+    expect(rendered).toContain('SECTION: Chorus (2/3), bar 5 of 16 — 12 bars until Outro. Target energy 8/10.');
+    expect(buildAutoTickManagerContext({
+      roundNumber: 6,
+      musicalContext,
+      currentPattern: 's("bd sd")',
+      bandStateLines: [],
+    })).not.toContain('ARRANGEMENT:');
+  });
+
+  it('tells the agent when the boss rolled its pattern back', () => {
+    const rendered = buildDirectiveManagerContext({
+      roundNumber: 9,
+      musicalContext,
+      directive: 'keep it tight',
+      isBroadcast: true,
+      currentPattern: 's("bd sd")',
+      bandStateLines: [],
+      revert: { restoredRound: 6, replacedPattern: 's("bd*4 sd*4")' },
+    });
+
+    expect(rendered).toContain('Your current pattern: s("bd sd")\nBOSS ROLLED YOUR PATTERN BACK to what you played in round 6. You had moved on to: s("bd*4 sd*4")');
+    expect(buildAutoTickManagerContext({
+      roundNumber: 9,
+      musicalContext,
+      currentPattern: 's("bd sd")',
+      bandStateLines: [],
+    })).not.toContain('ROLLED YOUR PATTERN BACK');
+  });
+
   it('renders deterministically for identical inputs', () => {
     const input = {
       roundNumber: 8,
@@ -0,0 +1,95 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  doesStepCountFitMeter,
+  formatMeterNoteForPrompt,
+  getMeterGrouping,
+  getMeterStepCounts,
+} from '../jam-meter';
+import { JAM_GOVERNANCE } from '../jam-governance-constants';
+import { AgentProcessManager } from '../agent-process-manager';
+import { ScriptedJamAgentRunner } from '../scripted-jam-agent-runner';
+
+const workingDir = process.cwd();
+
+describe('meter grouping and step counts', () => {
+  it('groups compound and odd meters into pulses', () => {
+    expect(getMeterGrouping('4/4')).toEqual([1, 1, 1, 1]);
+    expect(getMeterGrouping('6/8')).toEqual([3, 3]);
+    expect(getMeterGrouping('7/8')).toEqual([2, 2, 3]);
+    expect(getMeterGrouping('5/4')).toEqual([2, 3]);
+    expect(getMeterStepCounts('3/4')).toEqual([3, 6, 12]);
+    expect(getMeterStepCounts('7/8')).toEqual([7, 14]);
+  });
+
+  it('accepts step counts on the beat grid and flags obvious misses', () => {
+    expect(doesStepCountFitMeter(16, '4/4')).toBe(true);
+    expect(doesStepCountFitMeter(6, '4/4')).toBe(true);
+    expect(doesStepCountFitMeter(3, '7/8')).toBe(true);
+    expect(doesStepCountFitMeter(4, '3/4')).toBe(false);
+    expect(doesStepCountFitMeter(8, '7/8')).toBe(false);
+  });
+});
+
+describe('formatMeterNoteForPrompt', () => {
+  it('explains a meter change for the agent\'s role', () => {
+    expect(formatMeterNoteForPrompt({ change: { from: '4/4', to: '7/8' } }, '7/8', 'drums')).toEqual([
+      'METER CHANGE: 4/4 → 7/8. One cycle is still one bar: 7 eighth notes per bar, felt as 2+2+3.',
+      'Drums: write 7 or 14 steps per cycle in each layer and put kick/snare accents at the start of each 2+2+3 group.',
+    ]);
+    expect(formatMeterNoteForPrompt(undefined, '7/8', 'drums')).toEqual([]);
+  });
+
+  it('reports a mismatched pattern', () => {
+    expect(formatMeterNoteForPrompt({ mismatch: 's("bd sd bd sd") has 4 steps per cycle' }, '3/4', 'drums')).toEqual([
+      'METER CHECK: s("bd sd bd sd") has 4 steps per cycle. In 3/4 use 3 or 6 steps per cycle.',
+    ]);
+  });
+});
+
+describe('AgentProcessManager meter changes', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('tells every agent about a boss meter change and flags drum patterns that do not fit', async () => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    // The scripted bass line is written in C minor; start on the first preset (Dark Ambient, C minor)
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    const runner = new ScriptedJamAgentRunner({ workingDir });
+    const runScriptedTurn = runner.runTurn.bind(runner);
+    const prompts: Array<{ agentKey: string; prompt: string }> = [];
+    // Drums stick to a four-step groove whatever the meter
+    vi.spyOn(runner, 'runTurn').mockImplementation(async (request) => {
+      prompts.push({ agentKey: request.agentKey, prompt: request.prompt });
+      const output = await runScriptedTurn(request);
+      if (request.agentKey !== 'drums') return output;
+      return { ...output, text: JSON.stringify({ ...JSON.parse(output.text), pattern: 's("bd sd bd sd")' }) };
+    });
+    const manager = new AgentProcessManager({ workingDir, broadcast: vi.fn(), runner });
+
+    try {
+      await manager.start(['drums', 'bass']);
+      const from = manager.getJamStateSnapshot().musicalContext.timeSignature;
+      prompts.length = 0;
+
+      await manager.handleDirective('switch to 7/8', undefined, ['drums', 'bass']);
+      expect(manager.getJamStateSnapshot().musicalContext.timeSignature).toBe('7/8');
+      const directivePrompts = prompts.filter((entry) => entry.prompt.includes('DIRECTIVE from the boss'));
+      expect(directivePrompts).toHaveLength(2);
+      for (const entry of directivePrompts) {
+        expect(entry.prompt).toContain(`METER CHANGE: ${from} → 7/8`);
+      }
+
+      prompts.length = 0;
+      await vi.advanceTimersByTimeAsync(JAM_GOVERNANCE.AUTO_TICK_INTERVAL_MS + 10);
+      const drumsTick = prompts.find((entry) => entry.agentKey === 'drums' && entry.prompt.includes('AUTO-TICK'));
+      expect(drumsTick?.prompt).toContain('METER CHECK: s("bd sd bd sd") has 4 steps per cycle. In 7/8 use 7 or 14 steps per cycle.');
+      expect(drumsTick?.prompt).not.toContain('METER CHANGE');
+    } finally {
+      await manager.stop();
+    }
+  });
+});
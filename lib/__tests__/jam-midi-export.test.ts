@@ -0,0 +1,143 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildJamMidiFile,
+  getMidiExportFileName,
+  MIDI_TICKS_PER_QUARTER,
+  noteNameToMidi,
+} from '../jam-midi-export';
+
+interface ReadNote {
+  tick: number;
+  duration: number;
+  channel: number;
+  pitch: number;
+  velocity: number;
+}
+
+interface ReadTrack {
+  name: string;
+  meta: Record<number, number[]>;
+  notes: ReadNote[];
+}
+
+// Minimal SMF reader for the subset the exporter writes (no running status)
+function readMidi(bytes: Uint8Array): { format: number; division: number; tracks: ReadTrack[] } {
+  const text = (at: number, length: number) => String.fromCharCode(...Array.from(bytes.slice(at, at + length)));
+  const uint = (at: number, length: number) => Array.from(bytes.slice(at, at + length)).reduce((value, byte) => value * 256 + byte, 0);
+  expect(text(0, 4)).toBe('MThd');
+  const trackCount = uint(10, 2);
+  const tracks: ReadTrack[] = [];
+  let offset = 14;
+  for (let t = 0; t < trackCount; t++) {
+    expect(text(offset, 4)).toBe('MTrk');
+    const end = offset + 8 + uint(offset + 4, 4);
+    let at = offset + 8;
+    let tick = 0;
+    const track: ReadTrack = { name: '', meta: {}, notes: [] };
+    const open: ReadNote[] = [];
+    const readVarLength = () => {
+      let value = 0;
+      let byte: number;
+      do {
+        byte = bytes[at++];
+        value = value * 128 + (byte & 0x7f);
+      } while (byte & 0x80);
+      return value;
+    };
+    while (at < end) {
+      tick += readVarLength();
+      const status = bytes[at++];
+      if (status === 0xff) {
+        const type = bytes[at++];
+        const length = readVarLength();
+        const data = Array.from(bytes.slice(at, at + length));
+        if (type === 0x03) track.name = String.fromCharCode(...data);
+        else track.meta[type] = data;
+        at += length;
+      } else if ((status & 0xf0) === 0xc0) {
+        at += 1;
+      } else if ((status & 0xf0) === 0x90) {
+        open.push({ tick, duration: 0, channel: status & 0x0f, pitch: bytes[at], velocity: bytes[at + 1] });
+        at += 2;
+      } else if ((status & 0xf0) === 0x80) {
+        const index = open.findIndex((note) => note.pitch === bytes[at] && note.channel === (status & 0x0f));
+        const [note] = open.splice(index, 1);
+        track.notes.push({ ...note, duration: tick - note.tick });
+        at += 2;
+      } else {
+        throw new Error(`Unexpected status ${status}`);
+      }
+    }
+    track.notes.sort((a, b) => a.tick - b.tick || a.pitch - b.pitch);
+    tracks.push(track);
+    offset = end;
+  }
+  return { format: uint(8, 2), division: uint(12, 2), tracks };
+}
+
+describe('buildJamMidiFile', () => {
+  it('writes a format-1 file with the session tempo and meter on a conductor track', () => {
+    const midi = readMidi(buildJamMidiFile(
+      [{ key: 'drums', pattern: 's("bd")' }, { key: 'bass', pattern: 'silence' }],
+      { bpm: 120, timeSignature: '7/8', cycles: 1 }
+    ));
+    expect(midi.format).toBe(1);
+    expect(midi.division).toBe(MIDI_TICKS_PER_QUARTER);
+    expect(midi.tracks.map((track) => track.name)).toEqual(['Jam', 'BEAT (drums)', 'GROOVE (bass)']);
+    expect(midi.tracks[0].meta[0x51]).toEqual([0x07, 0xa1, 0x20]); // 500000 µs per quarter
+    expect(midi.tracks[0].meta[0x58]).toEqual([7, 3, 24, 8]);
+    expect(midi.tracks[2].notes).toEqual([]);
+  });
+
+  it('maps drum sounds to GM percussion over the requested cycles', () => {
+    const midi = readMidi(buildJamMidiFile(
+      [{ key: 'drums', pattern: 'stack(s("bd sd:2"), s("hh*2 zzz").gain(0.5))' }],
+      { bpm: 120, timeSignature: '4/4', cycles: 2 }
+    ));
+    const notes = midi.tracks[1].notes;
+    expect(notes.every((note) => note.channel === 9)).toBe(true);
+    expect(notes.filter((note) => note.pitch !== 42).map((note) => [note.tick, note.pitch, note.duration])).toEqual([
+      [0, 36, 960], [960, 38, 960], [1920, 36, 960], [2880, 38, 960],
+    ]);
+    // "hh*2" fills the first half-cycle; the unknown "zzz" sample is left out
+    expect(notes.filter((note) => note.pitch === 42).map((note) => [note.tick, note.velocity])).toEqual([
+      [0, 50], [480, 50], [1920, 50], [2400, 50],
+    ]);
+  });
+
+  it('plays note names, MIDI numbers and scale degrees at the layer and mixer gain', () => {
+    const midi = readMidi(buildJamMidiFile(
+      [
+        { key: 'bass', pattern: 'note("c2 eb2?").gain(0.5).slow(2)', gain: 1.2 },
+        { key: 'chords', pattern: 'stack(note("[60,64,67]"), note("0 2 -1 7").scale("C:minor"))' },
+      ],
+      { bpm: 90, timeSignature: '4/4', cycles: 2 }
+    ));
+    const [, bass, chords] = midi.tracks;
+    expect(bass.notes).toEqual([
+      { tick: 0, duration: 1920, channel: 0, pitch: 36, velocity: 60 },
+      { tick: 1920, duration: 1920, channel: 0, pitch: 39, velocity: 30 },
+    ]);
+    expect(chords.notes.filter((note) => note.tick < 1920).map((note) => note.pitch)).toEqual([
+      48, 60, 64, 67, 51, 46, 60,
+    ]);
+    expect(chords.notes.every((note) => note.channel === 1)).toBe(true);
+  });
+});
+
+describe('noteNameToMidi', () => {
+  it('reads Strudel note names with octave 3 as the default', () => {
+    expect(noteNameToMidi('c3')).toBe(48);
+    expect(noteNameToMidi('eb')).toBe(51);
+    expect(noteNameToMidi('f#4')).toBe(66);
+    expect(noteNameToMidi('Cs-1')).toBe(1);
+    expect(noteNameToMidi('Cm7')).toBeNull();
+  });
+});
+
+describe('getMidiExportFileName', () => {
+  it('names the file after the genre and tempo', () => {
+    expect(getMidiExportFileName('Drum & Bass', 174)).toBe('jam-drum-bass-174bpm.mid');
+    expect(getMidiExportFileName('', 120)).toBe('jam-session-120bpm.mid');
+  });
+});
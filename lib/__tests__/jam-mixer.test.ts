@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyMixToLayer,
+  applyMixUpdate,
+  createMixChannel,
+  isMixChannelAudible,
+  normalizeMixerState,
+  normalizeMixUpdate,
+  parseMixerDirective,
+} from '../jam-mixer';
+
+const BAND = ['drums', 'bass', 'melody', 'chords'];
+
+describe('parseMixerDirective', () => {
+  it('parses level, solo and pan moves by key, name or @mention', () => {
+    expect(parseMixerDirective('bass up a bit', undefined, BAND)).toEqual({ kind: 'gain', agent: 'bass', delta: 0.1 });
+    expect(parseMixerDirective('Turn ARIA down.', undefined, BAND)).toEqual({ kind: 'gain', agent: 'melody', delta: -0.25 });
+    expect(parseMixerDirective('up', 'chords', BAND)).toEqual({ kind: 'gain', agent: 'chords', delta: 0.25 });
+    expect(parseMixerDirective('chords louder', undefined, BAND)).toEqual({ kind: 'gain', agent: 'chords', delta: 0.25 });
+    expect(parseMixerDirective('solo @BEAT', undefined, BAND)).toEqual({ kind: 'solo', agent: 'drums' });
+    expect(parseMixerDirective('unsolo all', undefined, BAND)).toEqual({ kind: 'unsolo' });
+    expect(parseMixerDirective('pan GROOVE hard left', undefined, BAND)).toEqual({ kind: 'pan', agent: 'bass', pan: -1 });
+    expect(parseMixerDirective('pan to the center', 'bass', BAND)).toEqual({ kind: 'pan', agent: 'bass', pan: 0 });
+  });
+
+  it('leaves musical directives and unknown agents to the band', () => {
+    expect(parseMixerDirective('slow down', undefined, BAND)).toBeNull();
+    expect(parseMixerDirective('Louder!', 'drums', BAND)).toBeNull();
+    expect(parseMixerDirective('energy up', undefined, BAND)).toBeNull();
+    expect(parseMixerDirective('up a bit', undefined, BAND)).toBeNull();
+    expect(parseMixerDirective('solo KEYS', undefined, BAND)).toBeNull();
+    expect(parseMixerDirective('play a bass solo', undefined, BAND)).toBeNull();
+    expect(parseMixerDirective('bass up', undefined, ['drums'])).toBeNull();
+  });
+});
+
+describe('mixer channels', () => {
+  it('validates wire updates and clamps applied values', () => {
+    expect(normalizeMixUpdate({ gain: 'loud', solo: 1 })).toBeNull();
+    expect(normalizeMixUpdate({ gain: 0.5, mute: true, extra: 1 })).toEqual({ gain: 0.5, mute: true });
+    expect(applyMixUpdate(createMixChannel(), { gain: 9, pan: -1.234 })).toEqual({
+      gain: 1.5, pan: -1, solo: false, mute: false,
+    });
+    expect(normalizeMixerState({ bass: { gain: 0.333 }, keys: { gain: 0 } }, ['drums', 'bass'])).toEqual({
+      drums: createMixChannel(),
+      bass: { gain: 0.33, pan: 0, solo: false, mute: false },
+    });
+  });
+
+  it('hears only soloed channels while any is soloed, and never muted ones', () => {
+    const mixer = {
+      drums: { ...createMixChannel(), solo: true },
+      bass: createMixChannel(),
+      melody: { ...createMixChannel(), mute: true },
+    };
+    const keys = ['drums', 'bass', 'melody'];
+    expect(keys.filter((key) => isMixChannelAudible(key, mixer, keys))).toEqual(['drums']);
+    // A soloed agent that is not playing does not silence the rest
+    expect(['bass', 'melody'].filter((key) => isMixChannelAudible(key, mixer, ['bass', 'melody']))).toEqual(['bass']);
+  });
+
+  it('wraps a layer only when the channel is off unity', () => {
+    expect(applyMixToLayer('s("bd")', createMixChannel())).toBe('s("bd")');
+    expect(applyMixToLayer('s("bd")', { gain: 0.5, pan: 1, solo: false, mute: false }))
+      .toBe('s("bd").postgain(0.5).pan(1)');
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import type { AgentPatternVersion } from '../types';
+import {
+  PATTERN_HISTORY_LIMIT,
+  appendPatternVersion,
+  normalizePatternHistory,
+  parsePatternRevertDirective,
+  resolvePatternRevert,
+} from '../jam-pattern-history';
+
+function buildHistory(entries: Array<[pattern: string, round: number]>): AgentPatternVersion[] {
+  return entries.reduce<AgentPatternVersion[]>((history, [pattern, round]) => appendPatternVersion(history, {
+    pattern,
+    round,
+    turnSource: 'auto-tick',
+    createdAt: '2026-01-01T00:00:00.000Z',
+  }), []);
+}
+
+describe('appendPatternVersion', () => {
+  it('numbers versions, skips unchanged patterns and keeps the newest entries', () => {
+    const history = buildHistory([['a', 1], ['a', 2], ['b', 3]]);
+    expect(history.map((entry) => [entry.version, entry.pattern])).toEqual([[1, 'a'], [2, 'b']]);
+
+    const long = buildHistory(Array.from({ length: PATTERN_HISTORY_LIMIT + 3 }, (_, i) => [`p${i}`, i + 1]));
+    expect(long).toHaveLength(PATTERN_HISTORY_LIMIT);
+    expect(long[0].version).toBe(4);
+    expect(long[long.length - 1].version).toBe(PATTERN_HISTORY_LIMIT + 3);
+  });
+
+  it('drops malformed snapshot entries', () => {
+    const [valid] = buildHistory([['a', 1]]);
+    expect(normalizePatternHistory([valid, { pattern: 'b' }, null])).toEqual([valid]);
+    expect(normalizePatternHistory('nope')).toEqual([]);
+  });
+});
+
+describe('parsePatternRevertDirective', () => {
+  it('recognizes plain rollback requests', () => {
+    expect(parsePatternRevertDirective('go back to what you had two rounds ago')).toEqual({ by: 'rounds', count: 2 });
+    expect(parsePatternRevertDirective('Undo!')).toEqual({ by: 'versions', count: 1 });
+    expect(parsePatternRevertDirective('revert to your previous pattern')).toEqual({ by: 'versions', count: 1 });
+    expect(parsePatternRevertDirective('roll back 3 versions')).toEqual({ by: 'versions', count: 3 });
+    expect(parsePatternRevertDirective('go back a round')).toEqual({ by: 'rounds', count: 1 });
+  });
+
+  it('leaves musical directives alone', () => {
+    expect(parsePatternRevertDirective('go back to the half-time feel')).toBeNull();
+    expect(parsePatternRevertDirective('bring back the hi-hats')).toBeNull();
+    expect(parsePatternRevertDirective('go back zero rounds')).toBeNull();
+  });
+});
+
+describe('resolvePatternRevert', () => {
+  const history = buildHistory([['a', 1], ['b', 3], ['c', 6]]);
+
+  it('steps back by versions or to what was playing N rounds ago', () => {
+    expect(resolvePatternRevert(history, { by: 'versions', count: 1 }, 7)?.pattern).toBe('b');
+    expect(resolvePatternRevert(history, { by: 'versions', count: 2 }, 7)?.pattern).toBe('a');
+    expect(resolvePatternRevert(history, { by: 'rounds', count: 2 }, 7)?.pattern).toBe('b');
+    expect(resolvePatternRevert(history, { by: 'rounds', count: 5 }, 7)?.pattern).toBe('a');
+  });
+
+  it('returns null when there is nothing earlier to restore', () => {
+    expect(resolvePatternRevert(history, { by: 'versions', count: 3 }, 7)).toBeNull();
+    expect(resolvePatternRevert(history, { by: 'rounds', count: 1 }, 7)).toBeNull();
+    expect(resolvePatternRevert([], { by: 'versions', count: 1 }, 7)).toBeNull();
+  });
+});
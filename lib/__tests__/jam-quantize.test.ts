@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import {
+  JAM_QUANTIZE_LEAD_MS,
+  formatQuantizeTarget,
+  getNextQuantizeBoundary,
+  getQuantizedDelayMs,
+  isJamQuantizeBars,
+} from '../jam-quantize';
+
+describe('getNextQuantizeBoundary', () => {
+  it('rounds up to the next multiple of the grid', () => {
+    expect(getNextQuantizeBoundary(3.2, 1)).toBe(4);
+    expect(getNextQuantizeBoundary(3.2, 4)).toBe(4);
+    expect(getNextQuantizeBoundary(5.5, 4)).toBe(8);
+  });
+
+  it('moves to the following boundary when already on one', () => {
+    expect(getNextQuantizeBoundary(4, 1)).toBe(5);
+    expect(getNextQuantizeBoundary(8, 4)).toBe(12);
+    expect(getNextQuantizeBoundary(0, 2)).toBe(2);
+  });
+});
+
+describe('getQuantizedDelayMs', () => {
+  // 0.5 cps → 2s per bar
+  const cps = 0.5;
+
+  it('waits until just before the next bar', () => {
+    expect(getQuantizedDelayMs({ cycle: 10.25, cps }, 1)).toBe(1500 - JAM_QUANTIZE_LEAD_MS);
+  });
+
+  it('waits for the next phrase boundary on a multi-bar grid', () => {
+    expect(getQuantizedDelayMs({ cycle: 9, cps }, 4)).toBe(6000 - JAM_QUANTIZE_LEAD_MS);
+  });
+
+  it('skips a boundary that is closer than the lead time', () => {
+    expect(getQuantizedDelayMs({ cycle: 10.96, cps }, 1)).toBeCloseTo(2080 - JAM_QUANTIZE_LEAD_MS, 6);
+  });
+
+  it('plays immediately when quantization is off or the scheduler is unusable', () => {
+    expect(getQuantizedDelayMs({ cycle: 10.25, cps }, 0)).toBe(0);
+    expect(getQuantizedDelayMs(null, 1)).toBe(0);
+    expect(getQuantizedDelayMs({ cycle: 10.25, cps: 0 }, 1)).toBe(0);
+    expect(getQuantizedDelayMs({ cycle: Number.NaN, cps }, 1)).toBe(0);
+  });
+});
+
+describe('quantize options', () => {
+  it('accepts only the offered grids', () => {
+    expect(isJamQuantizeBars(4)).toBe(true);
+    expect(isJamQuantizeBars(0)).toBe(true);
+    expect(isJamQuantizeBars(3)).toBe(false);
+    expect(isJamQuantizeBars('1')).toBe(false);
+  });
+
+  it('describes the queued target', () => {
+    expect(formatQuantizeTarget(1)).toBe('next bar');
+    expect(formatQuantizeTarget(4)).toBe('next 4-bar phrase');
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildJamReplayTimeline,
+  createJamRecordingId,
+  formatJamRecordingDuration,
+  isValidJamRecordingId,
+  parseJamRecording,
+  parseJamRecordingSummary,
+  serializeJamRecordingEntry,
+  summarizeJamRecording,
+} from '../jam-recording';
+import type { JamRecordingEntry } from '../types';
+
+function entry(
+  seq: number,
+  offsetMs: number,
+  kind: JamRecordingEntry['kind'],
+  type: string,
+  payload: unknown = null
+): JamRecordingEntry {
+  return {
+    seq,
+    offsetMs,
+    recordedAt: new Date(Date.UTC(2026, 9, 18, 12, 0, 0) + offsetMs).toISOString(),
+    kind,
+    type,
+    payload,
+  };
+}
+
+const SESSION: JamRecordingEntry[] = [
+  entry(0, 0, 'session', 'session_start', { recordingId: 'jam-a', activeAgents: ['drums', 'bass'] }),
+  entry(1, 40, 'output', 'jam_state_update', { jamState: { sessionId: 'jam-1' } }),
+  entry(2, 1_000, 'input', 'boss_directive', { text: '@BEAT go', targetAgent: 'drums' }),
+  entry(3, 1_050, 'input', 'audio_feedback', { rms: 0.2 }),
+  entry(4, 2_500, 'output', 'execute', { code: 's("bd")' }),
+  entry(5, 3_000, 'input', 'camera_directive', { result: { accepted: false } }),
+  entry(6, 62_000, 'session', 'session_end', { reason: 'stopped' }),
+];
+
+describe('jam recording ids', () => {
+  it('creates sortable, path-safe ids', () => {
+    const id = createJamRecordingId(Date.UTC(2026, 9, 18, 12, 30, 0), 'A1-b2');
+    expect(id).toBe('jam-2026-10-18T12-30-00-000Z-a1b2');
+    expect(isValidJamRecordingId(id)).toBe(true);
+  });
+
+  it('rejects traversal and separators', () => {
+    expect(isValidJamRecordingId('../secrets')).toBe(false);
+    expect(isValidJamRecordingId('a/b')).toBe(false);
+    expect(isValidJamRecordingId('')).toBe(false);
+  });
+});
+
+describe('parseJamRecording', () => {
+  it('round-trips serialized entries in seq order', () => {
+    const text = [SESSION[2], SESSION[0], SESSION[1]].map(serializeJamRecordingEntry).join('');
+    expect(parseJamRecording(text).map((e) => e.seq)).toEqual([0, 1, 2]);
+  });
+
+  it('skips blank, truncated, and foreign lines', () => {
+    const text = serializeJamRecordingEntry(SESSION[0])
+      + '\n'
+      + '{"hello":"world"}\n'
+      + serializeJamRecordingEntry(SESSION[1])
+      + '{"seq":2,"offsetMs":';
+    expect(parseJamRecording(text).map((e) => e.type)).toEqual(['session_start', 'jam_state_update']);
+  });
+});
+
+describe('summarizeJamRecording', () => {
+  it('reports duration, agents, and directive count', () => {
+    expect(summarizeJamRecording('jam-a', SESSION)).toEqual({
+      id: 'jam-a',
+      startedAt: '2026-10-18T12:00:00.000Z',
+      durationMs: 62_000,
+      eventCount: 7,
+      activeAgents: ['drums', 'bass'],
+      directiveCount: 2,
+    });
+  });
+
+  it('round-trips through the summary sidecar format', () => {
+    const summary = summarizeJamRecording('jam-a', SESSION);
+    expect(parseJamRecordingSummary(JSON.stringify(summary))).toEqual(summary);
+    expect(parseJamRecordingSummary('{"id":"jam-a"}')).toBeNull();
+    expect(parseJamRecordingSummary('{"id":')).toBeNull();
+  });
+});
+
+describe('buildJamReplayTimeline', () => {
+  it('keeps outputs and boss/camera inputs only', () => {
+    expect(buildJamReplayTimeline(SESSION).map((e) => e.type)).toEqual([
+      'jam_state_update',
+      'boss_directive',
+      'execute',
+      'camera_directive',
+    ]);
+  });
+});
+
+describe('formatJamRecordingDuration', () => {
+  it('formats m:ss', () => {
+    expect(formatJamRecordingDuration(0)).toBe('0:00');
+    expect(formatJamRecordingDuration(83_500)).toBe('1:23');
+    expect(formatJamRecordingDuration(3_600_000)).toBe('60:00');
+  });
+});
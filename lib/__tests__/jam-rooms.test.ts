@@ -0,0 +1,123 @@
+import { describe, expect, it, vi, type Mock } from 'vitest';
+import {
+  JamRoom,
+  JamRoomRegistry,
+  normalizeJamRoomMemberName,
+  normalizeJamRoomName,
+  type JamRoomClient,
+} from '../jam-rooms';
+
+type FakeClient = JamRoomClient & { send: Mock<(data: string) => void> };
+
+function fakeClient(readyState = 1): FakeClient {
+  return { readyState, send: vi.fn<(data: string) => void>() };
+}
+
+function sentTypes(client: FakeClient): string[] {
+  return client.send.mock.calls.map(([data]) => (JSON.parse(data) as { type: string }).type);
+}
+
+describe('jam room names', () => {
+  it('slugs room names and rejects ones with nothing usable', () => {
+    expect(normalizeJamRoomName('  Friday Night Funk! ')).toBe('friday-night-funk');
+    expect(normalizeJamRoomName('~private-3')).toBe('private-3');
+    expect(normalizeJamRoomName('!!!')).toBeNull();
+    expect(normalizeJamRoomName(42)).toBeNull();
+    expect(normalizeJamRoomName('x'.repeat(60))).toHaveLength(40);
+  });
+
+  it('collapses whitespace in member names and falls back when empty', () => {
+    expect(normalizeJamRoomMemberName('  Ada   L ', 'Guest 1')).toBe('Ada L');
+    expect(normalizeJamRoomMemberName('   ', 'Guest 1')).toBe('Guest 1');
+    expect(normalizeJamRoomMemberName(undefined, 'Guest 2')).toBe('Guest 2');
+  });
+});
+
+describe('JamRoom', () => {
+  it('makes the first member boss and promotes the earliest joiner when the boss leaves', () => {
+    const room = new JamRoom('funk');
+    const [a, b, c] = [fakeClient(), fakeClient(), fakeClient()];
+    expect(room.join(a, 1, 'Ada')).toBe('boss');
+    expect(room.join(b, 2, 'Bo')).toBe('spectator');
+    room.join(c, 3, 'Cy');
+
+    expect(room.leave(b)).toEqual({ promoted: null });
+    expect(room.leave(a)).toEqual({ promoted: c });
+    expect(room.isBoss(c)).toBe(true);
+    expect(room.getMembers()).toEqual([{ id: 3, name: 'Cy', role: 'boss' }]);
+  });
+
+  it('hands off the boss role only from the boss to another member', () => {
+    const room = new JamRoom('funk');
+    const [a, b] = [fakeClient(), fakeClient()];
+    room.join(a, 1, 'Ada');
+    room.join(b, 2, 'Bo');
+
+    expect(room.handOffBoss(b, 1)).toBeNull();
+    expect(room.handOffBoss(a, 1)).toBeNull();
+    expect(room.handOffBoss(a, 99)).toBeNull();
+    expect(room.handOffBoss(a, 2)).toBe(b);
+    expect(room.getState(a, { active: true, activeAgents: ['drums'] })).toEqual({
+      room: 'funk',
+      isPrivate: false,
+      memberId: 1,
+      role: 'spectator',
+      members: [
+        { id: 1, name: 'Ada', role: 'spectator' },
+        { id: 2, name: 'Bo', role: 'boss' },
+      ],
+      jamActive: true,
+      activeAgents: ['drums'],
+    });
+  });
+
+  it('broadcasts to open members and replays the latest state and pattern to late joiners', () => {
+    const room = new JamRoom('funk');
+    const [boss, closed, late] = [fakeClient(), fakeClient(3), fakeClient()];
+    room.join(boss, 1, 'Ada');
+    room.join(closed, 2, 'Bo');
+
+    room.broadcast({ type: 'execute', payload: { code: 's("bd")' } });
+    room.broadcast({ type: 'agent_thought', payload: {} });
+    room.broadcast({ type: 'jam_state_update', payload: { round: 1 } });
+    room.broadcast({ type: 'jam_state_update', payload: { round: 2 } });
+    expect(boss.send).toHaveBeenCalledTimes(4);
+    expect(closed.send).not.toHaveBeenCalled();
+
+    room.join(late, 3, 'Cy');
+    room.sendCatchUp(late);
+    expect(sentTypes(late)).toEqual(['jam_state_update', 'execute']);
+    expect(JSON.parse(late.send.mock.calls[0][0]).payload).toEqual({ round: 2 });
+
+    room.clearCatchUp();
+    late.send.mockClear();
+    room.sendCatchUp(late);
+    expect(late.send).not.toHaveBeenCalled();
+  });
+});
+
+describe('JamRoomRegistry', () => {
+  it('shares rooms by name and drops them once empty', () => {
+    const registry = new JamRoomRegistry();
+    const [a, b] = [fakeClient(), fakeClient()];
+    const room = registry.join(a, 1, 'funk', 'Ada');
+    expect(registry.join(b, 2, 'funk', 'Bo')).toBe(room);
+    expect(registry.getRoom(b)).toBe(room);
+
+    expect(registry.leave(a)).toEqual({ room, promoted: b, isEmpty: false });
+    expect(registry.getRoomByName('funk')).toBe(room);
+    expect(registry.leave(b)).toEqual({ room, promoted: null, isEmpty: true });
+    expect(registry.getRoomByName('funk')).toBeNull();
+    expect(registry.leave(b)).toBeNull();
+  });
+
+  it('keeps private rooms flagged for the client that owns them', () => {
+    const registry = new JamRoomRegistry();
+    const client = fakeClient();
+    const room = registry.join(client, 7, '~private-7', 'You', { isPrivate: true });
+    expect(room.getState(client, { active: false, activeAgents: [] })).toMatchObject({
+      isPrivate: true,
+      role: 'boss',
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  DEFAULT_AGENT_ROSTER,
+  applyAgentRoster,
+  formatBandRosterForPrompt,
+  isAgentRosterKey,
+  normalizeAgentRoster,
+  parseAgentFrontMatter,
+  parseAgentRosterEntry,
+  resolveAgentReference,
+} from '../jam-roster';
+import { loadAgentRoster } from '../jam-roster-loader';
+import { get_camera_interpreter_output_schema } from '../camera-directive-interpreter';
+import { AGENT_META } from '../types';
+
+function persona(fields: Record<string, string>): string {
+  const lines = Object.entries(fields).map(([key, value]) => `${key}: ${value}`);
+  return ['---', ...lines, '---', '', 'Persona body.'].join('\n');
+}
+
+describe('parseAgentRosterEntry', () => {
+  it('reads quoted front-matter values', () => {
+    expect(parseAgentFrontMatter(persona({ key: 'pads', mention: '"@HALO"' }))).toEqual({ key: 'pads', mention: '@HALO' });
+    expect(parseAgentFrontMatter('no front-matter')).toBeNull();
+  });
+
+  it('fills in mention, colour, role and pattern family defaults', () => {
+    const result = parseAgentRosterEntry({ key: 'arp', display_name: 'Spark Plug', emoji: '✨' }, 'arpeggio');
+    expect(result).toEqual({
+      ok: true,
+      order: Number.POSITIVE_INFINITY,
+      meta: expect.objectContaining({
+        key: 'arp',
+        mention: '@SPARKPLUG',
+        colors: expect.objectContaining({ accent: 'text-gray-200' }),
+        role: 'instrumental part',
+        patternFamily: 'arp',
+        file: 'arpeggio',
+      }),
+    });
+  });
+
+  it('rejects reserved keys, unknown colours and missing fields', () => {
+    const base = { key: 'fx', display_name: 'WASH', emoji: '🌊' };
+    expect(parseAgentRosterEntry({ ...base, key: 'all' }, 'fx')).toEqual({ ok: false, error: 'invalid key "all"' });
+    expect(parseAgentRosterEntry({ ...base, color: 'chartreuse' }, 'fx')).toEqual({ ok: false, error: 'unknown color "chartreuse"' });
+    expect(parseAgentRosterEntry({ ...base, emoji: '' }, 'fx')).toEqual({ ok: false, error: 'missing emoji' });
+    expect(parseAgentRosterEntry({ ...base, mention: 'WASH' }, 'fx')).toEqual({ ok: false, error: 'invalid mention "WASH"' });
+  });
+});
+
+describe('resolveAgentReference', () => {
+  const band = ['drums', 'bass', 'melody', 'chords'];
+
+  it('matches roster keys, mentions and display names case-insensitively', () => {
+    expect(resolveAgentReference('bass', band)).toBe('bass');
+    expect(resolveAgentReference('@GROOVE', band)).toBe('bass');
+    expect(resolveAgentReference('groove', band)).toBe('bass');
+    expect(resolveAgentReference('@beat', ['bass'])).toBeNull();
+    expect(resolveAgentReference('@', band)).toBeNull();
+  });
+});
+
+describe('loadAgentRoster', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'jam-roster-'));
+    fs.mkdirSync(path.join(dir, '.codex', 'agents'), { recursive: true });
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  function writePersona(file: string, fields: Record<string, string>): void {
+    fs.writeFileSync(path.join(dir, '.codex', 'agents', file), persona(fields));
+  }
+
+  it('matches the built-in band for the repo persona files', () => {
+    expect(loadAgentRoster(process.cwd())).toEqual(DEFAULT_AGENT_ROSTER);
+  });
+
+  it('orders agents by front-matter and skips non-band, invalid and duplicate files', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    writePersona('a-pads.md', { key: 'pads', display_name: 'HALO', emoji: '🌫️', color: 'teal', pattern_family: 'chords' });
+    writePersona('b-drummer.md', { key: 'drums', display_name: 'BEAT', emoji: '🥁', order: '1' });
+    writePersona('c-clone.md', { key: 'drums', display_name: 'ECHO', emoji: '📢' });
+    writePersona('d-broken.md', { key: 'fx', display_name: 'WASH', emoji: '🌊', color: 'plaid' });
+    writePersona('e-prompt.md', { name: 'normal-mode' });
+
+    const roster = loadAgentRoster(dir);
+    expect(roster.map((meta) => meta.key)).toEqual(['drums', 'pads']);
+    expect(roster[1]).toMatchObject({ file: 'a-pads', patternFamily: 'chords', mention: '@HALO' });
+    expect(console.warn).toHaveBeenCalledTimes(2);
+  });
+
+  it('falls back to the built-in band when no file defines an agent', () => {
+    writePersona('prompt.md', { name: 'normal-mode' });
+    expect(loadAgentRoster(dir)).toEqual(DEFAULT_AGENT_ROSTER);
+    expect(loadAgentRoster(path.join(dir, 'missing'))).toEqual(DEFAULT_AGENT_ROSTER);
+  });
+});
+
+describe('applyAgentRoster', () => {
+  const pads = {
+    ...DEFAULT_AGENT_ROSTER[3],
+    key: 'pads',
+    name: 'HALO',
+    emoji: '🌫️',
+    mention: '@HALO',
+    role: 'sustained pads and texture',
+    file: 'pads',
+  };
+
+  afterEach(() => {
+    applyAgentRoster(DEFAULT_AGENT_ROSTER);
+  });
+
+  it('replaces the live table used for routing, prompts and camera targets', () => {
+    applyAgentRoster([DEFAULT_AGENT_ROSTER[0], pads]);
+
+    expect(Object.keys(AGENT_META)).toEqual(['drums', 'pads']);
+    expect(isAgentRosterKey('pads')).toBe(true);
+    expect(isAgentRosterKey('bass')).toBe(false);
+    expect(isAgentRosterKey('constructor')).toBe(false);
+    expect(get_camera_interpreter_output_schema().properties.target_agent.anyOf[0].enum).toEqual(['drums', 'pads', 'all']);
+    expect(formatBandRosterForPrompt('pads', ['drums', 'pads'])).toBe([
+      '<band_roster>',
+      'The band in this jam:',
+      '- 🥁 BEAT (drums, @BEAT): rhythm and groove driver',
+      '- 🌫️ HALO (pads, @HALO): sustained pads and texture ← you',
+      '</band_roster>',
+    ].join('\n'));
+  });
+
+  it('accepts only well-formed rosters from the wire', () => {
+    expect(normalizeAgentRoster([...DEFAULT_AGENT_ROSTER, pads])).toHaveLength(5);
+    expect(normalizeAgentRoster([pads, { ...pads, key: 'pads2' }])).toBeNull();
+    expect(normalizeAgentRoster([{ ...pads, colors: null }])).toBeNull();
+    expect(normalizeAgentRoster([])).toBeNull();
+  });
+});
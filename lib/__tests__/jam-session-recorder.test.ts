@@ -0,0 +1,162 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  JamSessionRecorder,
+  getJamRecordingsDir,
+  isJamRecordingEnabled,
+  listJamRecordings,
+  readJamRecording,
+} from '../jam-session-recorder';
+
+const original_recording = process.env.JAM_RECORDING;
+const original_recordings_dir = process.env.JAM_RECORDINGS_DIR;
+
+let dir: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'jam-recordings-'));
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+
+  if (original_recording === undefined) {
+    delete process.env.JAM_RECORDING;
+  } else {
+    process.env.JAM_RECORDING = original_recording;
+  }
+
+  if (original_recordings_dir === undefined) {
+    delete process.env.JAM_RECORDINGS_DIR;
+  } else {
+    process.env.JAM_RECORDINGS_DIR = original_recordings_dir;
+  }
+});
+
+function fakeClock(startMs: number) {
+  let nowMs = startMs;
+  return {
+    now: () => nowMs,
+    advance: (ms: number) => { nowMs += ms; },
+  };
+}
+
+describe('JamSessionRecorder', () => {
+  it('appends timestamped outputs and inputs as JSONL', async () => {
+    const clock = fakeClock(Date.UTC(2026, 9, 18, 12, 0, 0));
+    const recorder = new JamSessionRecorder({ dir, activeAgents: ['drums'], now: clock.now });
+
+    clock.advance(250);
+    recorder.recordInput('boss_directive', { text: '@BEAT go', targetAgent: 'drums' });
+    clock.advance(1_500);
+    recorder.recordOutput({ type: 'execute', payload: { code: 's("bd")' } });
+    clock.advance(10);
+    await recorder.close('stopped');
+    recorder.recordOutput({ type: 'execute', payload: { code: 'ignored' } });
+
+    const lines = fs.readFileSync(recorder.filePath, 'utf-8').trim().split('\n');
+    expect(lines).toHaveLength(4);
+
+    const entries = lines.map((line) => JSON.parse(line));
+    expect(entries.map((e) => [e.seq, e.offsetMs, e.kind, e.type])).toEqual([
+      [0, 0, 'session', 'session_start'],
+      [1, 250, 'input', 'boss_directive'],
+      [2, 1_750, 'output', 'execute'],
+      [3, 1_760, 'session', 'session_end'],
+    ]);
+    expect(entries[0].payload).toEqual({ recordingId: recorder.id, activeAgents: ['drums'] });
+    expect(entries[2].recordedAt).toBe('2026-10-18T12:00:01.750Z');
+    expect(recorder.isActive).toBe(false);
+    expect(JSON.parse(fs.readFileSync(recorder.summaryPath, 'utf-8'))).toEqual({
+      id: recorder.id,
+      startedAt: '2026-10-18T12:00:00.000Z',
+      durationMs: 1_760,
+      eventCount: 4,
+      activeAgents: ['drums'],
+      directiveCount: 1,
+    });
+  });
+
+  it('disables itself instead of throwing when the directory is unusable', () => {
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const blocker = path.join(dir, 'not-a-dir');
+    fs.writeFileSync(blocker, '');
+
+    const recorder = new JamSessionRecorder({ dir: blocker, activeAgents: ['bass'] });
+    expect(recorder.isActive).toBe(false);
+    expect(() => recorder.recordOutput({ type: 'execute', payload: {} })).not.toThrow();
+    expect(errorSpy).toHaveBeenCalledTimes(1);
+    errorSpy.mockRestore();
+  });
+});
+
+describe('listJamRecordings / readJamRecording', () => {
+  it('lists recordings newest first and reads them back', async () => {
+    const clock = fakeClock(Date.UTC(2026, 9, 18, 12, 0, 0));
+    const older = new JamSessionRecorder({ dir, activeAgents: ['drums'], now: clock.now });
+    clock.advance(5_000);
+    await older.close('stopped');
+
+    clock.advance(60_000);
+    const newer = new JamSessionRecorder({ dir, activeAgents: ['bass', 'melody'], now: clock.now });
+    newer.recordInput('boss_directive', { text: 'more energy' });
+    await newer.close('disconnected');
+
+    const summaries = listJamRecordings(dir);
+    expect(summaries.map((s) => s.id)).toEqual([newer.id, older.id]);
+    expect(summaries[0]).toMatchObject({ activeAgents: ['bass', 'melody'], directiveCount: 1, eventCount: 3 });
+    expect(summaries[1]).toMatchObject({ durationMs: 5_000 });
+
+    expect(readJamRecording(dir, older.id)?.map((e) => e.type)).toEqual(['session_start', 'session_end']);
+  });
+
+  it('lists closed recordings from their summary without reading the log', async () => {
+    const recorder = new JamSessionRecorder({ dir, activeAgents: ['drums'] });
+    recorder.recordInput('camera_directive', { text: 'drop it' });
+    await recorder.close('stopped');
+    fs.writeFileSync(recorder.filePath, '');
+
+    expect(listJamRecordings(dir)).toEqual([
+      expect.objectContaining({ id: recorder.id, eventCount: 3, directiveCount: 1, activeAgents: ['drums'] }),
+    ]);
+  });
+
+  it('falls back to parsing the log of a session that never closed', () => {
+    const id = 'jam-2026-10-18T12-00-00-000Z-crash';
+    const entries = [
+      { seq: 0, offsetMs: 0, recordedAt: '2026-10-18T12:00:00.000Z', kind: 'session', type: 'session_start', payload: { recordingId: id, activeAgents: ['bass'] } },
+      { seq: 1, offsetMs: 900, recordedAt: '2026-10-18T12:00:00.900Z', kind: 'output', type: 'execute', payload: {} },
+    ];
+    fs.writeFileSync(path.join(dir, `${id}.jsonl`), entries.map((entry) => JSON.stringify(entry)).join('\n'));
+
+    expect(listJamRecordings(dir)).toEqual([
+      { id, startedAt: '2026-10-18T12:00:00.000Z', durationMs: 900, eventCount: 2, activeAgents: ['bass'], directiveCount: 0 },
+    ]);
+  });
+
+  it('returns nothing for unknown ids, traversal attempts, or a missing dir', () => {
+    expect(readJamRecording(dir, 'jam-missing')).toBeNull();
+    expect(readJamRecording(dir, '../etc/passwd')).toBeNull();
+    expect(listJamRecordings(path.join(dir, 'nope'))).toEqual([]);
+  });
+});
+
+describe('recording env configuration', () => {
+  it('is enabled unless JAM_RECORDING is off', () => {
+    delete process.env.JAM_RECORDING;
+    expect(isJamRecordingEnabled()).toBe(true);
+    process.env.JAM_RECORDING = 'OFF';
+    expect(isJamRecordingEnabled()).toBe(false);
+  });
+
+  it('resolves JAM_RECORDINGS_DIR relative to the working dir', () => {
+    delete process.env.JAM_RECORDINGS_DIR;
+    expect(getJamRecordingsDir('/srv/app')).toBe(path.join('/srv/app', '.jam-sessions'));
+    process.env.JAM_RECORDINGS_DIR = 'recordings';
+    expect(getJamRecordingsDir('/srv/app')).toBe(path.join('/srv/app', 'recordings'));
+    process.env.JAM_RECORDINGS_DIR = '/var/jams';
+    expect(getJamRecordingsDir('/srv/app')).toBe('/var/jams');
+  });
+});
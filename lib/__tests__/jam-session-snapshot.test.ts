@@ -0,0 +1,228 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  JAM_SESSION_SNAPSHOT_VERSION,
+  getJamSnapshotsDir,
+  listJamSessionSnapshots,
+  parseJamSessionSnapshot,
+  readJamSessionSnapshot,
+  writeJamSessionSnapshot,
+  type JamSessionSnapshot,
+} from '../jam-session-snapshot';
+import { AgentProcessManager } from '../agent-process-manager';
+import { ScriptedJamAgentRunner } from '../scripted-jam-agent-runner';
+import type { ExecutePayload } from '../types';
+
+const workingDir = process.cwd();
+const original_snapshots_dir = process.env.JAM_SNAPSHOTS_DIR;
+
+function makeSnapshot(overrides: Partial<JamSessionSnapshot> = {}): JamSessionSnapshot {
+  return {
+    version: JAM_SESSION_SNAPSHOT_VERSION,
+    sessionId: 'direct-1000',
+    savedAt: '2026-10-18T12:00:00.000Z',
+    round: 3,
+    jamStartMode: 'staged_silent',
+    presetConfigured: true,
+    musicalContext: {
+      genre: 'Funk',
+      key: 'E minor',
+      scale: ['E', 'F#', 'G', 'A', 'B', 'C', 'D'],
+      chordProgression: ['Em7', 'A7'],
+      bpm: 104,
+      timeSignature: '4/4',
+      energy: 6,
+    },
+    activeAgents: ['drums', 'bass'],
+    activatedAgents: ['drums'],
+    mutedAgents: [],
+    agents: {
+      drums: {
+        pattern: 's("bd sd")',
+        state: {
+          name: 'BEAT',
+          emoji: '🥁',
+          pattern: 's("bd sd")',
+          fallbackPattern: '',
+          thoughts: 'pocket',
+          status: 'playing',
+          lastUpdated: '2026-10-18T12:00:00.000Z',
+        },
+        threadId: 'thread-drums',
+      },
+      bass: {
+        pattern: '',
+        state: {
+          name: 'GROOVE',
+          emoji: '🎸',
+          pattern: '',
+          fallbackPattern: '',
+          thoughts: '',
+          status: 'idle',
+          lastUpdated: '2026-10-18T12:00:00.000Z',
+        },
+        threadId: null,
+      },
+    },
+    ...overrides,
+  };
+}
+
+function executesOf(broadcast: ReturnType<typeof vi.fn>): ExecutePayload[] {
+  return broadcast.mock.calls
+    .map(([msg]) => msg as { type: string; payload: ExecutePayload })
+    .filter((msg) => msg.type === 'execute')
+    .map((msg) => msg.payload);
+}
+
+describe('jam session snapshot persistence', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'jam-snapshots-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+    if (original_snapshots_dir === undefined) {
+      delete process.env.JAM_SNAPSHOTS_DIR;
+    } else {
+      process.env.JAM_SNAPSHOTS_DIR = original_snapshots_dir;
+    }
+  });
+
+  it('round-trips a snapshot and overwrites it in place', () => {
+    writeJamSessionSnapshot(dir, makeSnapshot());
+    writeJamSessionSnapshot(dir, makeSnapshot({ round: 4 }));
+
+    expect(fs.readdirSync(dir)).toEqual(['direct-1000.json']);
+    expect(readJamSessionSnapshot(dir, 'direct-1000')?.round).toBe(4);
+  });
+
+  it('lists summaries most recently saved first', () => {
+    writeJamSessionSnapshot(dir, makeSnapshot());
+    writeJamSessionSnapshot(dir, makeSnapshot({ sessionId: 'direct-2000', savedAt: '2026-10-18T13:00:00.000Z' }));
+    fs.writeFileSync(path.join(dir, 'broken.json'), '{');
+
+    expect(listJamSessionSnapshots(dir)).toEqual([
+      expect.objectContaining({ sessionId: 'direct-2000' }),
+      {
+        sessionId: 'direct-1000',
+        savedAt: '2026-10-18T12:00:00.000Z',
+        round: 3,
+        activeAgents: ['drums', 'bass'],
+        activatedAgents: ['drums'],
+        genre: 'Funk',
+        key: 'E minor',
+        bpm: 104,
+      },
+    ]);
+  });
+
+  it('rejects unsafe ids and unknown sessions', () => {
+    expect(() => writeJamSessionSnapshot(dir, makeSnapshot({ sessionId: '../escape' }))).toThrow('Invalid jam session id');
+    expect(readJamSessionSnapshot(dir, '../escape')).toBeNull();
+    expect(readJamSessionSnapshot(dir, 'direct-404')).toBeNull();
+    expect(listJamSessionSnapshots(path.join(dir, 'missing'))).toEqual([]);
+  });
+
+  it('resolves JAM_SNAPSHOTS_DIR relative to the working dir', () => {
+    delete process.env.JAM_SNAPSHOTS_DIR;
+    expect(getJamSnapshotsDir('/srv/app')).toBe(path.join('/srv/app', '.jam-sessions', 'snapshots'));
+    process.env.JAM_SNAPSHOTS_DIR = '/var/jam-snapshots';
+    expect(getJamSnapshotsDir('/srv/app')).toBe('/var/jam-snapshots');
+  });
+});
+
+describe('parseJamSessionSnapshot', () => {
+  it('accepts snapshots written by the manager', () => {
+    expect(parseJamSessionSnapshot(makeSnapshot())).not.toBeNull();
+  });
+
+  it('rejects other versions and missing agent entries', () => {
+    expect(parseJamSessionSnapshot({ ...makeSnapshot(), version: 99 })).toBeNull();
+    expect(parseJamSessionSnapshot(makeSnapshot({ agents: {} }))).toBeNull();
+    expect(parseJamSessionSnapshot(makeSnapshot({ jamStartMode: 'other' as never }))).toBeNull();
+  });
+
+  it('validates a saved arrangement', () => {
+    const sections = [{ kind: 'verse' as const, bars: 16, energy: 5 }];
+    expect(parseJamSessionSnapshot(makeSnapshot({
+      arrangement: { sections, currentIndex: 0, barsElapsed: 3.5 },
+    }))).not.toBeNull();
+    expect(parseJamSessionSnapshot(makeSnapshot({
+      arrangement: { sections: [], currentIndex: 0, barsElapsed: 0 },
+    }))).toBeNull();
+  });
+});
+
+describe('AgentProcessManager session snapshots', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('snapshots after each turn and resumes playback and threads from a snapshot', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const snapshots: JamSessionSnapshot[] = [];
+    const firstBroadcast = vi.fn();
+    const first = new AgentProcessManager({
+      workingDir,
+      broadcast: firstBroadcast,
+      runner: new ScriptedJamAgentRunner({ workingDir }),
+      onSnapshot: (snapshot) => snapshots.push(snapshot),
+    });
+
+    let saved: JamSessionSnapshot;
+    try {
+      await first.start(['drums', 'bass'], { mode: 'staged_silent' });
+      await first.setJamPreset('funk');
+      await first.handleDirective('lay down a pocket', 'drums', ['drums', 'bass']);
+      first.setAgentMix('drums', { gain: 0.5 });
+
+      expect(snapshots.length).toBeGreaterThanOrEqual(3);
+      saved = snapshots[snapshots.length - 1];
+      expect(saved.round).toBe(first.getJamStateSnapshot().currentRound);
+      expect(saved.activatedAgents).toEqual(['drums']);
+      expect(saved.agents.drums.threadId).toBe('scripted-drums');
+      expect(saved.agents.bass.threadId).toBeNull();
+      expect(saved.mixer?.drums.gain).toBe(0.5);
+      expect(saved.agents.drums.history?.at(-1)?.directive).toBe('lay down a pocket');
+    } finally {
+      await first.stop();
+    }
+
+    const lastExecute = executesOf(firstBroadcast).at(-1)!;
+    const runner = new ScriptedJamAgentRunner({ workingDir });
+    const runTurnSpy = vi.spyOn(runner, 'runTurn');
+    const resumedBroadcast = vi.fn();
+    const resumed = new AgentProcessManager({ workingDir, broadcast: resumedBroadcast, runner });
+
+    try {
+      await resumed.resume(JSON.parse(JSON.stringify(saved)));
+
+      const [resumeExecute] = executesOf(resumedBroadcast);
+      expect(resumeExecute).toMatchObject({
+        code: lastExecute.code,
+        sessionId: saved.sessionId,
+        round: saved.round,
+        turnSource: 'resume',
+      });
+
+      const state = resumed.getJamStateSnapshot();
+      expect(state.musicalContext).toEqual(saved.musicalContext);
+      expect(state.activatedAgents).toEqual(['drums']);
+      expect(state.agents.drums.status).toBe('playing');
+      expect(state.mixer.drums).toEqual({ gain: 0.5, pan: 0, solo: false, mute: false });
+      expect(resumeExecute.code).toContain('.postgain(0.5)');
+      expect(state.patternHistory.drums).toEqual(saved.agents.drums.history);
+
+      await resumed.handleDirective('keep going', 'drums', ['drums', 'bass']);
+      expect(runTurnSpy.mock.calls[0][0]).toMatchObject({ agentKey: 'drums', threadId: 'scripted-drums' });
+      expect(resumed.getJamStateSnapshot().currentRound).toBe(saved.round + 1);
+    } finally {
+      await resumed.stop();
+    }
+  });
+});
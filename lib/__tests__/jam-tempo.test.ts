@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyTempoToComposedPattern,
+  buildTempoPreamble,
+  deriveCyclesPerMinute,
+  parseTimeSignature,
+  quarterNotesPerBar,
+} from '../jam-tempo';
+
+describe('parseTimeSignature', () => {
+  it('parses common and odd meters', () => {
+    expect(parseTimeSignature('4/4')).toEqual({ beatsPerBar: 4, beatUnit: 4 });
+    expect(parseTimeSignature(' 7 / 8 ')).toEqual({ beatsPerBar: 7, beatUnit: 8 });
+  });
+
+  it('rejects malformed or non-power-of-two beat units', () => {
+    expect(parseTimeSignature('four four')).toBeNull();
+    expect(parseTimeSignature('0/4')).toBeNull();
+    expect(parseTimeSignature('5/6')).toBeNull();
+  });
+});
+
+describe('quarterNotesPerBar', () => {
+  it('counts quarter notes per bar across meters', () => {
+    expect(quarterNotesPerBar('4/4')).toBe(4);
+    expect(quarterNotesPerBar('3/4')).toBe(3);
+    expect(quarterNotesPerBar('5/4')).toBe(5);
+    expect(quarterNotesPerBar('6/8')).toBe(3);
+    expect(quarterNotesPerBar('7/8')).toBe(3.5);
+  });
+
+  it('falls back to 4/4 for unrecognized meters', () => {
+    expect(quarterNotesPerBar('')).toBe(4);
+  });
+});
+
+describe('deriveCyclesPerMinute', () => {
+  it('treats one cycle as one bar', () => {
+    expect(deriveCyclesPerMinute(120, '4/4')).toBe(30);
+    expect(deriveCyclesPerMinute(140, '3/4')).toBeCloseTo(46.667, 3);
+    expect(deriveCyclesPerMinute(130, '6/8')).toBeCloseTo(43.333, 3);
+  });
+});
+
+describe('buildTempoPreamble', () => {
+  it('keeps the bpm/quarters derivation readable', () => {
+    expect(buildTempoPreamble({ bpm: 132, timeSignature: '4/4' })).toBe('setcpm(132/4)');
+    expect(buildTempoPreamble({ bpm: 120, timeSignature: '7/8' })).toBe('setcpm(120/3.5)');
+  });
+});
+
+describe('applyTempoToComposedPattern', () => {
+  it('prefixes composed code with the authoritative clock', () => {
+    expect(applyTempoToComposedPattern('stack(s("bd"), note("c2"))', { bpm: 90, timeSignature: '4/4' }))
+      .toBe('setcpm(90/4)\nstack(s("bd"), note("c2"))');
+  });
+
+  it('leaves silence bare', () => {
+    expect(applyTempoToComposedPattern('silence', { bpm: 90, timeSignature: '4/4' })).toBe('silence');
+  });
+});
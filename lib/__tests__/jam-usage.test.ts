@@ -0,0 +1,119 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  addUsageTotals,
+  createUsageTotals,
+  getBudgetState,
+  getBudgetUsedFraction,
+  getTurnUsage,
+  parseJamSessionBudget,
+  parseJamTokenPricing,
+} from '../jam-usage';
+import { JAM_GOVERNANCE } from '../jam-governance-constants';
+import { AgentProcessManager } from '../agent-process-manager';
+import { ScriptedJamAgentRunner } from '../scripted-jam-agent-runner';
+
+const workingDir = process.cwd();
+
+describe('getTurnUsage', () => {
+  const pricing = { inputUsdPerMTok: 1, cachedInputUsdPerMTok: 0.1, outputUsdPerMTok: 8 };
+
+  it('estimates cost from token pricing, billing cached input at the cached rate', () => {
+    const usage = getTurnUsage({ input_tokens: 10_000, cached_input_tokens: 8_000, output_tokens: 500 }, 2_400, pricing);
+    expect(usage).toMatchObject({ turns: 1, durationMs: 2_400, inputTokens: 10_000, outputTokens: 500 });
+    // 2k uncached at $1 + 8k cached at $0.10 + 500 out at $8, per million
+    expect(usage.costUsd).toBeCloseTo(0.0068, 6);
+  });
+
+  it('prefers reported cost and reads missing usage as zero', () => {
+    expect(getTurnUsage({ cost_usd: 0.02, input_tokens: 10_000 }, 100, pricing).costUsd).toBe(0.02);
+    expect(getTurnUsage(undefined, 100, null)).toEqual({ ...createUsageTotals(), turns: 1, durationMs: 100 });
+  });
+});
+
+describe('session budget', () => {
+  it('uses the tightest limit and slows before pausing', () => {
+    const spent = addUsageTotals(createUsageTotals(), { ...createUsageTotals(), inputTokens: 700, outputTokens: 150, costUsd: 0.5 });
+    expect(getBudgetUsedFraction(spent, { maxCostUsd: null, maxTokens: null })).toBeNull();
+    expect(getBudgetUsedFraction(spent, { maxCostUsd: 2, maxTokens: 1_000 })).toBeCloseTo(0.85);
+
+    expect(getBudgetState(null)).toBe('ok');
+    expect(getBudgetState(JAM_GOVERNANCE.BUDGET_SLOWDOWN_FRACTION - 0.01)).toBe('ok');
+    expect(getBudgetState(JAM_GOVERNANCE.BUDGET_SLOWDOWN_FRACTION)).toBe('slowed');
+    expect(getBudgetState(1)).toBe('paused');
+  });
+
+  it('reads the default budget and token prices from the environment', () => {
+    expect(parseJamSessionBudget({ JAM_BUDGET_USD: '2.5', JAM_BUDGET_TOKENS: 'lots' })).toEqual({
+      maxCostUsd: 2.5,
+      maxTokens: null,
+    });
+    expect(parseJamTokenPricing({ JAM_PRICE_INPUT_PER_MTOK: '0.25' })).toBeNull();
+    expect(parseJamTokenPricing({ JAM_PRICE_INPUT_PER_MTOK: '0.25', JAM_PRICE_OUTPUT_PER_MTOK: '2' })).toEqual({
+      inputUsdPerMTok: 0.25,
+      cachedInputUsdPerMTok: 0.25,
+      outputUsdPerMTok: 2,
+    });
+  });
+});
+
+describe('AgentProcessManager budget governor', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('meters turns per agent, slows then pauses auto-tick, and resumes when the budget is raised', async () => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const runner = new ScriptedJamAgentRunner({ workingDir });
+    const runScriptedTurn = runner.runTurn.bind(runner);
+    // Every turn reports 200 tokens
+    const runTurnSpy = vi.spyOn(runner, 'runTurn').mockImplementation(async (request) => ({
+      ...(await runScriptedTurn(request)),
+      metrics: { input_tokens: 150, output_tokens: 50 },
+    }));
+    const manager = new AgentProcessManager({
+      workingDir,
+      broadcast: vi.fn(),
+      runner,
+      budget: { maxCostUsd: null, maxTokens: 1_000 },
+    });
+
+    try {
+      await manager.start(['drums', 'bass']);
+      let state = manager.getJamStateSnapshot();
+      expect(state.usage?.session).toMatchObject({ turns: 2, inputTokens: 300, outputTokens: 100 });
+      expect(state.usage?.agents.drums).toMatchObject({ turns: 1, inputTokens: 150 });
+      expect(state.usage?.budgetState).toBe('ok');
+
+      // First round reaches 80% of the budget: spacing doubles
+      await vi.advanceTimersByTimeAsync(JAM_GOVERNANCE.AUTO_TICK_INTERVAL_MS + 10);
+      state = manager.getJamStateSnapshot();
+      expect(state.usage?.budgetState).toBe('slowed');
+      expect(state.autoTick?.intervalMs).toBe(JAM_GOVERNANCE.AUTO_TICK_INTERVAL_MS * JAM_GOVERNANCE.BUDGET_SLOWDOWN_FACTOR);
+
+      runTurnSpy.mockClear();
+      await vi.advanceTimersByTimeAsync(JAM_GOVERNANCE.AUTO_TICK_INTERVAL_MS + 10);
+      expect(runTurnSpy).not.toHaveBeenCalled();
+
+      // Next round spends the budget: autonomous rounds stop
+      await vi.advanceTimersByTimeAsync(JAM_GOVERNANCE.AUTO_TICK_INTERVAL_MS);
+      expect(runTurnSpy).toHaveBeenCalledTimes(2);
+      state = manager.getJamStateSnapshot();
+      expect(state.usage?.budgetState).toBe('paused');
+      expect(state.autoTick?.nextTickAtMs).toBeNull();
+
+      runTurnSpy.mockClear();
+      await vi.advanceTimersByTimeAsync(4 * JAM_GOVERNANCE.AUTO_TICK_INTERVAL_MS);
+      expect(runTurnSpy).not.toHaveBeenCalled();
+
+      manager.setSessionBudget({ maxCostUsd: null, maxTokens: 10_000 });
+      expect(manager.getJamStateSnapshot().usage?.budgetState).toBe('ok');
+      expect(manager.getSessionSnapshot()?.usage?.budget.maxTokens).toBe(10_000);
+      await vi.advanceTimersByTimeAsync(JAM_GOVERNANCE.AUTO_TICK_INTERVAL_MS + 10);
+      expect(runTurnSpy).toHaveBeenCalledTimes(2);
+    } finally {
+      await manager.stop();
+    }
+  });
+});
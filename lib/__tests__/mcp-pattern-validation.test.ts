@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { checkPattern } from '../../packages/mcp-server/src/pattern-check';
+
+describe('MCP execute_pattern check', () => {
+  it('lets ordinary normal-mode Strudel through the syntax gate', () => {
+    const patterns = [
+      'setcpm(120/4)\ns("bd*4")',
+      'n("0 2 4").scale("C:minor").s("piano")',
+      '$: s("bd*4")',
+      's("bd sd").jux(rev)',
+      'note("c e g").sound("piano")',
+      'note("c e g").off(0.25, x => x.add(12))',
+      'samples("github:tidalcycles/dirt-samples")\ns("bd")',
+    ];
+    for (const code of patterns) {
+      expect(checkPattern(code).syntaxError, code).toBeNull();
+    }
+  });
+
+  it('attaches jam validator issues as located advice', () => {
+    expect(checkPattern('s("bd ~ sd").lpff(800)')).toEqual({
+      syntaxError: null,
+      issues: ['- [unknown_method] unsupported method ".lpff()" at col 14 — use ".lpf()" (at `lpff`)'],
+    });
+    expect(checkPattern('s("bd [~ bd] sd [bd ~]").gain(0.8)').issues).toEqual([]);
+  });
+
+  it('rejects code that does not parse, with the located issue', () => {
+    const check = checkPattern('s("bd sd").gain(0.8');
+    expect(check.syntaxError).toBeTruthy();
+    expect(check.issues).toHaveLength(1);
+    expect(check.issues[0]).toMatch(/^- \[syntax_error\] not a valid expression .* at col 20/);
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest';
+import {
+  collectMiniValues,
+  expandMiniNotation,
+  getEuclidHits,
+  getMiniPeriod,
+  MiniNotationError,
+  parseMiniNotation,
+  type MiniEvent,
+} from '../mini-notation';
+
+// "value@begin-end" per event, rounded, for readable expectations
+function timeline(events: MiniEvent[]): string[] {
+  const round = (time: number) => Math.round(time * 1000) / 1000;
+  return events.map((event) => `${event.value}@${round(event.begin)}-${round(event.end)}`);
+}
+
+describe('parseMiniNotation', () => {
+  it('builds sequences, groups, stacks and alternation', () => {
+    expect(parseMiniNotation('bd [~ sd]')).toEqual({
+      kind: 'sequence',
+      steps: [
+        { node: { kind: 'atom', value: 'bd' }, weight: 1, operators: [] },
+        {
+          node: {
+            kind: 'sequence',
+            steps: [
+              { node: { kind: 'rest' }, weight: 1, operators: [] },
+              { node: { kind: 'atom', value: 'sd' }, weight: 1, operators: [] },
+            ],
+          },
+          weight: 1,
+          operators: [],
+        },
+      ],
+    });
+    expect(parseMiniNotation('c3, e3').kind).toBe('stack');
+    expect(parseMiniNotation('<a b>').kind).toBe('sequence');
+  });
+
+  it('records operators in source order, with patterned factors', () => {
+    const [step] = (parseMiniNotation('bd(3,8,2)*<2 4>?0.25') as { steps: Array<{ operators: unknown[] }> }).steps;
+    expect(step.operators).toEqual([
+      { kind: 'euclid', pulses: 3, steps: 8, rotation: 2 },
+      {
+        kind: 'fast',
+        factor: {
+          kind: 'alternation',
+          steps: [
+            { node: { kind: 'atom', value: '2' }, weight: 1, operators: [] },
+            { node: { kind: 'atom', value: '4' }, weight: 1, operators: [] },
+          ],
+        },
+      },
+      { kind: 'degrade', amount: 0.25 },
+    ]);
+  });
+
+  it('reports where a malformed string breaks', () => {
+    expect(() => parseMiniNotation('bd [sd')).toThrow(MiniNotationError);
+    expect(() => parseMiniNotation('bd sd]')).toThrow('Unexpected "]" at position 5');
+    expect(() => parseMiniNotation('bd(3)')).toThrow('Euclid takes 2 or 3 arguments');
+  });
+});
+
+describe('expandMiniNotation', () => {
+  it('divides the cycle by weights, elongation, repeats and groups', () => {
+    expect(timeline(expandMiniNotation('a b@2 c'))).toEqual(['a@0-0.25', 'b@0.25-0.75', 'c@0.75-1']);
+    expect(timeline(expandMiniNotation('a _ _ b'))).toEqual(['a@0-0.75', 'b@0.75-1']);
+    expect(timeline(expandMiniNotation('a!3 b'))).toEqual(['a@0-0.25', 'a@0.25-0.5', 'a@0.5-0.75', 'b@0.75-1']);
+    expect(timeline(expandMiniNotation('a b . c'))).toEqual(['a@0-0.25', 'b@0.25-0.5', 'c@0.5-1']);
+  });
+
+  it('stacks layers and keeps their source order at the same onset', () => {
+    expect(timeline(expandMiniNotation('[c3,e3] g3'))).toEqual(['c3@0-0.5', 'e3@0-0.5', 'g3@0.5-1']);
+  });
+
+  it('alternates per cycle, nesting alternations inside each other', () => {
+    expect(timeline(expandMiniNotation('<a <b c>>', { cycles: 4 }))).toEqual([
+      'a@0-1', 'b@1-2', 'a@2-3', 'c@3-4',
+    ]);
+    expect(timeline(expandMiniNotation('<a b>*2', { from: 1 }))).toEqual(['a@1-1.5', 'b@1.5-2']);
+  });
+
+  it('stretches slowed steps across cycles', () => {
+    expect(timeline(expandMiniNotation('[a b]/2', { cycles: 2 }))).toEqual(['a@0-1', 'b@1-2']);
+    expect(timeline(expandMiniNotation('a/2', { cycles: 2 }))).toEqual(['a@0-2']);
+  });
+
+  it('samples patterned speeds per cycle', () => {
+    expect(expandMiniNotation('hh*<2 4>', { cycles: 2 }).map((event) => event.begin)).toEqual([
+      0, 0.5, 1, 1.25, 1.5, 1.75,
+    ]);
+  });
+
+  it('plays euclid rhythms with Bjorklund spacing and rotation', () => {
+    expect(getEuclidHits(5, 8)).toEqual([true, false, true, true, false, true, true, false]);
+    expect(expandMiniNotation('bd(3,8)').map((event) => event.begin)).toEqual([0, 0.375, 0.75]);
+    expect(expandMiniNotation('bd(3,8,2)').map((event) => event.begin)).toEqual([0.125, 0.5, 0.75]);
+  });
+
+  it('steps polymeter layers at the first layer\'s rate or %N', () => {
+    expect(timeline(expandMiniNotation('{a b c, d e}', { cycles: 2 }))).toEqual([
+      'a@0-0.333', 'd@0-0.333', 'b@0.333-0.667', 'e@0.333-0.667', 'c@0.667-1', 'd@0.667-1',
+      'a@1-1.333', 'e@1-1.333', 'b@1.333-1.667', 'd@1.333-1.667', 'c@1.667-2', 'e@1.667-2',
+    ]);
+    expect(expandMiniNotation('{a b c}%4', { from: 1 }).map((event) => event.value)).toEqual(['b', 'c', 'a', 'b']);
+  });
+
+  it('keeps randomness deterministic', () => {
+    const choice = expandMiniNotation('a | b | c', { cycles: 8 }).map((event) => event.value);
+    expect(expandMiniNotation('a | b | c', { cycles: 8 }).map((event) => event.value)).toEqual(choice);
+    expect(expandMiniNotation('hh? hh?0.2').map((event) => event.probability)).toEqual([0.5, 0.8]);
+  });
+
+  it('keeps sample indices on the value', () => {
+    expect(expandMiniNotation('bd:3 ~').map((event) => event.value)).toEqual(['bd:3']);
+  });
+});
+
+describe('structure queries', () => {
+  it('reports how many cycles a pattern takes to repeat', () => {
+    expect(getMiniPeriod(parseMiniNotation('bd sd'))).toBe(1);
+    expect(getMiniPeriod(parseMiniNotation('<a b c> <d e>'))).toBe(6);
+    expect(getMiniPeriod(parseMiniNotation('<a b>*2'))).toBe(1);
+    expect(getMiniPeriod(parseMiniNotation('[a b c]/2'))).toBe(2);
+    expect(getMiniPeriod(parseMiniNotation('{a b c}%4'))).toBe(3);
+    expect(getMiniPeriod(parseMiniNotation('a | b'))).toBeNull();
+  });
+
+  it('collects every value, including options a choice may skip', () => {
+    expect(collectMiniValues(parseMiniNotation('<[c3,e3] g3> ~ a3 | b3'))).toEqual(['c3', 'e3', 'g3', 'a3', 'b3']);
+  });
+});
@@ -3,7 +3,10 @@ import {
   deriveChordProgression,
   detectRelativeMusicalContextCues,
   deriveScale,
+  normalizeKeyName,
   parseDeterministicMusicalContextChanges,
+  parseStrudelNoteName,
+  parseStrudelScale,
 } from '../musical-context-parser';
 import type { MusicalContext } from '../types';
 
@@ -48,8 +51,8 @@ describe('deriveScale', () => {
     expect(deriveScale('Bb major')).toEqual(['Bb', 'C', 'D', 'Eb', 'F', 'G', 'A']);
   });
 
-  it('Eb minor → uses flats', () => {
-    expect(deriveScale('Eb minor')).toEqual(['Eb', 'F', 'Gb', 'Ab', 'Bb', 'B', 'Db']);
+  it('Eb minor → six flats, spelled with Cb', () => {
+    expect(deriveScale('Eb minor')).toEqual(['Eb', 'F', 'Gb', 'Ab', 'Bb', 'Cb', 'Db']);
   });
 
   it('F# minor → uses sharps', () => {
@@ -68,6 +71,66 @@ describe('deriveScale', () => {
     expect(deriveScale('X major')).toBeNull();
     expect(deriveScale('C')).toBeNull();
     expect(deriveScale('')).toBeNull();
+    expect(deriveScale('C bebop')).toBeNull();
+  });
+
+  it('church modes', () => {
+    expect(deriveScale('D dorian')).toEqual(['D', 'E', 'F', 'G', 'A', 'B', 'C']);
+    expect(deriveScale('E phrygian')).toEqual(['E', 'F', 'G', 'A', 'B', 'C', 'D']);
+    expect(deriveScale('F lydian')).toEqual(['F', 'G', 'A', 'B', 'C', 'D', 'E']);
+    expect(deriveScale('A mixolydian')).toEqual(['A', 'B', 'C#', 'D', 'E', 'F#', 'G']);
+    expect(deriveScale('B locrian')).toEqual(['B', 'C', 'D', 'E', 'F', 'G', 'A']);
+    expect(deriveScale('C ionian')).toEqual(deriveScale('C major'));
+    expect(deriveScale('A aeolian')).toEqual(deriveScale('A minor'));
+  });
+
+  it('harmonic and melodic minor', () => {
+    expect(deriveScale('A harmonic minor')).toEqual(['A', 'B', 'C', 'D', 'E', 'F', 'G#']);
+    expect(deriveScale('C melodic minor')).toEqual(['C', 'D', 'Eb', 'F', 'G', 'A', 'B']);
+  });
+
+  it('pentatonic and blues scales', () => {
+    expect(deriveScale('C major pentatonic')).toEqual(['C', 'D', 'E', 'G', 'A']);
+    expect(deriveScale('A minor pentatonic')).toEqual(['A', 'C', 'D', 'E', 'G']);
+    expect(deriveScale('A blues')).toEqual(['A', 'C', 'D', 'Eb', 'E', 'G']);
+    expect(deriveScale('C major blues')).toEqual(['C', 'D', 'Eb', 'E', 'G', 'A']);
+  });
+
+  it('gives every degree its own letter, avoiding double accidentals', () => {
+    expect(deriveScale('F# major')).toEqual(['F#', 'G#', 'A#', 'B', 'C#', 'D#', 'E#']);
+    expect(deriveScale('C# harmonic minor')).toEqual(['C#', 'D#', 'E', 'F#', 'G#', 'A', 'B#']);
+    // F## would be theoretically correct; Strudel gets G
+    expect(deriveScale('G# harmonic minor')).toEqual(['G#', 'A#', 'B', 'C#', 'D#', 'E', 'G']);
+  });
+});
+
+describe('normalizeKeyName', () => {
+  it('canonicalizes root spelling and mode aliases', () => {
+    expect(normalizeKeyName(' EB major ')).toBe('Eb major');
+    expect(normalizeKeyName('f# MIN')).toBe('F# minor');
+    expect(normalizeKeyName('D  Dorian')).toBe('D dorian');
+    expect(normalizeKeyName('A minor blues')).toBe('A blues');
+    expect(normalizeKeyName('G pentatonic')).toBe('G major pentatonic');
+    expect(normalizeKeyName('H major')).toBeNull();
+    expect(normalizeKeyName('D')).toBeNull();
+  });
+});
+
+describe('Strudel note and scale names', () => {
+  it('reads letter, accidentals, pitch class and octave', () => {
+    expect(parseStrudelNoteName('Eb')).toEqual({
+      letter: 'E', accidentals: 'b', offset: -1, semitonesFromC: 3, pitchClass: 3, octave: null,
+    });
+    expect(parseStrudelNoteName('cs-1')).toMatchObject({ accidentals: '#', pitchClass: 1, octave: -1 });
+    expect(parseStrudelNoteName('cb4')).toMatchObject({ semitonesFromC: -1, pitchClass: 11, octave: 4 });
+    expect(parseStrudelNoteName('Cm7')).toBeNull();
+  });
+
+  it('reads .scale() names into their root and notes', () => {
+    expect(parseStrudelScale('c4:minor:pentatonic')).toEqual({ root: 'c4', notes: ['C', 'Eb', 'F', 'G', 'Bb'] });
+    expect(parseStrudelScale('D dorian')?.notes).toEqual(['D', 'E', 'F', 'G', 'A', 'B', 'C']);
+    expect(parseStrudelScale('E')?.notes).toEqual(['E', 'F#', 'G#', 'A', 'B', 'C#', 'D#']);
+    expect(parseStrudelScale('H:minor')).toBeNull();
   });
 });
 
@@ -126,6 +189,36 @@ describe('parseDeterministicMusicalContextChanges — key', () => {
     const result = parseDeterministicMusicalContextChanges('switch the key to C major', DEFAULT_CTX);
     expect(result?.key).toBe('C major');
   });
+
+  it('"switch to Cmin" (no space before the quality)', () => {
+    expect(parseDeterministicMusicalContextChanges('switch to Cmin', DEFAULT_CTX)?.key).toBe('C minor');
+  });
+
+  it('"switch to D dorian"', () => {
+    expect(parseDeterministicMusicalContextChanges('switch to D dorian', DEFAULT_CTX)).toEqual({
+      key: 'D dorian',
+      scale: ['D', 'E', 'F', 'G', 'A', 'B', 'C'],
+    });
+  });
+
+  it('"A minor pentatonic" (standalone key+scale)', () => {
+    const result = parseDeterministicMusicalContextChanges('Solo over A minor pentatonic', DEFAULT_CTX);
+    expect(result?.key).toBe('A minor pentatonic');
+    expect(result?.scale).toEqual(['A', 'C', 'D', 'E', 'G']);
+  });
+
+  it('"go phrygian" keeps the current root', () => {
+    expect(parseDeterministicMusicalContextChanges('go phrygian', DEFAULT_CTX)).toEqual({
+      key: 'C phrygian',
+      scale: ['C', 'Db', 'Eb', 'F', 'G', 'Ab', 'Bb'],
+    });
+    expect(parseDeterministicMusicalContextChanges('switch to dorian', DEFAULT_CTX)?.key).toBe('C dorian');
+    expect(parseDeterministicMusicalContextChanges('try lydian mode', DEFAULT_CTX)?.key).toBe('C lydian');
+  });
+
+  it('does not read the article "a" as a root', () => {
+    expect(parseDeterministicMusicalContextChanges('play a blues shuffle', DEFAULT_CTX)).toBeNull();
+  });
 });
 
 // ─── BPM Parsing ────────────────────────────────────────────────
@@ -250,6 +343,35 @@ describe('parseDeterministicMusicalContextChanges — combined', () => {
 
 });
 
+// ─── Time Signature ─────────────────────────────────────────────
+
+describe('parseDeterministicMusicalContextChanges — time signature', () => {
+  it('"switch to 7/8"', () => {
+    expect(parseDeterministicMusicalContextChanges('switch to 7/8', DEFAULT_CTX)).toEqual({ timeSignature: '7/8' });
+  });
+
+  it('"let\'s go into 5/4" and "6/8 feel"', () => {
+    expect(parseDeterministicMusicalContextChanges("let's go into 5/4", DEFAULT_CTX)?.timeSignature).toBe('5/4');
+    expect(parseDeterministicMusicalContextChanges('give it a 6/8 feel', DEFAULT_CTX)?.timeSignature).toBe('6/8');
+  });
+
+  it('"play it as a waltz" → 3/4', () => {
+    expect(parseDeterministicMusicalContextChanges('play it as a waltz', DEFAULT_CTX)?.timeSignature).toBe('3/4');
+  });
+
+  it('"back to four" → 4/4', () => {
+    const ctx = { ...DEFAULT_CTX, timeSignature: '7/8' };
+    expect(parseDeterministicMusicalContextChanges('ok, back to four', ctx)?.timeSignature).toBe('4/4');
+    expect(parseDeterministicMusicalContextChanges('back to 4/4 please', ctx)?.timeSignature).toBe('4/4');
+  });
+
+  it('ignores the meter already in play, note values and oversized bars', () => {
+    expect(parseDeterministicMusicalContextChanges('stay in 4/4', DEFAULT_CTX)).toBeNull();
+    expect(parseDeterministicMusicalContextChanges('hats in 1/16 notes', DEFAULT_CTX)).toBeNull();
+    expect(parseDeterministicMusicalContextChanges('switch to 32/8', DEFAULT_CTX)).toBeNull();
+  });
+});
+
 // ─── No-Match Cases ─────────────────────────────────────────────
 
 describe('parseDeterministicMusicalContextChanges — no match', () => {
@@ -425,6 +547,22 @@ describe('deriveChordProgression', () => {
     expect(deriveChordProgression('Eb major')).toEqual(['Eb', 'Cm', 'Ab', 'Bb']);
   });
 
+  it('leans on each mode\'s characteristic chord', () => {
+    expect(deriveChordProgression('D dorian')).toEqual(['Dm', 'G', 'F', 'C']);
+    expect(deriveChordProgression('E phrygian')).toEqual(['Em', 'F', 'G', 'Dm']);
+    expect(deriveChordProgression('F lydian')).toEqual(['F', 'G', 'Dm', 'C']);
+    expect(deriveChordProgression('A mixolydian')).toEqual(['A', 'G', 'D', 'A']);
+    expect(deriveChordProgression('B locrian')).toEqual(['Bdim', 'C', 'G', 'F']);
+    expect(deriveChordProgression('A harmonic minor')).toEqual(['Am', 'F', 'Dm', 'E']);
+    expect(deriveChordProgression('C melodic minor')).toEqual(['Cm', 'Dm', 'F', 'G']);
+  });
+
+  it('uses parent triads for pentatonics and dominant sevenths for blues', () => {
+    expect(deriveChordProgression('A minor pentatonic')).toEqual(['Am', 'F', 'C', 'G']);
+    expect(deriveChordProgression('C major pentatonic')).toEqual(['C', 'Am', 'F', 'G']);
+    expect(deriveChordProgression('A blues')).toEqual(['A7', 'D7', 'A7', 'E7']);
+  });
+
   it('returns null for invalid key strings', () => {
     expect(deriveChordProgression('H major')).toBeNull();
     expect(deriveChordProgression('not a key')).toBeNull();
@@ -0,0 +1,123 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import {
+  diffPatterns,
+  formatBandmateChangesForPrompt,
+  formatPatternChanges,
+} from '../pattern-diff';
+import type { AgentThoughtPayload } from '../types';
+import { JAM_GOVERNANCE } from '../jam-governance-constants';
+import { AgentProcessManager } from '../agent-process-manager';
+import { ScriptedJamAgentRunner } from '../scripted-jam-agent-runner';
+
+describe('diffPatterns', () => {
+  it('reports effects turned, with old and new values', () => {
+    expect(diffPatterns('s("bd sd").lpf(800).gain(0.8)', 's("bd sd").lpf(1200).gain(0.8).room(0.3)')).toEqual([
+      { kind: 'effect', layer: 'bd sd', effect: 'lpf', from: 800, to: 1200 },
+      { kind: 'effect', layer: 'bd sd', effect: 'room', to: 0.3 },
+    ]);
+  });
+
+  it('pairs stack layers by content, so reordering is not a change', () => {
+    const before = 'stack(s("bd ~ bd ~"), s("hh*8").gain(0.5))';
+    expect(diffPatterns(before, 'stack(s("hh*8").gain(0.5), s("bd ~ bd ~"))')).toEqual([{ kind: 'rewritten' }]);
+    expect(diffPatterns(before, 'stack(s("bd ~ bd cp"), s("hh*8").gain(0.5), s("~ oh"))')).toEqual([
+      { kind: 'content', layer: 'bd', added: ['cp'], removed: [] },
+      { kind: 'layer_added', layer: 'oh' },
+    ]);
+    expect(diffPatterns(before, 's("bd ~ bd ~")')).toEqual([{ kind: 'layer_removed', layer: 'hh' }]);
+  });
+
+  it('reports new notes, new rhythms and modifiers', () => {
+    expect(diffPatterns('note("c2 eb2")', 'note("c2 g2").sometimes(x => x.fast(2))')).toEqual([
+      { kind: 'content', layer: 'c2 eb2', added: ['g2'], removed: ['eb2'] },
+      { kind: 'modifier_added', layer: 'c2 eb2', modifier: 'sometimes' },
+    ]);
+    expect(diffPatterns('s("bd ~ bd ~")', 's("bd bd bd bd")')).toEqual([
+      { kind: 'rhythm', layer: 'bd', from: 2, to: 4 },
+    ]);
+  });
+
+  it('covers entering, leaving, holding and unparseable code', () => {
+    expect(diffPatterns('silence', 'stack(s("bd sd"), note("c2"))')).toEqual([
+      { kind: 'started', layers: ['bd sd', 'c2'] },
+    ]);
+    expect(diffPatterns('s("bd sd")', 'silence')).toEqual([{ kind: 'stopped' }]);
+    expect(diffPatterns('s("bd sd")', 'no_change')).toEqual([]);
+    expect(diffPatterns('s("bd sd")', 's("bd sd")')).toEqual([]);
+    expect(diffPatterns('s("bd sd")', 'not a pattern(')).toEqual([{ kind: 'rewritten' }]);
+  });
+});
+
+describe('formatPatternChanges', () => {
+  it('renders compact phrases and folds the overflow', () => {
+    expect(formatPatternChanges([
+      { kind: 'effect', layer: 'hh', effect: 'lpf', from: 800, to: 1200 },
+      { kind: 'effect', layer: 'hh', effect: 'room', from: 0.4 },
+      { kind: 'content', layer: 'bd sd', added: ['cp'], removed: ['sd'] },
+      { kind: 'modifier_added', layer: 'hh', modifier: 'often' },
+    ])).toEqual(['hh: lpf 800→1200', 'hh: −room', 'bd sd: +cp −sd', 'hh: +often']);
+
+    const many = Array.from({ length: 8 }, (_, index) => ({ kind: 'layer_added' as const, layer: `l${index}` }));
+    expect(formatPatternChanges(many).slice(-2)).toEqual(['added layer l5', '+2 more']);
+  });
+
+  it('builds the bandmate section only when someone changed', () => {
+    expect(formatBandmateChangesForPrompt([{ agentKey: 'drums', changes: [] }])).toEqual([]);
+    expect(formatBandmateChangesForPrompt([
+      { agentKey: 'drums', changes: [{ kind: 'layer_added', layer: 'oh' }, { kind: 'stopped' }] },
+    ])).toEqual([
+      'BANDMATE CHANGES (last round):',
+      '- 🥁 BEAT (drums): added layer oh; went silent',
+    ]);
+  });
+});
+
+describe('AgentProcessManager pattern changes', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('attaches changes to agent_thought and tells bandmates on their next turn', async () => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const runner = new ScriptedJamAgentRunner({ workingDir: process.cwd() });
+    const runScriptedTurn = runner.runTurn.bind(runner);
+    const bassTickPrompts: string[] = [];
+    vi.spyOn(runner, 'runTurn').mockImplementation(async (request) => {
+      if (request.agentKey === 'bass' && request.prompt.includes('AUTO-TICK')) bassTickPrompts.push(request.prompt);
+      const output = await runScriptedTurn(request);
+      if (request.agentKey !== 'drums') return output;
+      const pattern = request.prompt.includes('AUTO-TICK')
+        ? 'stack(s("bd ~ bd ~").lpf(1200), s("hh*8"))'
+        : 's("bd ~ bd ~").lpf(800)';
+      return { ...output, text: JSON.stringify({ ...JSON.parse(output.text), pattern }) };
+    });
+    const broadcast = vi.fn();
+    const manager = new AgentProcessManager({ workingDir: process.cwd(), broadcast, runner });
+
+    try {
+      await manager.start(['drums', 'bass']);
+      await vi.advanceTimersByTimeAsync(JAM_GOVERNANCE.AUTO_TICK_INTERVAL_MS + 10);
+      await vi.advanceTimersByTimeAsync(JAM_GOVERNANCE.AUTO_TICK_INTERVAL_MS + 10);
+
+      const drumThoughts = broadcast.mock.calls
+        .map(([message]) => message)
+        .filter((message) => message.type === 'agent_thought' && message.payload.agent === 'drums')
+        .map((message) => message.payload as AgentThoughtPayload);
+      expect(drumThoughts[0].changes).toEqual([{ kind: 'started', layers: ['bd'] }]);
+      expect(drumThoughts[1].changes).toEqual([
+        { kind: 'effect', layer: 'bd', effect: 'lpf', from: 800, to: 1200 },
+        { kind: 'layer_added', layer: 'hh' },
+      ]);
+      expect(drumThoughts[2].changes).toEqual([]);
+
+      expect(bassTickPrompts).toHaveLength(2);
+      expect(bassTickPrompts[0]).toContain('- 🥁 BEAT (drums): came in with bd');
+      expect(bassTickPrompts[1]).toContain('- 🥁 BEAT (drums): bd: lpf 800→1200; added layer hh');
+    } finally {
+      await manager.stop();
+    }
+  });
+});
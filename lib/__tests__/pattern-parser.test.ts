@@ -4,6 +4,9 @@ import {
   summarizePattern,
   formatBandStateLine,
   validatePatternForJam,
+  describePatternValidationIssue,
+  formatPatternValidationIssuesForPrompt,
+  findMeterMismatch,
 } from '../pattern-parser';
 
 // ─── Test corpus from .codex/agents/*.md ─────────────────────────────
@@ -27,6 +30,7 @@ describe('parsePattern', () => {
     expect(result!.layers[0].source).toBe('note');
     expect(result!.layers[0].content).toEqual(['c1', 'eb1', 'g1']);
     expect(result!.layers[0].effects.s).toBe('sawtooth');
+    expect(result!.layers[0].mini).toBe('c1 ~ eb1 g1');
     expect(result!.layers[0].effects.lpf).toBe(600);
     expect(result!.layers[0].effects.gain).toBe(0.6);
   });
@@ -94,6 +98,35 @@ describe('parsePattern', () => {
   it('returns null for malformed code', () => {
     expect(parsePattern('this is not valid((')).toBeNull();
   });
+
+  it('reads leaf values from the mini-notation AST', () => {
+    expect(parsePattern('s("<bd sd>*2 hh(3,8) cp:2")')!.layers[0].content).toEqual(['bd', 'sd', 'hh', 'cp:2']);
+    expect(parsePattern('note("0 2 4").scale("C:minor")')!.layers[0].content).toEqual(['0', '2', '4']);
+  });
+
+  it('measures events per cycle, syncopation and rest ratio per layer', () => {
+    const result = parsePattern('stack(s("bd [~ bd] sd [bd ~]"), s("hh*4"), s("bd ~ ~ bd ~ ~ bd ~"))');
+    expect(result!.layers.map((layer) => layer.rhythm)).toEqual([
+      { eventsPerCycle: 4, syncopation: 0, restRatio: 0.25 },
+      { eventsPerCycle: 4, syncopation: 0, restRatio: 0 },
+      { eventsPerCycle: 3, syncopation: 0.33, restRatio: 0.63 },
+    ]);
+  });
+
+  it('averages alternation and applies layer timing calls', () => {
+    expect(parsePattern('note("<[c3,e3,g3] ~>").s("piano")')!.layers[0].rhythm).toEqual({
+      eventsPerCycle: 0.5, syncopation: 0, restRatio: 0.5,
+    });
+    expect(parsePattern('note("c1 eb1 f1 g1").fast(2)')!.layers[0].rhythm?.eventsPerCycle).toBe(8);
+    expect(parsePattern('s("hh").euclid(3,8)')!.layers[0].rhythm?.eventsPerCycle).toBe(3);
+    expect(parsePattern('s("hh*8").degradeBy(0.5)')!.layers[0].rhythm?.eventsPerCycle).toBe(4);
+  });
+
+  it('measures syncopation against the meter', () => {
+    // The second hit is beat 2 of 4/4 but falls between the two pulses of 6/8
+    expect(parsePattern('s("bd bd ~ ~")', '4/4')!.layers[0].rhythm?.syncopation).toBe(0);
+    expect(parsePattern('s("bd bd ~ ~")', '6/8')!.layers[0].rhythm?.syncopation).toBe(0.5);
+  });
 });
 
 describe('validatePatternForJam', () => {
@@ -132,10 +165,80 @@ describe('validatePatternForJam', () => {
     expect(result.valid).toBe(false);
     expect(result.reason).toContain('random');
   });
+
+  it('reports every issue with a code, a span and a suggested fix', () => {
+    const code = 's("bd ~ sd").lpff(800).gain(0.8).reverb(0.3)';
+    const result = validatePatternForJam(code);
+    expect(result.valid).toBe(false);
+    expect(result.code).toBe(code);
+    expect(result.issues).toEqual([
+      { code: 'unknown_method', message: 'unsupported method ".lpff()"', start: 13, end: 17, suggestion: 'use ".lpf()"' },
+      { code: 'unknown_method', message: 'unsupported method ".reverb()"', start: 33, end: 39, suggestion: 'use ".room()"' },
+    ]);
+    expect(result.reason).toBe('unsupported method ".lpff()"');
+  });
+
+  it('locates bad roots and globals, then every mini delimiter problem in scan order', () => {
+    const result = validatePatternForJam('stak(s("bd ] sd"), note("<c3 [e3 g3>").lpf(Math.random()))');
+    expect(result.issues?.map((issue) => [issue.code, issue.start, issue.end, issue.suggestion])).toEqual([
+      ['invalid_root_call', 0, 4, 'use "stack()"'],
+      ['disallowed_construct', 43, 54, 'use a Strudel signal such as rand or sine'],
+      ['unbalanced_delimiter', 11, 12, 'remove "]"'],
+      ['unbalanced_delimiter', 35, 36, 'replace ">" with "]"'],
+      ['unbalanced_delimiter', 25, 26, 'close it with ">"'],
+    ]);
+    expect(result.issues?.[1].message).toBe('disallowed runtime global "Math.random"');
+  });
+
+  it('points syntax errors at the failing position', () => {
+    const result = validatePatternForJam('s("bd sd").gain(0.8');
+    expect(result.issues).toHaveLength(1);
+    expect(result.issues?.[0]).toMatchObject({ code: 'syntax_error', start: 19 });
+    expect(result.reason).toContain('not a valid expression');
+  });
+});
+
+describe('formatPatternValidationIssuesForPrompt', () => {
+  it('lists each issue with its location, excerpt and fix', () => {
+    const code = 's("bd").lowpass(900)';
+    const { issues = [] } = validatePatternForJam(code);
+    expect(describePatternValidationIssue(code, issues[0])).toBe('unsupported method ".lowpass()" at col 9 — use ".lpf()"');
+    expect(formatPatternValidationIssuesForPrompt(code, issues)).toEqual([
+      'PATTERN PROBLEMS:',
+      '- unsupported method ".lowpass()" at col 9 — use ".lpf()" (at `lowpass`)',
+    ]);
+    expect(formatPatternValidationIssuesForPrompt(code, [])).toEqual([]);
+  });
 });
 
 // ─── summarizePattern ─────────────────────────────────────────────
 
+describe('findMeterMismatch', () => {
+  it('counts top-level steps, treating groups as one step', () => {
+    expect(findMeterMismatch('s("bd [~ bd] sd [bd ~]")', '4/4')).toBeNull();
+    expect(findMeterMismatch('s("bd [~ bd] sd [bd ~]")', '7/8')).toBe('s("bd [~ bd] sd [bd ~]") has 4 steps per cycle');
+    expect(findMeterMismatch('s("bd ~ ~ sd ~ ~ ~")', '7/8')).toBeNull();
+  });
+
+  it('reads ! repeats and @ weights', () => {
+    expect(findMeterMismatch('note("c2!3 eb2@2 g2 ~").s("sawtooth")', '7/8')).toBeNull();
+    expect(findMeterMismatch('note("c2@3 g2")', '3/4')).toBe('note("c2@3 g2") has 4 steps per cycle');
+  });
+
+  it('checks every layer of a stack', () => {
+    expect(findMeterMismatch('stack(s("bd ~ ~"), s("hh hh hh hh hh"))', '3/4')).toBe(
+      's("hh hh hh hh hh") has 5 steps per cycle'
+    );
+  });
+
+  it('skips layers it cannot count', () => {
+    expect(findMeterMismatch('s("bd sd bd sd bd").fast(2)', '4/4')).toBeNull();
+    expect(findMeterMismatch('s("{bd sd hh}%4")', '3/4')).toBeNull();
+    expect(findMeterMismatch('s("bd sd, hh hh hh hh hh")', '4/4')).toBeNull();
+    expect(findMeterMismatch('silence', '7/8')).toBeNull();
+  });
+});
+
 describe('summarizePattern', () => {
   // Edge cases
   it('returns null for silence', () => {
@@ -340,6 +443,11 @@ describe('summarizePattern', () => {
       expect(line).toContain('piano');
     });
 
+    it('includes rhythm figures measured in the given meter', () => {
+      expect(formatBandStateLine('bass', 'note("c1 ~ eb1 g1").s("sawtooth")', '4/4'))
+        .toBe('🎸 GROOVE (bass) [c1 eb1 g1 (sawtooth), 3 ev/cycle, sync 0%, rest 25%]: note("c1 ~ eb1 g1").s("sawtooth")');
+    });
+
     it('omits summary brackets for silence', () => {
       const line = formatBandStateLine('drums', 'silence');
       expect(line).toBe('🥁 BEAT (drums): silence');
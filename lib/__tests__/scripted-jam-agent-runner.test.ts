@@ -0,0 +1,186 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  DEFAULT_JAM_AGENT_SCRIPT_PATH,
+  parseJamAgentScript,
+  ScriptedJamAgentRunner,
+} from '../scripted-jam-agent-runner';
+import { AgentProcessManager } from '../agent-process-manager';
+import { validatePatternForJam } from '../pattern-parser';
+import type { ExecutePayload } from '../types';
+
+const workingDir = process.cwd();
+
+function turnRequest(agentKey: string, threadId: string | null = null) {
+  return { agentKey, prompt: 'manager turn', threadId, model: 'scripted' };
+}
+
+describe('ScriptedJamAgentRunner', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('replays canned responses per agent in order and wraps around', async () => {
+    const runner = new ScriptedJamAgentRunner({
+      workingDir,
+      script: {
+        agents: {
+          drums: [
+            { pattern: 's("bd sd")', thoughts: 'one' },
+            { pattern: 'no_change', thoughts: 'two' },
+          ],
+        },
+      },
+    });
+    await runner.prepare();
+
+    const texts: string[] = [];
+    for (let i = 0; i < 3; i++) {
+      texts.push((await runner.runTurn(turnRequest('drums'))).text);
+    }
+
+    expect(texts.map((text) => JSON.parse(text).thoughts)).toEqual(['one', 'two', 'one']);
+  });
+
+  it('replays string entries verbatim so malformed output can be scripted', async () => {
+    const runner = new ScriptedJamAgentRunner({
+      workingDir,
+      script: { agents: { bass: ['not json at all'] } },
+    });
+    await runner.prepare();
+
+    const output = await runner.runTurn(turnRequest('bass'));
+    expect(output.text).toBe('not json at all');
+  });
+
+  it('assigns a stable thread id so later turns resume', async () => {
+    const runner = new ScriptedJamAgentRunner({
+      workingDir,
+      script: { agents: { melody: [{ pattern: 'silence', thoughts: 'rest' }] } },
+    });
+    await runner.prepare();
+
+    const first = await runner.runTurn(turnRequest('melody'));
+    expect(first.threadId).toBe('scripted-melody');
+
+    const second = await runner.runTurn(turnRequest('melody', first.threadId));
+    expect(second.threadId).toBe('scripted-melody');
+  });
+
+  it('returns empty text for agents without scripted turns', async () => {
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const runner = new ScriptedJamAgentRunner({ workingDir, script: { agents: {} } });
+    await runner.prepare();
+
+    expect((await runner.runTurn(turnRequest('chords'))).text).toBe('');
+    warnSpy.mockRestore();
+  });
+
+  it('honors turn_delay_ms and releases pending turns on cancel', async () => {
+    vi.useFakeTimers();
+    const runner = new ScriptedJamAgentRunner({
+      workingDir,
+      script: {
+        turn_delay_ms: 500,
+        agents: { drums: [{ pattern: 's("bd")', thoughts: 'late' }] },
+      },
+    });
+    await runner.prepare();
+
+    let settled = false;
+    const turn = runner.runTurn(turnRequest('drums')).then((output) => {
+      settled = true;
+      return output;
+    });
+    await vi.advanceTimersByTimeAsync(499);
+    expect(settled).toBe(false);
+
+    await runner.cancelTurn('drums');
+    expect(JSON.parse((await turn).text).thoughts).toBe('late');
+  });
+
+  it('fails prepare with a clear error when the script file is missing', async () => {
+    const runner = new ScriptedJamAgentRunner({
+      workingDir,
+      scriptPath: 'config/jam-agent-scripts/does-not-exist.json',
+    });
+
+    await expect(runner.prepare()).rejects.toThrow('Jam agent script not found');
+  });
+});
+
+describe('parseJamAgentScript', () => {
+  it('rejects scripts without an agents object', () => {
+    expect(() => parseJamAgentScript({}, 'test.json')).toThrow('missing an "agents" object');
+  });
+
+  it('rejects non-array agent entries', () => {
+    expect(() => parseJamAgentScript({ agents: { drums: {} } }, 'test.json'))
+      .toThrow('"agents.drums" must be an array');
+  });
+
+  it('rejects entries that are neither objects nor strings', () => {
+    expect(() => parseJamAgentScript({ agents: { drums: [42] } }, 'test.json'))
+      .toThrow('"agents.drums[0]" must be an object or string');
+  });
+});
+
+describe('default jam agent script', () => {
+  const script = parseJamAgentScript(
+    JSON.parse(fs.readFileSync(path.join(workingDir, DEFAULT_JAM_AGENT_SCRIPT_PATH), 'utf-8')),
+    DEFAULT_JAM_AGENT_SCRIPT_PATH
+  );
+
+  it('covers every built-in agent', () => {
+    expect(Object.keys(script.agents).sort()).toEqual(['bass', 'chords', 'drums', 'melody']);
+  });
+
+  it('only contains patterns that pass jam validation', () => {
+    for (const entries of Object.values(script.agents)) {
+      for (const entry of entries) {
+        if (typeof entry === 'string') continue;
+        const pattern = String(entry.pattern);
+        if (pattern === 'no_change' || pattern === 'silence') continue;
+        expect(validatePatternForJam(pattern), pattern).toEqual({ valid: true });
+      }
+    }
+  });
+});
+
+describe('AgentProcessManager with the scripted runner', () => {
+  it('runs a full jam start and directive offline', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    // The default script is written in C minor; start on the first preset (Dark Ambient, C minor)
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    const broadcast = vi.fn();
+    const manager = new AgentProcessManager({
+      workingDir,
+      broadcast,
+      runner: new ScriptedJamAgentRunner({ workingDir }),
+    });
+
+    try {
+      await manager.start(['drums', 'bass']);
+      await manager.handleDirective('keep it moving', undefined, ['drums', 'bass']);
+
+      const executes = broadcast.mock.calls
+        .map(([msg]) => msg as { type: string; payload: ExecutePayload })
+        .filter((msg) => msg.type === 'execute')
+        .map((msg) => msg.payload);
+
+      expect(executes).toHaveLength(2);
+      expect(executes[0].code).toContain('stack(');
+      expect(executes[1].code).toContain('eb2');
+
+      const snapshot = manager.getJamStateSnapshot();
+      expect(snapshot.agents.drums.thoughts).toBe(
+        'Adding a pickup kick and an open hat at the end of the bar.'
+      );
+      expect(snapshot.agents.bass.status).toBe('playing');
+    } finally {
+      await manager.stop();
+      vi.restoreAllMocks();
+    }
+  });
+});
@@ -1,9 +1,8 @@
-import { spawn, ChildProcess } from 'child_process';
 import { randomUUID } from 'crypto';
-import * as readline from 'readline';
 import * as fs from 'fs';
 import * as path from 'path';
 import type {
+  AgentHarmonyReport,
   AgentState,
   AudioFeatureSnapshot,
   AudioContextSummary,
@@ -11,12 +10,16 @@ import type {
   AgentContextWindow,
   AgentThreadCompactionEvent,
   AgentTurnOutcome,
+  AutoTickPreemption,
+  AutoTickSchedule,
   JamStateDiagnostics,
   MusicalContext,
   JamState,
   AutoTickTiming,
   AgentThoughtPayload,
+  PatternChange,
   AgentCommentaryPayload,
+  AgentRequestPayload,
   AutoTickTimingPayload,
   AutoTickFiredPayload,
   AgentStatusPayload,
@@ -24,7 +27,17 @@ import type {
   StructuredMusicalDecision,
   DecisionConfidence,
   ArrangementIntent,
+  ArrangementSection,
   JamTurnSource,
+  AgentMixChannel,
+  AgentPatternVersion,
+  DirectiveQueuePayload,
+  DirectiveErrorPayload,
+  HarmonyProposal,
+  JamBudgetState,
+  JamSessionBudget,
+  JamUsageSnapshot,
+  JamUsageTotals,
 } from './types';
 import { AGENT_META } from './types';
 import {
@@ -32,11 +45,15 @@ import {
   summarizePattern,
   normalizeStrudelPatternForJam,
   validatePatternForJam,
+  findMeterMismatch,
+  getPatternEventsPerCycle,
+  formatPatternValidationIssuesForPrompt,
 } from './pattern-parser';
 import {
   deriveChordProgression,
   deriveScale,
   detectRelativeMusicalContextCues,
+  normalizeKeyName,
   parseDeterministicMusicalContextChanges,
 } from './musical-context-parser';
 import {
@@ -45,34 +62,90 @@ import {
   randomMusicalContext,
   UNCONFIGURED_MUSICAL_CONTEXT,
 } from './musical-context-presets';
-import { map_codex_event_to_runtime_events } from './codex-process';
-import {
-  assert_codex_runtime_ready,
-  build_codex_overrides,
-  CODEX_JAM_PROFILE,
-  load_project_codex_config,
-} from './codex-runtime-checks';
+import type { JamAgentRunner } from './jam-agent-runner';
+import { createJamAgentRunner } from './jam-agent-runner-factory';
 import { SHARED_JAM_POLICY_PROMPT } from './jam-agent-shared-policy';
-import { buildGenreEnergySection } from './genre-energy-guidance';
+import {
+  buildGenreEnergySection,
+  formatDensityNudgeForPrompt,
+  getGenreDensityRange,
+} from './genre-energy-guidance';
 import { JAM_GOVERNANCE } from './jam-governance-constants';
 import {
+  buildAgentRequestManagerContext,
   buildAutoTickManagerContext,
   buildDirectiveManagerContext,
   buildJamStartManagerContext,
+  type PatternRevertNote,
 } from './jam-manager-context-templates';
 import { deriveAudioContextSummary } from './audio-context';
+import { applyTempoToComposedPattern, deriveCyclesPerMinute } from './jam-tempo';
+import { ArrangementClock, formatArrangementSectionLabel } from './jam-arrangement';
+import { formatBandRosterForPrompt, isAgentRosterKey } from './jam-roster';
+import {
+  applyMixToLayer,
+  applyMixUpdate,
+  createMixChannel,
+  isMixChannelAudible,
+  normalizeMixerState,
+  parseMixerDirective,
+  type AgentMixUpdate,
+  type MixerDirective,
+} from './jam-mixer';
+import {
+  appendPatternVersion,
+  normalizePatternHistory,
+  parsePatternRevertDirective,
+  resolvePatternRevert,
+} from './jam-pattern-history';
+import { diffPatterns, formatBandmateChangesForPrompt } from './pattern-diff';
+import { syncAgentRoster } from './jam-roster-loader';
+import {
+  AgentRequestQueue,
+  normalizeAgentRequests,
+  type AgentBandRequest,
+  type QueuedAgentRequest,
+} from './jam-agent-requests';
+import { DirectiveQueue, formatPendingDirectiveText } from './jam-directive-queue';
+import {
+  formatHarmonyProposalValue,
+  formatHarmonyProposalsForPrompt,
+  HarmonyProposalBoard,
+  normalizeHarmonyProposalVotes,
+  type HarmonyProposalVote,
+} from './jam-harmony-proposals';
+import { formatMeterNoteForPrompt, type JamMeterNote } from './jam-meter';
+import { analyzePatternHarmony, directiveInvitesOutsideNotes } from './jam-harmony-check';
+import {
+  DEFAULT_AUTO_TICK_SCHEDULE,
+  formatAutoTickSchedule,
+  getAutoTickIntervalMs,
+  isTempoRelativeSchedule,
+  normalizeAutoTickSchedule,
+  pickAutoTickTargets,
+} from './jam-auto-tick-schedule';
+import {
+  addUsageTotals,
+  buildUsageSnapshot,
+  createUsageTotals,
+  getBudgetState,
+  getBudgetUsedFraction,
+  getTurnUsage,
+  NO_SESSION_BUDGET,
+  normalizeSessionBudget,
+  normalizeUsageTotals,
+  type JamTokenPricing,
+} from './jam-usage';
+import type { RuntimeTurnMetrics } from './runtime-process';
+import {
+  JAM_SESSION_SNAPSHOT_VERSION,
+  type JamSessionSnapshot,
+  type JamSessionSnapshotAgent,
+} from './jam-session-snapshot';
 
 // Callback type for broadcasting messages to browser clients
 export type BroadcastFn = (message: { type: string; payload: unknown }) => void;
 
-// Agent key → agent persona filename (without .md)
-const AGENT_KEY_TO_FILE: Record<string, string> = {
-  drums: 'drummer',
-  bass: 'bassist',
-  melody: 'melody',
-  chords: 'chords',
-};
-
 // Canonical Codex path for jam agent persona prompts.
 const AGENT_PROMPT_DIR_CANDIDATES = [
   ['.codex', 'agents'],
@@ -84,6 +157,8 @@ interface AgentResponse {
   thoughts: string;
   commentary?: string;
   decision?: StructuredMusicalDecision;
+  requests?: AgentBandRequest[];
+  votes?: HarmonyProposalVote[];
 }
 
 interface AgentCommentaryRuntimeState {
@@ -93,20 +168,22 @@ interface AgentCommentaryRuntimeState {
 
 interface AgentTurnContext {
   directiveTargetAgent?: string;
+  directive?: string;     // boss directive text, recorded in pattern history
+  requestDepth?: number;  // depth of the band requests this turn answers; 0 otherwise
 }
 
 const AUDIO_FEEDBACK_TTL_MS = 12_000;
+// Section-mode deadlines closer than this to the broadcast one are not re-sent
+const AUTO_TICK_RESYNC_TOLERANCE_MS = 250;
 const CONTEXT_INSPECTOR_HISTORY_LIMIT = 5;
 const CONTEXT_INSPECTOR_RAW_PROMPT_CHAR_LIMIT = 12_000;
 
-// Per-agent Codex-backed session handle
+// Per-agent session handle; turns execute through the configured JamAgentRunner
 interface AgentProcess {
   key: string;
   systemPrompt: string;
   model: string;
   threadId: string | null;
-  activeTurn: ChildProcess | null;
-  activeTurnRl: readline.Interface | null;
 }
 
 interface AgentTurnResult {
@@ -116,6 +193,14 @@ interface AgentTurnResult {
   threadIdAfter: string | null;
 }
 
+// Auto-tick round whose agent turns are still running; directives abort them
+interface InFlightAutoTick {
+  round: number;
+  pending: Set<string>;
+  preempted: Set<string>;
+  directive?: string;
+}
+
 interface AgentContextTurnRecordInput {
   key: string;
   roundNumber: number;
@@ -135,6 +220,7 @@ interface AgentContextTurnRecordInput {
   compactionAppliedThisTurn: boolean;
   turnResult: AgentTurnResult | null;
   acceptedResponse: AgentResponse | null;
+  preemptedBy?: string;
 }
 
 interface DirectiveAttemptSnapshot {
@@ -143,9 +229,23 @@ interface DirectiveAttemptSnapshot {
   fullPrompt: string;
 }
 
+// One-shot notes taken for a directive turn; a repair retry repeats them
+interface DirectiveTurnNotes {
+  revert?: PatternRevertNote;
+  meterNote?: JamMeterNote;
+}
+
 interface AgentProcessManagerOptions {
   workingDir: string;
   broadcast: BroadcastFn;
+  // Defaults to the env-selected runner (Codex unless JAM_AGENT_RUNNER=scripted).
+  runner?: JamAgentRunner;
+  // Called with a resumable snapshot after jam start/resume and each completed turn.
+  onSnapshot?: (snapshot: JamSessionSnapshot) => void;
+  // Budget each new session starts with; no limit when omitted.
+  budget?: JamSessionBudget;
+  // Prices for estimating cost when the runner reports tokens but no cost.
+  tokenPricing?: JamTokenPricing | null;
 }
 
 export type JamStartMode = 'autonomous_opening' | 'staged_silent';
@@ -160,10 +260,6 @@ interface HandleDirectiveOptions {
   routingScope?: DirectiveRoutingScope;
 }
 
-// Codex CLI `exec` no longer accepts legacy `--tools/--strict-mcp-config` flags.
-// Jam agents remain isolated via the dedicated `jam_agent` profile (MCP disabled)
-// plus prompt-level policy; keep this empty for CLI compatibility.
-const JAM_TOOLLESS_ARGS = [] as const;
 // Deterministic schema canonicalization only: normalize common phrasing/spelling
 // variants into the fixed arrangement enum without prescribing musical content.
 const ARRANGEMENT_INTENT_MAP: Record<string, ArrangementIntent> = {
@@ -189,6 +285,7 @@ const TARGETED_DIRECTIVE_EMPTY_COMMENTARY = 'Locking in your cue.';
 /**
  * Manages per-agent Codex-backed sessions for jam mode.
  * Each agent keeps an isolated, resumable Codex session (`thread_id`) across turns.
+ * Turn execution is delegated to a JamAgentRunner (Codex by default, scripted offline).
  * Directives are routed deterministically (no LLM inference for routing).
  */
 export class AgentProcessManager {
@@ -203,6 +300,14 @@ export class AgentProcessManager {
   private activeAgents: string[] = [];
   private activatedAgents: string[] = [];
   private mutedAgents = new Set<string>();
+  private mixer: Record<string, AgentMixChannel> = {};
+  private agentPatternHistory: Record<string, AgentPatternVersion[]> = {};
+  private agentPendingRevertNotes: Record<string, PatternRevertNote> = {};
+  private agentPendingMeterNotes: Record<string, JamMeterNote> = {};
+  // Round of each agent's last density nudge, for the cooldown
+  private agentDensityNudgeRound: Record<string, number> = {};
+  // Each agent's latest pattern change, for its bandmates' next prompts
+  private agentLastPatternChanges: Record<string, { round: number; changes: PatternChange[] }> = {};
   private broadcast: BroadcastFn;
   private workingDir: string;
   private stopped = false;
@@ -210,12 +315,18 @@ export class AgentProcessManager {
   private tickTimer: NodeJS.Timeout | null = null;
   private tickScheduled = false;
   private nextAutoTickAtMs: number | null = null;
-  private cacheTtlWarnedAgents = new Set<string>();
+  private autoTickArmed = false;
+  private autoTickArmedCyclesPerMinute: number | null = null;
+  private autoTickSchedule: AutoTickSchedule = { ...DEFAULT_AUTO_TICK_SCHEDULE };
+  private autoTickRoundRobinCursor = 0;
+  private arrangement: ArrangementClock | null = null;
+  private arrangementTimer: NodeJS.Timeout | null = null;
   private turnInProgress: Promise<void> = Promise.resolve();
   private turnCounter = 0;
   private strudelReference: string = '';
   private sessionId = 'direct-0';
-  private codexConfigOverrides: string[] = [];
+  private runner: JamAgentRunner;
+  private onSnapshot?: (snapshot: JamSessionSnapshot) => void;
   private codexJamDefaultModel = 'gpt-5-codex-mini';
   private jamStartMode: JamStartMode = 'autonomous_opening';
   private presetConfigured = true;
@@ -224,10 +335,32 @@ export class AgentProcessManager {
   private agentContextWindows: Record<string, AgentContextWindow> = {};
   private pendingContextWindowsDelta: Record<string, AgentContextWindow> = {};
   private agentLastCompactionEvent: Record<string, AgentThreadCompactionEvent | undefined> = {};
+  private agentRequests = new AgentRequestQueue();
+  private agentRequestTurnScheduled = false;
+  private directiveQueue = new DirectiveQueue<DirectiveRoutingScope>();
+  private directiveTurns = new Map<number, Promise<void>>();
+  private activeTurn: { label: string; startedAtMs: number } | null = null;
+  private inFlightAutoTick: InFlightAutoTick | null = null;
+  private pendingAutoTickPreemption: AutoTickPreemption | null = null;
+  private defaultBudget: JamSessionBudget;
+  private tokenPricing: JamTokenPricing | null;
+  private sessionBudget: JamSessionBudget;
+  private sessionUsage: JamUsageTotals = createUsageTotals();
+  private agentUsage: Record<string, JamUsageTotals> = {};
+  private budgetState: JamBudgetState = 'ok';
+  private harmonyProposals = new HarmonyProposalBoard();
 
   constructor(options: AgentProcessManagerOptions) {
     this.workingDir = options.workingDir;
     this.broadcast = options.broadcast;
+    this.runner = options.runner ?? createJamAgentRunner({ workingDir: this.workingDir });
+    this.onSnapshot = options.onSnapshot;
+    this.defaultBudget = { ...(options.budget ?? NO_SESSION_BUDGET) };
+    this.sessionBudget = { ...this.defaultBudget };
+    this.tokenPricing = options.tokenPricing ?? null;
+
+    // Re-read the band roster so persona front-matter edits apply to the next jam
+    syncAgentRoster(this.workingDir);
 
     // Load shared Strudel API reference (injected into each agent's system prompt)
     try {
@@ -266,19 +399,28 @@ export class AgentProcessManager {
   private enqueueTurn(label: string, fn: () => Promise<void>): Promise<void> {
     const turnId = ++this.turnCounter;
     const previous = this.turnInProgress;
-    const current = previous.then(
+    const begin = (prevErrored: boolean) => {
+      console.log(`[AgentManager] Turn #${turnId} starting: ${label}${prevErrored ? ' (prev errored)' : ''}`);
+      this.activeTurn = { label, startedAtMs: Date.now() };
+      return fn();
+    };
+    const finish = () => {
+      if (this.activeTurn) {
+        this.directiveQueue.recordTurnDuration(Date.now() - this.activeTurn.startedAtMs);
+        this.activeTurn = null;
+      }
+      // Directives waiting behind this turn get a fresh ETA
+      if (this.directiveQueue.size > 0) this.broadcastDirectiveQueue();
+    };
+    const current = previous.then(() => begin(false), () => begin(true)).then(
       () => {
-        console.log(`[AgentManager] Turn #${turnId} starting: ${label}`);
-        return fn();
+        console.log(`[AgentManager] Turn #${turnId} completed: ${label}`);
+        finish();
+        this.emitSnapshot();
       },
-      () => {
-        console.log(`[AgentManager] Turn #${turnId} starting: ${label} (prev errored)`);
-        return fn();
-      }
-    ).then(
-      () => console.log(`[AgentManager] Turn #${turnId} completed: ${label}`),
       (err) => {
         console.error(`[AgentManager] Turn #${turnId} failed: ${label}`, err);
+        finish();
         throw err;
       }
     );
@@ -294,18 +436,12 @@ export class AgentProcessManager {
   async start(activeAgents: string[], options: StartJamOptions = {}): Promise<void> {
     if (this.stopped) return;
 
-    await assert_codex_runtime_ready({
-      working_dir: this.workingDir,
-    });
-    if (this.stopped) return;
-
-    const codexConfig = load_project_codex_config(this.workingDir);
+    const runnerConfig = await this.runner.prepare();
     if (this.stopped) return;
-    this.codexConfigOverrides = build_codex_overrides(codexConfig, CODEX_JAM_PROFILE);
-    this.codexJamDefaultModel = codexConfig.jam_agent_model;
+    this.codexJamDefaultModel = runnerConfig.defaultModel;
     this.jamStartMode = options.mode ?? 'autonomous_opening';
 
-    const unknownAgentKeys = activeAgents.filter((key) => !AGENT_META[key]);
+    const unknownAgentKeys = activeAgents.filter((key) => !isAgentRosterKey(key));
     if (unknownAgentKeys.length > 0) {
       throw new Error(`Unknown jam agent key(s): ${unknownAgentKeys.join(', ')}`);
     }
@@ -317,7 +453,8 @@ export class AgentProcessManager {
     this.roundNumber = 0;
     this.tickScheduled = false;
     this.nextAutoTickAtMs = null;
-    this.cacheTtlWarnedAgents.clear();
+    this.clearArrangementTimer();
+    this.arrangement = null;
     this.sessionId = 'direct-' + Date.now();
     this.presetConfigured = this.jamStartMode !== 'staged_silent';
     this.musicalContext = this.jamStartMode === 'staged_silent'
@@ -335,33 +472,21 @@ export class AgentProcessManager {
     this.agentContextWindows = {};
     this.pendingContextWindowsDelta = {};
     this.agentLastCompactionEvent = {};
+    this.agentRequests.clear();
+    this.mixer = {};
+    this.agentPatternHistory = {};
+    this.agentPendingRevertNotes = {};
+    this.agentPendingMeterNotes = {};
+    this.agentDensityNudgeRound = {};
+    this.agentLastPatternChanges = {};
+    this.directiveQueue.clear();
+    this.pendingAutoTickPreemption = null;
+    this.resetUsage({ ...this.defaultBudget });
+    this.harmonyProposals.clear();
 
     // Initialize state for each agent
     for (const key of this.activeAgents) {
-      const meta = AGENT_META[key];
-      this.agentPatterns[key] = '';
-      this.agentStates[key] = {
-        name: meta.name,
-        emoji: meta.emoji,
-        pattern: '',
-        fallbackPattern: '',
-        thoughts: '',
-        status: 'idle',
-        lastUpdated: new Date().toISOString(),
-      };
-      this.agentDecisions[key] = undefined;
-      this.agentCommentaryState[key] = {
-        lastRound: null,
-        recentSignatures: [],
-      };
-      this.agentAutoTickNoChangeStreak[key] = 0;
-      this.agentPendingThreadCompaction[key] = false;
-      this.agentContextWindows[key] = {
-        agent: key,
-        updatedAt: new Date().toISOString(),
-        turns: [],
-      };
-      this.agentLastCompactionEvent[key] = undefined;
+      this.initializeAgentSessionState(key);
     }
 
     // Prepare one Codex-backed session per agent
@@ -376,6 +501,7 @@ export class AgentProcessManager {
       // Staged silent mode: no opening prompts until the boss explicitly cues an agent.
       this.resetAutoTickDeadline();
       this.broadcastJamStateOnly('staged-silent');
+      this.emitSnapshot();
     }
 
     // Start autonomous evolution ticks
@@ -383,6 +509,103 @@ export class AgentProcessManager {
     this.startAutoTick();
   }
 
+  /**
+   * Rebuild a jam session from a snapshot: restore patterns, musical context,
+   * activation/mute state, and round number, reattach each agent's Codex
+   * thread, and re-broadcast the composed pattern so playback resumes.
+   */
+  async resume(snapshot: JamSessionSnapshot): Promise<void> {
+    if (this.stopped) return;
+
+    const runnerConfig = await this.runner.prepare();
+    if (this.stopped) return;
+    this.codexJamDefaultModel = runnerConfig.defaultModel;
+
+    const unknownAgentKeys = snapshot.activeAgents.filter((key) => !isAgentRosterKey(key));
+    if (unknownAgentKeys.length > 0) {
+      throw new Error(`Unknown jam agent key(s): ${unknownAgentKeys.join(', ')}`);
+    }
+
+    this.jamStartMode = snapshot.jamStartMode;
+    this.activeAgents = [...snapshot.activeAgents];
+    this.activatedAgents = snapshot.activatedAgents.filter((key) => this.activeAgents.includes(key));
+    this.mutedAgents = new Set(snapshot.mutedAgents.filter((key) => this.activatedAgents.includes(key)));
+    this.roundNumber = snapshot.round;
+    this.tickScheduled = false;
+    this.nextAutoTickAtMs = null;
+    this.clearArrangementTimer();
+    // The clock restarts with the resumed execute, from the saved bar position
+    this.arrangement = snapshot.arrangement
+      ? new ArrangementClock(snapshot.arrangement.sections, snapshot.arrangement)
+      : null;
+    this.sessionId = snapshot.sessionId;
+    this.presetConfigured = snapshot.presetConfigured;
+    this.musicalContext = this.cloneMusicalContext(snapshot.musicalContext);
+    this.agentDecisions = {};
+    this.agentCommentaryState = {};
+    this.agentAutoTickNoChangeStreak = {};
+    this.agentPendingThreadCompaction = {};
+    this.latestAudioFeedback = null;
+    this.agentContextWindows = {};
+    this.pendingContextWindowsDelta = {};
+    this.agentLastCompactionEvent = {};
+    this.agentRequests.clear();
+    this.harmonyProposals.clear();
+
+    for (const key of this.activeAgents) {
+      this.initializeAgentSessionState(key);
+      const saved = snapshot.agents[key];
+      if (!saved) continue;
+      this.agentPatterns[key] = saved.pattern;
+      this.agentDecisions[key] = saved.decision;
+      this.agentPatternHistory[key] = normalizePatternHistory(saved.history);
+      this.agentStates[key] = {
+        ...this.agentStates[key],
+        ...saved.state,
+        // Transient statuses from the previous process do not survive a restart
+        status: this.activatedAgents.includes(key) && saved.pattern && saved.pattern !== 'silence'
+          ? 'playing'
+          : 'idle',
+      };
+    }
+    this.mixer = normalizeMixerState(snapshot.mixer, this.activeAgents);
+    this.autoTickSchedule = normalizeAutoTickSchedule(snapshot.autoTickSchedule) ?? { ...DEFAULT_AUTO_TICK_SCHEDULE };
+    this.agentPendingRevertNotes = {};
+    this.agentPendingMeterNotes = {};
+    this.agentDensityNudgeRound = {};
+    this.agentLastPatternChanges = {};
+    this.resetUsage(normalizeSessionBudget(snapshot.usage?.budget) ?? { ...this.defaultBudget });
+    if (snapshot.usage) {
+      this.sessionUsage = normalizeUsageTotals(snapshot.usage.session);
+      for (const [key, totals] of Object.entries(snapshot.usage.agents ?? {})) {
+        if (this.activeAgents.includes(key)) this.agentUsage[key] = normalizeUsageTotals(totals);
+      }
+      this.budgetState = getBudgetState(getBudgetUsedFraction(this.sessionUsage, this.sessionBudget));
+    }
+
+    await Promise.all(this.activeAgents.map((key) => this.spawnAgent(key)));
+    if (this.stopped) return;
+
+    // Reattach Codex threads so agents keep their conversational memory
+    for (const key of this.activeAgents) {
+      const agent = this.agents.get(key);
+      const threadId = snapshot.agents[key]?.threadId ?? null;
+      if (agent && threadId) {
+        agent.threadId = threadId;
+      }
+    }
+    console.log(
+      `[AgentManager] Resumed session ${this.sessionId} at round ${this.roundNumber} ` +
+      `(agents=${this.activeAgents.join(', ')})`
+    );
+
+    this.composeAndBroadcast('resume');
+    this.emitSnapshot();
+
+    if (this.stopped) return;
+    this.startAutoTick();
+  }
+
   /**
    * Apply a specific preset to a staged-silent jam before the first join.
    */
@@ -415,6 +638,290 @@ export class AgentProcessManager {
     });
   }
 
+  /**
+   * Replace the song-form arrangement, or clear it with null. An edit keeps
+   * the current section index where it still exists; a new arrangement starts
+   * at its first section.
+   */
+  async setArrangement(sections: ArrangementSection[] | null): Promise<void> {
+    return this.enqueueTurn('set-arrangement', async () => {
+      if (this.stopped) return;
+
+      if (!sections) {
+        this.clearArrangementTimer();
+        this.arrangement = null;
+        this.syncAutoTickTimer();
+        this.broadcastJamStatePayload(this.composePatterns());
+        return;
+      }
+
+      if (sections.length === 0) {
+        throw new Error('Arrangement needs at least one section.');
+      }
+
+      let sectionChanged = true;
+      if (this.arrangement) {
+        if (this.arrangement.isRunning) {
+          this.arrangement.sync(Date.now(), this.getCyclesPerMinute());
+        }
+        sectionChanged = this.arrangement.replaceSections(sections);
+      } else {
+        this.arrangement = new ArrangementClock(sections);
+      }
+
+      // A clock that has not started yet applies its section when the jam becomes audible
+      if (sectionChanged && this.arrangement.isRunning) {
+        this.enterArrangementSection();
+        return;
+      }
+
+      this.syncArrangementClock(this.composePatterns());
+      this.syncAutoTickTimer();
+      this.broadcastJamStatePayload(this.composePatterns());
+    });
+  }
+
+  /**
+   * Jump to the start of the next arrangement section and let the band react.
+   */
+  async skipArrangementSection(): Promise<void> {
+    return this.enqueueTurn('skip-section', async () => {
+      if (this.stopped) return;
+
+      const clock = this.arrangement;
+      if (!clock) {
+        throw new Error('No arrangement is set for this jam.');
+      }
+
+      const wasRunning = clock.isRunning;
+      if (wasRunning) {
+        clock.sync(Date.now(), this.getCyclesPerMinute());
+      }
+      if (!clock.skip()) {
+        throw new Error('Already in the final section.');
+      }
+
+      if (!wasRunning) {
+        this.broadcastJamStatePayload(this.composePatterns());
+        return;
+      }
+      this.enterArrangementSection();
+    });
+  }
+
+  /**
+   * Change one agent's mixer channel. Mixer moves take effect immediately
+   * rather than waiting for the turn queue: no agent is consulted, only the
+   * composed pattern is rebuilt and re-broadcast.
+   */
+  setAgentMix(key: string, update: AgentMixUpdate): void {
+    if (this.stopped) return;
+    if (!this.activeAgents.includes(key)) {
+      throw new Error(`${AGENT_META[key]?.name ?? key} is not in this jam session`);
+    }
+
+    this.mixer[key] = applyMixUpdate(this.mixer[key] ?? createMixChannel(), update);
+    this.composeAndBroadcast('mixer');
+    this.emitSnapshot();
+  }
+
+  /**
+   * Change how autonomous rounds are timed for the rest of the session. The
+   * countdown restarts under the new schedule right away; round-robin starts
+   * again from the first active agent.
+   */
+  setAutoTickSchedule(schedule: AutoTickSchedule): void {
+    if (this.stopped) return;
+
+    this.autoTickSchedule = { ...schedule };
+    this.autoTickRoundRobinCursor = 0;
+    console.log(`[AgentManager] Auto-tick schedule: ${formatAutoTickSchedule(this.autoTickSchedule)}`);
+    if (this.autoTickArmed) {
+      this.startAutoTick();
+    } else {
+      this.broadcastAutoTickTiming();
+    }
+    this.emitSnapshot();
+  }
+
+  /**
+   * Replace the session budget. Raising it past what has been spent lifts a
+   * budget pause right away; lowering it can slow or pause auto-tick.
+   */
+  setSessionBudget(budget: JamSessionBudget): void {
+    if (this.stopped) return;
+
+    this.sessionBudget = { ...budget };
+    console.log(
+      `[AgentManager] Session budget: cost=${budget.maxCostUsd ?? 'none'} tokens=${budget.maxTokens ?? 'none'}`
+    );
+    this.updateBudgetState();
+    this.broadcastJamStatePayload(this.composePatterns());
+    this.emitSnapshot();
+  }
+
+  /**
+   * Boss decision on an open harmony proposal: approval applies it without
+   * waiting for the band's quorum, rejection closes it.
+   */
+  resolveHarmonyProposal(id: number, approve: boolean): Promise<void> {
+    return this.enqueueTurn('harmony-proposal', async () => {
+      if (this.stopped) return;
+
+      const proposal = this.harmonyProposals.getPending(id);
+      if (!proposal) {
+        throw new Error(`Harmony proposal #${id} is no longer open`);
+      }
+
+      if (approve) {
+        this.applyHarmonyProposal(proposal, 'boss');
+      } else {
+        this.harmonyProposals.reject(id, this.roundNumber, 'boss');
+      }
+      this.broadcastJamStatePayload(this.composePatterns());
+      this.emitSnapshot();
+    });
+  }
+
+  /**
+   * Roll an agent back to an earlier entry of its pattern history. Like a
+   * mixer move, no agent is consulted; the agent learns about the revert on
+   * its next turn so it builds from the restored pattern instead of undoing it.
+   */
+  revertAgentPattern(key: string, version: number): Promise<void> {
+    return this.enqueueTurn('revert', async () => {
+      if (this.stopped) return;
+      if (!this.activeAgents.includes(key)) {
+        throw new Error(`${AGENT_META[key]?.name ?? key} is not in this jam session`);
+      }
+
+      const history = this.agentPatternHistory[key] ?? [];
+      const restored = history.find((entry) => entry.version === version);
+      if (!restored) {
+        throw new Error(`${AGENT_META[key]?.name ?? key} has no pattern version ${version}`);
+      }
+      if (restored.pattern === this.agentPatterns[key]) return;
+
+      this.applyPatternRevert(key, restored);
+    });
+  }
+
+  private applyPatternRevert(key: string, restored: AgentPatternVersion, directive?: string): void {
+    const state = this.agentStates[key];
+    const replacedPattern = this.agentPatterns[key] || 'silence';
+    const pattern = restored.pattern;
+
+    this.agentPatterns[key] = pattern;
+    this.agentStates[key] = {
+      ...state,
+      pattern,
+      fallbackPattern: pattern !== 'silence' ? pattern : state.fallbackPattern,
+      status: pattern !== 'silence' ? 'playing' : 'idle',
+      lastUpdated: new Date().toISOString(),
+    };
+    if (pattern !== 'silence' && !this.activatedAgents.includes(key)) {
+      this.activatedAgents = [...this.activatedAgents, key];
+    }
+    this.agentPatternHistory[key] = appendPatternVersion(this.agentPatternHistory[key] ?? [], {
+      pattern,
+      round: this.roundNumber,
+      turnSource: 'revert',
+      ...(directive ? { directive } : {}),
+      revertOf: restored.version,
+      createdAt: new Date().toISOString(),
+    });
+    this.agentPendingRevertNotes[key] = { restoredRound: restored.round, replacedPattern };
+
+    this.setAgentStatus(key, this.agentStates[key].status);
+    this.composeAndBroadcast('revert', [key]);
+  }
+
+  private takePatternRevertNote(key: string): PatternRevertNote | undefined {
+    const note = this.agentPendingRevertNotes[key];
+    delete this.agentPendingRevertNotes[key];
+    return note;
+  }
+
+  private takeMeterNote(key: string): JamMeterNote | undefined {
+    const note = this.agentPendingMeterNotes[key];
+    delete this.agentPendingMeterNotes[key];
+    return note;
+  }
+
+  /**
+   * Flag a drum or bass pattern whose step count obviously does not fit the
+   * current meter; the agent hears about it on its next turn.
+   */
+  private checkPatternMeter(key: string): void {
+    const family = AGENT_META[key]?.patternFamily;
+    if (family !== 'drums' && family !== 'bass') return;
+
+    const mismatch = findMeterMismatch(this.agentPatterns[key] ?? '', this.musicalContext.timeSignature);
+    if (!mismatch) return;
+    console.warn(`[AgentManager] ${key} pattern does not fit ${this.musicalContext.timeSignature}: ${mismatch}`);
+    this.agentPendingMeterNotes[key] = { ...this.agentPendingMeterNotes[key], mismatch };
+  }
+
+  /**
+   * What the agent's bandmates changed this round or the last, so it hears
+   * about a new layer or a swept filter without diffing band state itself.
+   */
+  private getBandmateChangeLines(key: string): string[] {
+    const entries: Array<{ agentKey: string; changes: PatternChange[] }> = [];
+    for (const bandmate of this.activatedAgents) {
+      const latest = this.agentLastPatternChanges[bandmate];
+      if (bandmate === key || !latest || latest.round < this.roundNumber - 1) continue;
+      entries.push({ agentKey: bandmate, changes: latest.changes });
+    }
+    return formatBandmateChangesForPrompt(entries);
+  }
+
+  /**
+   * Auto-tick nudge for an agent whose pattern is much busier or sparser than
+   * the genre guidance for the current energy; at most once per cooldown.
+   */
+  private getDensityNudgeLines(key: string, pattern: string): string[] {
+    const lastNudge = this.agentDensityNudgeRound[key];
+    if (lastNudge !== undefined && this.roundNumber - lastNudge < JAM_GOVERNANCE.DENSITY_NUDGE_COOLDOWN_ROUNDS) {
+      return [];
+    }
+
+    const { genre, energy, timeSignature } = this.musicalContext;
+    const eventsPerCycle = getPatternEventsPerCycle(pattern, timeSignature);
+    const range = getGenreDensityRange(this.workingDir, genre, key, energy);
+    if (eventsPerCycle === null || !range) return [];
+
+    const lines = formatDensityNudgeForPrompt(eventsPerCycle, range, genre, key, energy);
+    if (lines.length > 0) this.agentDensityNudgeRound[key] = this.roundNumber;
+    return lines;
+  }
+
+  private applyMixerDirective(directive: MixerDirective): void {
+    switch (directive.kind) {
+      case 'gain': {
+        const channel = this.mixer[directive.agent] ?? createMixChannel();
+        this.mixer[directive.agent] = applyMixUpdate(channel, { gain: channel.gain + directive.delta });
+        break;
+      }
+      case 'pan':
+        this.mixer[directive.agent] = applyMixUpdate(
+          this.mixer[directive.agent] ?? createMixChannel(),
+          { pan: directive.pan }
+        );
+        break;
+      case 'solo':
+      case 'unsolo':
+        // Directive solo is exclusive; the faders can still stack solos
+        for (const key of this.activeAgents) {
+          const solo = directive.kind === 'solo' && key === directive.agent;
+          this.mixer[key] = applyMixUpdate(this.mixer[key] ?? createMixChannel(), { solo });
+        }
+        break;
+    }
+    this.composeAndBroadcast('mixer');
+    this.emitSnapshot();
+  }
+
   /**
    * Receive a compact client-side spectral summary from the browser audio loop.
    */
@@ -510,229 +1017,339 @@ export class AgentProcessManager {
     void activeAgents; // routing uses manager-owned session membership, not client input
     const routingScope = options.routingScope ?? 'activated';
 
-    return this.enqueueTurn('directive', async () => {
-      if (this.stopped) return;
+    // Pure mixer moves ("bass up a bit", "solo ARIA") never reach the agents
+    const mixerDirective = parseMixerDirective(text, targetAgent, this.activeAgents);
+    if (mixerDirective) {
+      if (!this.stopped) this.applyMixerDirective(mixerDirective);
+      return;
+    }
 
-      // Reset tick timer to avoid double-triggering during directive
-      if (this.tickTimer) clearInterval(this.tickTimer);
+    // The boss outranks autonomous evolution: stop the affected agents'
+    // in-flight auto-tick turns so this cue does not wait behind them
+    this.preemptAutoTick(text, targetAgent);
+
+    // One turn slot per pending entry: superseded and coalesced cues ride
+    // along on the slot that is already queued
+    const { entry, outcome } = this.directiveQueue.offer(text, targetAgent, routingScope);
+    if (outcome !== 'queued') {
+      console.log(`[AgentManager] Directive ${outcome} into queued directive #${entry.id}`);
+      this.broadcastDirectiveQueue();
+      return this.directiveTurns.get(entry.id) ?? Promise.resolve();
+    }
+
+    const turn = this.enqueueTurn('directive', async () => {
+      this.directiveTurns.delete(entry.id);
+      const started = this.directiveQueue.start(entry.id);
+      this.broadcastDirectiveQueue();
+      if (!started || this.stopped) return;
+      await this.runDirectiveTurn(
+        formatPendingDirectiveText(started),
+        started.targetAgent,
+        started.routingScope
+      );
+    });
+    this.directiveTurns.set(entry.id, turn);
+    this.broadcastDirectiveQueue();
+    return turn;
+  }
 
-      if (!this.presetConfigured) {
-        this.broadcastWs('directive_error', {
-          message: 'Choose a genre preset and press Play before sending directives.',
-          targetAgent,
-        });
+  /**
+   * Drop a queued directive before its turn starts. Returns false when it
+   * already started or does not exist.
+   */
+  cancelDirective(id: number): boolean {
+    const cancelled = this.directiveQueue.cancel(id);
+    if (cancelled) {
+      console.log(`[AgentManager] Directive #${id} cancelled`);
+      this.broadcastDirectiveQueue();
+    }
+    return cancelled;
+  }
+
+  /**
+   * Abort the running auto-tick turns of the agents a directive addresses
+   * (every agent still thinking for a broadcast cue). The killed turns are
+   * discarded by sendAutoTick() and reported in the next jam_state_update.
+   */
+  private preemptAutoTick(directive: string, targetAgent: string | undefined): void {
+    const tick = this.inFlightAutoTick;
+    if (!tick || this.stopped) return;
+
+    const keys = Array.from(tick.pending).filter((key) => (
+      !tick.preempted.has(key) && (!targetAgent || key === targetAgent)
+    ));
+    if (keys.length === 0) return;
+
+    tick.directive = directive;
+    for (const key of keys) {
+      tick.preempted.add(key);
+      this.runner.cancelTurn(key).catch((err) => {
+        console.error(`[AgentManager] Failed to cancel auto-tick turn for ${key}:`, err);
+      });
+    }
+    console.log(`[AgentManager] Directive pre-empted auto-tick round ${tick.round} for: ${keys.join(', ')}`);
+  }
+
+  private async runDirectiveTurn(
+    text: string,
+    targetAgent: string | undefined,
+    routingScope: DirectiveRoutingScope
+  ): Promise<void> {
+    // Reset tick timer to avoid double-triggering during directive
+    if (this.tickTimer) clearTimeout(this.tickTimer);
+
+    if (!this.presetConfigured) {
+      this.broadcastWs('directive_error', {
+        message: 'Choose a genre preset and press Play before sending directives.',
+        targetAgent,
+      });
+      this.startAutoTick();
+      return;
+    }
+
+    // Guard: if a specific agent was targeted but is unavailable, error early
+    if (targetAgent) {
+      const meta = AGENT_META[targetAgent];
+      const name = meta?.name ?? targetAgent;
+
+      if (!this.activeAgents.includes(targetAgent)) {
+        const reason = `${name} is not in this jam session`;
+        console.warn(`[AgentManager] Directive target unavailable: ${reason}`);
+        this.broadcastWs('directive_error', { message: reason, targetAgent });
         this.startAutoTick();
         return;
       }
 
-      // Guard: if a specific agent was targeted but is unavailable, error early
-      if (targetAgent) {
-        const meta = AGENT_META[targetAgent];
-        const name = meta?.name ?? targetAgent;
+      if (!this.agents.has(targetAgent)) {
+        const reason = `${name}'s process is unavailable`;
+        console.warn(`[AgentManager] Directive target unavailable: ${reason}`);
+        this.broadcastWs('directive_error', { message: reason, targetAgent });
+        this.startAutoTick();
+        return;
+      }
+    }
 
-        if (!this.activeAgents.includes(targetAgent)) {
-          const reason = `${name} is not in this jam session`;
-          console.warn(`[AgentManager] Directive target unavailable: ${reason}`);
-          this.broadcastWs('directive_error', { message: reason, targetAgent });
-          this.startAutoTick();
-          return;
-        }
+    const forceMuteTarget = Boolean(targetAgent && this.isExplicitMuteDirective(text));
+    if (targetAgent && this.mutedAgents.has(targetAgent) && !forceMuteTarget) {
+      // Any targeted non-mute cue counts as an explicit re-entry request.
+      this.mutedAgents.delete(targetAgent);
+      this.resetThreadCompactionState(targetAgent);
+    }
 
-        if (!this.agents.has(targetAgent)) {
-          const reason = `${name}'s process is unavailable`;
-          console.warn(`[AgentManager] Directive target unavailable: ${reason}`);
-          this.broadcastWs('directive_error', { message: reason, targetAgent });
-          this.startAutoTick();
-          return;
-        }
+    // "@BEAT go back to what you had two rounds ago" restores from history
+    const revertTarget = targetAgent ? parsePatternRevertDirective(text) : null;
+    if (targetAgent && revertTarget) {
+      const restored = resolvePatternRevert(
+        this.agentPatternHistory[targetAgent] ?? [],
+        revertTarget,
+        this.roundNumber
+      );
+      if (restored) {
+        this.applyPatternRevert(targetAgent, restored, text);
+      } else {
+        this.broadcastWs('directive_error', {
+          message: `${AGENT_META[targetAgent]?.name ?? targetAgent} has no earlier pattern to go back to.`,
+          targetAgent,
+        });
       }
+      this.startAutoTick();
+      return;
+    }
 
-      const forceMuteTarget = Boolean(targetAgent && this.isExplicitMuteDirective(text));
-      if (targetAgent && this.mutedAgents.has(targetAgent) && !forceMuteTarget) {
-        // Any targeted non-mute cue counts as an explicit re-entry request.
-        this.mutedAgents.delete(targetAgent);
-        this.resetThreadCompactionState(targetAgent);
+    // Apply deterministic anchors first (explicit BPM / half/double-time / explicit energy / key).
+    // Relative tempo/energy cues are handled after agent responses using model decisions.
+    // Intentionally uses split deterministic anchors + relative cue detection
+    // so coarse synthetic fallback deltas cannot re-enter jam runtime paths.
+    const deterministicContextDelta = parseDeterministicMusicalContextChanges(
+      text,
+      this.musicalContext
+    );
+    const relativeContextCues = detectRelativeMusicalContextCues(text);
+    if (deterministicContextDelta) {
+      const previousTimeSignature = this.musicalContext.timeSignature;
+      this.musicalContext = { ...this.musicalContext, ...deterministicContextDelta };
+      console.log('[AgentManager] Deterministic musical context updated:', deterministicContextDelta);
+      if (deterministicContextDelta.timeSignature && deterministicContextDelta.timeSignature !== previousTimeSignature) {
+        // Every agent hears about the new bar once; stale mismatch notes go with the old meter
+        const change = { from: previousTimeSignature, to: deterministicContextDelta.timeSignature };
+        for (const key of this.activeAgents) {
+          this.agentPendingMeterNotes[key] = { change };
+        }
       }
+    }
 
-      // Apply deterministic anchors first (explicit BPM / half/double-time / explicit energy / key).
-      // Relative tempo/energy cues are handled after agent responses using model decisions.
-      // Intentionally uses split deterministic anchors + relative cue detection
-      // so coarse synthetic fallback deltas cannot re-enter jam runtime paths.
-      const deterministicContextDelta = parseDeterministicMusicalContextChanges(
-        text,
-        this.musicalContext
+    // Determine which agents to target
+    let targets: string[] = [];
+    if (targetAgent) {
+      if (!this.activatedAgents.includes(targetAgent)) {
+        this.activatedAgents = [...this.activatedAgents, targetAgent];
+      }
+      targets = [targetAgent];
+    } else {
+      const routingBase =
+        routingScope === 'all_selected'
+          ? this.activeAgents
+          : this.activatedAgents;
+      targets = routingBase.filter(
+        (k) => this.agents.has(k) && !this.mutedAgents.has(k)
       );
-      const relativeContextCues = detectRelativeMusicalContextCues(text);
-      if (deterministicContextDelta) {
-        this.musicalContext = { ...this.musicalContext, ...deterministicContextDelta };
-        console.log('[AgentManager] Deterministic musical context updated:', deterministicContextDelta);
+      if (routingScope === 'all_selected' && targets.length > 0) {
+        // Broadcast-to-all-selected routing explicitly activates all participating agents.
+        this.activatedAgents = this.activeAgents.filter((key) =>
+          this.activatedAgents.includes(key) || targets.includes(key)
+        );
       }
-
-      // Determine which agents to target
-      let targets: string[] = [];
-      if (targetAgent) {
-        if (!this.activatedAgents.includes(targetAgent)) {
-          this.activatedAgents = [...this.activatedAgents, targetAgent];
-        }
-        targets = [targetAgent];
-      } else {
-        const routingBase =
-          routingScope === 'all_selected'
-            ? this.activeAgents
-            : this.activatedAgents;
-        targets = routingBase.filter(
-          (k) => this.agents.has(k) && !this.mutedAgents.has(k)
+      if (targets.length === 0) {
+        const hasMutedActives = routingBase.some(
+          (k) => this.agents.has(k) && this.mutedAgents.has(k)
         );
-        if (routingScope === 'all_selected' && targets.length > 0) {
-          // Broadcast-to-all-selected routing explicitly activates all participating agents.
-          this.activatedAgents = this.activeAgents.filter((key) =>
-            this.activatedAgents.includes(key) || targets.includes(key)
-          );
-        }
-        if (targets.length === 0) {
-          const hasMutedActives = routingBase.some(
-            (k) => this.agents.has(k) && this.mutedAgents.has(k)
-          );
-          this.broadcastWs('directive_error', {
-            message: hasMutedActives
-              ? 'All active agents are currently muted. @mention an agent to unmute or add a new one.'
-              : 'No agents are active yet. @mention an agent to start the jam.',
-          });
-          this.startAutoTick();
-          return;
-        }
+        this.broadcastWs('directive_error', {
+          message: hasMutedActives
+            ? 'All active agents are currently muted. @mention an agent to unmute or add a new one.'
+            : 'No agents are active yet. @mention an agent to start the jam.',
+        });
+        this.startAutoTick();
+        return;
       }
+    }
 
-      // Set targeted agents to "thinking"
-      for (const key of targets) {
-        // Any directive interaction makes this agent's recent context relevant
-        // again, so clear deferred compaction state.
-        this.resetThreadCompactionState(key);
-        this.setAgentStatus(key, 'thinking');
-      }
+    // Set targeted agents to "thinking"
+    for (const key of targets) {
+      // Any directive interaction makes this agent's recent context relevant
+      // again, so clear deferred compaction state.
+      this.resetThreadCompactionState(key);
+      this.setAgentStatus(key, 'thinking');
+    }
 
-      // Increment round once for the entire directive
-      this.roundNumber++;
-      const directiveAudioFeedback = this.getFreshAudioFeedbackSection();
-      const directiveAudioContextSummary = this.getFreshAudioContextSummarySection();
+    // Increment round once for the entire directive
+    this.roundNumber++;
+    const directiveAudioFeedback = this.getFreshAudioFeedbackSection();
+    const directiveAudioContextSummary = this.getFreshAudioContextSummarySection();
 
-      // Build and send directive context to each targeted agent
-      const directiveInputs = targets.map((key) => {
-        const context = this.buildDirectiveContext(
-          key,
-          text,
-          targetAgent,
-          directiveAudioFeedback,
-          directiveAudioContextSummary
-        );
-        const fullPrompt = this.buildPromptForAgent(key, context);
-        const bandState = this.activatedAgents
-          .filter((k) => k !== key)
-          .map((k) => this.buildBandStateEntryFromPattern(
-            k,
-            this.mutedAgents.has(k) ? 'silence' : (this.agentPatterns[k] || 'silence')
-          ));
+    // Build and send directive context to each targeted agent
+    const directiveInputs = targets.map((key) => {
+      const notes: DirectiveTurnNotes = {
+        revert: this.takePatternRevertNote(key),
+        meterNote: this.takeMeterNote(key),
+      };
+      const context = this.buildDirectiveContext(
+        key,
+        text,
+        targetAgent,
+        notes,
+        directiveAudioFeedback,
+        directiveAudioContextSummary
+      );
+      const fullPrompt = this.buildPromptForAgent(key, context);
+      const bandState = this.activatedAgents
+        .filter((k) => k !== key)
+        .map((k) => this.buildBandStateEntryFromPattern(
+          k,
+          this.mutedAgents.has(k) ? 'silence' : (this.agentPatterns[k] || 'silence')
+        ));
 
-        return {
-          key,
-          context,
-          fullPrompt,
-          bandState,
-          currentPattern: this.agentPatterns[key] || 'silence',
-          audioFeedback: directiveAudioFeedback,
-          audioContextSummary: directiveAudioContextSummary,
-          pendingCompactionBefore: this.agentPendingThreadCompaction[key] ?? false,
-          noChangeStreakBefore: this.agentAutoTickNoChangeStreak[key] ?? 0,
-        };
-      });
+      return {
+        key,
+        context,
+        fullPrompt,
+        notes,
+        bandState,
+        currentPattern: this.agentPatterns[key] || 'silence',
+        audioFeedback: directiveAudioFeedback,
+        audioContextSummary: directiveAudioContextSummary,
+        pendingCompactionBefore: this.agentPendingThreadCompaction[key] ?? false,
+        noChangeStreakBefore: this.agentAutoTickNoChangeStreak[key] ?? 0,
+      };
+    });
 
-      const rawTurnResults = await Promise.all(
-        directiveInputs.map((input) => this.sendToAgentAndCollect(input.key, input.context, input.fullPrompt))
-      );
-      const recoveredSnapshots = await Promise.all(targets.map((key, index) =>
-        (forceMuteTarget && targetAgent === key)
-          ? Promise.resolve({
+    const rawTurnResults = await Promise.all(
+      directiveInputs.map((input) => this.sendToAgentAndCollect(input.key, input.context, input.fullPrompt))
+    );
+    const recoveredSnapshots = await Promise.all(targets.map((key, index) =>
+      (forceMuteTarget && targetAgent === key)
+        ? Promise.resolve({
+          turnResult: rawTurnResults[index],
+          contextText: directiveInputs[index].context,
+          fullPrompt: directiveInputs[index].fullPrompt,
+        })
+        : this.recoverDirectiveResponseIfNeeded({
+          key,
+          snapshot: {
             turnResult: rawTurnResults[index],
             contextText: directiveInputs[index].context,
             fullPrompt: directiveInputs[index].fullPrompt,
-          })
-          : this.recoverDirectiveResponseIfNeeded({
-            key,
-            snapshot: {
-              turnResult: rawTurnResults[index],
-              contextText: directiveInputs[index].context,
-              fullPrompt: directiveInputs[index].fullPrompt,
-            },
-            directive: text,
-            targetAgent,
-          })
-      ));
-      const responses: Array<AgentResponse | null> = [...rawTurnResults.map((result) => result?.response ?? null)];
+          },
+          notes: directiveInputs[index].notes,
+          directive: text,
+          targetAgent,
+        })
+    ));
+    const responses: Array<AgentResponse | null> = [...rawTurnResults.map((result) => result?.response ?? null)];
 
-      const patternsBeforeTurn = { ...this.agentPatterns };
+    const patternsBeforeTurn = { ...this.agentPatterns };
 
-      // Process responses and update state
-      for (let i = 0; i < targets.length; i++) {
-        const key = targets[i];
-        const recoveredSnapshot = recoveredSnapshots[i];
-        const turnResult = recoveredSnapshot.turnResult;
-        let response = turnResult?.response ?? null;
+    // Process responses and update state
+    for (let i = 0; i < targets.length; i++) {
+      const key = targets[i];
+      const recoveredSnapshot = recoveredSnapshots[i];
+      const turnResult = recoveredSnapshot.turnResult;
+      let response = turnResult?.response ?? null;
 
-        if (forceMuteTarget && targetAgent === key) {
-          this.mutedAgents.add(key);
-          this.resetThreadCompactionState(key);
-          response = this.coerceResponseToForcedSilence(response);
-        }
-
-        const acceptedResponse = this.applyAgentResponse(key, response, 'directive', {
-          directiveTargetAgent: targetAgent,
-        });
-        responses[i] = acceptedResponse;
-
-        const input = directiveInputs[i];
-        this.recordContextInspectorTurn({
-          key,
-          roundNumber: this.roundNumber,
-          turnSource: 'directive',
-          managerContext: recoveredSnapshot.contextText,
-          fullPrompt: recoveredSnapshot.fullPrompt,
-          musicalContext: this.musicalContext,
-          currentPattern: input.currentPattern,
-          bandState: input.bandState,
-          audioFeedback: input.audioFeedback,
-          audioContextSummary: input.audioContextSummary,
-          directive: text,
-          targetAgent,
-          isBroadcastDirective: !targetAgent,
-          pendingCompactionBefore: input.pendingCompactionBefore,
-          noChangeStreakBefore: input.noChangeStreakBefore,
-          compactionAppliedThisTurn: false,
-          turnResult: turnResult
-            ? {
-              ...turnResult,
-              response,
-            }
-            : null,
-          acceptedResponse,
-        });
+      if (forceMuteTarget && targetAgent === key) {
+        this.mutedAgents.add(key);
+        this.resetThreadCompactionState(key);
+        response = this.coerceResponseToForcedSilence(response);
       }
 
-      const modelRelativeContextDelta = this.applyModelRelativeContextDeltaForDirectiveTurn({
-        responses,
-        deterministicContextDelta,
-        relativeContextCues,
+      const acceptedResponse = this.applyAgentResponse(key, response, 'directive', {
+        directiveTargetAgent: targetAgent,
+        directive: text,
       });
-      if (modelRelativeContextDelta) {
-        console.log('[AgentManager] Model-relative musical context updated:', modelRelativeContextDelta);
-      }
-
-      // Restart auto-tick after directive completes
-      this.startAutoTick();
+      responses[i] = acceptedResponse;
+
+      const input = directiveInputs[i];
+      this.recordContextInspectorTurn({
+        key,
+        roundNumber: this.roundNumber,
+        turnSource: 'directive',
+        managerContext: recoveredSnapshot.contextText,
+        fullPrompt: recoveredSnapshot.fullPrompt,
+        musicalContext: this.musicalContext,
+        currentPattern: input.currentPattern,
+        bandState: input.bandState,
+        audioFeedback: input.audioFeedback,
+        audioContextSummary: input.audioContextSummary,
+        directive: text,
+        targetAgent,
+        isBroadcastDirective: !targetAgent,
+        pendingCompactionBefore: input.pendingCompactionBefore,
+        noChangeStreakBefore: input.noChangeStreakBefore,
+        compactionAppliedThisTurn: false,
+        turnResult: turnResult
+          ? {
+            ...turnResult,
+            response,
+          }
+          : null,
+        acceptedResponse,
+      });
+    }
 
-      // Compose all patterns and broadcast
-      const changedAgents = this.computeChangedAgents(patternsBeforeTurn);
-      this.composeAndBroadcast('directive', changedAgents);
+    const modelRelativeContextDelta = this.applyModelRelativeContextDeltaForDirectiveTurn({
+      responses,
+      deterministicContextDelta,
+      relativeContextCues,
     });
+    if (modelRelativeContextDelta) {
+      console.log('[AgentManager] Model-relative musical context updated:', modelRelativeContextDelta);
+    }
+
+    // Restart auto-tick after directive completes
+    this.startAutoTick();
+
+    // Compose all patterns and broadcast
+    const changedAgents = this.computeChangedAgents(patternsBeforeTurn);
+    this.composeAndBroadcast('directive', changedAgents);
   }
 
   /**
@@ -741,26 +1358,24 @@ export class AgentProcessManager {
   async stop(): Promise<void> {
     this.stopped = true;
 
-    // Clear auto-tick timer
-    if (this.tickTimer) {
-      clearInterval(this.tickTimer);
-      this.tickTimer = null;
-    }
+    // Clear auto-tick and arrangement timers
+    this.clearAutoTickTimer();
+    this.autoTickArmed = false;
+    this.clearArrangementTimer();
 
     // Wait for any in-flight turn to finish before killing processes
     await this.turnInProgress.catch(() => {});
 
-    // Hard-stop guarantee: no interval may survive shutdown.
-    if (this.tickTimer) {
-      clearInterval(this.tickTimer);
-      this.tickTimer = null;
-    }
+    // Hard-stop guarantee: no timer may survive shutdown.
+    this.clearAutoTickTimer();
+    this.autoTickArmed = false;
+    this.clearArrangementTimer();
     this.tickScheduled = false;
     this.nextAutoTickAtMs = null;
 
     // Kill all active agent turns
-    const killPromises = Array.from(this.agents.values()).map((agent) =>
-      this.killProcess(agent)
+    const killPromises = Array.from(this.agents.keys()).map((key) =>
+      this.runner.cancelTurn(key)
     );
     await Promise.all(killPromises);
     this.agents.clear();
@@ -774,16 +1389,89 @@ export class AgentProcessManager {
     this.activeAgents = [];
     this.activatedAgents = [];
     this.mutedAgents.clear();
+    this.arrangement = null;
     this.sessionId = 'direct-0';
     this.turnInProgress = Promise.resolve();
     this.turnCounter = 0;
-    this.codexConfigOverrides = [];
+    this.runner.reset();
     this.jamStartMode = 'autonomous_opening';
     this.presetConfigured = true;
     this.latestAudioFeedback = null;
     this.agentContextWindows = {};
     this.pendingContextWindowsDelta = {};
     this.agentLastCompactionEvent = {};
+    this.agentRequests.clear();
+    this.agentRequestTurnScheduled = false;
+    this.mixer = {};
+    this.agentPatternHistory = {};
+    this.agentPendingRevertNotes = {};
+    this.agentPendingMeterNotes = {};
+    this.agentDensityNudgeRound = {};
+    this.agentLastPatternChanges = {};
+    this.directiveQueue.clear();
+    this.directiveTurns.clear();
+    this.activeTurn = null;
+    this.inFlightAutoTick = null;
+    this.pendingAutoTickPreemption = null;
+    this.resetUsage({ ...this.defaultBudget });
+    this.harmonyProposals.clear();
+  }
+
+  /**
+   * Resumable snapshot of the current session, or null when no session is live.
+   */
+  getSessionSnapshot(): JamSessionSnapshot | null {
+    if (this.stopped || this.sessionId === 'direct-0') return null;
+
+    const agents: Record<string, JamSessionSnapshotAgent> = {};
+    for (const key of this.activeAgents) {
+      const state = this.agentStates[key];
+      if (!state) continue;
+      agents[key] = {
+        pattern: this.agentPatterns[key] ?? '',
+        state: { ...state },
+        threadId: this.agents.get(key)?.threadId ?? null,
+        history: this.clonePatternHistory(key),
+        ...(this.agentDecisions[key] ? { decision: { ...this.agentDecisions[key] } } : {}),
+      };
+    }
+
+    return {
+      version: JAM_SESSION_SNAPSHOT_VERSION,
+      sessionId: this.sessionId,
+      savedAt: new Date().toISOString(),
+      round: this.roundNumber,
+      jamStartMode: this.jamStartMode,
+      presetConfigured: this.presetConfigured,
+      musicalContext: this.cloneMusicalContext(this.musicalContext),
+      activeAgents: [...this.activeAgents],
+      activatedAgents: [...this.activatedAgents],
+      mutedAgents: this.activatedAgents.filter((key) => this.mutedAgents.has(key)),
+      mixer: this.cloneMixer(),
+      autoTickSchedule: { ...this.autoTickSchedule },
+      usage: this.getUsageSnapshot(),
+      agents,
+      ...(this.arrangement
+        ? {
+          arrangement: {
+            sections: this.arrangement.getSections(),
+            ...this.arrangement.getPosition(Date.now()),
+          },
+        }
+        : {}),
+    };
+  }
+
+  private emitSnapshot(): void {
+    if (!this.onSnapshot) return;
+    const snapshot = this.getSessionSnapshot();
+    if (!snapshot) return;
+
+    try {
+      this.onSnapshot(snapshot);
+    } catch (err) {
+      console.error('[AgentManager] Failed to persist session snapshot:', err);
+    }
   }
 
   /**
@@ -794,6 +1482,12 @@ export class AgentProcessManager {
     for (const [key, state] of Object.entries(this.agentStates)) {
       agents[key] = { ...state };
     }
+    const harmonyProposals = this.harmonyProposals.list();
+    const harmony: Record<string, AgentHarmonyReport> = {};
+    for (const key of this.activeAgents) {
+      const report = this.getHarmonyReport(key, this.agentPatterns[key] ?? '');
+      if (report) harmony[key] = report;
+    }
 
     return {
       sessionId: this.sessionId,
@@ -807,10 +1501,28 @@ export class AgentProcessManager {
       activeAgents: [...this.activeAgents],
       activatedAgents: [...this.activatedAgents],
       mutedAgents: this.activatedAgents.filter((key) => this.mutedAgents.has(key)),
+      mixer: this.cloneMixer(),
+      patternHistory: Object.fromEntries(
+        this.activeAgents.map((key) => [key, this.clonePatternHistory(key)])
+      ),
       autoTick: this.getAutoTickTimingSnapshot(),
+      ...(this.arrangement ? { arrangement: this.arrangement.getState(Date.now()) } : {}),
+      usage: this.getUsageSnapshot(),
+      ...(harmonyProposals.length > 0 ? { harmonyProposals } : {}),
+      ...(Object.keys(harmony).length > 0 ? { harmony } : {}),
     };
   }
 
+  private cloneMixer(): Record<string, AgentMixChannel> {
+    return Object.fromEntries(
+      this.activeAgents.map((key) => [key, { ...(this.mixer[key] ?? createMixChannel()) }])
+    );
+  }
+
+  private clonePatternHistory(key: string): AgentPatternVersion[] {
+    return (this.agentPatternHistory[key] ?? []).map((entry) => ({ ...entry }));
+  }
+
   private cloneMusicalContext(context: MusicalContext): MusicalContext {
     return {
       ...context,
@@ -832,16 +1544,16 @@ export class AgentProcessManager {
   private buildBandStateEntryFromPattern(key: string, pattern: string): AgentContextBandStateEntry {
     return {
       agent: key,
-      line: formatBandStateLine(key, pattern),
+      line: formatBandStateLine(key, pattern, this.musicalContext.timeSignature),
       pattern,
-      patternSummary: summarizePattern(pattern),
+      patternSummary: summarizePattern(pattern, this.musicalContext.timeSignature),
     };
   }
 
-  private buildPromptForAgent(key: string, contextText: string): string {
+  private buildPromptForAgent(key: string, contextText: string, acceptsVotes = false): string {
     const agent = this.agents.get(key);
     if (!agent) return contextText;
-    return this.buildAgentTurnPrompt(agent, contextText);
+    return this.buildAgentTurnPrompt(agent, contextText, acceptsVotes);
   }
 
   private buildRawPromptSnapshot(fullPrompt: string) {
@@ -877,8 +1589,10 @@ export class AgentProcessManager {
   private determineTurnOutcome(params: {
     turnResult: AgentTurnResult | null;
     acceptedResponse: AgentResponse | null;
+    preemptedBy?: string;
   }): AgentTurnOutcome {
-    const { turnResult, acceptedResponse } = params;
+    const { turnResult, acceptedResponse, preemptedBy } = params;
+    if (preemptedBy !== undefined) return 'preempted';
     if (!turnResult) return 'missing_agent';
     if (acceptedResponse) return 'accepted';
     if (!turnResult.response) return 'empty_or_unparseable';
@@ -917,7 +1631,7 @@ export class AgentProcessManager {
         : {}),
       musicalContext: this.cloneMusicalContext(input.musicalContext),
       currentPattern: input.currentPattern,
-      currentPatternSummary: summarizePattern(input.currentPattern),
+      currentPatternSummary: summarizePattern(input.currentPattern, input.musicalContext.timeSignature),
       bandState: input.bandState.map((entry) => ({ ...entry })),
       ...(input.audioFeedback ? { audioFeedback: this.cloneAudioFeedback(input.audioFeedback)! } : {}),
       ...(input.audioContextSummary
@@ -928,7 +1642,9 @@ export class AgentProcessManager {
       outcome: this.determineTurnOutcome({
         turnResult: input.turnResult,
         acceptedResponse: input.acceptedResponse,
+        preemptedBy: input.preemptedBy,
       }),
+      ...(input.preemptedBy !== undefined ? { preemptedBy: input.preemptedBy } : {}),
       thread,
     };
 
@@ -946,7 +1662,7 @@ export class AgentProcessManager {
     this.pendingContextWindowsDelta[input.key] = this.cloneContextWindow(nextWindow);
   }
 
-  private consumeContextInspectorDelta(): JamStateDiagnostics | undefined {
+  private consumeContextInspectorDelta(): Record<string, AgentContextWindow> | undefined {
     if (!this.contextInspectorEnabled) return undefined;
     const keys = Object.keys(this.pendingContextWindowsDelta);
     if (keys.length === 0) return undefined;
@@ -958,11 +1674,51 @@ export class AgentProcessManager {
       delta[key] = this.cloneContextWindow(window);
     }
     this.pendingContextWindowsDelta = {};
-    return { agentContextWindowsDelta: delta };
+    return delta;
+  }
+
+  private consumeDiagnostics(): JamStateDiagnostics | undefined {
+    const agentContextWindowsDelta = this.consumeContextInspectorDelta();
+    const preemptedAutoTick = this.pendingAutoTickPreemption;
+    this.pendingAutoTickPreemption = null;
+    if (!agentContextWindowsDelta && !preemptedAutoTick) return undefined;
+    return {
+      ...(agentContextWindowsDelta ? { agentContextWindowsDelta } : {}),
+      ...(preemptedAutoTick ? { preemptedAutoTick } : {}),
+    };
   }
 
   // ─── Private: Session Setup ─────────────────────────────────────
 
+  private initializeAgentSessionState(key: string): void {
+    const meta = AGENT_META[key];
+    this.agentPatterns[key] = '';
+    this.agentStates[key] = {
+      name: meta.name,
+      emoji: meta.emoji,
+      pattern: '',
+      fallbackPattern: '',
+      thoughts: '',
+      status: 'idle',
+      lastUpdated: new Date().toISOString(),
+    };
+    this.agentDecisions[key] = undefined;
+    this.mixer[key] = createMixChannel();
+    this.agentPatternHistory[key] = [];
+    this.agentCommentaryState[key] = {
+      lastRound: null,
+      recentSignatures: [],
+    };
+    this.agentAutoTickNoChangeStreak[key] = 0;
+    this.agentPendingThreadCompaction[key] = false;
+    this.agentContextWindows[key] = {
+      agent: key,
+      updatedAt: new Date().toISOString(),
+      turns: [],
+    };
+    this.agentLastCompactionEvent[key] = undefined;
+  }
+
   private async spawnAgent(key: string): Promise<void> {
     const result = this.buildAgentSystemPrompt(key);
     if (!result) {
@@ -976,12 +1732,10 @@ export class AgentProcessManager {
       systemPrompt,
       model,
       threadId: null,
-      activeTurn: null,
-      activeTurnRl: null,
     });
     console.log(
-      `[AgentManager] Prepared Codex jam session for ${key} ` +
-      `(profile=${CODEX_JAM_PROFILE}, model=${model})`
+      `[AgentManager] Prepared jam session for ${key} ` +
+      `(runner=${this.runner.kind}, model=${model})`
     );
   }
 
@@ -999,8 +1753,8 @@ export class AgentProcessManager {
    * ignored in favor of the configured jam_agent profile default.
    */
   private buildAgentSystemPrompt(agentKey: string): { prompt: string; model: string } | null {
-    const agentFile = AGENT_KEY_TO_FILE[agentKey];
-    if (!agentFile) return null;
+    if (!isAgentRosterKey(agentKey)) return null;
+    const agentFile = AGENT_META[agentKey].file;
 
     const filePath = this.resolveAgentPromptPath(agentFile);
     if (!filePath) {
@@ -1035,6 +1789,11 @@ export class AgentProcessManager {
         '</agent_persona>',
       ];
 
+      const bandRoster = formatBandRosterForPrompt(agentKey, this.activeAgents);
+      if (bandRoster) {
+        promptParts.push('', bandRoster);
+      }
+
       if (SHARED_JAM_POLICY_PROMPT) {
         promptParts.push(
           '',
@@ -1072,39 +1831,8 @@ export class AgentProcessManager {
     }
   }
 
-  private buildCodexTurnArgs(agent: AgentProcess): string[] {
-    const args = agent.threadId
-      ? ['exec', 'resume', '--json', '--skip-git-repo-check', ...JAM_TOOLLESS_ARGS]
-      : [
-        'exec',
-        '--json',
-        '--profile',
-        CODEX_JAM_PROFILE,
-        '--skip-git-repo-check',
-        '--color',
-        'never',
-        ...JAM_TOOLLESS_ARGS,
-      ];
-
-    if (agent.model) {
-      args.push('--model', agent.model);
-    }
-
-    for (const override of this.codexConfigOverrides) {
-      args.push('-c', override);
-    }
-    args.push('-c', 'features.runtime_metrics=false');
-
-    if (agent.threadId) {
-      args.push(agent.threadId, '-');
-    } else {
-      args.push('-');
-    }
-
-    return args;
-  }
-
-  private buildAgentTurnPrompt(agent: AgentProcess, text: string): string {
+  // Votes are only read on auto-ticks, the one turn that lists open proposals
+  private buildAgentTurnPrompt(agent: AgentProcess, text: string, acceptsVotes = false): string {
     return [
       agent.systemPrompt,
       '',
@@ -1114,208 +1842,73 @@ export class AgentProcessManager {
       '',
       'Output only one JSON object.',
       'Required keys: pattern, thoughts.',
-      'Optional keys: commentary, decision (tempo_delta_pct, energy_delta, arrangement_intent, confidence, suggested_key, suggested_chords).',
+      'Optional keys: commentary, decision (tempo_delta_pct, energy_delta, arrangement_intent, confidence, suggested_key, suggested_chords), requests ([{"to": "<AGENT NAME>", "text": "..."}])'
+        + (acceptsVotes ? ', votes ([{"proposal": <id>, "vote": "endorse" | "object"}]).' : '.'),
       'commentary is an optional short band-chat line about feel/interplay/boss cues. Omit commentary instead of filler.',
       'Use decision only when relevant; omit decision or any field when not relevant or not confident.',
       'tempo_delta_pct is relative percent vs current BPM (positive=faster, negative=slower).',
       'energy_delta is relative energy steps (positive=more energy, negative=less energy).',
-      'suggested_key is a key string like "Eb major" or "D minor" — only when you feel a modulation is needed.',
+      'suggested_key is a key string like "Eb major", "D minor" or "A dorian" — only when you feel a modulation is needed.',
       'suggested_chords is an array like ["Am", "F", "C", "G"] — only when you want to propose a new progression.',
+      'Key and chord suggestions open a proposal for the band; they apply once enough bandmates endorse them or the boss approves.',
+      'requests asks one bandmate for something; omit it unless you genuinely need it (the boss outranks bandmates).',
+      ...(acceptsVotes
+        ? ['votes endorse or object to open harmony proposals, by the ids listed in your turn context; omit votes when none are open.']
+        : []),
     ].join('\n');
   }
 
   // ─── Private: Communication ──────────────────────────────────────
 
   /**
-   * Send one manager turn to a Codex-backed session and collect response text.
-   * Supports both Codex JSONL events and legacy stream-json fixtures used by tests.
-   */
-  private sendToAgentAndCollect(
-    key: string,
-    text: string,
-    promptOverride?: string
-  ): Promise<AgentTurnResult | null> {
-    const agent = this.agents.get(key);
-    if (!agent) {
-      console.error(`[AgentManager] No process for agent: ${key}`);
-      return Promise.resolve(null);
-    }
-
-    const threadIdBeforeTurn = agent.threadId;
-    const invocationMode: AgentTurnResult['invocationMode'] = threadIdBeforeTurn
-      ? 'resume'
-      : 'new_thread';
-
-    return new Promise((resolve) => {
-      const attemptTurn = (attempt: number): void => {
-        const args = this.buildCodexTurnArgs(agent);
-        const proc = spawn('codex', args, {
-          cwd: this.workingDir,
-          stdio: ['pipe', 'pipe', 'pipe'],
-          env: {
-            ...process.env,
-            JAM_AGENT_KEY: key,
-          },
-        });
-        const rl = readline.createInterface({
-          input: proc.stdout!,
-          crlfDelay: Infinity,
-        });
-        agent.activeTurn = proc;
-        agent.activeTurnRl = rl;
-
-        const timeout = setTimeout(() => {
-          console.warn(
-            `[Agent:${key}] Response timeout after ${JAM_GOVERNANCE.AGENT_TIMEOUT_MS}ms`
-          );
-          if (!proc.killed) {
-            proc.kill('SIGTERM');
-          }
-          finish();
-        }, JAM_GOVERNANCE.AGENT_TIMEOUT_MS);
-
-        let fullText = '';
-        let settled = false;
-        let parseState = { saw_assistant_delta: false };
-        let lastCodexError: string | null = null;
-        let transportError = false;
-
-        const onLine = (line: string) => {
-          if (!line.trim()) return;
-          try {
-            const msg = JSON.parse(line) as Record<string, unknown>;
-            const legacyMessage = msg.message as {
-              content?: Array<{ type?: string; text?: string }>;
-            } | undefined;
-
-            // Backward-compatible stream-json handling (used heavily in tests).
-            if (msg.type === 'assistant' && legacyMessage?.content) {
-              const content = legacyMessage.content;
-              for (const block of content) {
-                if (block.type === 'text' && block.text) {
-                  fullText += block.text;
-                }
-              }
-              return;
-            } else if (msg.type === 'result') {
-              finish();
-              return;
-            }
-
-            if (msg.type === 'thread.started' && typeof msg.thread_id === 'string') {
-              agent.threadId = msg.thread_id;
-            }
-
-            const mapped = map_codex_event_to_runtime_events(msg, parseState);
-            parseState = mapped.next_state;
-            for (const event of mapped.events) {
-              if (event.type === 'text') {
-                fullText += event.text;
-              } else if (event.type === 'error') {
-                const formatted = this.formatCodexErrorForLog(event.error);
-                if (formatted !== lastCodexError) {
-                  console.error(`[Agent:${key}] Codex turn failed: ${formatted}`);
-                }
-                lastCodexError = formatted;
-              }
-            }
-            if (mapped.turn_completed) {
-              finish();
-            }
-          } catch {
-            // Non-JSON line (or partial line) — ignore.
-          }
-        };
-
-        const cleanup = () => {
-          clearTimeout(timeout);
-          rl.removeListener('line', onLine);
-          rl.close();
-          agent.activeTurn = null;
-          agent.activeTurnRl = null;
-        };
-
-        const finish = () => {
-          if (settled) return;
-          settled = true;
-          cleanup();
-
-          const response = this.parseAgentResponse(fullText, key);
-          if (transportError && attempt < 1) {
-            attemptTurn(attempt + 1);
-            return;
-          }
-
-          resolve({
-            response,
-            invocationMode,
-            threadIdBefore: threadIdBeforeTurn,
-            threadIdAfter: agent.threadId,
-          });
-        };
-
-        rl.on('line', onLine);
-
-        proc.stderr?.on('data', (data) => {
-          const text = data.toString().trim();
-          if (!text) return;
-
-          if (this.isCodexTransportError(text)) {
-            transportError = true;
-            console.error(`[Agent:${key}] Codex transport error: ${text}`);
-            if (!proc.killed) {
-              proc.kill('SIGTERM');
-            }
-            finish();
-            return;
-          }
-
-          if (this.isNonFatalCodexCacheTtlWarning(text)) {
-            if (!this.cacheTtlWarnedAgents.has(key)) {
-              this.cacheTtlWarnedAgents.add(key);
-              console.warn(`[Agent:${key}] Non-fatal Codex cache warning: ${text}`);
-            }
-            return;
-          }
-          console.error(`[Agent:${key} stderr]:`, text);
-        });
-
-        proc.on('error', (err) => {
-          console.error(`[Agent:${key}] Process error:`, err);
-          this.setAgentStatus(key, 'error');
-        });
+   * Send one manager turn to an agent session through the configured runner
+   * and parse the collected response text.
+   */
+  private async sendToAgentAndCollect(
+    key: string,
+    text: string,
+    promptOverride?: string
+  ): Promise<AgentTurnResult | null> {
+    const agent = this.agents.get(key);
+    if (!agent) {
+      console.error(`[AgentManager] No process for agent: ${key}`);
+      return null;
+    }
 
-        proc.on('exit', (code, signal) => {
-          console.log(
-            `[Agent:${key}] Turn exited (attempt ${attempt + 1}): code=${code}, signal=${signal}`
-          );
-          if (
-            !transportError &&
-            typeof code === 'number' &&
-            code !== 0
-          ) {
-            if (lastCodexError) {
-              console.warn(
-                `[Agent:${key}] Session became unavailable after non-zero exit (${code}). ` +
-                `Last Codex error: ${lastCodexError}`
-              );
-            } else {
-              console.warn(`[Agent:${key}] Session became unavailable after non-zero exit (${code})`);
-            }
-            this.agents.delete(key);
-            this.setAgentStatus(key, 'error');
-          }
-          finish();
-        });
+    const threadIdBeforeTurn = agent.threadId;
+    const invocationMode: AgentTurnResult['invocationMode'] = threadIdBeforeTurn
+      ? 'resume'
+      : 'new_thread';
 
-        const prompt = promptOverride ?? this.buildAgentTurnPrompt(agent, text);
-        proc.stdin?.write(prompt);
-        proc.stdin?.write('\n');
-        proc.stdin?.end();
-      };
+    const startedAtMs = Date.now();
+    const output = await this.runner.runTurn(
+      {
+        agentKey: key,
+        prompt: promptOverride ?? this.buildAgentTurnPrompt(agent, text),
+        threadId: threadIdBeforeTurn,
+        model: agent.model,
+      },
+      {
+        onAgentError: (agentKey) => this.setAgentStatus(agentKey, 'error'),
+        onSessionLost: (agentKey) => {
+          this.agents.delete(agentKey);
+          this.setAgentStatus(agentKey, 'error');
+        },
+      }
+    );
+    // Aborted turns still cost model time, so they are metered too
+    this.recordTurnUsage(key, output.metrics, Date.now() - startedAtMs);
+    // An aborted auto-tick turn may have half-written a new thread; keep the
+    // one the agent had so its conversation stays intact
+    if (this.inFlightAutoTick?.preempted.has(key)) return null;
+    agent.threadId = output.threadId;
 
-      attemptTurn(0);
-    });
+    return {
+      response: this.parseAgentResponse(output.text, key),
+      invocationMode,
+      threadIdBefore: threadIdBeforeTurn,
+      threadIdAfter: agent.threadId,
+    };
   }
 
   private validateAgentResponseShape(value: unknown, key: string): AgentResponse | null {
@@ -1346,9 +1939,22 @@ export class AgentProcessManager {
       thoughts: parsed.thoughts,
       commentary,
       decision: this.normalizeDecisionBlock(parsed.decision),
+      requests: this.normalizeResponseRequests(parsed.requests, key),
+      votes: this.normalizeResponseVotes(parsed.votes),
     };
   }
 
+  private normalizeResponseVotes(value: unknown): HarmonyProposalVote[] | undefined {
+    const votes = normalizeHarmonyProposalVotes(value);
+    return votes.length > 0 ? votes : undefined;
+  }
+
+  private normalizeResponseRequests(value: unknown, key: string): AgentBandRequest[] | undefined {
+    if (value === undefined) return undefined;
+    const requests = normalizeAgentRequests(value, key, this.activeAgents);
+    return requests.length > 0 ? requests : undefined;
+  }
+
   private normalizeNumericDecisionValue(
     value: unknown,
     min: number,
@@ -1375,16 +1981,8 @@ export class AgentProcessManager {
 
   private normalizeSuggestedKey(value: unknown): string | undefined {
     if (typeof value !== 'string') return undefined;
-    const match = value.trim().match(/^([A-Ga-g])([bB#]?)\s+(major|minor)$/i);
-    if (!match) return undefined;
-
-    const root = match[1].toUpperCase();
-    const accidental = match[2] === 'B' ? 'b' : match[2];
-    const quality = match[3].toLowerCase();
-    const normalized = `${root}${accidental} ${quality}`;
-
-    // Reuse parser validation so accepted suggestions are actually applicable.
-    return deriveScale(normalized) ? normalized : undefined;
+    // Parser normalization only yields keys deriveScale can apply.
+    return normalizeKeyName(value) ?? undefined;
   }
 
   private normalizeDecisionBlock(value: unknown): StructuredMusicalDecision | undefined {
@@ -1602,101 +2200,83 @@ export class AgentProcessManager {
   }
 
   /**
-   * Process agent key/chord suggestions from decision blocks.
-   * - Key: only applied if 2+ agents suggest the same key (consensus).
-   * - Chords: only applied if a single agent suggests with high confidence.
+   * Process agent key/chord suggestions and proposal votes from an auto-tick.
+   * - Suggestions (high confidence only) open or endorse harmony proposals.
+   * - A proposal applies once KEY_CONSENSUS_MIN_AGENTS / CHORD_CONSENSUS_MIN_AGENTS
+   *   agents support it; the boss can approve one earlier.
    * When a key change is applied, scale and chords are auto-derived.
    */
   private applyContextSuggestions(
+    keys: string[],
     responses: Array<AgentResponse | null>
   ): Partial<MusicalContext> | null {
-    const changes: Partial<MusicalContext> = {};
+    responses.forEach((response, index) => {
+      const agent = keys[index];
+      if (!response || !agent) return;
 
-    // Collect high-confidence key suggestions and count consensus.
-    // Key modulation mutates global harmonic context, so we gate it more strictly
-    // than presence-only suggestions.
-    const keyCounts = new Map<string, number>();
-    for (const response of responses) {
-      const decision = response?.decision;
-      const key = decision?.suggested_key;
-      if (!key || decision.confidence !== 'high') continue;
-      const normalized = key.trim();
-      keyCounts.set(normalized, (keyCounts.get(normalized) || 0) + 1);
-    }
-
-    // Apply key if 2+ agents agree
-    let keyApplied = false;
-    keyCounts.forEach((count, suggestedKey) => {
-      if (keyApplied) return;
-      if (count >= JAM_GOVERNANCE.KEY_CONSENSUS_MIN_AGENTS && suggestedKey !== this.musicalContext.key) {
-        const scale = deriveScale(suggestedKey);
-        if (scale) {
-          changes.key = suggestedKey;
-          changes.scale = scale;
-          // C (hybrid) continuity fallback (MCP-04 / bsj-7k4.15):
-          // Auto-derive minimal diatonic chords so the jam has a valid
-          // progression immediately after a key change. Agents may
-          // override with genre-specific chords on subsequent turns
-          // via suggested_chords.
-          const chords = deriveChordProgression(suggestedKey);
-          if (chords) {
-            changes.chordProgression = chords;
-          }
-          keyApplied = true;
-        }
+      for (const vote of response.votes ?? []) {
+        this.harmonyProposals.vote(vote.proposal, agent, vote.vote);
+      }
+
+      const decision = response.decision;
+      if (decision?.confidence !== 'high') return;
+      if (decision.suggested_key && decision.suggested_key !== this.musicalContext.key) {
+        this.harmonyProposals.suggest({ kind: 'key', key: decision.suggested_key }, agent, this.roundNumber);
+      }
+      if (decision.suggested_chords) {
+        this.harmonyProposals.suggest({ kind: 'chords', chords: decision.suggested_chords }, agent, this.roundNumber);
       }
     });
 
-    // Apply chord suggestions (high confidence only, skip if key was just changed).
-    // When a key change is applied above, the auto-derived fallback chords take
-    // precedence on this turn. This prevents a stale chord suggestion (targeting
-    // the old key) from overriding the freshly derived progression. Agents can
-    // suggest genre-appropriate chords on the next turn once they see the new key.
-    if (!keyApplied) {
-      for (const response of responses) {
-        const decision = response?.decision;
-        if (!decision?.suggested_chords || decision.confidence !== 'high') continue;
-        changes.chordProgression = decision.suggested_chords;
-        break; // first high-confidence suggestion wins
+    // A key change wins over chords on the same turn
+    const ready = this.harmonyProposals.settle(this.roundNumber);
+    const proposal = ready.find((entry) => entry.kind === 'key') ?? ready[0];
+    return proposal ? this.applyHarmonyProposal(proposal, 'band') : null;
+  }
+
+  /**
+   * Apply an accepted harmony proposal. A key change derives its scale and a
+   * fallback progression, and supersedes open chord proposals written for the
+   * old key.
+   */
+  private applyHarmonyProposal(proposal: HarmonyProposal, by: 'band' | 'boss'): Partial<MusicalContext> | null {
+    const changes: Partial<MusicalContext> = {};
+
+    if (proposal.kind === 'key' && proposal.key) {
+      const scale = deriveScale(proposal.key);
+      if (!scale) {
+        this.harmonyProposals.reject(proposal.id, this.roundNumber, by);
+        return null;
+      }
+      changes.key = proposal.key;
+      changes.scale = scale;
+      // C (hybrid) continuity fallback (MCP-04 / bsj-7k4.15):
+      // Auto-derive minimal diatonic chords so the jam has a valid
+      // progression immediately after a key change. Agents may
+      // override with genre-specific chords on subsequent turns
+      // via suggested_chords.
+      const chords = deriveChordProgression(proposal.key);
+      if (chords) {
+        changes.chordProgression = chords;
       }
+    } else if (proposal.kind === 'chords' && proposal.chords) {
+      changes.chordProgression = [...proposal.chords];
+    } else {
+      return null;
     }
 
-    if (Object.keys(changes).length === 0) return null;
+    this.harmonyProposals.markApplied(proposal.id, this.roundNumber, by);
+    this.harmonyProposals.supersede(proposal.kind, this.roundNumber);
+    if (proposal.kind === 'key') {
+      this.harmonyProposals.supersede('chords', this.roundNumber);
+    }
+    console.log(`[AgentManager] Harmony proposal #${proposal.id} applied by ${by}: ${formatHarmonyProposalValue(proposal)}`);
 
     this.musicalContext = { ...this.musicalContext, ...changes };
     this.broadcastWs('musical_context_update', { musicalContext: { ...this.musicalContext } });
     return changes;
   }
 
-  private formatCodexErrorForLog(raw: string): string {
-    const trimmed = raw.trim();
-    if (!trimmed) return 'unknown error';
-
-    try {
-      // Log-only formatting for operator diagnostics; websocket/user error surfacing
-      // still uses the runtime event payloads and does not depend on this rewrite.
-      const parsed = JSON.parse(trimmed) as {
-        message?: unknown;
-        error?: { message?: unknown; param?: unknown; code?: unknown };
-      };
-      const baseMessage =
-        typeof parsed.error?.message === 'string'
-          ? parsed.error.message
-          : typeof parsed.message === 'string'
-            ? parsed.message
-            : trimmed;
-      const paramSuffix = typeof parsed.error?.param === 'string'
-        ? ` (param=${parsed.error.param})`
-        : '';
-      const codeSuffix = typeof parsed.error?.code === 'string'
-        ? ` [${parsed.error.code}]`
-        : '';
-      return `${baseMessage}${paramSuffix}${codeSuffix}`;
-    } catch {
-      return trimmed.replace(/\s+/g, ' ');
-    }
-  }
-
   /**
    * Parse raw text response into AgentResponse JSON.
    * Handles markdown code fences and extracts JSON.
@@ -1734,15 +2314,6 @@ export class AgentProcessManager {
     return null;
   }
 
-  private isNonFatalCodexCacheTtlWarning(text: string): boolean {
-    return /failed to renew cache TTL: EOF while parsing a value at line 1 column 0/i.test(text);
-  }
-
-  private isCodexTransportError(text: string): boolean {
-    return /failed to connect to websocket/i.test(text) &&
-      /(connection reset by peer|os error 54|io error|econnreset)/i.test(text);
-  }
-
   private resetThreadCompactionState(key: string): void {
     this.agentAutoTickNoChangeStreak[key] = 0;
     this.agentPendingThreadCompaction[key] = false;
@@ -1860,6 +2431,7 @@ export class AgentProcessManager {
           bandStateLines: openingBandState.map((entry) => entry.line),
           audioFeedback,
           audioContextSummary,
+          arrangement: this.arrangement?.getState(Date.now()),
         });
 
         const fullPrompt = this.buildPromptForAgent(key, context);
@@ -1919,13 +2491,14 @@ export class AgentProcessManager {
     if (this.mutedAgents.has(k)) {
       return formatBandStateLine(k, 'silence');
     }
-    return formatBandStateLine(k, this.agentPatterns[k] || 'silence');
+    return formatBandStateLine(k, this.agentPatterns[k] || 'silence', this.musicalContext.timeSignature);
   }
 
   private buildDirectiveContext(
     key: string,
     directive: string,
     targetAgent: string | undefined,
+    notes: DirectiveTurnNotes,
     audioFeedbackOverride?: AudioFeatureSnapshot,
     audioContextSummaryOverride?: AudioContextSummary
   ): string {
@@ -1946,8 +2519,12 @@ export class AgentProcessManager {
       isBroadcast,
       currentPattern: this.agentPatterns[key] || 'silence',
       bandStateLines,
+      bandmateChangeLines: this.getBandmateChangeLines(key),
       audioFeedback,
       audioContextSummary,
+      arrangement: this.arrangement?.getState(Date.now()),
+      revert: notes.revert,
+      meterLines: formatMeterNoteForPrompt(notes.meterNote, ctx.timeSignature, key),
     });
   }
 
@@ -1988,18 +2565,60 @@ export class AgentProcessManager {
     return `invalid pattern (${patternFailure})`;
   }
 
+  // Located problems in a rejected pattern, for the repair prompt
+  private getPatternIssueLinesForRetry(response: AgentResponse | null): string[] {
+    const pattern = response?.pattern;
+    if (!pattern || pattern === 'silence' || pattern === 'no_change') return [];
+    const validation = validatePatternForJam(this.sanitizePatternCandidate(pattern));
+    if (validation.valid || !validation.code || !validation.issues) return [];
+    return formatPatternValidationIssuesForPrompt(validation.code, validation.issues);
+  }
+
+  private getHarmonyReport(key: string, pattern: string): AgentHarmonyReport | null {
+    // Drum kits are unpitched; note() there is usually tuned percussion
+    if (AGENT_META[key]?.patternFamily === 'drums') return null;
+    return analyzePatternHarmony(pattern, this.musicalContext);
+  }
+
+  /** Out-of-key note names in a response's note layers; [] when it cannot be checked. */
+  private getOutOfKeyNotes(key: string, response: AgentResponse | null): string[] {
+    if (!response) return [];
+    const report = this.getHarmonyReport(key, this.sanitizePatternCandidate(response.pattern || 'silence'));
+    return report?.outOfKey ?? [];
+  }
+
+  /**
+   * Repair reason for a response whose note layers leave the key on more
+   * than a passing tone; null when it conforms or cannot be checked.
+   */
+  private getHarmonyRepairReason(key: string, response: AgentResponse | null, directive: string): string | null {
+    // The boss asked for outside colour: off-key notes are what they wanted
+    if (directiveInvitesOutsideNotes(directive)) return null;
+    const outOfKey = this.getOutOfKeyNotes(key, response);
+    if (outOfKey.length < JAM_GOVERNANCE.HARMONY_REPAIR_MIN_OUT_OF_KEY) return null;
+    return `out-of-key notes ${outOfKey.join(', ')} for ${this.musicalContext.key}`;
+  }
+
   private buildDirectiveRepairContext(
     key: string,
     directive: string,
     targetAgent: string | undefined,
-    rejectReason: string
+    notes: DirectiveTurnNotes,
+    rejectReason: string,
+    offKey = false,
+    patternIssueLines: string[] = []
   ): string {
-    const base = this.buildDirectiveContext(key, directive, targetAgent);
+    const base = this.buildDirectiveContext(key, directive, targetAgent, notes);
+    const { key: musicalKey, scale } = this.musicalContext;
     return [
       base,
       '',
       'RETRY NOTICE: Your previous response was rejected by runtime validation.',
       `Rejection reason: ${rejectReason}`,
+      ...patternIssueLines,
+      ...(offKey
+        ? [`Keep note() pitches in ${musicalKey} (${scale.join(' ')}) unless the boss asked for outside notes.`]
+        : []),
       'Output only one JSON object with required keys pattern and thoughts.',
       'Ensure valid Strudel syntax (balanced mini delimiters and closed method chains).',
       'If syntax confidence is low, return "no_change" for pattern.',
@@ -2009,16 +2628,20 @@ export class AgentProcessManager {
   private async recoverDirectiveResponseIfNeeded(params: {
     key: string;
     snapshot: DirectiveAttemptSnapshot;
+    notes: DirectiveTurnNotes;
     directive: string;
     targetAgent: string | undefined;
   }): Promise<DirectiveAttemptSnapshot> {
     const {
       key,
       snapshot,
+      notes,
       directive,
       targetAgent,
     } = params;
-    const rejectReason = this.getResponseRejectReasonForRetry(key, snapshot.turnResult?.response ?? null);
+    const response = snapshot.turnResult?.response ?? null;
+    const invalidReason = this.getResponseRejectReasonForRetry(key, response);
+    const rejectReason = invalidReason ?? this.getHarmonyRepairReason(key, response, directive);
     if (!rejectReason) return snapshot;
 
     console.warn(`[Agent:${key}] Directive response rejected (${rejectReason}). Retrying once.`);
@@ -2027,12 +2650,23 @@ export class AgentProcessManager {
       key,
       directive,
       targetAgent,
-      rejectReason
+      notes,
+      rejectReason,
+      invalidReason === null,
+      invalidReason ? this.getPatternIssueLinesForRetry(response) : []
     );
     const retryPrompt = this.buildPromptForAgent(key, retryContext);
     const retryTurnResult = await this.sendToAgentAndCollect(key, retryContext, retryPrompt);
     const retryRejectReason = this.getResponseRejectReasonForRetry(key, retryTurnResult?.response ?? null);
     if (!retryRejectReason) {
+      // A harmony retry only replaces the first answer when it moved closer to the key
+      const retryOutOfKey = this.getOutOfKeyNotes(key, retryTurnResult?.response ?? null);
+      if (invalidReason === null && retryOutOfKey.length >= this.getOutOfKeyNotes(key, response).length) {
+        console.warn(
+          `[Agent:${key}] Directive retry still off key (${retryOutOfKey.join(', ')}). Keeping the first answer.`
+        );
+        return snapshot;
+      }
       return {
         turnResult: retryTurnResult,
         contextText: retryContext,
@@ -2040,6 +2674,12 @@ export class AgentProcessManager {
       };
     }
 
+    // The first answer was valid and only off key: it still beats the old groove
+    if (invalidReason === null) {
+      console.warn(`[Agent:${key}] Directive retry rejected (${retryRejectReason}). Keeping the first answer.`);
+      return snapshot;
+    }
+
     console.warn(`[Agent:${key}] Directive retry rejected (${retryRejectReason}). Keeping previous groove.`);
     return {
       turnResult: retryTurnResult,
@@ -2048,17 +2688,180 @@ export class AgentProcessManager {
     };
   }
 
+  // ─── Private: Arrangement ──────────────────────────────────────
+
+  private getCyclesPerMinute(): number {
+    return deriveCyclesPerMinute(this.musicalContext.bpm, this.musicalContext.timeSignature);
+  }
+
+  private clearArrangementTimer(): void {
+    if (this.arrangementTimer) {
+      clearTimeout(this.arrangementTimer);
+      this.arrangementTimer = null;
+    }
+  }
+
+  /**
+   * Count bars up to now at the current tempo and re-arm the boundary timer.
+   * The clock starts with the first audible pattern, so a staged-silent jam
+   * does not use up its intro before anyone plays.
+   */
+  private syncArrangementClock(combinedPattern: string): void {
+    const clock = this.arrangement;
+    if (!clock || this.stopped) return;
+    if (!clock.isRunning && combinedPattern === 'silence') return;
+
+    const starting = !clock.isRunning;
+    clock.sync(Date.now(), this.getCyclesPerMinute());
+    if (starting) {
+      this.applyArrangementSectionContext();
+    }
+    this.scheduleArrangementBoundary();
+  }
+
+  private scheduleArrangementBoundary(): void {
+    this.clearArrangementTimer();
+    const msUntilNext = this.arrangement?.msUntilNextSection(Date.now()) ?? null;
+    if (this.stopped || msUntilNext === null) return;
+
+    this.arrangementTimer = setTimeout(() => {
+      this.arrangementTimer = null;
+      this.enqueueTurn('arrangement-section', async () => {
+        const clock = this.arrangement;
+        if (this.stopped || !clock) return;
+        clock.sync(Date.now(), this.getCyclesPerMinute());
+        if (clock.advanceDue()) {
+          this.enterArrangementSection();
+        } else {
+          // Tempo changed while this turn was queued
+          this.scheduleArrangementBoundary();
+        }
+      }).catch((err) => {
+        console.error('[AgentManager] Arrangement advance error:', err);
+      });
+    }, msUntilNext);
+  }
+
+  /**
+   * Apply the current section, broadcast it, and run an auto-tick right away
+   * so the band moves with the change instead of up to one tick interval later.
+   */
+  private enterArrangementSection(): void {
+    const clock = this.arrangement;
+    if (!clock || this.stopped) return;
+
+    console.log(
+      `[AgentManager] Arrangement section ${clock.currentIndex + 1}: ` +
+      formatArrangementSectionLabel(clock.currentSection)
+    );
+    this.applyArrangementSectionContext();
+    this.scheduleArrangementBoundary();
+    this.broadcastJamStatePayload(this.composePatterns());
+
+    if (!this.presetConfigured) return;
+    this.startAutoTick();
+    this.fireAutoTick();
+  }
+
+  /** Section energy (and key/chords when given) become the shared musical context. */
+  private applyArrangementSectionContext(): void {
+    const section = this.arrangement?.currentSection;
+    if (!section) return;
+
+    const changes: Partial<MusicalContext> = { energy: section.energy };
+    if (section.key && section.key !== this.musicalContext.key) {
+      const scale = deriveScale(section.key);
+      if (scale) {
+        changes.key = section.key;
+        changes.scale = scale;
+        const chords = deriveChordProgression(section.key);
+        if (chords) {
+          changes.chordProgression = chords;
+        }
+      }
+    }
+    if (section.chords && section.chords.length > 0) {
+      changes.chordProgression = [...section.chords];
+    }
+
+    this.musicalContext = { ...this.musicalContext, ...changes };
+    this.broadcastWs('musical_context_update', { musicalContext: { ...this.musicalContext } });
+  }
+
+  // ─── Private: Usage & Budget ────────────────────────────────────
+
+  private resetUsage(budget: JamSessionBudget): void {
+    this.sessionBudget = budget;
+    this.sessionUsage = createUsageTotals();
+    this.agentUsage = {};
+    this.budgetState = 'ok';
+  }
+
+  private getUsageSnapshot(): JamUsageSnapshot {
+    return buildUsageSnapshot(this.sessionUsage, this.agentUsage, this.sessionBudget);
+  }
+
+  private recordTurnUsage(key: string, metrics: RuntimeTurnMetrics | undefined, durationMs: number): void {
+    if (this.stopped) return;
+    const turn = getTurnUsage(metrics, durationMs, this.tokenPricing);
+    this.sessionUsage = addUsageTotals(this.sessionUsage, turn);
+    this.agentUsage[key] = addUsageTotals(this.agentUsage[key] ?? createUsageTotals(), turn);
+    this.updateBudgetState();
+  }
+
+  /**
+   * Re-evaluate the governor after usage or the budget changed. A new state
+   * re-arms auto-tick under it: stretched, held, or back to normal.
+   */
+  private updateBudgetState(): void {
+    const next = getBudgetState(getBudgetUsedFraction(this.sessionUsage, this.sessionBudget));
+    if (next === this.budgetState) return;
+
+    console.log(`[AgentManager] Session budget state: ${this.budgetState} -> ${next}`);
+    this.budgetState = next;
+    if (this.autoTickArmed) {
+      this.startAutoTick();
+    }
+  }
+
   // ─── Private: Auto-Tick ─────────────────────────────────────────
 
   private resetAutoTickDeadline(): void {
-    this.nextAutoTickAtMs = Date.now() + JAM_GOVERNANCE.AUTO_TICK_INTERVAL_MS;
+    this.nextAutoTickAtMs = Date.now() + (this.getMsUntilSectionTick() ?? this.getAutoTickIntervalMs());
+  }
+
+  private getAutoTickIntervalMs(): number {
+    const intervalMs = getAutoTickIntervalMs(this.autoTickSchedule, this.getCyclesPerMinute());
+    return this.budgetState === 'slowed'
+      ? Math.round(intervalMs * JAM_GOVERNANCE.BUDGET_SLOWDOWN_FACTOR)
+      : intervalMs;
+  }
+
+  /**
+   * Section mode ticks on the arrangement boundary (enterArrangementSection
+   * fires it); null while no boundary is ahead, so the interval takes over.
+   */
+  private getMsUntilSectionTick(): number | null {
+    if (this.autoTickSchedule.mode !== 'section') return null;
+    return this.arrangement?.msUntilNextSection(Date.now()) ?? null;
   }
 
   private getAutoTickTimingSnapshot(): AutoTickTiming {
+    // Section-driven countdowns span the current section
+    const sectionClock = this.getMsUntilSectionTick() !== null ? this.arrangement : null;
+    const intervalMs = sectionClock
+      ? Math.round((sectionClock.currentSection.bars / this.getCyclesPerMinute()) * 60_000)
+      : this.getAutoTickIntervalMs();
     return {
-      intervalMs: JAM_GOVERNANCE.AUTO_TICK_INTERVAL_MS,
+      intervalMs,
       nextTickAtMs: this.nextAutoTickAtMs,
       serverNowMs: Date.now(),
+      schedule: { ...this.autoTickSchedule },
+      nextAgents: pickAutoTickTargets(
+        this.autoTickSchedule,
+        this.getAutoTickActiveTargets(),
+        this.autoTickRoundRobinCursor
+      ),
     };
   }
 
@@ -2072,6 +2875,16 @@ export class AgentProcessManager {
     return this.activatedAgents.filter((key) => this.agents.has(key) && !this.mutedAgents.has(key));
   }
 
+  /** Agents for the next scheduled tick; advances the round-robin rotation. */
+  private takeScheduledAutoTickTargets(): string[] {
+    const activeTargets = this.getAutoTickActiveTargets();
+    const targets = pickAutoTickTargets(this.autoTickSchedule, activeTargets, this.autoTickRoundRobinCursor);
+    if (this.autoTickSchedule.mode === 'round_robin' && activeTargets.length > 0) {
+      this.autoTickRoundRobinCursor = (this.autoTickRoundRobinCursor + 1) % activeTargets.length;
+    }
+    return targets;
+  }
+
   private broadcastAutoTickFired(round: number, activeAgents: string[]): void {
     if (activeAgents.length === 0) return;
 
@@ -2084,38 +2897,103 @@ export class AgentProcessManager {
     });
   }
 
-  private startAutoTick(): void {
+  private clearAutoTickTimer(): void {
     if (this.tickTimer) {
-      clearInterval(this.tickTimer);
+      clearTimeout(this.tickTimer);
       this.tickTimer = null;
     }
+  }
+
+  private startAutoTick(): void {
+    this.clearAutoTickTimer();
     if (this.stopped) {
+      this.autoTickArmed = false;
+      this.nextAutoTickAtMs = null;
+      return;
+    }
+
+    this.autoTickArmed = true;
+    this.armAutoTickTimer();
+  }
+
+  /**
+   * Set the next deadline for the current schedule and broadcast it. Each
+   * tick re-arms from the tempo at that moment, so bar-based modes follow
+   * BPM changes.
+   */
+  private armAutoTickTimer(): void {
+    // A spent budget holds autonomous rounds until the boss raises it
+    if (this.budgetState === 'paused') {
       this.nextAutoTickAtMs = null;
+      this.broadcastAutoTickTiming();
+      return;
+    }
+
+    const msUntilSection = this.getMsUntilSectionTick();
+    if (msUntilSection !== null) {
+      this.nextAutoTickAtMs = Date.now() + msUntilSection;
+      this.broadcastAutoTickTiming();
       return;
     }
 
-    this.resetAutoTickDeadline();
+    const delayMs = this.getAutoTickIntervalMs();
+    this.autoTickArmedCyclesPerMinute = this.getCyclesPerMinute();
+    this.nextAutoTickAtMs = Date.now() + delayMs;
     this.broadcastAutoTickTiming();
 
-    this.tickTimer = setInterval(() => {
+    this.tickTimer = setTimeout(() => {
+      this.tickTimer = null;
       if (this.stopped) {
         this.nextAutoTickAtMs = null;
         return;
       }
-      this.resetAutoTickDeadline();
-      this.broadcastAutoTickTiming();
-      if (this.tickScheduled) return;
-      const activeTargets = this.getAutoTickActiveTargets();
-      this.broadcastAutoTickFired(this.roundNumber + 1, activeTargets);
-      this.tickScheduled = true;
-      this.sendAutoTick(activeTargets)
-        .catch((err) => {
-          console.error('[AgentManager] Auto-tick error:', err);
-        })
-        .finally(() => {
-          this.tickScheduled = false;
-        });
-    }, JAM_GOVERNANCE.AUTO_TICK_INTERVAL_MS);
+      const targets = this.takeScheduledAutoTickTargets();
+      this.armAutoTickTimer();
+      this.fireAutoTick(targets);
+    }, delayMs);
+  }
+
+  /**
+   * Re-arm after a tempo or arrangement change so the countdown matches the
+   * music: bar-based modes when the tempo moved, section mode when the next
+   * boundary appeared, moved, or went away.
+   */
+  private syncAutoTickTimer(): void {
+    if (!this.autoTickArmed || this.stopped || this.budgetState === 'paused') return;
+
+    const msUntilSection = this.getMsUntilSectionTick();
+    if (msUntilSection !== null) {
+      const deadline = Date.now() + msUntilSection;
+      if (this.tickTimer || Math.abs(deadline - (this.nextAutoTickAtMs ?? 0)) > AUTO_TICK_RESYNC_TOLERANCE_MS) {
+        this.startAutoTick();
+      }
+      return;
+    }
+    if (this.autoTickSchedule.mode === 'section' && !this.tickTimer) {
+      this.startAutoTick();
+      return;
+    }
+    if (
+      isTempoRelativeSchedule(this.autoTickSchedule)
+      && this.tickTimer
+      && this.autoTickArmedCyclesPerMinute !== this.getCyclesPerMinute()
+    ) {
+      this.startAutoTick();
+    }
+  }
+
+  private fireAutoTick(targets?: string[]): void {
+    if (this.tickScheduled || this.budgetState === 'paused') return;
+    const activeTargets = targets ?? this.getAutoTickActiveTargets();
+    this.broadcastAutoTickFired(this.roundNumber + 1, activeTargets);
+    this.tickScheduled = true;
+    this.sendAutoTick(activeTargets)
+      .catch((err) => {
+        console.error('[AgentManager] Auto-tick error:', err);
+      })
+      .finally(() => {
+        this.tickScheduled = false;
+      });
   }
 
   private async sendAutoTick(activeTargetsInput?: string[]): Promise<void> {
@@ -2154,21 +3032,32 @@ export class AgentProcessManager {
           ));
         const myPattern = this.agentPatterns[key] || 'silence';
 
+        const revert = this.takePatternRevertNote(key);
+        const meterNote = this.takeMeterNote(key);
         const context = buildAutoTickManagerContext({
           roundNumber: this.roundNumber,
           musicalContext: ctx,
           currentPattern: myPattern,
           bandStateLines: bandState.map((entry) => entry.line),
+          bandmateChangeLines: this.getBandmateChangeLines(key),
           audioFeedback,
           audioContextSummary,
+          arrangement: this.arrangement?.getState(Date.now()),
+          revert,
+          meterLines: formatMeterNoteForPrompt(meterNote, ctx.timeSignature, key),
+          densityLines: this.getDensityNudgeLines(key, myPattern),
+          harmonyProposalLines: formatHarmonyProposalsForPrompt(this.harmonyProposals.list(), key),
         });
 
-        const fullPrompt = this.buildPromptForAgent(key, context);
+        const fullPrompt = this.buildPromptForAgent(key, context, true);
         this.setAgentStatus(key, 'thinking');
         return {
           key,
           context,
           fullPrompt,
+          revert,
+          meterNote,
+          threadIdBefore: this.agents.get(key)?.threadId ?? null,
           currentPattern: myPattern,
           bandState,
           pendingCompactionBefore,
@@ -2178,17 +3067,80 @@ export class AgentProcessManager {
         };
       });
 
-      const turnResults = await Promise.all(
-        autoTickInputs.map((input) => this.sendToAgentAndCollect(input.key, input.context, input.fullPrompt))
-      );
+      const tick: InFlightAutoTick = {
+        round: this.roundNumber,
+        pending: new Set(activeTargets),
+        preempted: new Set(),
+      };
+      this.inFlightAutoTick = tick;
+      let turnResults: Array<AgentTurnResult | null>;
+      try {
+        turnResults = await Promise.all(
+          autoTickInputs.map((input) => (
+            this.sendToAgentAndCollect(input.key, input.context, input.fullPrompt)
+              .finally(() => tick.pending.delete(input.key))
+          ))
+        );
+      } finally {
+        this.inFlightAutoTick = null;
+      }
       const responses: Array<AgentResponse | null> = [...turnResults.map((result) => result?.response ?? null)];
       const patternsBeforeTurn = { ...this.agentPatterns };
 
       // If stopped during await, don't apply stale responses
       if (this.stopped) return;
 
+      if (tick.preempted.size > 0) {
+        this.pendingAutoTickPreemption = {
+          round: tick.round,
+          agents: activeTargets.filter((key) => tick.preempted.has(key)),
+          directive: tick.directive ?? '',
+          preemptedAt: new Date().toISOString(),
+        };
+      }
+
       for (let i = 0; i < activeTargets.length; i++) {
         const key = activeTargets[i];
+        const input = autoTickInputs[i];
+
+        if (tick.preempted.has(key)) {
+          // Leave the agent as it was before the round; the directive takes it from here
+          if (input.revert && !this.agentPendingRevertNotes[key]) {
+            this.agentPendingRevertNotes[key] = input.revert;
+          }
+          if (input.meterNote && !this.agentPendingMeterNotes[key]) {
+            this.agentPendingMeterNotes[key] = input.meterNote;
+          }
+          if (this.agentDensityNudgeRound[key] === tick.round) {
+            delete this.agentDensityNudgeRound[key];
+          }
+          this.setAgentStatus(key, this.agentPatterns[key] && this.agentPatterns[key] !== 'silence' ? 'playing' : 'idle');
+          this.recordContextInspectorTurn({
+            key,
+            roundNumber: tick.round,
+            turnSource: 'auto-tick',
+            managerContext: input.context,
+            fullPrompt: input.fullPrompt,
+            musicalContext: ctx,
+            currentPattern: input.currentPattern,
+            bandState: input.bandState,
+            audioFeedback,
+            audioContextSummary: input.audioContextSummary,
+            pendingCompactionBefore: input.pendingCompactionBefore,
+            noChangeStreakBefore: input.noChangeStreakBefore,
+            compactionAppliedThisTurn: input.compactionAppliedThisTurn,
+            turnResult: {
+              response: null,
+              invocationMode: input.threadIdBefore ? 'resume' : 'new_thread',
+              threadIdBefore: input.threadIdBefore,
+              threadIdAfter: this.agents.get(key)?.threadId ?? null,
+            },
+            acceptedResponse: null,
+            preemptedBy: tick.directive ?? '',
+          });
+          continue;
+        }
+
         const turnResult = turnResults[i];
         const response = turnResult?.response ?? null;
         const patternBeforeTurn = this.agentPatterns[key] || 'silence';
@@ -2200,7 +3152,6 @@ export class AgentProcessManager {
         });
         responses[i] = acceptedResponse;
 
-        const input = autoTickInputs[i];
         this.recordContextInspectorTurn({
           key,
           roundNumber: this.roundNumber,
@@ -2225,7 +3176,7 @@ export class AgentProcessManager {
       if (autoTickDelta) {
         console.log('[AgentManager] Auto-tick context drift:', autoTickDelta);
       }
-      const suggestionDelta = this.applyContextSuggestions(responses);
+      const suggestionDelta = this.applyContextSuggestions(activeTargets, responses);
       if (suggestionDelta) {
         console.log('[AgentManager] Agent context suggestions applied:', suggestionDelta);
       }
@@ -2235,6 +3186,180 @@ export class AgentProcessManager {
     });
   }
 
+  // ─── Private: Agent-to-Agent Requests ────────────────────────────
+
+  private canReceiveAgentRequest(key: string): boolean {
+    return this.activatedAgents.includes(key) && this.agents.has(key) && !this.mutedAgents.has(key);
+  }
+
+  /**
+   * Queue the band requests from an accepted response and announce them.
+   * Requests to agents that have not joined, are muted, or lack a process are
+   * dropped, as are those over the JAM_GOVERNANCE chain/cooldown/queue limits.
+   */
+  private queueAgentRequests(key: string, response: AgentResponse, turnContext: AgentTurnContext): void {
+    if (!response.requests || response.requests.length === 0) return;
+
+    const depth = (turnContext.requestDepth ?? 0) + 1;
+    for (const request of response.requests) {
+      if (!this.canReceiveAgentRequest(request.to)) {
+        console.log(`[AgentManager] Dropped request ${key} → ${request.to}: recipient unavailable`);
+        continue;
+      }
+
+      const rejectReason = this.agentRequests.offer({
+        from: key,
+        to: request.to,
+        text: request.text,
+        depth,
+        round: this.roundNumber,
+      });
+      if (rejectReason) {
+        console.log(`[AgentManager] Dropped request ${key} → ${request.to}: ${rejectReason}`);
+        continue;
+      }
+
+      this.broadcastWs<AgentRequestPayload>('agent_request', {
+        from: key,
+        to: request.to,
+        emoji: AGENT_META[key]?.emoji ?? '🎵',
+        text: request.text,
+        round: this.roundNumber,
+        timestamp: new Date().toISOString(),
+      });
+      this.scheduleAgentRequestTurn();
+    }
+  }
+
+  /**
+   * Enqueue one turn that answers every queued request. Requests are low
+   * priority: if a boss directive is waiting in the turn queue, the request
+   * turn re-enqueues itself behind it instead of running first.
+   */
+  private scheduleAgentRequestTurn(): void {
+    if (this.agentRequestTurnScheduled || this.stopped) return;
+    this.agentRequestTurnScheduled = true;
+
+    this.enqueueTurn('agent-request', async () => {
+      this.agentRequestTurnScheduled = false;
+      if (this.stopped) return;
+      if (this.directiveQueue.size > 0) {
+        this.scheduleAgentRequestTurn();
+        return;
+      }
+      await this.sendAgentRequestTurn();
+    }).catch((err) => {
+      console.error('[AgentManager] Agent request turn error:', err);
+    });
+  }
+
+  private async sendAgentRequestTurn(): Promise<void> {
+    if (!this.presetConfigured) return;
+
+    // Recipients may have been muted or removed while the request waited
+    const requests = this.agentRequests.takeAll().filter((request) => this.canReceiveAgentRequest(request.to));
+    if (requests.length === 0) return;
+
+    const requestsByRecipient = new Map<string, QueuedAgentRequest[]>();
+    for (const request of requests) {
+      requestsByRecipient.set(request.to, [...(requestsByRecipient.get(request.to) ?? []), request]);
+    }
+    const recipients = Array.from(requestsByRecipient.keys());
+
+    this.roundNumber++;
+    const ctx = this.musicalContext;
+    const audioFeedback = this.getFreshAudioFeedbackSection();
+    const audioContextSummary = this.getFreshAudioContextSummarySection();
+
+    console.log(`[AgentManager] Agent request round ${this.roundNumber} (recipients=${recipients.join(', ')})`);
+
+    const requestInputs = recipients.map((key) => {
+      const received = requestsByRecipient.get(key) ?? [];
+      const pendingCompactionBefore = this.agentPendingThreadCompaction[key] ?? false;
+      const noChangeStreakBefore = this.agentAutoTickNoChangeStreak[key] ?? 0;
+      // A bandmate's request makes this agent's recent context relevant again
+      this.resetThreadCompactionState(key);
+
+      const bandState = this.activatedAgents
+        .filter((k) => k !== key)
+        .map((k) => this.buildBandStateEntryFromPattern(
+          k,
+          this.mutedAgents.has(k) ? 'silence' : (this.agentPatterns[k] || 'silence')
+        ));
+      const currentPattern = this.agentPatterns[key] || 'silence';
+
+      const context = buildAgentRequestManagerContext({
+        roundNumber: this.roundNumber,
+        musicalContext: ctx,
+        requests: received.map((request) => {
+          const meta = AGENT_META[request.from];
+          return {
+            fromLabel: meta ? `${meta.emoji} ${meta.name} (${request.from})` : request.from,
+            text: request.text,
+          };
+        }),
+        currentPattern,
+        bandStateLines: bandState.map((entry) => entry.line),
+        bandmateChangeLines: this.getBandmateChangeLines(key),
+        audioFeedback,
+        audioContextSummary,
+        arrangement: this.arrangement?.getState(Date.now()),
+        revert: this.takePatternRevertNote(key),
+        meterLines: formatMeterNoteForPrompt(this.takeMeterNote(key), ctx.timeSignature, key),
+      });
+
+      const fullPrompt = this.buildPromptForAgent(key, context);
+      this.setAgentStatus(key, 'thinking');
+      return {
+        key,
+        context,
+        fullPrompt,
+        currentPattern,
+        bandState,
+        requestDepth: Math.max(...received.map((request) => request.depth)),
+        pendingCompactionBefore,
+        noChangeStreakBefore,
+      };
+    });
+
+    const turnResults = await Promise.all(
+      requestInputs.map((input) => this.sendToAgentAndCollect(input.key, input.context, input.fullPrompt))
+    );
+
+    // If stopped during await, don't apply stale responses
+    if (this.stopped) return;
+
+    const patternsBeforeTurn = { ...this.agentPatterns };
+    for (let i = 0; i < requestInputs.length; i++) {
+      const input = requestInputs[i];
+      const turnResult = turnResults[i];
+      const acceptedResponse = this.applyAgentResponse(input.key, turnResult?.response ?? null, 'agent-request', {
+        requestDepth: input.requestDepth,
+      });
+
+      this.recordContextInspectorTurn({
+        key: input.key,
+        roundNumber: this.roundNumber,
+        turnSource: 'agent-request',
+        managerContext: input.context,
+        fullPrompt: input.fullPrompt,
+        musicalContext: ctx,
+        currentPattern: input.currentPattern,
+        bandState: input.bandState,
+        audioFeedback,
+        audioContextSummary,
+        pendingCompactionBefore: input.pendingCompactionBefore,
+        noChangeStreakBefore: input.noChangeStreakBefore,
+        compactionAppliedThisTurn: false,
+        turnResult,
+        acceptedResponse,
+      });
+    }
+
+    const changedAgents = this.computeChangedAgents(patternsBeforeTurn);
+    this.composeAndBroadcast('agent-request', changedAgents);
+  }
+
   // ─── Private: State Management ───────────────────────────────────
 
   private maybeRejectInvalidPattern(
@@ -2254,9 +3379,11 @@ export class AgentProcessManager {
 
     if (turnSource === 'directive') {
       const agentName = AGENT_META[key]?.name ?? key;
-      this.broadcastWs('directive_error', {
+      this.broadcastWs<DirectiveErrorPayload>('directive_error', {
         message: `${agentName} returned an invalid pattern (${reason}). Keeping the previous groove.`,
         targetAgent: key,
+        pattern: validation.code,
+        issues: validation.issues,
       });
     }
 
@@ -2307,14 +3434,17 @@ export class AgentProcessManager {
           status: this.agentPatterns[key] !== 'silence' ? 'playing' : 'idle',
           lastUpdated: new Date().toISOString(),
         };
-        this.broadcastAgentThought(key, safeResponse);
+        this.broadcastAgentThought(key, safeResponse, []);
         this.maybeBroadcastAgentCommentaryForTurn(key, safeResponse, turnSource, turnContext);
+        this.queueAgentRequests(key, safeResponse, turnContext);
+        this.checkPatternMeter(key);
         this.setAgentStatus(key, this.agentStates[key].status);
         return safeResponse;
       }
 
       // Auto-tick silence guard: agents should not spontaneously go silent
-      // during autonomous evolution. Only boss directives can silence an agent.
+      // during autonomous evolution or at a bandmate's request. Only boss
+      // directives can silence an agent.
       const autoTickSilenceIntent = safeResponse.decision?.arrangement_intent;
       const autoTickSilenceConfidence = safeResponse.decision?.confidence;
       const allowsIntentionalAutoTickSilence = (
@@ -2327,26 +3457,31 @@ export class AgentProcessManager {
       );
 
       if (
-        turnSource === 'auto-tick' &&
+        (turnSource === 'auto-tick' || turnSource === 'agent-request') &&
         pattern === 'silence' &&
         this.agentPatterns[key] &&
         this.agentPatterns[key] !== '' &&
         this.agentPatterns[key] !== 'silence' &&
         !allowsIntentionalAutoTickSilence
       ) {
-        console.warn(`[AgentManager] Auto-tick silence coerced to no_change for ${key}`);
+        console.warn(`[AgentManager] ${turnSource} silence coerced to no_change for ${key}`);
         this.agentStates[key] = {
           ...state,
           thoughts: safeResponse.thoughts || '',
           status: 'playing',
           lastUpdated: new Date().toISOString(),
         };
-        this.broadcastAgentThought(key, safeResponse);
+        this.broadcastAgentThought(key, safeResponse, []);
         this.maybeBroadcastAgentCommentaryForTurn(key, safeResponse, turnSource, turnContext);
+        this.queueAgentRequests(key, safeResponse, turnContext);
         this.setAgentStatus(key, this.agentStates[key].status);
         return safeResponse;
       }
 
+      const changes = diffPatterns(this.agentPatterns[key], pattern, this.musicalContext.timeSignature);
+      if (changes.length > 0) {
+        this.agentLastPatternChanges[key] = { round: this.roundNumber, changes };
+      }
       this.agentPatterns[key] = pattern;
       this.agentStates[key] = {
         ...state,
@@ -2358,8 +3493,10 @@ export class AgentProcessManager {
       };
 
       // Broadcast agent thought
-      this.broadcastAgentThought(key, safeResponse);
+      this.broadcastAgentThought(key, safeResponse, changes);
       this.maybeBroadcastAgentCommentaryForTurn(key, safeResponse, turnSource, turnContext);
+      this.queueAgentRequests(key, safeResponse, turnContext);
+      this.checkPatternMeter(key);
     } else {
       // APM-14 contract: when an agent times out (null response), the runtime
       // falls back to its last known good pattern (fallbackPattern) to maintain
@@ -2378,6 +3515,13 @@ export class AgentProcessManager {
       }
     }
 
+    this.agentPatternHistory[key] = appendPatternVersion(this.agentPatternHistory[key] ?? [], {
+      pattern: this.agentPatterns[key],
+      round: this.roundNumber,
+      turnSource,
+      ...(turnContext.directive ? { directive: turnContext.directive } : {}),
+      createdAt: new Date().toISOString(),
+    });
     this.setAgentStatus(key, this.agentStates[key].status);
     return safeResponse;
   }
@@ -2494,14 +3638,16 @@ export class AgentProcessManager {
   // ─── Private: Pattern Composition ────────────────────────────────
 
   private composePatterns(): string {
-    const patterns = this.activatedAgents
-      .filter((k) => !this.mutedAgents.has(k))
-      .map((k) => this.agentPatterns[k])
-      .filter((p) => p && p !== 'silence');
+    const playing = this.activatedAgents.filter((k) => !this.mutedAgents.has(k));
+    const patterns = playing
+      .filter((k) => isMixChannelAudible(k, this.mixer, playing))
+      .filter((k) => this.agentPatterns[k] && this.agentPatterns[k] !== 'silence')
+      .map((k) => applyMixToLayer(this.agentPatterns[k], this.mixer[k] ?? createMixChannel()));
 
     if (patterns.length === 0) return 'silence';
-    if (patterns.length === 1) return patterns[0];
-    return `stack(${patterns.join(', ')})`;
+    const stacked = patterns.length === 1 ? patterns[0] : `stack(${patterns.join(', ')})`;
+    // Runtime owns the clock: BPM/meter from the musical context, never from agents.
+    return applyTempoToComposedPattern(stacked, this.musicalContext);
   }
 
   private normalizePatternForChangeDiff(pattern: string | undefined): string {
@@ -2541,6 +3687,8 @@ export class AgentProcessManager {
     changedAgents: string[] = []
   ): void {
     const combinedPattern = this.composePatterns();
+    this.syncArrangementClock(combinedPattern);
+    this.syncAutoTickTimer();
 
     // Execute the composed pattern
     this.broadcastWs('execute', {
@@ -2556,10 +3704,20 @@ export class AgentProcessManager {
     this.broadcastJamStatePayload(combinedPattern, turnSource);
   }
 
+  private broadcastDirectiveQueue(): void {
+    const nowMs = Date.now();
+    this.broadcastWs<DirectiveQueuePayload>('directive_queue_update', {
+      pending: this.directiveQueue.list(),
+      activeTurn: this.activeTurn ? { ...this.activeTurn } : null,
+      etaMs: this.directiveQueue.estimateEtaMs(this.activeTurn?.startedAtMs ?? null, nowMs),
+      serverNowMs: nowMs,
+    });
+  }
+
   private broadcastJamStatePayload(combinedPattern: string, turnSource?: JamTurnSource): void {
     // Broadcast full jam state
     const jamState = this.getJamStateSnapshot();
-    const diagnostics = this.consumeContextInspectorDelta();
+    const diagnostics = this.consumeDiagnostics();
 
     const payload: JamStatePayload = {
       jamState,
@@ -2583,7 +3741,7 @@ export class AgentProcessManager {
     }
   }
 
-  private broadcastAgentThought(key: string, response: AgentResponse): void {
+  private broadcastAgentThought(key: string, response: AgentResponse, changes: PatternChange[]): void {
     const meta = AGENT_META[key];
     if (!meta) return;
 
@@ -2593,6 +3751,7 @@ export class AgentProcessManager {
       thought: response.thoughts,
       pattern: response.pattern,
       timestamp: new Date().toISOString(),
+      changes,
     });
   }
 
@@ -2639,35 +3798,8 @@ export class AgentProcessManager {
       // Muting is a deterministic transport command; ignore model-proposed
       // global-context drift when the boss explicitly asks an agent to mute.
       decision: undefined,
+      requests: undefined,
+      votes: undefined,
     };
   }
-
-  // ─── Private: Cleanup ────────────────────────────────────────────
-
-  private killProcess(agent: AgentProcess): Promise<void> {
-    return new Promise((resolve) => {
-      const proc = agent.activeTurn;
-      if (!proc || proc.killed || proc.exitCode !== null) {
-        resolve();
-        return;
-      }
-
-      const timeout = setTimeout(() => {
-        proc.kill('SIGKILL');
-        resolve();
-      }, 3000);
-
-      proc.once('exit', () => {
-        clearTimeout(timeout);
-        agent.activeTurn = null;
-        agent.activeTurnRl?.close();
-        agent.activeTurnRl = null;
-        resolve();
-      });
-
-      agent.activeTurnRl?.close();
-      agent.activeTurnRl = null;
-      proc.kill('SIGTERM');
-    });
-  }
 }
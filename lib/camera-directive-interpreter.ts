@@ -18,6 +18,7 @@ import {
   type JamAgentKey,
   AGENT_META,
 } from './types';
+import { getAgentRosterKeys, isAgentRosterKey } from './jam-roster';
 
 const VISION_INTERPRETER_SYSTEM_PROMPT =
   'You are a jam conductor vision interpreter for buttery_smooth_jamming.';
@@ -43,7 +44,8 @@ const VISION_INTERPRETER_SCHEMA = {
       anyOf: [
         {
           type: 'string',
-          enum: ['drums', 'bass', 'melody', 'chords', 'all'],
+          // Replaced with the live roster keys in get_camera_interpreter_output_schema()
+          enum: ['all'] as string[],
         },
         {
           type: 'null',
@@ -62,7 +64,6 @@ const VISION_INTERPRETER_SCHEMA = {
 } as const;
 
 const COMMAND_TIMEOUT_MS = 15_000;
-const AGENT_TARGET_SET = new Set<JamAgentKey>(['drums', 'bass', 'melody', 'chords']);
 const MIN_SAMPLE_INTERVAL_MS = 1;
 const MAX_SAMPLE_INTERVAL_MS = 10_000;
 const MAX_FRAME_DIMENSION = 8_000;
@@ -171,7 +172,7 @@ function infer_rejection_reason(
 }
 
 function is_jam_agent_key(value: unknown): value is JamAgentKey {
-  return typeof value === 'string' && AGENT_TARGET_SET.has(value as JamAgentKey);
+  return isAgentRosterKey(value);
 }
 
 function parse_number(value: unknown, options: ParsedNumberOptions = {}): number | null {
@@ -326,7 +327,19 @@ export function parse_camera_interpreter_jsonl_output(stdout: string): ParsedCod
 }
 
 export function get_camera_interpreter_output_schema(): typeof VISION_INTERPRETER_SCHEMA {
-  return VISION_INTERPRETER_SCHEMA;
+  const { target_agent } = VISION_INTERPRETER_SCHEMA.properties;
+  return {
+    ...VISION_INTERPRETER_SCHEMA,
+    properties: {
+      ...VISION_INTERPRETER_SCHEMA.properties,
+      target_agent: {
+        anyOf: [
+          { ...target_agent.anyOf[0], enum: [...getAgentRosterKeys(), 'all'] },
+          target_agent.anyOf[1],
+        ],
+      },
+    },
+  };
 }
 
 export function apply_camera_sample_freshness(
@@ -458,24 +471,7 @@ export function normalize_camera_directive_payload(value: unknown): CameraDirect
 
 function build_interpreter_prompt(sample: CameraDirectivePayload): string {
   const agentLines = Object.entries(AGENT_META)
-    .map(([agentKey, meta]) => {
-      const roleLine = (() => {
-        switch (agentKey) {
-          case 'drums':
-            return 'rhythm and groove driver';
-          case 'bass':
-            return 'low-end movement and pocket';
-          case 'melody':
-            return 'top-line phrasing and motifs';
-          case 'chords':
-            return 'harmonic movement and comping texture';
-          default:
-            return 'instrumental part';
-        }
-      })();
-
-      return `- ${meta.name} (${agentKey}) handles ${roleLine}`;
-    });
+    .map(([agentKey, meta]) => `- ${meta.name} (${agentKey}) handles ${meta.role}`);
 
   return [
     `${VISION_INTERPRETER_SYSTEM_PROMPT} Translate camera motion into concise boss directives.`,
@@ -681,7 +677,7 @@ export async function interpretCameraDirective(
     `camera-directive-schema-${process.pid}-${randomUUID()}.json`
   );
 
-  fs.writeFileSync(schemaPath, JSON.stringify(VISION_INTERPRETER_SCHEMA, null, 2), 'utf-8');
+  fs.writeFileSync(schemaPath, JSON.stringify(get_camera_interpreter_output_schema(), null, 2), 'utf-8');
   const diagnostics: ConductorInterpreterDiagnostics = {
     ...base_diagnostics,
     model_exit_code: null,
@@ -0,0 +1,335 @@
+import { spawn, ChildProcess } from 'child_process';
+import * as readline from 'readline';
+import { map_codex_event_to_runtime_events } from './codex-process';
+import {
+  assert_codex_runtime_ready,
+  build_codex_overrides,
+  CODEX_JAM_PROFILE,
+  load_project_codex_config,
+} from './codex-runtime-checks';
+import { JAM_GOVERNANCE } from './jam-governance-constants';
+import type {
+  JamAgentRunner,
+  JamAgentRunnerSessionConfig,
+  JamAgentTurnHooks,
+  JamAgentTurnOutput,
+  JamAgentTurnRequest,
+} from './jam-agent-runner';
+import type { RuntimeTurnMetrics } from './runtime-process';
+
+// Codex CLI `exec` no longer accepts legacy `--tools/--strict-mcp-config` flags.
+// Jam agents remain isolated via the dedicated `jam_agent` profile (MCP disabled)
+// plus prompt-level policy; keep this empty for CLI compatibility.
+const JAM_TOOLLESS_ARGS = [] as const;
+
+export interface CodexJamAgentRunnerOptions {
+  workingDir: string;
+}
+
+interface ActiveCodexTurn {
+  proc: ChildProcess;
+  rl: readline.Interface;
+}
+
+/**
+ * Runs each jam-agent turn as a one-shot `codex exec` (or `exec resume`) process.
+ * Supports both Codex JSONL events and legacy stream-json fixtures used by tests.
+ */
+export class CodexJamAgentRunner implements JamAgentRunner {
+  readonly kind = 'codex' as const;
+  private workingDir: string;
+  private configOverrides: string[] = [];
+  private activeTurns = new Map<string, ActiveCodexTurn>();
+  private cacheTtlWarnedAgents = new Set<string>();
+
+  constructor(options: CodexJamAgentRunnerOptions) {
+    this.workingDir = options.workingDir;
+  }
+
+  async prepare(): Promise<JamAgentRunnerSessionConfig> {
+    await assert_codex_runtime_ready({
+      working_dir: this.workingDir,
+    });
+
+    const codexConfig = load_project_codex_config(this.workingDir);
+    this.configOverrides = build_codex_overrides(codexConfig, CODEX_JAM_PROFILE);
+    this.cacheTtlWarnedAgents.clear();
+    return { defaultModel: codexConfig.jam_agent_model };
+  }
+
+  runTurn(
+    request: JamAgentTurnRequest,
+    hooks: JamAgentTurnHooks = {}
+  ): Promise<JamAgentTurnOutput> {
+    const key = request.agentKey;
+    let threadId = request.threadId;
+
+    return new Promise((resolve) => {
+      const attemptTurn = (attempt: number): void => {
+        const args = this.buildTurnArgs(request.model, threadId);
+        const proc = spawn('codex', args, {
+          cwd: this.workingDir,
+          stdio: ['pipe', 'pipe', 'pipe'],
+          env: {
+            ...process.env,
+            JAM_AGENT_KEY: key,
+          },
+        });
+        const rl = readline.createInterface({
+          input: proc.stdout!,
+          crlfDelay: Infinity,
+        });
+        this.activeTurns.set(key, { proc, rl });
+
+        const timeout = setTimeout(() => {
+          console.warn(
+            `[Agent:${key}] Response timeout after ${JAM_GOVERNANCE.AGENT_TIMEOUT_MS}ms`
+          );
+          if (!proc.killed) {
+            proc.kill('SIGTERM');
+          }
+          finish();
+        }, JAM_GOVERNANCE.AGENT_TIMEOUT_MS);
+
+        let fullText = '';
+        let settled = false;
+        let parseState = { saw_assistant_delta: false };
+        let lastCodexError: string | null = null;
+        let transportError = false;
+        let metrics: RuntimeTurnMetrics | undefined;
+
+        const onLine = (line: string) => {
+          if (!line.trim()) return;
+          try {
+            const msg = JSON.parse(line) as Record<string, unknown>;
+            const legacyMessage = msg.message as {
+              content?: Array<{ type?: string; text?: string }>;
+            } | undefined;
+
+            // Backward-compatible stream-json handling (used heavily in tests).
+            if (msg.type === 'assistant' && legacyMessage?.content) {
+              const content = legacyMessage.content;
+              for (const block of content) {
+                if (block.type === 'text' && block.text) {
+                  fullText += block.text;
+                }
+              }
+              return;
+            } else if (msg.type === 'result') {
+              finish();
+              return;
+            }
+
+            if (msg.type === 'thread.started' && typeof msg.thread_id === 'string') {
+              threadId = msg.thread_id;
+            }
+
+            const mapped = map_codex_event_to_runtime_events(msg, parseState);
+            parseState = mapped.next_state;
+            for (const event of mapped.events) {
+              if (event.type === 'text') {
+                fullText += event.text;
+              } else if (event.type === 'error') {
+                const formatted = this.formatCodexErrorForLog(event.error);
+                if (formatted !== lastCodexError) {
+                  console.error(`[Agent:${key}] Codex turn failed: ${formatted}`);
+                }
+                lastCodexError = formatted;
+              } else if (event.type === 'status' && event.metrics) {
+                metrics = event.metrics;
+              }
+            }
+            if (mapped.turn_completed) {
+              finish();
+            }
+          } catch {
+            // Non-JSON line (or partial line) — ignore.
+          }
+        };
+
+        const cleanup = () => {
+          clearTimeout(timeout);
+          rl.removeListener('line', onLine);
+          rl.close();
+          if (this.activeTurns.get(key)?.proc === proc) {
+            this.activeTurns.delete(key);
+          }
+        };
+
+        const finish = () => {
+          if (settled) return;
+          settled = true;
+          cleanup();
+
+          if (transportError && attempt < 1) {
+            attemptTurn(attempt + 1);
+            return;
+          }
+
+          resolve({ text: fullText, threadId, ...(metrics ? { metrics } : {}) });
+        };
+
+        rl.on('line', onLine);
+
+        proc.stderr?.on('data', (data) => {
+          const text = data.toString().trim();
+          if (!text) return;
+
+          if (this.isCodexTransportError(text)) {
+            transportError = true;
+            console.error(`[Agent:${key}] Codex transport error: ${text}`);
+            if (!proc.killed) {
+              proc.kill('SIGTERM');
+            }
+            finish();
+            return;
+          }
+
+          if (this.isNonFatalCodexCacheTtlWarning(text)) {
+            if (!this.cacheTtlWarnedAgents.has(key)) {
+              this.cacheTtlWarnedAgents.add(key);
+              console.warn(`[Agent:${key}] Non-fatal Codex cache warning: ${text}`);
+            }
+            return;
+          }
+          console.error(`[Agent:${key} stderr]:`, text);
+        });
+
+        proc.on('error', (err) => {
+          console.error(`[Agent:${key}] Process error:`, err);
+          hooks.onAgentError?.(key);
+        });
+
+        proc.on('exit', (code, signal) => {
+          console.log(
+            `[Agent:${key}] Turn exited (attempt ${attempt + 1}): code=${code}, signal=${signal}`
+          );
+          if (
+            !transportError &&
+            typeof code === 'number' &&
+            code !== 0
+          ) {
+            if (lastCodexError) {
+              console.warn(
+                `[Agent:${key}] Session became unavailable after non-zero exit (${code}). ` +
+                `Last Codex error: ${lastCodexError}`
+              );
+            } else {
+              console.warn(`[Agent:${key}] Session became unavailable after non-zero exit (${code})`);
+            }
+            hooks.onSessionLost?.(key);
+          }
+          finish();
+        });
+
+        proc.stdin?.write(request.prompt);
+        proc.stdin?.write('\n');
+        proc.stdin?.end();
+      };
+
+      attemptTurn(0);
+    });
+  }
+
+  cancelTurn(agentKey: string): Promise<void> {
+    return new Promise((resolve) => {
+      const active = this.activeTurns.get(agentKey);
+      const proc = active?.proc;
+      if (!active || !proc || proc.killed || proc.exitCode !== null) {
+        resolve();
+        return;
+      }
+
+      const timeout = setTimeout(() => {
+        proc.kill('SIGKILL');
+        resolve();
+      }, 3000);
+
+      proc.once('exit', () => {
+        clearTimeout(timeout);
+        this.activeTurns.delete(agentKey);
+        active.rl.close();
+        resolve();
+      });
+
+      active.rl.close();
+      proc.kill('SIGTERM');
+    });
+  }
+
+  reset(): void {
+    this.activeTurns.clear();
+    this.configOverrides = [];
+    this.cacheTtlWarnedAgents.clear();
+  }
+
+  private buildTurnArgs(model: string, threadId: string | null): string[] {
+    const args = threadId
+      ? ['exec', 'resume', '--json', '--skip-git-repo-check', ...JAM_TOOLLESS_ARGS]
+      : [
+        'exec',
+        '--json',
+        '--profile',
+        CODEX_JAM_PROFILE,
+        '--skip-git-repo-check',
+        '--color',
+        'never',
+        ...JAM_TOOLLESS_ARGS,
+      ];
+
+    if (model) {
+      args.push('--model', model);
+    }
+
+    for (const override of this.configOverrides) {
+      args.push('-c', override);
+    }
+    args.push('-c', 'features.runtime_metrics=false');
+
+    if (threadId) {
+      args.push(threadId, '-');
+    } else {
+      args.push('-');
+    }
+
+    return args;
+  }
+
+  private formatCodexErrorForLog(raw: string): string {
+    const trimmed = raw.trim();
+    if (!trimmed) return 'unknown error';
+
+    try {
+      // Log-only formatting for operator diagnostics; websocket/user error surfacing
+      // still uses the runtime event payloads and does not depend on this rewrite.
+      const parsed = JSON.parse(trimmed) as {
+        message?: unknown;
+        error?: { message?: unknown; param?: unknown; code?: unknown };
+      };
+      const baseMessage =
+        typeof parsed.error?.message === 'string'
+          ? parsed.error.message
+          : typeof parsed.message === 'string'
+            ? parsed.message
+            : trimmed;
+      const paramSuffix = typeof parsed.error?.param === 'string'
+        ? ` (param=${parsed.error.param})`
+        : '';
+      const codeSuffix = typeof parsed.error?.code === 'string'
+        ? ` [${parsed.error.code}]`
+        : '';
+      return `${baseMessage}${paramSuffix}${codeSuffix}`;
+    } catch {
+      return trimmed.replace(/\s+/g, ' ');
+    }
+  }
+
+  private isNonFatalCodexCacheTtlWarning(text: string): boolean {
+    return /failed to renew cache TTL: EOF while parsing a value at line 1 column 0/i.test(text);
+  }
+
+  private isCodexTransportError(text: string): boolean {
+    return /failed to connect to websocket/i.test(text) &&
+      /(connection reset by peer|os error 54|io error|econnreset)/i.test(text);
+  }
+}
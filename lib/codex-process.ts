@@ -5,6 +5,7 @@ import type {
   RuntimeEvent,
   RuntimeProcess,
   RuntimeProcessOptions,
+  RuntimeTurnMetrics,
 } from './runtime-process';
 import {
   assert_codex_runtime_ready,
@@ -308,20 +309,37 @@ function map_turn_completed_event(event: Record<string, unknown>): RuntimeEvent
     ['token_usage', 'cost_usd'],
     ['token_usage', 'costUsd'],
   ]);
+  const input_tokens = get_number_by_paths(event, [
+    ['usage', 'input_tokens'],
+    ['usage', 'inputTokens'],
+    ['token_usage', 'input_tokens'],
+    ['token_usage', 'inputTokens'],
+  ]);
+  const cached_input_tokens = get_number_by_paths(event, [
+    ['usage', 'cached_input_tokens'],
+    ['usage', 'cachedInputTokens'],
+    ['token_usage', 'cached_input_tokens'],
+    ['token_usage', 'cachedInputTokens'],
+  ]);
+  const output_tokens = get_number_by_paths(event, [
+    ['usage', 'output_tokens'],
+    ['usage', 'outputTokens'],
+    ['token_usage', 'output_tokens'],
+    ['token_usage', 'outputTokens'],
+  ]);
+
+  const metrics: RuntimeTurnMetrics = {
+    ...(duration_ms !== undefined ? { duration_ms } : {}),
+    ...(cost_usd !== undefined ? { cost_usd } : {}),
+    ...(input_tokens !== undefined ? { input_tokens } : {}),
+    ...(cached_input_tokens !== undefined ? { cached_input_tokens } : {}),
+    ...(output_tokens !== undefined ? { output_tokens } : {}),
+  };
 
   return {
     type: 'status',
     status: 'done',
-    ...(
-      duration_ms !== undefined || cost_usd !== undefined
-        ? {
-            metrics: {
-              ...(duration_ms !== undefined ? { duration_ms } : {}),
-              ...(cost_usd !== undefined ? { cost_usd } : {}),
-            },
-          }
-        : {}
-    ),
+    ...(Object.keys(metrics).length > 0 ? { metrics } : {}),
   };
 }
 
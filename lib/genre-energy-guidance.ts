@@ -9,6 +9,8 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
+import { AGENT_META } from './types';
+import { isAgentRosterKey } from './jam-roster';
 
 const SKILL_PATH = path.join(
   '.codex',
@@ -21,6 +23,18 @@ const SKILL_PATH = path.join(
 /** genre (lowercase) → role → bullet lines */
 type GuidanceMap = Map<string, Map<string, string[]>>;
 
+export type EnergyBand = 'LOW' | 'MID' | 'HIGH';
+
+/** Usual events per cycle for one role at one energy band. */
+export interface GenreDensityRange {
+  band: EnergyBand;
+  min: number;
+  max: number;
+}
+
+// "- DENSITY (events/cycle): LOW 1-8 | MID 4-20 | HIGH 8-40"
+const DENSITY_LINE = /^- DENSITY\b[^:]*:/;
+
 let cachedGuidance: GuidanceMap | null = null;
 let cachedWorkingDir: string | null = null;
 
@@ -32,6 +46,7 @@ let cachedWorkingDir: string | null = null;
  *   - LOW (1-3): ...
  *   - MID (4-6): ...
  *   - HIGH (7-10): ...
+ *   - DENSITY (events/cycle): LOW 1-8 | MID 4-20 | HIGH 8-40   (optional)
  */
 function parseSkillFile(filePath: string): GuidanceMap {
   const content = fs.readFileSync(filePath, 'utf-8');
@@ -91,14 +106,6 @@ function getGuidance(workingDir: string): GuidanceMap {
   return cachedGuidance;
 }
 
-// Agent key → role name used in SKILL.md
-const AGENT_KEY_TO_ROLE: Record<string, string> = {
-  drums: 'drums',
-  bass: 'bass',
-  melody: 'melody',
-  chords: 'chords',
-};
-
 /**
  * Build a prompt section with genre-specific energy guidance for one agent.
  * Returns an XML-tagged block, or empty string if genre is not available.
@@ -110,13 +117,15 @@ export function buildGenreEnergySection(
 ): string {
   if (!genre) return '';
 
-  const role = AGENT_KEY_TO_ROLE[agentKey];
+  // Roster pattern family → role name used in SKILL.md
+  const role = isAgentRosterKey(agentKey) ? AGENT_META[agentKey].patternFamily : '';
   if (!role) return '';
 
   const guidance = getGuidance(workingDir);
   const genreMap = guidance.get(genre.toLowerCase());
   // Generic fallback is sourced from the "## Generic" section in SKILL.md
-  const lines = genreMap?.get(role) ?? guidance.get('generic')?.get(role) ?? [];
+  const lines = (genreMap?.get(role) ?? guidance.get('generic')?.get(role) ?? [])
+    .filter((line) => !DENSITY_LINE.test(line));
 
   if (lines.length === 0) return '';
 
@@ -127,3 +136,56 @@ export function buildGenreEnergySection(
     '</genre_energy_guidance>',
   ].join('\n');
 }
+
+function getEnergyBand(energy: number): EnergyBand {
+  if (energy <= 3) return 'LOW';
+  return energy <= 6 ? 'MID' : 'HIGH';
+}
+
+function readDensityRange(lines: string[] | undefined, band: EnergyBand): GenreDensityRange | null {
+  const line = lines?.find((entry) => DENSITY_LINE.test(entry));
+  const match = line?.match(new RegExp(`\\b${band}\\s+(\\d+(?:\\.\\d+)?)\\s*-\\s*(\\d+(?:\\.\\d+)?)`));
+  if (!match) return null;
+  return { band, min: Number(match[1]), max: Number(match[2]) };
+}
+
+/**
+ * Usual events per cycle for an agent's role at `energy` in `genre`, from the
+ * role's DENSITY line. Falls back to the Generic section's line; null when
+ * neither has one or the agent has no pattern family.
+ */
+export function getGenreDensityRange(
+  workingDir: string,
+  genre: string,
+  agentKey: string,
+  energy: number
+): GenreDensityRange | null {
+  const role = isAgentRosterKey(agentKey) ? AGENT_META[agentKey].patternFamily : '';
+  if (!role) return null;
+
+  const guidance = getGuidance(workingDir);
+  const band = getEnergyBand(energy);
+  return readDensityRange(guidance.get(genre.toLowerCase())?.get(role), band)
+    ?? readDensityRange(guidance.get('generic')?.get(role), band);
+}
+
+/**
+ * Prompt lines nudging an agent whose measured density sits outside its
+ * genre range, or none when it is inside.
+ */
+export function formatDensityNudgeForPrompt(
+  eventsPerCycle: number,
+  range: GenreDensityRange,
+  genre: string,
+  agentKey: string,
+  energy: number
+): string[] {
+  if (eventsPerCycle >= range.min && eventsPerCycle <= range.max) return [];
+  const role = AGENT_META[agentKey]?.patternFamily ?? agentKey;
+  const advice = eventsPerCycle > range.max
+    ? 'Thin it out (fewer onsets, more rests) unless the extra motion is deliberate.'
+    : 'Fill it in a little (more onsets, fewer rests) unless the space is deliberate.';
+  return [
+    `DENSITY CHECK: your pattern plays ~${eventsPerCycle} events per cycle; ${role} in ${genre || 'this genre'} at energy ${energy} (${range.band}) usually plays ${range.min}-${range.max}. ${advice}`,
+  ];
+}
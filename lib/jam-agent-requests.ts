@@ -0,0 +1,93 @@
+/**
+ * Agent-to-agent requests. A jam response may carry an optional `requests`
+ * array ("GROOVE, simplify so I can fill"); the manager routes each accepted
+ * request as a low-priority targeted turn for the recipient. Parsing and the
+ * loop/fan-out limits live here so they can be tested without a running jam.
+ */
+
+import { JAM_GOVERNANCE } from './jam-governance-constants';
+import { resolveAgentReference } from './jam-roster';
+
+export interface AgentBandRequest {
+  to: string;   // recipient roster key
+  text: string;
+}
+
+export interface QueuedAgentRequest extends AgentBandRequest {
+  from: string;
+  depth: number;  // 1 for a request made on a normal turn, +1 per reply in a chain
+  round: number;  // round of the turn that produced the request
+}
+
+export type AgentRequestRejectReason = 'chain_depth' | 'cooldown' | 'queue_full';
+
+/**
+ * Validate the optional `requests` field of an agent response. Malformed
+ * entries, self-addressed requests and repeat recipients are dropped, text is
+ * collapsed and truncated, and at most AGENT_REQUEST_MAX_PER_TURN survive.
+ */
+export function normalizeAgentRequests(value: unknown, fromKey: string, bandKeys: string[]): AgentBandRequest[] {
+  if (!Array.isArray(value)) return [];
+
+  const requests: AgentBandRequest[] = [];
+  for (const entry of value) {
+    if (requests.length >= JAM_GOVERNANCE.AGENT_REQUEST_MAX_PER_TURN) break;
+    if (!entry || typeof entry !== 'object') continue;
+    const { to, text } = entry as Record<string, unknown>;
+    if (typeof to !== 'string' || typeof text !== 'string') continue;
+
+    const target = resolveAgentReference(to, bandKeys);
+    if (!target || target === fromKey) continue;
+    if (requests.some((request) => request.to === target)) continue;
+
+    const collapsed = text.replace(/\s+/g, ' ').trim()
+      .slice(0, JAM_GOVERNANCE.AGENT_REQUEST_MAX_CHARS)
+      .trimEnd();
+    if (!collapsed) continue;
+
+    requests.push({ to: target, text: collapsed });
+  }
+  return requests;
+}
+
+/**
+ * Requests waiting for their recipient's turn, plus the per-pair cooldown
+ * that keeps two agents from trading requests every round.
+ */
+export class AgentRequestQueue {
+  private pending: QueuedAgentRequest[] = [];
+  private lastQueuedRound = new Map<string, number>();
+
+  get size(): number {
+    return this.pending.length;
+  }
+
+  /** Queue a request; returns why it was dropped, or null if accepted. */
+  offer(request: QueuedAgentRequest): AgentRequestRejectReason | null {
+    if (request.depth > JAM_GOVERNANCE.AGENT_REQUEST_MAX_CHAIN_DEPTH) return 'chain_depth';
+
+    const pair = `${request.from}->${request.to}`;
+    const lastRound = this.lastQueuedRound.get(pair);
+    if (lastRound !== undefined && request.round - lastRound < JAM_GOVERNANCE.AGENT_REQUEST_PAIR_COOLDOWN_ROUNDS) {
+      return 'cooldown';
+    }
+
+    if (this.pending.length >= JAM_GOVERNANCE.AGENT_REQUEST_QUEUE_MAX) return 'queue_full';
+
+    this.pending.push({ ...request });
+    this.lastQueuedRound.set(pair, request.round);
+    return null;
+  }
+
+  /** Remove and return every queued request, oldest first. */
+  takeAll(): QueuedAgentRequest[] {
+    const requests = this.pending;
+    this.pending = [];
+    return requests;
+  }
+
+  clear(): void {
+    this.pending = [];
+    this.lastQueuedRound.clear();
+  }
+}
@@ -0,0 +1,28 @@
+import { CodexJamAgentRunner } from './codex-jam-agent-runner';
+import type { JamAgentRunner, JamAgentRunnerKind } from './jam-agent-runner';
+import { ScriptedJamAgentRunner } from './scripted-jam-agent-runner';
+
+export interface JamAgentRunnerFactoryOptions {
+  workingDir: string;
+}
+
+export function getJamAgentRunnerKind(): JamAgentRunnerKind {
+  const configured = process.env.JAM_AGENT_RUNNER?.toLowerCase();
+  if (configured === 'scripted') return 'scripted';
+  return 'codex';
+}
+
+export function getJamAgentScriptPath(): string | undefined {
+  const configured = process.env.JAM_AGENT_SCRIPT_PATH?.trim();
+  return configured ? configured : undefined;
+}
+
+export function createJamAgentRunner(options: JamAgentRunnerFactoryOptions): JamAgentRunner {
+  if (getJamAgentRunnerKind() === 'scripted') {
+    return new ScriptedJamAgentRunner({
+      workingDir: options.workingDir,
+      scriptPath: getJamAgentScriptPath(),
+    });
+  }
+  return new CodexJamAgentRunner({ workingDir: options.workingDir });
+}
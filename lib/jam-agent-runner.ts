@@ -0,0 +1,43 @@
+import type { RuntimeTurnMetrics } from './runtime-process';
+
+export type JamAgentRunnerKind = 'codex' | 'scripted';
+
+export interface JamAgentRunnerSessionConfig {
+  // Model used when a persona file does not pin its own override.
+  defaultModel: string;
+}
+
+export interface JamAgentTurnRequest {
+  agentKey: string;
+  prompt: string;
+  threadId: string | null;
+  model: string;
+}
+
+export interface JamAgentTurnOutput {
+  // Raw assistant text; the manager owns JSON parsing and schema validation.
+  text: string;
+  threadId: string | null;
+  // Usage the backend reported for the turn (tokens, cost), when it reports any.
+  metrics?: RuntimeTurnMetrics;
+}
+
+export interface JamAgentTurnHooks {
+  // The runner hit an error for this agent but the session may still recover.
+  onAgentError?: (agentKey: string) => void;
+  // The agent's session can no longer take turns (e.g. worker exited non-zero).
+  onSessionLost?: (agentKey: string) => void;
+}
+
+/**
+ * Executes one jam-agent turn: prompt in, raw assistant text out.
+ * Routing, validation, decisions, and composition stay in AgentProcessManager,
+ * so any runner exercises the same jam pipeline.
+ */
+export interface JamAgentRunner {
+  readonly kind: JamAgentRunnerKind;
+  prepare(): Promise<JamAgentRunnerSessionConfig>;
+  runTurn(request: JamAgentTurnRequest, hooks?: JamAgentTurnHooks): Promise<JamAgentTurnOutput>;
+  cancelTurn(agentKey: string): Promise<void>;
+  reset(): void;
+}
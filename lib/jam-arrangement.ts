@@ -0,0 +1,288 @@
+/**
+ * Song-form arrangement for jam mode: an ordered list of sections (intro,
+ * verse, chorus, ...) with a length in bars, a target energy, and optional
+ * key/chords. The manager owns an ArrangementClock that counts bars from the
+ * runtime tempo and moves to the next section when the current one is used up.
+ *
+ * Bars follow the jam-tempo convention: one Strudel cycle = one bar.
+ *
+ * The editor UI uses the labels, defaults, and validation.
+ */
+import type {
+  ArrangementSection,
+  ArrangementSectionKind,
+  JamArrangementState,
+} from './types';
+import { JAM_GOVERNANCE } from './jam-governance-constants';
+import { deriveScale } from './musical-context-parser';
+
+export const ARRANGEMENT_SECTION_KINDS: readonly ArrangementSectionKind[] = [
+  'intro',
+  'verse',
+  'pre_chorus',
+  'chorus',
+  'bridge',
+  'breakdown',
+  'drop',
+  'outro',
+];
+
+export const ARRANGEMENT_SECTION_LABELS: Record<ArrangementSectionKind, string> = {
+  intro: 'Intro',
+  verse: 'Verse',
+  pre_chorus: 'Pre-Chorus',
+  chorus: 'Chorus',
+  bridge: 'Bridge',
+  breakdown: 'Breakdown',
+  drop: 'Drop',
+  outro: 'Outro',
+};
+
+export const ARRANGEMENT_MAX_SECTIONS = 32;
+export const ARRANGEMENT_MAX_BARS = 128;
+const ARRANGEMENT_MAX_CHORDS = 16;
+
+/** Pop song form, used as the starting point in the arrangement editor. */
+export const DEFAULT_ARRANGEMENT: readonly ArrangementSection[] = [
+  { kind: 'intro', bars: 8, energy: 3 },
+  { kind: 'verse', bars: 16, energy: 5 },
+  { kind: 'chorus', bars: 16, energy: 7 },
+  { kind: 'verse', bars: 16, energy: 5 },
+  { kind: 'chorus', bars: 16, energy: 8 },
+  { kind: 'bridge', bars: 8, energy: 4 },
+  { kind: 'chorus', bars: 16, energy: 9 },
+  { kind: 'outro', bars: 8, energy: 3 },
+];
+
+const SECTION_KIND_SET = new Set<string>(ARRANGEMENT_SECTION_KINDS);
+
+function normalizeArrangementSection(value: unknown): ArrangementSection | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+  const raw = value as Record<string, unknown>;
+
+  if (typeof raw.kind !== 'string' || !SECTION_KIND_SET.has(raw.kind)) return null;
+  if (typeof raw.bars !== 'number' || !Number.isInteger(raw.bars)) return null;
+  if (raw.bars < 1 || raw.bars > ARRANGEMENT_MAX_BARS) return null;
+  if (typeof raw.energy !== 'number' || !Number.isFinite(raw.energy)) return null;
+
+  const section: ArrangementSection = {
+    kind: raw.kind as ArrangementSectionKind,
+    bars: raw.bars,
+    energy: Math.round(
+      Math.max(JAM_GOVERNANCE.ENERGY_MIN, Math.min(JAM_GOVERNANCE.ENERGY_MAX, raw.energy))
+    ),
+  };
+
+  if (raw.key !== undefined && raw.key !== null && raw.key !== '') {
+    if (typeof raw.key !== 'string' || !deriveScale(raw.key.trim())) return null;
+    section.key = raw.key.trim();
+  }
+
+  if (raw.chords !== undefined && raw.chords !== null) {
+    if (!Array.isArray(raw.chords) || raw.chords.some((chord) => typeof chord !== 'string')) return null;
+    const chords = (raw.chords as string[]).map((chord) => chord.trim()).filter(Boolean);
+    if (chords.length > ARRANGEMENT_MAX_CHORDS) return null;
+    if (chords.length > 0) section.chords = chords;
+  }
+
+  return section;
+}
+
+/**
+ * Validate an arrangement sent by the browser or read from a snapshot.
+ * Returns null unless every section is well-formed; energy is clamped to the
+ * governance range, blank keys/chords are dropped.
+ */
+export function normalizeArrangementSections(value: unknown): ArrangementSection[] | null {
+  if (!Array.isArray(value) || value.length === 0 || value.length > ARRANGEMENT_MAX_SECTIONS) {
+    return null;
+  }
+
+  const sections: ArrangementSection[] = [];
+  for (const item of value) {
+    const section = normalizeArrangementSection(item);
+    if (!section) return null;
+    sections.push(section);
+  }
+  return sections;
+}
+
+export function cloneArrangementSection(section: ArrangementSection): ArrangementSection {
+  return {
+    ...section,
+    ...(section.chords ? { chords: [...section.chords] } : {}),
+  };
+}
+
+function isSameSection(a: ArrangementSection | undefined, b: ArrangementSection | undefined): boolean {
+  if (!a || !b) return a === b;
+  return a.kind === b.kind
+    && a.bars === b.bars
+    && a.energy === b.energy
+    && a.key === b.key
+    && (a.chords ?? []).join(' ') === (b.chords ?? []).join(' ');
+}
+
+export interface ArrangementPosition {
+  currentIndex: number;
+  barsElapsed: number;
+}
+
+/**
+ * Bar counter over an arrangement. Time is integrated at the tempo in effect
+ * since the previous sync, so tempo changes mid-section keep the bar count
+ * exact. The final section holds until the jam ends.
+ */
+export class ArrangementClock {
+  private sections: ArrangementSection[];
+  private index: number;
+  private barsElapsed: number;
+  private cyclesPerMinute = 0;
+  private lastSyncMs: number | null = null;
+
+  constructor(sections: ArrangementSection[], position?: ArrangementPosition) {
+    if (sections.length === 0) {
+      throw new Error('Arrangement needs at least one section.');
+    }
+    this.sections = sections.map(cloneArrangementSection);
+    this.index = 0;
+    this.barsElapsed = 0;
+    if (position) {
+      this.index = Math.max(0, Math.min(this.sections.length - 1, Math.floor(position.currentIndex)));
+      this.barsElapsed = Math.max(0, Math.min(this.sections[this.index].bars, position.barsElapsed));
+    }
+  }
+
+  get isRunning(): boolean {
+    return this.lastSyncMs !== null;
+  }
+
+  get currentIndex(): number {
+    return this.index;
+  }
+
+  get currentSection(): ArrangementSection {
+    return this.sections[this.index];
+  }
+
+  get nextSection(): ArrangementSection | null {
+    return this.sections[this.index + 1] ?? null;
+  }
+
+  /** Count bars up to `nowMs`; `cyclesPerMinute` applies from `nowMs` on. Starts the clock. */
+  sync(nowMs: number, cyclesPerMinute: number): void {
+    this.barsElapsed = this.projectBarsElapsed(nowMs);
+    this.lastSyncMs = nowMs;
+    this.cyclesPerMinute = Math.max(0, cyclesPerMinute);
+  }
+
+  /** Move past every section boundary already reached. Returns true if the section changed. */
+  advanceDue(): boolean {
+    let moved = false;
+    while (this.nextSection && this.barsElapsed >= this.currentSection.bars) {
+      this.barsElapsed -= this.currentSection.bars;
+      this.index++;
+      moved = true;
+    }
+    return moved;
+  }
+
+  /** Jump to the start of the next section. Returns false on the final section. */
+  skip(): boolean {
+    if (!this.nextSection) return false;
+    this.index++;
+    this.barsElapsed = 0;
+    return true;
+  }
+
+  /**
+   * Swap in an edited arrangement, staying on the same section index where
+   * it still exists. Returns true if the section being played changed.
+   */
+  replaceSections(sections: ArrangementSection[]): boolean {
+    if (sections.length === 0) {
+      throw new Error('Arrangement needs at least one section.');
+    }
+    const previous = this.currentSection;
+    this.sections = sections.map(cloneArrangementSection);
+    if (this.index >= this.sections.length) {
+      this.index = this.sections.length - 1;
+      this.barsElapsed = 0;
+    }
+    this.barsElapsed = Math.min(this.barsElapsed, this.currentSection.bars);
+    return !isSameSection(previous, this.currentSection);
+  }
+
+  /** Wall-clock ms until the next boundary, or null if paused or on the final section. */
+  msUntilNextSection(nowMs: number): number | null {
+    if (!this.isRunning || !this.nextSection || this.cyclesPerMinute <= 0) return null;
+    const barsLeft = Math.max(0, this.currentSection.bars - this.projectBarsElapsed(nowMs));
+    return (barsLeft / this.cyclesPerMinute) * 60_000;
+  }
+
+  getPosition(nowMs: number): ArrangementPosition {
+    return { currentIndex: this.index, barsElapsed: this.projectBarsElapsed(nowMs) };
+  }
+
+  getSections(): ArrangementSection[] {
+    return this.sections.map(cloneArrangementSection);
+  }
+
+  getState(nowMs: number): JamArrangementState {
+    const section = this.currentSection;
+    const projected = this.projectBarsElapsed(nowMs);
+    const msUntilNext = this.msUntilNextSection(nowMs);
+
+    return {
+      sections: this.getSections(),
+      currentIndex: this.index,
+      barsElapsed: Math.min(section.bars, Math.floor(projected)),
+      barsUntilNext: this.nextSection ? Math.max(0, Math.ceil(section.bars - projected)) : null,
+      isRunning: this.isRunning,
+      nextSectionAtMs: msUntilNext === null ? null : nowMs + msUntilNext,
+      serverNowMs: nowMs,
+    };
+  }
+
+  private projectBarsElapsed(nowMs: number): number {
+    if (this.lastSyncMs === null) return this.barsElapsed;
+    const elapsedMs = Math.max(0, nowMs - this.lastSyncMs);
+    return this.barsElapsed + (elapsedMs / 60_000) * this.cyclesPerMinute;
+  }
+}
+
+export function formatArrangementSectionLabel(section: ArrangementSection): string {
+  return ARRANGEMENT_SECTION_LABELS[section.kind] ?? section.kind;
+}
+
+/**
+ * Prompt lines telling an agent where it is in the song form:
+ *   ARRANGEMENT: Intro → Verse → [Chorus] → Bridge → Outro
+ *   SECTION: Chorus (3/5), bar 5 of 16 — 12 bars until Bridge. Target energy 7/10.
+ */
+export function formatArrangementForPrompt(state: JamArrangementState): string[] {
+  const section = state.sections[state.currentIndex];
+  if (!section) return [];
+
+  const form = state.sections
+    .map((item, index) => {
+      const label = formatArrangementSectionLabel(item);
+      return index === state.currentIndex ? `[${label}]` : label;
+    })
+    .join(' → ');
+
+  const position = `${formatArrangementSectionLabel(section)} (${state.currentIndex + 1}/${state.sections.length})`;
+  const bar = Math.min(section.bars, state.barsElapsed + 1);
+  const next = state.sections[state.currentIndex + 1];
+  const upcoming = next && state.barsUntilNext !== null
+    ? `${state.barsUntilNext} bar${state.barsUntilNext === 1 ? '' : 's'} until ${formatArrangementSectionLabel(next)}`
+    : 'final section';
+
+  return [
+    `ARRANGEMENT: ${form}`,
+    `SECTION: ${position}, bar ${bar} of ${section.bars} — ${upcoming}. Target energy ${section.energy}/10.`,
+    next
+      ? 'Play to this section; set up the change as the next section approaches.'
+      : 'Play to this section; bring the song home.',
+  ];
+}
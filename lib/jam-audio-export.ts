@@ -0,0 +1,114 @@
+/**
+ * Audio export of a jam: WAV encoding of captured PCM, bar-length timing,
+ * and the file name and sidecar JSON that describe what was recorded. The
+ * browser hook (useJamAudioRecorder) taps the Strudel output bus and hands
+ * its samples or MediaRecorder chunks to these helpers.
+ */
+
+import { deriveCyclesPerMinute } from './jam-tempo';
+
+export type JamAudioFormat = 'wav' | 'webm';
+
+// Bars offered by the record control; null records until stopped or the jam ends
+export const JAM_AUDIO_RECORD_BAR_OPTIONS = [4, 8, 16, 32] as const;
+export const DEFAULT_JAM_AUDIO_RECORD_BARS = 8;
+
+export interface JamAudioExportMetadata {
+  format: JamAudioFormat;
+  preset: string | null;      // preset id the jam was started from
+  genre: string;
+  bpm: number;
+  key: string;
+  timeSignature: string;
+  bars: number | null;        // requested bars; null for a whole-session take
+  roundFrom: number;
+  roundTo: number;
+  agents: string[];
+  startedAt: string;
+  durationMs: number;
+  sampleRate: number;
+}
+
+/** Length of `bars` bars in ms (one cycle = one bar, BPM counts quarters). */
+export function getBarsDurationMs(bars: number, bpm: number, timeSignature: string): number {
+  return Math.round((bars * 60_000) / deriveCyclesPerMinute(bpm, timeSignature));
+}
+
+function slug(value: string): string {
+  return value.toLowerCase().replace(/#/g, 's').replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+/**
+ * File name without extension, e.g.
+ * "jam-dark-ambient-90bpm-c-minor-r3-r7-2026-10-18t12-30-00z". The audio file
+ * adds ".wav"/".webm" and the sidecar ".json".
+ */
+export function getJamAudioExportBaseName(metadata: JamAudioExportMetadata): string {
+  const rounds = metadata.roundFrom === metadata.roundTo
+    ? `r${metadata.roundFrom}`
+    : `r${metadata.roundFrom}-r${metadata.roundTo}`;
+  const stamp = metadata.startedAt.replace(/\.\d+/, '').replace(/:/g, '-');
+  return [
+    'jam',
+    slug(metadata.preset ?? metadata.genre) || 'session',
+    `${Math.round(metadata.bpm)}bpm`,
+    slug(metadata.key),
+    rounds,
+    slug(stamp),
+  ].filter(Boolean).join('-');
+}
+
+export function serializeJamAudioExportMetadata(metadata: JamAudioExportMetadata): string {
+  return JSON.stringify(metadata, null, 2) + '\n';
+}
+
+/**
+ * 16-bit PCM WAV bytes for one or more channels of equal length. Samples are
+ * clamped to [-1, 1]; interleaved left/right for stereo.
+ */
+export function encodeWav(channels: Float32Array[], sampleRate: number): Uint8Array<ArrayBuffer> {
+  const channelCount = Math.max(1, channels.length);
+  const frameCount = channels.length > 0 ? Math.min(...channels.map((channel) => channel.length)) : 0;
+  const dataBytes = frameCount * channelCount * 2;
+  const buffer = new ArrayBuffer(44 + dataBytes);
+  const view = new DataView(buffer);
+  const writeText = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  writeText(0, 'RIFF');
+  view.setUint32(4, 36 + dataBytes, true);
+  writeText(8, 'WAVE');
+  writeText(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, channelCount, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * channelCount * 2, true);
+  view.setUint16(32, channelCount * 2, true);
+  view.setUint16(34, 16, true);
+  writeText(36, 'data');
+  view.setUint32(40, dataBytes, true);
+
+  let offset = 44;
+  for (let frame = 0; frame < frameCount; frame++) {
+    for (let channel = 0; channel < channelCount; channel++) {
+      const sample = Math.max(-1, Math.min(1, channels[channel]?.[frame] ?? 0));
+      view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+      offset += 2;
+    }
+  }
+  return new Uint8Array(buffer);
+}
+
+/** Concatenate captured sample blocks into one buffer per channel. */
+export function joinSampleBlocks(blocks: Float32Array[][], channelCount: number): Float32Array[] {
+  const frameCount = blocks.reduce((sum, block) => sum + (block[0]?.length ?? 0), 0);
+  const channels = Array.from({ length: channelCount }, () => new Float32Array(frameCount));
+  let offset = 0;
+  for (const block of blocks) {
+    channels.forEach((channel, index) => channel.set(block[index] ?? block[0], offset));
+    offset += block[0]?.length ?? 0;
+  }
+  return channels;
+}
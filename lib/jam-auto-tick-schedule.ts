@@ -0,0 +1,79 @@
+/**
+ * Auto-tick scheduling modes. By default autonomous rounds fire every
+ * AUTO_TICK_INTERVAL_MS of wall-clock time; the boss can instead tie them to
+ * the music — every N bars at the current tempo, one agent at a time in
+ * rotation, or at song-form section boundaries.
+ *
+ * Follows the jam-tempo convention: one Strudel cycle = one bar.
+ */
+
+import type { AutoTickMode, AutoTickSchedule } from './types';
+import { JAM_GOVERNANCE } from './jam-governance-constants';
+
+export const AUTO_TICK_BARS_MIN = 2;
+export const AUTO_TICK_BARS_MAX = 64;
+
+export const DEFAULT_AUTO_TICK_SCHEDULE: Readonly<AutoTickSchedule> = { mode: 'interval', bars: 8 };
+
+export const AUTO_TICK_MODE_OPTIONS: ReadonlyArray<{ mode: AutoTickMode; label: string }> = [
+  { mode: 'interval', label: `Every ${JAM_GOVERNANCE.AUTO_TICK_INTERVAL_MS / 1000}s` },
+  { mode: 'bars', label: 'Every N bars' },
+  { mode: 'round_robin', label: 'Round-robin' },
+  { mode: 'section', label: 'Section changes' },
+];
+
+export const AUTO_TICK_BARS_OPTIONS: ReadonlyArray<number> = [2, 4, 8, 16, 32];
+
+export function isAutoTickMode(value: unknown): value is AutoTickMode {
+  return AUTO_TICK_MODE_OPTIONS.some((option) => option.mode === value);
+}
+
+/** Validate a schedule from the wire or a snapshot; null when the mode is unknown. */
+export function normalizeAutoTickSchedule(value: unknown): AutoTickSchedule | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+  const raw = value as Record<string, unknown>;
+  if (!isAutoTickMode(raw.mode)) return null;
+
+  const bars = typeof raw.bars === 'number' && Number.isFinite(raw.bars)
+    ? Math.min(AUTO_TICK_BARS_MAX, Math.max(AUTO_TICK_BARS_MIN, Math.round(raw.bars)))
+    : DEFAULT_AUTO_TICK_SCHEDULE.bars;
+  return { mode: raw.mode, bars };
+}
+
+/** Whether tick spacing depends on tempo, so a BPM or meter change re-arms the timer. */
+export function isTempoRelativeSchedule(schedule: AutoTickSchedule): boolean {
+  return schedule.mode === 'bars' || schedule.mode === 'round_robin';
+}
+
+/**
+ * Spacing between ticks for clock-driven modes. Section mode returns the
+ * wall-clock interval: it is the fallback while no section boundary is ahead.
+ */
+export function getAutoTickIntervalMs(schedule: AutoTickSchedule, cyclesPerMinute: number): number {
+  if (!isTempoRelativeSchedule(schedule) || !(cyclesPerMinute > 0)) {
+    return JAM_GOVERNANCE.AUTO_TICK_INTERVAL_MS;
+  }
+  return Math.round((schedule.bars / cyclesPerMinute) * 60_000);
+}
+
+/**
+ * Agents the next tick prompts: everyone, or in round-robin mode the agent at
+ * `cursor` (wrapping), so each active agent evolves in turn.
+ */
+export function pickAutoTickTargets(schedule: AutoTickSchedule, activeTargets: string[], cursor: number): string[] {
+  if (schedule.mode !== 'round_robin' || activeTargets.length === 0) return [...activeTargets];
+  return [activeTargets[cursor % activeTargets.length]];
+}
+
+export function formatAutoTickSchedule(schedule: AutoTickSchedule): string {
+  switch (schedule.mode) {
+    case 'bars':
+      return `every ${schedule.bars} bars`;
+    case 'round_robin':
+      return `one agent every ${schedule.bars} bars`;
+    case 'section':
+      return 'at section changes';
+    default:
+      return `every ${JAM_GOVERNANCE.AUTO_TICK_INTERVAL_MS / 1000}s`;
+  }
+}
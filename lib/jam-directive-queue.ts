@@ -0,0 +1,128 @@
+/**
+ * Boss directives waiting for their turn. Each pending entry owns one slot in
+ * the manager's turn chain; new cues fold into an existing slot instead of
+ * adding another full band turn:
+ *
+ * - a targeted cue replaces a pending cue for the same agent (superseded),
+ * - a broadcast cue is appended to a pending broadcast with the same routing
+ *   scope (coalesced), so several "all agents" cues become one turn.
+ *
+ * A cue only folds into an entry no later cue overlaps (a broadcast overlaps
+ * everything, a targeted cue its own agent), so cues never overtake one the
+ * boss sent before them.
+ *
+ * Cancelled entries keep their slot in the chain but run as a no-op.
+ */
+
+import type { QueuedDirective } from './types';
+
+// Turn-time estimate used for the queue ETA until a few turns have completed
+const DEFAULT_TURN_ESTIMATE_MS = 6_000;
+const TURN_DURATION_SAMPLE_SIZE = 5;
+
+export type DirectiveOfferOutcome = 'queued' | 'superseded' | 'coalesced';
+
+export interface PendingDirective<Scope extends string = string> {
+  id: number;
+  texts: string[];
+  targetAgent?: string;
+  routingScope: Scope;
+  queuedAtMs: number;
+}
+
+/** Text sent to the band for a pending entry: coalesced cues joined in order. */
+export function formatPendingDirectiveText(entry: PendingDirective): string {
+  return entry.texts.join('; ');
+}
+
+export class DirectiveQueue<Scope extends string = string> {
+  private pending: PendingDirective<Scope>[] = [];
+  private nextId = 1;
+  private turnDurationsMs: number[] = [];
+
+  get size(): number {
+    return this.pending.length;
+  }
+
+  /**
+   * Add a cue. Returns the entry that will carry it and whether it opened a
+   * new turn slot ('queued') or rode along on an existing one.
+   */
+  offer(
+    text: string,
+    targetAgent: string | undefined,
+    routingScope: Scope,
+    nowMs = Date.now()
+  ): { entry: PendingDirective<Scope>; outcome: DirectiveOfferOutcome } {
+    const existing = this.findFoldTarget(targetAgent, routingScope);
+    if (existing && targetAgent) {
+      existing.texts = [text];
+      return { entry: existing, outcome: 'superseded' };
+    }
+    if (existing) {
+      existing.texts.push(text);
+      return { entry: existing, outcome: 'coalesced' };
+    }
+
+    const entry: PendingDirective<Scope> = { id: this.nextId++, texts: [text], targetAgent, routingScope, queuedAtMs: nowMs };
+    this.pending.push(entry);
+    return { entry, outcome: 'queued' };
+  }
+
+  // Newest entry with the same target and scope, unless a later entry overlaps it
+  private findFoldTarget(targetAgent: string | undefined, routingScope: Scope): PendingDirective<Scope> | undefined {
+    for (let index = this.pending.length - 1; index >= 0; index--) {
+      const entry = this.pending[index];
+      if (entry.targetAgent === targetAgent && entry.routingScope === routingScope) return entry;
+      if (!targetAgent || !entry.targetAgent || entry.targetAgent === targetAgent) return undefined;
+    }
+    return undefined;
+  }
+
+  /** Remove an entry as its turn starts; null when it was cancelled. */
+  start(id: number): PendingDirective<Scope> | null {
+    const index = this.pending.findIndex((entry) => entry.id === id);
+    if (index === -1) return null;
+    const [entry] = this.pending.splice(index, 1);
+    return entry;
+  }
+
+  cancel(id: number): boolean {
+    return this.start(id) !== null;
+  }
+
+  /** Feed completed turn durations into the ETA estimate. */
+  recordTurnDuration(durationMs: number): void {
+    this.turnDurationsMs = [...this.turnDurationsMs, Math.max(0, durationMs)].slice(-TURN_DURATION_SAMPLE_SIZE);
+  }
+
+  /**
+   * Estimated wait until the last pending directive has been answered:
+   * what is left of the running turn plus one average turn per entry.
+   */
+  estimateEtaMs(activeTurnStartedAtMs: number | null, nowMs = Date.now()): number | null {
+    if (this.pending.length === 0) return null;
+    const averageMs = this.turnDurationsMs.length > 0
+      ? this.turnDurationsMs.reduce((sum, value) => sum + value, 0) / this.turnDurationsMs.length
+      : DEFAULT_TURN_ESTIMATE_MS;
+    const activeRemainingMs = activeTurnStartedAtMs === null
+      ? 0
+      : Math.max(0, averageMs - (nowMs - activeTurnStartedAtMs));
+    return Math.round(activeRemainingMs + averageMs * this.pending.length);
+  }
+
+  list(): QueuedDirective[] {
+    return this.pending.map((entry) => ({
+      id: entry.id,
+      text: formatPendingDirectiveText(entry),
+      ...(entry.targetAgent ? { targetAgent: entry.targetAgent } : {}),
+      cueCount: entry.texts.length,
+      queuedAtMs: entry.queuedAtMs,
+    }));
+  }
+
+  clear(): void {
+    this.pending = [];
+    this.turnDurationsMs = [];
+  }
+}
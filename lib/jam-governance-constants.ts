@@ -82,6 +82,13 @@ export const JAM_GOVERNANCE = {
   ENERGY_MIN: 1,
   ENERGY_MAX: 10,
 
+  /**
+   * Largest beats-per-bar a directive can set ("switch to 15/8"). Longer bars
+   * stop reading as a meter and make step-count guidance meaningless.
+   * Used in `parseDeterministicMusicalContextChanges()`.
+   */
+  METER_BEATS_MAX: 16,
+
   // ─── Drift Control ────────────────────────────────────────────────
   /**
    * Multiplier applied to averaged auto-tick tempo/energy drift.
@@ -106,6 +113,23 @@ export const JAM_GOVERNANCE = {
    */
   AUTO_TICK_INTERVAL_MS: 15_000,
 
+  // ─── Session Budget ───────────────────────────────────────────────
+  /**
+   * Share of the session budget after which auto-tick slows down.
+   * At 1 (budget spent) autonomous rounds stop; boss directives still run.
+   *
+   * Higher → full-speed evolution for longer, less warning before the pause.
+   * Lower → earlier slowdown, more of the budget left for boss directives.
+   * Must be in (0, 1).
+   */
+  BUDGET_SLOWDOWN_FRACTION: 0.8,
+
+  /**
+   * Multiplier applied to auto-tick spacing once the slowdown threshold
+   * is crossed. Must be greater than 1.
+   */
+  BUDGET_SLOWDOWN_FACTOR: 2,
+
   // ─── Commentary (Display-Only) ─────────────────────────────────────
   /**
    * Maximum number of characters to broadcast in optional agent commentary.
@@ -126,18 +150,84 @@ export const JAM_GOVERNANCE = {
    */
   COMMENTARY_RECENT_SIGNATURE_WINDOW: 3,
 
+  // ─── Agent-to-Agent Requests ──────────────────────────────────────
+  /**
+   * Maximum number of band members one agent response may address.
+   * Extra entries in `requests` are dropped in order.
+   *
+   * Higher → richer band chatter, but one turn can fan out into several
+   * follow-up turns and crowd out auto-ticks.
+   */
+  AGENT_REQUEST_MAX_PER_TURN: 1,
+
+  /**
+   * Maximum length of a request chain. A request made on a normal turn has
+   * depth 1; a request made while answering one has depth 2, and so on.
+   * Requests beyond this depth are dropped, which stops two agents from
+   * bouncing requests back and forth indefinitely.
+   * Must be at least 1 — zero would disable requests entirely.
+   */
+  AGENT_REQUEST_MAX_CHAIN_DEPTH: 2,
+
+  /**
+   * Minimum round spacing between routed requests from the same sender to
+   * the same recipient.
+   */
+  AGENT_REQUEST_PAIR_COOLDOWN_ROUNDS: 2,
+
+  /**
+   * Maximum number of requests waiting to be routed. New requests are
+   * dropped while the queue is full; boss directives are never queued here.
+   */
+  AGENT_REQUEST_QUEUE_MAX: 3,
+
+  /**
+   * Maximum number of characters kept from a request's text. Like
+   * commentary, requests are short cues rather than prose.
+   */
+  AGENT_REQUEST_MAX_CHARS: 140,
+
   // ─── Consensus ────────────────────────────────────────────────────
   /**
-   * Minimum number of agents (with `high` confidence) that must agree
-   * on a key change for it to be applied.
+   * Quorum for a key-change proposal: the proposer plus endorsing agents
+   * (a matching `high`-confidence suggestion counts as an endorsement).
+   * A boss approval applies the proposal regardless.
    *
    * Lowering to 1 risks whiplash key changes from a single agent.
-   * Raising above active agent count makes key modulation impossible.
+   * Raising above active agent count leaves key changes to the boss.
    *
    * See: docs/v3/model-policy-playbook.md § 2 — Key consensus threshold
    */
   KEY_CONSENSUS_MIN_AGENTS: 2,
 
+  /**
+   * Quorum for a chord-progression proposal, counted like the key quorum.
+   *
+   * At 1 a single confident agent re-harmonizes the band on its own.
+   */
+  CHORD_CONSENSUS_MIN_AGENTS: 2,
+
+  /**
+   * Rounds a harmony proposal stays open. Objections from as many agents
+   * as the quorum reject it early.
+   */
+  HARMONY_PROPOSAL_TTL_ROUNDS: 4,
+
+  /**
+   * Distinct out-of-key pitch classes in a directive response before the
+   * agent is asked once to repair it. A single chromatic passing tone is
+   * allowed. Used by `AgentProcessManager.getHarmonyRepairReason()`.
+   */
+  HARMONY_REPAIR_MIN_OUT_OF_KEY: 2,
+
+  /**
+   * Auto-tick rounds between density nudges to the same agent. An agent that
+   * stays busier or sparser than the genre guidance on purpose hears about it
+   * once per window instead of every round.
+   * Used by `AgentProcessManager.getDensityNudgeLines()`.
+   */
+  DENSITY_NUDGE_COOLDOWN_ROUNDS: 4,
+
   // ─── Lifecycle ────────────────────────────────────────────────────
   /**
    * Maximum wait time for a single agent turn response.
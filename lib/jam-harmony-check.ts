@@ -0,0 +1,200 @@
+/**
+ * Harmonic conformance. Resolves the pitches an agent's `note(...)` layers
+ * play — note names, MIDI numbers, or scale degrees under `.scale("C:minor")`
+ * — and checks them against the jam's key (`musicalContext.scale`) and the
+ * chords of its progression. The manager shows the result as a per-agent
+ * "in key" badge and feeds clear violations into the directive repair retry.
+ *
+ * Layers that are transposed (`.add`, `.sub`, `.transpose`, `.scaleTranspose`)
+ * or use a scale this module does not know are skipped rather than guessed at.
+ */
+
+import type { AgentHarmonyReport, LayerSummary, MusicalContext } from './types';
+import { normalizeStrudelPatternForJam, parsePattern } from './pattern-parser';
+import { parseStrudelNoteName, parseStrudelScale } from './musical-context-parser';
+import { expandMiniNotation, getMiniPeriod, parseMiniNotation } from './mini-notation';
+
+const SHARP_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+const FLAT_NAMES = ['C', 'Db', 'D', 'Eb', 'E', 'F', 'Gb', 'G', 'Ab', 'A', 'Bb', 'B'];
+
+const TRANSPOSING_MODIFIERS = new Set(['add', 'sub', 'transpose', 'scaleTranspose']);
+
+// Directive wording that asks for notes outside the key on purpose
+const OUTSIDE_NOTES_DIRECTIVE = /\b(chromatic\w*|outside|out[- ]of[- ]key|off[- ]key|dissonan\w*|atonal|clash\w*|blue ?notes?|(passing|approach) (notes?|tones?)|altered|tritones?|borrowed)\b/i;
+const MAX_PLAYED_CYCLES = 16;
+
+// Suffix → semitones above the root; more specific suffixes first
+const CHORD_QUALITIES: Array<[string, number[]]> = [
+  ['m7b5', [0, 3, 6, 10]],
+  ['ø', [0, 3, 6, 10]],
+  ['dim7', [0, 3, 6, 9]],
+  ['dim', [0, 3, 6]],
+  ['°', [0, 3, 6]],
+  ['maj9', [0, 4, 7, 11, 2]],
+  ['maj7', [0, 4, 7, 11]],
+  ['M7', [0, 4, 7, 11]],
+  ['maj', [0, 4, 7]],
+  ['min7', [0, 3, 7, 10]],
+  ['min', [0, 3, 7]],
+  ['m9', [0, 3, 7, 10, 2]],
+  ['m7', [0, 3, 7, 10]],
+  ['m6', [0, 3, 7, 9]],
+  ['m', [0, 3, 7]],
+  ['aug', [0, 4, 8]],
+  ['+', [0, 4, 8]],
+  ['sus2', [0, 2, 7]],
+  ['sus', [0, 5, 7]],
+  ['9', [0, 4, 7, 10, 2]],
+  ['7', [0, 4, 7, 10]],
+  ['6', [0, 4, 7, 9]],
+  ['', [0, 4, 7]],
+];
+
+interface ResolvedNote {
+  pitchClass: number;
+  name: string;
+}
+
+function readNoteName(name: string): ResolvedNote | null {
+  const note = parseStrudelNoteName(name);
+  if (!note) return null;
+  const { letter, accidentals, offset, pitchClass } = note;
+  return {
+    pitchClass,
+    name: accidentals.length <= 1 ? letter + accidentals : (offset > 0 ? SHARP_NAMES : FLAT_NAMES)[pitchClass],
+  };
+}
+
+/** Pitch classes of a chord symbol ("Fm7", "Bb", "C/E"); null when the root is not a note. */
+export function getChordPitchClasses(symbol: string): number[] | null {
+  const [body, bass] = symbol.trim().split('/');
+  const match = body.match(/^([A-G][#b]?)(.*)$/);
+  const root = match ? readNoteName(match[1]) : null;
+  if (!match || !root) return null;
+
+  const [, intervals] = CHORD_QUALITIES.find(([suffix]) => match[2].startsWith(suffix)) ?? ['', [0, 4, 7]];
+  const pitchClasses = intervals.map((interval) => (root.pitchClass + interval) % 12);
+  const bassNote = bass ? readNoteName(bass.trim()) : null;
+  if (bassNote) pitchClasses.push(bassNote.pitchClass);
+  return pitchClasses;
+}
+
+// Values the layer plays over one full repeat (up to 16 cycles), in onset order
+function playedValues(mini: string): string[] | null {
+  try {
+    const root = parseMiniNotation(mini);
+    const cycles = Math.min(getMiniPeriod(root) ?? MAX_PLAYED_CYCLES, MAX_PLAYED_CYCLES);
+    return expandMiniNotation(root, { cycles }).map((event) => event.value.replace(/:.*$/, ''));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Notes one note() layer plays, in order; null when the layer cannot be
+ * resolved (not a note layer, transposed, unparseable, or an unknown scale).
+ */
+function resolveLayerNotes(layer: LayerSummary, spellings: string[]): ResolvedNote[] | null {
+  if (layer.source !== 'note') return null;
+  if (layer.modifiers.some((modifier) => TRANSPOSING_MODIFIERS.has(modifier))) return null;
+
+  const scaleName = typeof layer.effects.scale === 'string' ? layer.effects.scale : null;
+  const degreeScale = scaleName ? parseStrudelScale(scaleName)?.notes ?? null : null;
+  if (scaleName && !degreeScale) return null;
+
+  const values = playedValues(layer.mini);
+  if (!values) return null;
+
+  const notes: ResolvedNote[] = [];
+  for (const token of values) {
+    if (/^-?\d+(\.\d+)?$/.test(token)) {
+      const value = Math.round(Number(token));
+      if (degreeScale) {
+        // Scale degree, counted from 0
+        const note = readNoteName(degreeScale[((value % degreeScale.length) + degreeScale.length) % degreeScale.length]);
+        if (note) notes.push(note);
+      } else {
+        // MIDI note number, spelled the way the key spells it
+        const pitchClass = ((value % 12) + 12) % 12;
+        notes.push({ pitchClass, name: spellings[pitchClass] });
+      }
+      continue;
+    }
+    const note = readNoteName(token);
+    if (note) notes.push(note);
+  }
+  return notes;
+}
+
+/**
+ * Check the note() layers of a pattern against the key and chord progression
+ * of `musicalContext`. Null when the pattern has no note layer that can be
+ * resolved (drums, silence, transposed or unparseable layers).
+ */
+export function analyzePatternHarmony(code: string, musicalContext: MusicalContext): AgentHarmonyReport | null {
+  if (!code || code === 'silence' || code === 'no_change') return null;
+  const parsed = parsePattern(normalizeStrudelPatternForJam(code));
+  if (!parsed) return null;
+
+  const keyNotes = musicalContext.scale.map(readNoteName).filter((note): note is ResolvedNote => note !== null);
+  if (keyNotes.length === 0) return null;
+  const keyPitchClasses = new Set(keyNotes.map((note) => note.pitchClass));
+  const spellings = (musicalContext.key.match(/^[A-G]#/) ? SHARP_NAMES : FLAT_NAMES).map((name, pitchClass) => (
+    keyNotes.find((note) => note.pitchClass === pitchClass)?.name ?? name
+  ));
+
+  const played = new Map<number, string>();
+  let resolvedLayers = 0;
+  for (const layer of parsed.layers) {
+    const notes = resolveLayerNotes(layer, spellings);
+    if (!notes) continue;
+    resolvedLayers++;
+    for (const note of notes) {
+      if (played.has(note.pitchClass)) continue;
+      // In-key notes are shown the way the key spells them (D# in Eb major reads Eb)
+      played.set(note.pitchClass, keyPitchClasses.has(note.pitchClass) ? spellings[note.pitchClass] : note.name);
+    }
+  }
+  if (resolvedLayers === 0 || played.size === 0) return null;
+
+  const chordPitchClasses = new Set(
+    musicalContext.chordProgression.flatMap((chord) => getChordPitchClasses(chord) ?? [])
+  );
+  const outOfKey: string[] = [];
+  const nonChordTones: string[] = [];
+  played.forEach((name, pitchClass) => {
+    if (!keyPitchClasses.has(pitchClass)) {
+      outOfKey.push(name);
+    } else if (chordPitchClasses.size > 0 && !chordPitchClasses.has(pitchClass)) {
+      nonChordTones.push(name);
+    }
+  });
+
+  return {
+    key: musicalContext.key,
+    notes: Array.from(played.values()),
+    outOfKey,
+    nonChordTones,
+  };
+}
+
+/**
+ * Whether a boss directive asks for chromatic or outside colour, or for a
+ * passing note, so out-of-key notes in the response are the point.
+ */
+export function directiveInvitesOutsideNotes(directive: string): boolean {
+  return OUTSIDE_NOTES_DIRECTIVE.test(directive);
+}
+
+/** One-line description for the badge tooltip and logs. */
+export function formatHarmonyReport(report: AgentHarmonyReport): string {
+  const parts = [
+    report.outOfKey.length === 0
+      ? `In ${report.key}`
+      : `Outside ${report.key}: ${report.outOfKey.join(', ')}`,
+  ];
+  if (report.nonChordTones.length > 0) {
+    parts.push(`non-chord tones: ${report.nonChordTones.join(', ')}`);
+  }
+  return `${parts.join('; ')} (plays ${report.notes.join(' ')})`;
+}
@@ -0,0 +1,219 @@
+/**
+ * Harmony proposals. A `high`-confidence `suggested_key` or `suggested_chords`
+ * no longer changes the jam on its own: it opens a proposal that the boss and
+ * the rest of the band see. Bandmates endorse or object through the optional
+ * `votes` array on their next turn (suggesting the same change counts as an
+ * endorsement), and the change applies once the quorum for its kind supports
+ * it or the boss approves it.
+ */
+
+import type {
+  HarmonyProposal,
+  HarmonyProposalKind,
+  HarmonyProposalStatus,
+} from './types';
+import { AGENT_META } from './types';
+import { JAM_GOVERNANCE } from './jam-governance-constants';
+
+// Resolved proposals kept for the UI history
+export const HARMONY_PROPOSAL_HISTORY_LIMIT = 8;
+
+export type HarmonyProposalVoteChoice = 'endorse' | 'object';
+
+export interface HarmonyProposalVote {
+  proposal: number;
+  vote: HarmonyProposalVoteChoice;
+}
+
+export type HarmonyProposalValue =
+  | { kind: 'key'; key: string }
+  | { kind: 'chords'; chords: string[] };
+
+export function getHarmonyProposalQuorum(kind: HarmonyProposalKind): number {
+  return kind === 'key'
+    ? JAM_GOVERNANCE.KEY_CONSENSUS_MIN_AGENTS
+    : JAM_GOVERNANCE.CHORD_CONSENSUS_MIN_AGENTS;
+}
+
+export function formatHarmonyProposalValue(proposal: HarmonyProposal): string {
+  return proposal.kind === 'key'
+    ? `key → ${proposal.key}`
+    : `chords → ${(proposal.chords ?? []).join(' → ')}`;
+}
+
+function isSameValue(proposal: HarmonyProposal, value: HarmonyProposalValue): boolean {
+  if (proposal.kind !== value.kind) return false;
+  if (value.kind === 'key') return proposal.key === value.key;
+  const chords = proposal.chords ?? [];
+  return chords.length === value.chords.length && chords.every((chord, index) => chord === value.chords[index]);
+}
+
+/**
+ * Validate the optional `votes` field of an agent response: well-formed
+ * entries only, one vote per proposal (the last one wins).
+ */
+export function normalizeHarmonyProposalVotes(value: unknown): HarmonyProposalVote[] {
+  if (!Array.isArray(value)) return [];
+
+  const votes = new Map<number, HarmonyProposalVoteChoice>();
+  for (const entry of value) {
+    if (!entry || typeof entry !== 'object') continue;
+    const { proposal, vote } = entry as Record<string, unknown>;
+    if (typeof proposal !== 'number' || !Number.isInteger(proposal)) continue;
+    if (vote !== 'endorse' && vote !== 'object') continue;
+    votes.set(proposal, vote);
+  }
+  return Array.from(votes.entries()).map(([proposal, vote]) => ({ proposal, vote }));
+}
+
+/**
+ * Prompt lines listing the open proposals for one agent, or none when
+ * nothing is open.
+ */
+export function formatHarmonyProposalsForPrompt(proposals: HarmonyProposal[], agentKey: string): string[] {
+  const open = proposals.filter((proposal) => proposal.status === 'pending');
+  if (open.length === 0) return [];
+
+  const names = (keys: string[]) => (keys.length > 0 ? keys.map((key) => AGENT_META[key]?.name ?? key).join(', ') : 'none');
+  return [
+    'OPEN HARMONY PROPOSALS:',
+    ...open.map((proposal) => {
+      const own = proposal.proposedBy === agentKey ? ' (yours)' : '';
+      return `#${proposal.id} ${formatHarmonyProposalValue(proposal)}${own} — for: ${names(proposal.supporters)}; against: ${names(proposal.objectors)}; needs ${getHarmonyProposalQuorum(proposal.kind)}`;
+    }),
+    'Vote with "votes": [{"proposal": <id>, "vote": "endorse" | "object"}] only if you have a view.',
+    '',
+  ];
+}
+
+/**
+ * Open and resolved proposals for one jam. Status changes happen here; the
+ * manager decides when a proposal is ready and applies the change itself.
+ */
+export class HarmonyProposalBoard {
+  private proposals: HarmonyProposal[] = [];
+  private nextId = 1;
+
+  /**
+   * Record a suggestion: endorse the open proposal for the same change, or
+   * open a new one.
+   */
+  suggest(value: HarmonyProposalValue, agent: string, round: number): HarmonyProposal {
+    const existing = this.proposals.find((proposal) => proposal.status === 'pending' && isSameValue(proposal, value));
+    if (existing) {
+      this.vote(existing.id, agent, 'endorse');
+      return existing;
+    }
+
+    const proposal: HarmonyProposal = {
+      id: this.nextId++,
+      kind: value.kind,
+      ...(value.kind === 'key' ? { key: value.key } : { chords: [...value.chords] }),
+      proposedBy: agent,
+      round,
+      supporters: [agent],
+      objectors: [],
+      status: 'pending',
+    };
+    this.proposals.push(proposal);
+    return proposal;
+  }
+
+  /** Cast or change a vote on an open proposal; false when it is not open. */
+  vote(id: number, agent: string, vote: HarmonyProposalVoteChoice): boolean {
+    const proposal = this.getPending(id);
+    if (!proposal) return false;
+    // The proposer's support stands until the proposal resolves
+    if (proposal.proposedBy === agent) return vote === 'endorse';
+
+    proposal.supporters = proposal.supporters.filter((key) => key !== agent);
+    proposal.objectors = proposal.objectors.filter((key) => key !== agent);
+    if (vote === 'endorse') {
+      proposal.supporters.push(agent);
+    } else {
+      proposal.objectors.push(agent);
+    }
+    return true;
+  }
+
+  getPending(id: number): HarmonyProposal | null {
+    return this.proposals.find((proposal) => proposal.id === id && proposal.status === 'pending') ?? null;
+  }
+
+  /**
+   * Close proposals that ran out of time or drew a quorum of objections, and
+   * return the open ones that reached their quorum, best supported first.
+   */
+  settle(round: number): HarmonyProposal[] {
+    for (const proposal of this.proposals) {
+      if (proposal.status !== 'pending') continue;
+      if (proposal.objectors.length >= getHarmonyProposalQuorum(proposal.kind)) {
+        this.resolve(proposal, 'rejected', round, 'band');
+      } else if (round - proposal.round >= JAM_GOVERNANCE.HARMONY_PROPOSAL_TTL_ROUNDS) {
+        this.resolve(proposal, 'expired', round);
+      }
+    }
+
+    return this.proposals
+      .filter((proposal) => (
+        proposal.status === 'pending'
+        && proposal.supporters.length >= getHarmonyProposalQuorum(proposal.kind)
+        && proposal.supporters.length > proposal.objectors.length
+      ))
+      .sort((a, b) => b.supporters.length - a.supporters.length || a.id - b.id);
+  }
+
+  markApplied(id: number, round: number, by: 'band' | 'boss'): void {
+    const proposal = this.getPending(id);
+    if (proposal) this.resolve(proposal, 'applied', round, by);
+  }
+
+  reject(id: number, round: number, by: 'band' | 'boss'): boolean {
+    const proposal = this.getPending(id);
+    if (!proposal) return false;
+    this.resolve(proposal, 'rejected', round, by);
+    return true;
+  }
+
+  /** Close every open proposal of `kind`, e.g. chord proposals for the old key. */
+  supersede(kind: HarmonyProposalKind, round: number): void {
+    for (const proposal of this.proposals) {
+      if (proposal.status === 'pending' && proposal.kind === kind) {
+        this.resolve(proposal, 'superseded', round);
+      }
+    }
+  }
+
+  /** Open proposals plus the most recent resolved ones, oldest first. */
+  list(): HarmonyProposal[] {
+    return this.proposals.map((proposal) => ({
+      ...proposal,
+      ...(proposal.chords ? { chords: [...proposal.chords] } : {}),
+      supporters: [...proposal.supporters],
+      objectors: [...proposal.objectors],
+    }));
+  }
+
+  clear(): void {
+    this.proposals = [];
+    this.nextId = 1;
+  }
+
+  private resolve(
+    proposal: HarmonyProposal,
+    status: Exclude<HarmonyProposalStatus, 'pending'>,
+    round: number,
+    by?: 'band' | 'boss'
+  ): void {
+    proposal.status = status;
+    proposal.resolvedRound = round;
+    if (by) proposal.resolvedBy = by;
+
+    const resolved = this.proposals.filter((entry) => entry.status !== 'pending');
+    const overflow = resolved.length - HARMONY_PROPOSAL_HISTORY_LIMIT;
+    if (overflow > 0) {
+      const dropped = new Set(resolved.slice(0, overflow).map((entry) => entry.id));
+      this.proposals = this.proposals.filter((entry) => !dropped.has(entry.id));
+    }
+  }
+}
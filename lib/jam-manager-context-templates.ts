@@ -1,5 +1,17 @@
-import type { AudioContextSummary, AudioFeatureSnapshot, MusicalContext } from './types';
+import type {
+  AudioContextSummary,
+  AudioFeatureSnapshot,
+  JamArrangementState,
+  MusicalContext,
+} from './types';
 import { deriveAudioContextSummary, formatAudioContextForPrompt } from './audio-context';
+import { formatArrangementForPrompt } from './jam-arrangement';
+
+// Delivered once, on the agent's first turn after the boss rolled its pattern back
+export interface PatternRevertNote {
+  restoredRound: number;
+  replacedPattern: string;
+}
 
 export interface JamStartManagerContextInput {
   roundNumber: number;
@@ -7,6 +19,7 @@ export interface JamStartManagerContextInput {
   bandStateLines: string[];
   audioFeedback?: AudioFeatureSnapshot;
   audioContextSummary?: AudioContextSummary;
+  arrangement?: JamArrangementState;
 }
 
 export interface DirectiveManagerContextInput {
@@ -16,8 +29,14 @@ export interface DirectiveManagerContextInput {
   isBroadcast: boolean;
   currentPattern: string;
   bandStateLines: string[];
+  // Bandmates' latest pattern changes, pre-formatted
+  bandmateChangeLines?: string[];
   audioFeedback?: AudioFeatureSnapshot;
   audioContextSummary?: AudioContextSummary;
+  arrangement?: JamArrangementState;
+  revert?: PatternRevertNote;
+  // Pending meter note, pre-formatted for this agent
+  meterLines?: string[];
 }
 
 export interface AutoTickManagerContextInput {
@@ -25,8 +44,34 @@ export interface AutoTickManagerContextInput {
   musicalContext: MusicalContext;
   currentPattern: string;
   bandStateLines: string[];
+  // Bandmates' latest pattern changes, pre-formatted
+  bandmateChangeLines?: string[];
+  audioFeedback?: AudioFeatureSnapshot;
+  audioContextSummary?: AudioContextSummary;
+  arrangement?: JamArrangementState;
+  revert?: PatternRevertNote;
+  // Pending meter note, pre-formatted for this agent
+  meterLines?: string[];
+  // Density nudge against the genre guidance, pre-formatted for this agent
+  densityLines?: string[];
+  // Open harmony proposals, pre-formatted for this agent
+  harmonyProposalLines?: string[];
+}
+
+export interface AgentRequestManagerContextInput {
+  roundNumber: number;
+  musicalContext: MusicalContext;
+  requests: Array<{ fromLabel: string; text: string }>;
+  currentPattern: string;
+  bandStateLines: string[];
+  // Bandmates' latest pattern changes, pre-formatted
+  bandmateChangeLines?: string[];
   audioFeedback?: AudioFeatureSnapshot;
   audioContextSummary?: AudioContextSummary;
+  arrangement?: JamArrangementState;
+  revert?: PatternRevertNote;
+  // Pending meter note, pre-formatted for this agent
+  meterLines?: string[];
 }
 
 function buildMusicalContextLines(musicalContext: MusicalContext): [string, string, string] {
@@ -37,6 +82,20 @@ function buildMusicalContextLines(musicalContext: MusicalContext): [string, stri
   ];
 }
 
+function buildArrangementLines(arrangement: JamArrangementState | undefined): string[] {
+  if (!arrangement) return [];
+  const lines = formatArrangementForPrompt(arrangement);
+  return lines.length > 0 ? [...lines, ''] : [];
+}
+
+function buildRevertLines(revert: PatternRevertNote | undefined): string[] {
+  if (!revert) return [];
+  return [
+    `BOSS ROLLED YOUR PATTERN BACK to what you played in round ${revert.restoredRound}. You had moved on to: ${revert.replacedPattern}`,
+    'Build from the restored pattern; do not bring back the one it replaced unless the boss asks.',
+  ];
+}
+
 function buildAudioContextLines(
   audioFeedback: AudioFeatureSnapshot | undefined,
   audioContextSummary?: AudioContextSummary
@@ -63,6 +122,7 @@ export function buildJamStartManagerContext(input: JamStartManagerContextInput):
     contextLine,
     chordLine,
     '',
+    ...buildArrangementLines(input.arrangement),
     ...audioLines,
     ...(audioLines.length > 0 ? [''] : []),
     'BAND STATE:',
@@ -86,14 +146,18 @@ export function buildDirectiveManagerContext(input: DirectiveManagerContextInput
       ? `BOSS SAYS: ${input.directive}`
       : `BOSS SAYS TO YOU: ${input.directive}`,
     '',
-    `Current musical context: Genre=${musicalContext.genre}, Key=${musicalContext.key}, BPM=${musicalContext.bpm}, Energy=${musicalContext.energy}/10`,
+    `Current musical context: Genre=${musicalContext.genre}, Key=${musicalContext.key}, BPM=${musicalContext.bpm}, Time=${musicalContext.timeSignature}, Energy=${musicalContext.energy}/10`,
     `Scale: ${musicalContext.scale.join(', ')} | Chords: ${musicalContext.chordProgression.join(' → ')}`,
     `Your current pattern: ${input.currentPattern}`,
+    ...buildRevertLines(input.revert),
+    ...(input.meterLines ?? []),
     '',
+    ...buildArrangementLines(input.arrangement),
     ...audioLines,
     ...(audioLines.length > 0 ? [''] : []),
     'BAND STATE:',
     ...input.bandStateLines,
+    ...(input.bandmateChangeLines ?? []),
     '',
     'Respond with your updated pattern.',
   ].join('\n');
@@ -110,13 +174,19 @@ export function buildAutoTickManagerContext(input: AutoTickManagerContextInput):
     contextLine,
     chordLine,
     '',
+    ...buildArrangementLines(input.arrangement),
     ...audioLines,
     ...(audioLines.length > 0 ? [''] : []),
     'BAND STATE:',
     ...input.bandStateLines,
+    ...(input.bandmateChangeLines ?? []),
     '',
     `YOUR CURRENT PATTERN: ${input.currentPattern}`,
+    ...buildRevertLines(input.revert),
+    ...(input.meterLines ?? []),
+    ...(input.densityLines ?? []),
     '',
+    ...(input.harmonyProposalLines ?? []),
     'Listen to the band. If the music calls for change, evolve your pattern.',
     'If your groove serves the song, respond with "no_change" as your pattern.',
     'Avoid repeating "no_change" across many auto-ticks; introduce subtle variation when the pocket allows.',
@@ -124,3 +194,32 @@ export function buildAutoTickManagerContext(input: AutoTickManagerContextInput):
     'Include a decision block if you feel the musical context should evolve.',
   ].join('\n');
 }
+
+export function buildAgentRequestManagerContext(input: AgentRequestManagerContextInput): string {
+  const [genreLine, contextLine, chordLine] = buildMusicalContextLines(input.musicalContext);
+  const audioLines = buildAudioContextLines(input.audioFeedback, input.audioContextSummary);
+
+  return [
+    'BAND REQUEST — A BANDMATE IS TALKING TO YOU',
+    `Round: ${input.roundNumber}`,
+    genreLine,
+    contextLine,
+    chordLine,
+    '',
+    ...buildArrangementLines(input.arrangement),
+    ...audioLines,
+    ...(audioLines.length > 0 ? [''] : []),
+    'BAND STATE:',
+    ...input.bandStateLines,
+    ...(input.bandmateChangeLines ?? []),
+    '',
+    ...input.requests.map((request) => `${request.fromLabel} SAYS TO YOU: ${request.text}`),
+    '',
+    `YOUR CURRENT PATTERN: ${input.currentPattern}`,
+    ...buildRevertLines(input.revert),
+    ...(input.meterLines ?? []),
+    '',
+    'Boss directives outrank bandmates. Honor the request if it serves the song; otherwise respond with "no_change".',
+    'Answer your bandmate in commentary. Only add requests of your own if you genuinely need something back.',
+  ].join('\n');
+}
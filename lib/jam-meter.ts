@@ -0,0 +1,121 @@
+/**
+ * Meter guidance. Boss directives can move the jam to a new time signature
+ * ("switch to 7/8", "play it as a waltz", "back to four"); the clock follows
+ * through jam-tempo, each agent is told once what the new bar holds for its
+ * role, and drum/bass patterns whose step counts clearly do not fit the bar
+ * are flagged back to their agent (see findMeterMismatch in pattern-parser).
+ *
+ * Follows the jam-tempo convention: one Strudel cycle = one bar.
+ */
+
+import { AGENT_META } from './types';
+import { parseTimeSignature, type TimeSignature } from './jam-tempo';
+
+// Delivered once, on the agent's next turn
+export interface JamMeterNote {
+  // The boss changed the meter
+  change?: { from: string; to: string };
+  // The agent's last pattern does not fit the bar
+  mismatch?: string;
+}
+
+const UNIT_NAMES: Record<number, string> = {
+  1: 'whole note',
+  2: 'half note',
+  4: 'quarter note',
+  8: 'eighth note',
+  16: 'sixteenth note',
+  32: 'thirty-second note',
+};
+
+const DEFAULT_METER: TimeSignature = { beatsPerBar: 4, beatUnit: 4 };
+
+function readMeter(timeSignature: string): TimeSignature {
+  return parseTimeSignature(timeSignature) ?? DEFAULT_METER;
+}
+
+/**
+ * How the beats of a bar group into pulses: 6/8 → 3+3, 7/8 → 2+2+3,
+ * 5/4 → 2+3. Simple meters count one pulse per beat.
+ */
+export function getMeterGrouping(timeSignature: string): number[] {
+  const { beatsPerBar, beatUnit } = readMeter(timeSignature);
+  if (beatUnit >= 8 && beatsPerBar > 3 && beatsPerBar % 3 === 0) {
+    return Array.from({ length: beatsPerBar / 3 }, () => 3);
+  }
+  if (beatsPerBar >= 5 && beatsPerBar % 2 === 1) {
+    return [...Array.from({ length: (beatsPerBar - 3) / 2 }, () => 2), 3];
+  }
+  return Array.from({ length: beatsPerBar }, () => 1);
+}
+
+/** Step counts per cycle that sit on the beat grid: one step per beat, then subdivisions. */
+export function getMeterStepCounts(timeSignature: string): number[] {
+  const { beatsPerBar, beatUnit } = readMeter(timeSignature);
+  return beatUnit >= 8
+    ? [beatsPerBar, beatsPerBar * 2]
+    : [beatsPerBar, beatsPerBar * 2, beatsPerBar * 4];
+}
+
+/**
+ * Whether a sequence of `steps` equal steps per cycle plausibly fits the
+ * meter: one to three steps (whole-bar and triplet feels), a multiple of the
+ * beats, a divisor of them, or a multiple of half of them (4/4 in six).
+ * Everything else — eight steps in 7/8, four in 3/4 — is an obvious miss.
+ */
+export function doesStepCountFitMeter(steps: number, timeSignature: string): boolean {
+  const { beatsPerBar } = readMeter(timeSignature);
+  return (
+    steps <= 3
+    || steps % beatsPerBar === 0
+    || beatsPerBar % steps === 0
+    || (steps * 2) % beatsPerBar === 0
+  );
+}
+
+function describeBar(timeSignature: string): string {
+  const { beatsPerBar, beatUnit } = readMeter(timeSignature);
+  const grouping = getMeterGrouping(timeSignature);
+  const pulses = grouping.every((size) => size === 1) ? '' : `, felt as ${grouping.join('+')}`;
+  return `${beatsPerBar} ${UNIT_NAMES[beatUnit] ?? `1/${beatUnit} note`}${beatsPerBar === 1 ? '' : 's'} per bar${pulses}`;
+}
+
+function describeRole(timeSignature: string, agentKey: string): string {
+  const [beats, subdivided] = getMeterStepCounts(timeSignature);
+  const grouping = getMeterGrouping(timeSignature);
+  const accents = grouping.every((size) => size === 1)
+    ? 'on the beats'
+    : `at the start of each ${grouping.join('+')} group`;
+
+  switch (AGENT_META[agentKey]?.patternFamily) {
+    case 'drums':
+      return `Drums: write ${beats} or ${subdivided} steps per cycle in each layer and put kick/snare accents ${accents}.`;
+    case 'bass':
+      return `Bass: phrase the line in ${beats} or ${subdivided} steps per cycle, root on step 1, moves ${accents}.`;
+    case 'chords':
+      return `Chords: changes land on the cycle boundary; comp in ${beats} or ${subdivided} steps per cycle with accents ${accents}.`;
+    default:
+      return `Phrase over ${beats} steps per cycle (or @ weights that add up to ${beats}) so phrases turn over on the bar line.`;
+  }
+}
+
+/** Prompt lines for one agent's pending meter note, or none. */
+export function formatMeterNoteForPrompt(
+  note: JamMeterNote | undefined,
+  timeSignature: string,
+  agentKey: string
+): string[] {
+  if (!note) return [];
+  const lines: string[] = [];
+  if (note.change) {
+    lines.push(
+      `METER CHANGE: ${note.change.from} → ${note.change.to}. One cycle is still one bar: ${describeBar(note.change.to)}.`,
+      describeRole(timeSignature, agentKey)
+    );
+  }
+  if (note.mismatch) {
+    const [beats, subdivided] = getMeterStepCounts(timeSignature);
+    lines.push(`METER CHECK: ${note.mismatch}. In ${timeSignature} use ${beats} or ${subdivided} steps per cycle.`);
+  }
+  return lines;
+}
@@ -0,0 +1,258 @@
+/**
+ * Standard MIDI File export of the jam. Each agent's pattern is expanded
+ * over a number of cycles (one cycle = one bar, see jam-tempo.ts) and written
+ * as a format-1 file: a conductor track with the session tempo and meter,
+ * then one track per agent.
+ *
+ * `s(...)` layers go to the General MIDI drum channel through GM_DRUM_NOTES;
+ * `note(...)` layers play note names ("eb3", octave 3 when omitted), MIDI
+ * numbers, or scale degrees under `.scale("C:minor")`. A layer's `.gain()`,
+ * the agent's mixer gain and the event's `?` probability set the velocity.
+ * Values that resolve to neither a drum nor a pitch (chord symbols, unknown
+ * samples) are left out, as are transpositions the parser does not record.
+ */
+
+import type { LayerSummary } from './types';
+import { AGENT_META } from './types';
+import { parsePattern } from './pattern-parser';
+import { expandLayerEvents } from './pattern-rhythm';
+import { parseTimeSignature, quarterNotesPerBar } from './jam-tempo';
+import { parseStrudelNoteName, parseStrudelScale } from './musical-context-parser';
+
+export const MIDI_TICKS_PER_QUARTER = 480;
+export const MIDI_EXPORT_CYCLE_OPTIONS = [4, 8, 16, 32, 64] as const;
+export const DEFAULT_MIDI_EXPORT_CYCLES = 8;
+const MAX_MIDI_EXPORT_CYCLES = 64;
+
+const DRUM_CHANNEL = 9;
+const DEFAULT_VELOCITY = 100;
+const DEFAULT_OCTAVE = 3;
+
+/** General MIDI percussion key for each Strudel drum sample name. */
+export const GM_DRUM_NOTES: Record<string, number> = {
+  bd: 36,
+  rim: 37,
+  sd: 38,
+  cp: 39,
+  hh: 42,
+  lt: 45,
+  oh: 46,
+  mt: 47,
+  cr: 49,
+  ht: 50,
+  rd: 51,
+  tb: 54,
+  cb: 56,
+  sh: 70,
+  perc: 75,
+};
+
+// GM program (0-based) per pattern family; anything else plays piano
+const FAMILY_PROGRAMS: Record<string, number> = {
+  bass: 33,   // Electric Bass (finger)
+  chords: 4,  // Electric Piano 1
+  melody: 80, // Lead 1 (square)
+};
+
+export interface MidiExportAgent {
+  key: string;
+  pattern: string;
+  // Mixer fader (1 = unity); scales every velocity on the track
+  gain?: number;
+}
+
+export interface MidiExportOptions {
+  bpm: number;
+  timeSignature: string;
+  cycles: number;
+}
+
+interface MidiNote {
+  tick: number;
+  duration: number;
+  channel: number;
+  pitch: number;
+  velocity: number;
+}
+
+/** MIDI number of a Strudel note name ("c3" → 48, "eb" → 51, "f#4" → 66); null if it is not one. */
+export function noteNameToMidi(name: string): number | null {
+  const note = parseStrudelNoteName(name);
+  if (!note) return null;
+  const midi = ((note.octave ?? DEFAULT_OCTAVE) + 1) * 12 + note.semitonesFromC;
+  return midi >= 0 && midi <= 127 ? midi : null;
+}
+
+// "C:minor", "c4:minor:pentatonic" → ascending MIDI notes of one octave from the root
+function readScaleMidiNotes(name: string): number[] | null {
+  const scale = parseStrudelScale(name);
+  const rootMidi = scale ? noteNameToMidi(scale.root) : null;
+  if (!scale || rootMidi === null) return null;
+  return scale.notes
+    .map((note) => noteNameToMidi(`${note}${DEFAULT_OCTAVE}`))
+    .filter((midi): midi is number => midi !== null)
+    .map((midi) => rootMidi + ((((midi - rootMidi) % 12) + 12) % 12))
+    .sort((a, b) => a - b);
+}
+
+function resolvePitch(value: string, scaleNotes: number[] | null): number | null {
+  if (/^-?\d+(\.\d+)?$/.test(value)) {
+    const number = Math.round(Number(value));
+    if (!scaleNotes) return number >= 0 && number <= 127 ? number : null;
+    // Scale degree, counted from 0, wrapping into higher and lower octaves
+    const size = scaleNotes.length;
+    const degree = ((number % size) + size) % size;
+    const pitch = scaleNotes[degree] + 12 * Math.floor(number / size);
+    return pitch >= 0 && pitch <= 127 ? pitch : null;
+  }
+  return noteNameToMidi(value);
+}
+
+function clampVelocity(value: number): number {
+  return Math.max(1, Math.min(127, Math.round(value)));
+}
+
+function collectLayerNotes(
+  layer: LayerSummary,
+  channel: number,
+  agentGain: number,
+  cycles: number,
+  cycleTicks: number
+): MidiNote[] {
+  const events = expandLayerEvents(layer.mini, layer.timing, cycles);
+  if (!events) return [];
+
+  const isDrumLayer = layer.source === 's';
+  const scaleNotes = !isDrumLayer && typeof layer.effects.scale === 'string'
+    ? readScaleMidiNotes(layer.effects.scale)
+    : null;
+  const layerGain = typeof layer.effects.gain === 'number' ? layer.effects.gain : 1;
+
+  const notes: MidiNote[] = [];
+  for (const event of events) {
+    if (event.probability <= 0 || event.begin >= cycles) continue;
+    const pitch = isDrumLayer
+      ? GM_DRUM_NOTES[event.value.replace(/:.*$/, '')]
+      : resolvePitch(event.value, scaleNotes);
+    if (pitch === undefined || pitch === null) continue;
+
+    const tick = Math.round(event.begin * cycleTicks);
+    const endTick = Math.round(Math.min(event.end, cycles) * cycleTicks);
+    notes.push({
+      tick,
+      duration: Math.max(1, endTick - tick),
+      channel: isDrumLayer ? DRUM_CHANNEL : channel,
+      pitch,
+      velocity: clampVelocity(DEFAULT_VELOCITY * layerGain * agentGain * event.probability),
+    });
+  }
+  return notes;
+}
+
+// ─── Byte writing ───────────────────────────────────────────────────
+
+function writeVarLength(value: number, out: number[]): void {
+  const bytes = [value & 0x7f];
+  let rest = Math.floor(value / 128);
+  while (rest > 0) {
+    bytes.unshift((rest & 0x7f) | 0x80);
+    rest = Math.floor(rest / 128);
+  }
+  out.push(...bytes);
+}
+
+function writeUint(value: number, byteCount: number, out: number[]): void {
+  for (let shift = (byteCount - 1) * 8; shift >= 0; shift -= 8) {
+    out.push(Math.floor(value / 2 ** shift) & 0xff);
+  }
+}
+
+function asciiBytes(text: string): number[] {
+  return text.split('').map((ch) => {
+    const code = ch.charCodeAt(0);
+    return code < 128 ? code : 0x3f;
+  });
+}
+
+function trackNameEvent(name: string): number[] {
+  const bytes = asciiBytes(name);
+  const out = [0x00, 0xff, 0x03];
+  writeVarLength(bytes.length, out);
+  return out.concat(bytes);
+}
+
+function trackChunk(events: number[]): number[] {
+  const body = events.concat([0x00, 0xff, 0x2f, 0x00]);
+  const out = asciiBytes('MTrk');
+  writeUint(body.length, 4, out);
+  return out.concat(body);
+}
+
+function conductorTrack(bpm: number, timeSignature: string): number[] {
+  const meter = parseTimeSignature(timeSignature) ?? { beatsPerBar: 4, beatUnit: 4 };
+  const events = trackNameEvent('Jam');
+  events.push(0x00, 0xff, 0x51, 0x03);
+  writeUint(Math.round(60_000_000 / bpm), 3, events);
+  events.push(0x00, 0xff, 0x58, 0x04, meter.beatsPerBar, Math.round(Math.log2(meter.beatUnit)), 24, 8);
+  return trackChunk(events);
+}
+
+function agentTrack(name: string, channel: number, program: number, notes: MidiNote[]): number[] {
+  const events = trackNameEvent(name);
+  events.push(0x00, 0xc0 | channel, program);
+
+  // Note-offs sort before note-ons on the same tick so repeated notes retrigger
+  const messages = notes
+    .flatMap((note) => [
+      { tick: note.tick, order: 1, bytes: [0x90 | note.channel, note.pitch, note.velocity] },
+      { tick: note.tick + note.duration, order: 0, bytes: [0x80 | note.channel, note.pitch, 0] },
+    ])
+    .sort((a, b) => a.tick - b.tick || a.order - b.order);
+
+  let lastTick = 0;
+  for (const message of messages) {
+    writeVarLength(message.tick - lastTick, events);
+    events.push(...message.bytes);
+    lastTick = message.tick;
+  }
+  return trackChunk(events);
+}
+
+/**
+ * Standard MIDI File bytes for the given agents: a conductor track, then one
+ * track per agent in order. `cycles` is clamped to 1–64; silence and patterns
+ * that do not parse give an empty, named track.
+ */
+export function buildJamMidiFile(agents: MidiExportAgent[], options: MidiExportOptions): Uint8Array<ArrayBuffer> {
+  const cycles = Math.max(1, Math.min(MAX_MIDI_EXPORT_CYCLES, Math.floor(options.cycles) || 1));
+  const cycleTicks = Math.round(quarterNotesPerBar(options.timeSignature) * MIDI_TICKS_PER_QUARTER);
+
+  const tracks = [conductorTrack(options.bpm, options.timeSignature)];
+  let nextChannel = 0;
+  for (const agent of agents) {
+    const meta = AGENT_META[agent.key];
+    // Pitched agents get their own channel, skipping the drum channel
+    if (nextChannel === DRUM_CHANNEL) nextChannel++;
+    const channel = Math.min(nextChannel++, 15);
+
+    const summary = parsePattern(agent.pattern, options.timeSignature);
+    const notes = (summary?.layers ?? []).flatMap((layer) => (
+      collectLayerNotes(layer, channel, agent.gain ?? 1, cycles, cycleTicks)
+    ));
+    const name = meta ? `${meta.name} (${agent.key})` : agent.key;
+    tracks.push(agentTrack(name, channel, FAMILY_PROGRAMS[meta?.patternFamily ?? ''] ?? 0, notes));
+  }
+
+  const header = asciiBytes('MThd');
+  writeUint(6, 4, header);
+  writeUint(1, 2, header);
+  writeUint(tracks.length, 2, header);
+  writeUint(MIDI_TICKS_PER_QUARTER, 2, header);
+  return Uint8Array.from(tracks.reduce((bytes, track) => bytes.concat(track), header));
+}
+
+/** "jam-dark-ambient-90bpm.mid" */
+export function getMidiExportFileName(genre: string, bpm: number): string {
+  const slug = genre.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  return `jam-${slug || 'session'}-${Math.round(bpm)}bpm.mid`;
+}
@@ -0,0 +1,167 @@
+/**
+ * Per-agent mixer. The runtime owns one channel per agent (gain, pan, solo,
+ * mute) and wraps it around the agent's layer in composePatterns(), so the
+ * balance of the band no longer depends on the `.gain()` values agents pick.
+ *
+ * Channel mute only drops the layer from the mix; the agent keeps evolving
+ * its part. A boss `@AGENT mute` directive still asks the agent to lay out.
+ */
+
+import type { AgentMixChannel } from './types';
+import { resolveAgentReference } from './jam-roster';
+
+export const MIXER_GAIN_MIN = 0;
+export const MIXER_GAIN_MAX = 1.5;
+export const MIXER_PAN_MIN = -1;
+export const MIXER_PAN_MAX = 1;
+
+// Gain change for "bass up a bit" vs a plain "bass up"
+const MIXER_GAIN_SMALL_STEP = 0.1;
+const MIXER_GAIN_STEP = 0.25;
+// Pan position for "hard left", "left" and "slightly left"
+const MIXER_PAN_HARD = 1;
+const MIXER_PAN_DEFAULT = 0.5;
+const MIXER_PAN_SLIGHT = 0.25;
+
+export const DEFAULT_MIX_CHANNEL: Readonly<AgentMixChannel> = { gain: 1, pan: 0, solo: false, mute: false };
+
+export type AgentMixUpdate = Partial<AgentMixChannel>;
+
+export type MixerDirective =
+  | { kind: 'gain'; agent: string; delta: number }
+  | { kind: 'pan'; agent: string; pan: number }
+  | { kind: 'solo'; agent: string }
+  | { kind: 'unsolo' };
+
+function roundMixValue(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+export function createMixChannel(): AgentMixChannel {
+  return { ...DEFAULT_MIX_CHANNEL };
+}
+
+/** Validate a mixer update from the wire; null when it carries no usable field. */
+export function normalizeMixUpdate(value: unknown): AgentMixUpdate | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+  const raw = value as Record<string, unknown>;
+
+  const update: AgentMixUpdate = {};
+  if (typeof raw.gain === 'number' && Number.isFinite(raw.gain)) update.gain = raw.gain;
+  if (typeof raw.pan === 'number' && Number.isFinite(raw.pan)) update.pan = raw.pan;
+  if (typeof raw.solo === 'boolean') update.solo = raw.solo;
+  if (typeof raw.mute === 'boolean') update.mute = raw.mute;
+  return Object.keys(update).length > 0 ? update : null;
+}
+
+/** Merge an update into a channel, clamping gain and pan to the mixer range. */
+export function applyMixUpdate(channel: AgentMixChannel, update: AgentMixUpdate): AgentMixChannel {
+  return {
+    gain: roundMixValue(clamp(update.gain ?? channel.gain, MIXER_GAIN_MIN, MIXER_GAIN_MAX)),
+    pan: roundMixValue(clamp(update.pan ?? channel.pan, MIXER_PAN_MIN, MIXER_PAN_MAX)),
+    solo: update.solo ?? channel.solo,
+    mute: update.mute ?? channel.mute,
+  };
+}
+
+/** Snapshot/wire mixer: valid channels for `keys`, defaults for the rest. */
+export function normalizeMixerState(value: unknown, keys: string[]): Record<string, AgentMixChannel> {
+  const raw = value && typeof value === 'object' && !Array.isArray(value)
+    ? value as Record<string, unknown>
+    : {};
+  return Object.fromEntries(keys.map((key) => {
+    const update = normalizeMixUpdate(raw[key]);
+    return [key, update ? applyMixUpdate(createMixChannel(), update) : createMixChannel()];
+  }));
+}
+
+/**
+ * Whether an agent's layer is heard: muted channels never are, and while any
+ * of `keys` is soloed only soloed channels are.
+ */
+export function isMixChannelAudible(
+  key: string,
+  mixer: Record<string, AgentMixChannel>,
+  keys: string[]
+): boolean {
+  const channel = mixer[key] ?? DEFAULT_MIX_CHANNEL;
+  if (channel.mute) return false;
+  const anySolo = keys.some((k) => mixer[k]?.solo && !mixer[k]?.mute);
+  return !anySolo || channel.solo;
+}
+
+/**
+ * Wrap one agent layer with its channel. Gain uses `.postgain()` so it scales
+ * the agent's own `.gain()` rather than replacing it; pan maps -1..1 onto
+ * Strudel's 0..1. A unity channel leaves the layer untouched.
+ */
+export function applyMixToLayer(pattern: string, channel: AgentMixChannel): string {
+  let layer = pattern;
+  if (channel.gain !== DEFAULT_MIX_CHANNEL.gain) {
+    layer += `.postgain(${roundMixValue(channel.gain)})`;
+  }
+  if (channel.pan !== DEFAULT_MIX_CHANNEL.pan) {
+    layer += `.pan(${roundMixValue((channel.pan + 1) / 2)})`;
+  }
+  return layer;
+}
+
+/**
+ * Parse a boss directive that is purely a mixer move: "bass up a bit",
+ * "turn ARIA down", "solo ARIA", "unsolo", "pan GROOVE left". `targetAgent`
+ * is the @mention already stripped from `text` ("@GROOVE up a bit").
+ * Anything else returns null and goes to the agents as a normal directive.
+ */
+export function parseMixerDirective(
+  text: string,
+  targetAgent: string | undefined,
+  bandKeys: string[]
+): MixerDirective | null {
+  const normalized = text.trim().toLowerCase().replace(/[.!]+$/, '').replace(/\s+/g, ' ');
+  if (!normalized) return null;
+
+  const resolve = (word: string | undefined): string | null => {
+    if (word) return resolveAgentReference(word, bandKeys);
+    return targetAgent && bandKeys.includes(targetAgent) ? targetAgent : null;
+  };
+
+  if (/^(?:unsolo|no solo|solo off|clear (?:the )?solo)(?: (?:all|everyone|everybody))?$/.test(normalized)) {
+    return { kind: 'unsolo' };
+  }
+
+  const solo = normalized.match(/^solo(?: (?:the )?(@?[\w-]+))?$/);
+  if (solo) {
+    const agent = resolve(solo[1]);
+    return agent ? { kind: 'solo', agent } : null;
+  }
+
+  const level = normalized.match(
+    /^(?:(?:turn|bring) )?(?:(?:the )?(@?[\w-]+) )?(up|down|louder|quieter|softer)(?: (?:the )?(@?[\w-]+))?( a (?:bit|little|touch)| slightly)?$/
+  );
+  if (level && !(level[1] && level[3])) {
+    // A bare "Louder!" at an agent is a playing cue, not a fader move
+    const named = level[1] ?? level[3];
+    if (!named && level[2] !== 'up' && level[2] !== 'down') return null;
+    const agent = resolve(named);
+    if (!agent) return null;
+    const step = level[4] ? MIXER_GAIN_SMALL_STEP : MIXER_GAIN_STEP;
+    const louder = level[2] === 'up' || level[2] === 'louder';
+    return { kind: 'gain', agent, delta: louder ? step : -step };
+  }
+
+  const pan = normalized.match(/^pan(?: (?:the )?(@?[\w-]+))?(?: to the)? (hard |slightly )?(left|right|center|centre|middle)$/);
+  if (pan) {
+    const agent = resolve(pan[1]);
+    if (!agent) return null;
+    if (pan[3] !== 'left' && pan[3] !== 'right') return { kind: 'pan', agent, pan: 0 };
+    const modifier = pan[2]?.trim();
+    const amount = modifier === 'hard' ? MIXER_PAN_HARD : modifier === 'slightly' ? MIXER_PAN_SLIGHT : MIXER_PAN_DEFAULT;
+    return { kind: 'pan', agent, pan: pan[3] === 'left' ? -amount : amount };
+  }
+
+  return null;
+}
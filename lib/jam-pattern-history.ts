@@ -0,0 +1,89 @@
+/**
+ * Per-agent pattern history. The manager appends a version whenever an
+ * agent's pattern actually changes, keeps the last PATTERN_HISTORY_LIMIT,
+ * and lets the boss roll an agent back to an earlier one — from the column
+ * history menu or with a directive like "@BEAT go back to what you had two
+ * rounds ago".
+ */
+
+import type { AgentPatternVersion } from './types';
+
+export const PATTERN_HISTORY_LIMIT = 8;
+
+export type PatternRevertTarget =
+  | { by: 'versions'; count: number }
+  | { by: 'rounds'; count: number };
+
+const COUNT_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8,
+};
+
+/**
+ * Append a version unless the pattern is unchanged, dropping the oldest
+ * entries beyond the limit. Returns a new array.
+ */
+export function appendPatternVersion(
+  history: AgentPatternVersion[],
+  entry: Omit<AgentPatternVersion, 'version'>
+): AgentPatternVersion[] {
+  const last = history[history.length - 1];
+  if (last && last.pattern === entry.pattern) return history;
+  const version = (last?.version ?? 0) + 1;
+  return [...history, { ...entry, version }].slice(-PATTERN_HISTORY_LIMIT);
+}
+
+/** Snapshot/wire history: well-formed entries only, oldest first, bounded. */
+export function normalizePatternHistory(value: unknown): AgentPatternVersion[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter((entry): entry is AgentPatternVersion => (
+    Boolean(entry)
+    && typeof entry === 'object'
+    && typeof entry.version === 'number'
+    && typeof entry.pattern === 'string'
+    && typeof entry.round === 'number'
+    && typeof entry.turnSource === 'string'
+    && typeof entry.createdAt === 'string'
+  )).slice(-PATTERN_HISTORY_LIMIT);
+}
+
+/**
+ * Parse a targeted directive that only asks the agent to roll back: "undo",
+ * "revert", "go back", "go back to what you had two rounds ago", "roll back
+ * 2 versions". Anything else (including "go back to the half-time feel")
+ * returns null and reaches the agent as a normal directive.
+ */
+export function parsePatternRevertDirective(text: string): PatternRevertTarget | null {
+  const normalized = text.trim().toLowerCase().replace(/[.!]+$/, '').replace(/\s+/g, ' ');
+  const match = normalized.match(
+    /^(?:please )?(?:go back|roll back|roll it back|revert|undo|take it back)(?: (?:that|it|your (?:last )?change))?(?: to (?:what you had|what you were playing|your (?:previous|last|old) (?:pattern|groove|part)|the (?:previous|last|old) (?:pattern|groove|part|one)|before))?(?: (\w+) (rounds?|versions?|patterns?|changes?)(?: ago| back| before)?)?(?: please)?$/
+  );
+  if (!match) return null;
+  if (!match[1]) return { by: 'versions', count: 1 };
+
+  const count = /^\d+$/.test(match[1]) ? Number(match[1]) : COUNT_WORDS[match[1]];
+  if (!count || count < 1) return null;
+  return { by: match[2].startsWith('round') ? 'rounds' : 'versions', count };
+}
+
+/**
+ * Pick the version a revert restores, or null when there is nothing earlier.
+ * `{ by: 'rounds' }` means "what was playing N rounds ago": the newest
+ * version created at or before that round.
+ */
+export function resolvePatternRevert(
+  history: AgentPatternVersion[],
+  target: PatternRevertTarget,
+  currentRound: number
+): AgentPatternVersion | null {
+  const current = history[history.length - 1];
+  if (!current) return null;
+
+  let restored: AgentPatternVersion | undefined;
+  if (target.by === 'versions') {
+    restored = history[history.length - 1 - target.count];
+  } else {
+    const round = currentRound - target.count;
+    restored = [...history].reverse().find((entry) => entry.round <= round);
+  }
+  return restored && restored.pattern !== current.pattern ? restored : null;
+}
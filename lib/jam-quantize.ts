@@ -0,0 +1,76 @@
+/**
+ * Bar-quantized pattern switching for jam mode. Incoming jam patterns are held
+ * until the next N-bar boundary of the running Strudel scheduler so changes
+ * land on the downbeat instead of mid-bar.
+ *
+ * Follows the jam-tempo convention: one Strudel cycle = one bar.
+ */
+
+/** Bars per quantization step; 0 switches patterns as soon as they arrive. */
+export type JamQuantizeBars = 0 | 1 | 2 | 4 | 8;
+
+export const JAM_QUANTIZE_OPTIONS: ReadonlyArray<{ bars: JamQuantizeBars; label: string }> = [
+  { bars: 0, label: 'Off' },
+  { bars: 1, label: '1 bar' },
+  { bars: 2, label: '2 bars' },
+  { bars: 4, label: '4 bars' },
+  { bars: 8, label: '8 bars' },
+];
+
+export const DEFAULT_JAM_QUANTIZE_BARS: JamQuantizeBars = 1;
+
+/**
+ * Evaluate this long before the boundary. Strudel queries haps ahead of the
+ * audio clock (~100ms latency plus one 50ms scheduler tick), so a pattern
+ * swapped exactly on the boundary would miss the downbeat.
+ */
+export const JAM_QUANTIZE_LEAD_MS = 150;
+
+// A boundary this close (in cycles) counts as already reached
+const BOUNDARY_EPSILON_CYCLES = 1e-6;
+
+export interface SchedulerPosition {
+  cycle: number;  // scheduler cycle position (bars since start)
+  cps: number;    // cycles (bars) per second
+}
+
+export function isJamQuantizeBars(value: unknown): value is JamQuantizeBars {
+  return JAM_QUANTIZE_OPTIONS.some((option) => option.bars === value);
+}
+
+/** First multiple of `bars` at or after `cycle` ("next bar" when already on one). */
+export function getNextQuantizeBoundary(cycle: number, bars: number): number {
+  if (bars <= 0) return cycle;
+  const boundary = Math.ceil((cycle - BOUNDARY_EPSILON_CYCLES) / bars) * bars;
+  return boundary <= cycle + BOUNDARY_EPSILON_CYCLES ? boundary + bars : boundary;
+}
+
+/**
+ * Milliseconds to wait before evaluating so the new pattern starts on the
+ * next `bars` boundary. If the lead time has already passed for that
+ * boundary, the following one is used. Returns 0 when quantization is off or
+ * the scheduler position is unusable.
+ */
+export function getQuantizedDelayMs(
+  position: SchedulerPosition | null,
+  bars: number,
+  leadMs = JAM_QUANTIZE_LEAD_MS
+): number {
+  if (!position || bars <= 0) return 0;
+  const { cycle, cps } = position;
+  if (!Number.isFinite(cycle) || !Number.isFinite(cps) || cps <= 0) return 0;
+
+  const msPerCycle = 1000 / cps;
+  let boundary = getNextQuantizeBoundary(cycle, bars);
+  let delayMs = (boundary - cycle) * msPerCycle - leadMs;
+  if (delayMs < 0) {
+    boundary += bars;
+    delayMs = (boundary - cycle) * msPerCycle - leadMs;
+  }
+  return Math.max(0, delayMs);
+}
+
+/** "next bar" / "next 4-bar phrase" for the queued-change indicator. */
+export function formatQuantizeTarget(bars: number): string {
+  return bars <= 1 ? 'next bar' : `next ${bars}-bar phrase`;
+}
@@ -0,0 +1,140 @@
+/**
+ * Jam session recording format shared by the server recorder and the browser
+ * replay hook. A recording is JSONL: one JamRecordingEntry per line, ordered
+ * by `seq`, with `offsetMs` measured from the session_start entry.
+ */
+import type { JamRecordingEntry, JamRecordingSummary } from './types';
+
+export const JAM_RECORDING_FILE_EXTENSION = '.jsonl';
+// Written beside the log when a recording closes, so listing skips the log.
+export const JAM_RECORDING_SUMMARY_FILE_EXTENSION = '.summary.json';
+
+// Ids double as file names, so keep them to a path-safe alphabet.
+const JAM_RECORDING_ID_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_-]{0,127}$/;
+
+export function isValidJamRecordingId(id: string): boolean {
+  return JAM_RECORDING_ID_PATTERN.test(id);
+}
+
+/** "jam-2026-10-18T12-30-00-000Z-a1b2c3" — sortable by start time. */
+export function createJamRecordingId(startedAtMs: number, suffix: string): string {
+  const stamp = new Date(startedAtMs).toISOString().replace(/[:.]/g, '-');
+  const safeSuffix = suffix.toLowerCase().replace(/[^a-z0-9]/g, '').slice(0, 12) || '0';
+  return `jam-${stamp}-${safeSuffix}`;
+}
+
+export function serializeJamRecordingEntry(entry: JamRecordingEntry): string {
+  return JSON.stringify(entry) + '\n';
+}
+
+function isJamRecordingEntry(value: unknown): value is JamRecordingEntry {
+  if (!value || typeof value !== 'object') return false;
+  const entry = value as Record<string, unknown>;
+  return (
+    typeof entry.seq === 'number'
+    && typeof entry.offsetMs === 'number'
+    && typeof entry.recordedAt === 'string'
+    && (entry.kind === 'session' || entry.kind === 'output' || entry.kind === 'input')
+    && typeof entry.type === 'string'
+  );
+}
+
+/**
+ * Parse JSONL recording text. Blank and malformed lines are skipped — a
+ * server that died mid-write leaves a truncated final line, and the rest of
+ * the session is still worth replaying.
+ */
+export function parseJamRecording(text: string): JamRecordingEntry[] {
+  const entries: JamRecordingEntry[] = [];
+  for (const line of text.split('\n')) {
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+    try {
+      const parsed: unknown = JSON.parse(trimmed);
+      if (isJamRecordingEntry(parsed)) {
+        entries.push(parsed);
+      }
+    } catch {
+      // Truncated or corrupted line
+    }
+  }
+  return entries.sort((a, b) => a.seq - b.seq);
+}
+
+export function getJamRecordingAgents(entries: JamRecordingEntry[]): string[] {
+  const start = entries.find((entry) => entry.kind === 'session' && entry.type === 'session_start');
+  const agents = (start?.payload as { activeAgents?: unknown } | undefined)?.activeAgents;
+  return Array.isArray(agents)
+    ? agents.filter((agent): agent is string => typeof agent === 'string')
+    : [];
+}
+
+export function isJamRecordingDirective(entry: Pick<JamRecordingEntry, 'kind' | 'type'>): boolean {
+  return entry.kind === 'input'
+    && (entry.type === 'boss_directive' || entry.type === 'camera_directive');
+}
+
+export function summarizeJamRecording(id: string, entries: JamRecordingEntry[]): JamRecordingSummary {
+  const first = entries[0];
+  const last = entries[entries.length - 1];
+  return {
+    id,
+    startedAt: first?.recordedAt ?? '',
+    durationMs: last ? last.offsetMs : 0,
+    eventCount: entries.length,
+    activeAgents: getJamRecordingAgents(entries),
+    directiveCount: entries.filter(isJamRecordingDirective).length,
+  };
+}
+
+/** Parse a `.summary.json` sidecar; null if it is missing fields or malformed. */
+export function parseJamRecordingSummary(text: string): JamRecordingSummary | null {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (!value || typeof value !== 'object') return null;
+
+  const summary = value as Record<string, unknown>;
+  if (
+    typeof summary.id !== 'string'
+    || typeof summary.startedAt !== 'string'
+    || typeof summary.durationMs !== 'number'
+    || typeof summary.eventCount !== 'number'
+    || !Array.isArray(summary.activeAgents)
+    || typeof summary.directiveCount !== 'number'
+  ) {
+    return null;
+  }
+
+  return {
+    id: summary.id,
+    startedAt: summary.startedAt,
+    durationMs: summary.durationMs,
+    eventCount: summary.eventCount,
+    activeAgents: summary.activeAgents.filter((agent): agent is string => typeof agent === 'string'),
+    directiveCount: summary.directiveCount,
+  };
+}
+
+// Inputs worth surfacing during replay. Audio feedback is recorded for review
+// but is not re-fed: the recorded outputs already carry its effect.
+const REPLAYED_INPUT_TYPES = new Set(['boss_directive', 'camera_directive']);
+
+/** Entries a replay dispatches, in order: every jam output plus boss/camera cues. */
+export function buildJamReplayTimeline(entries: JamRecordingEntry[]): JamRecordingEntry[] {
+  return entries.filter(
+    (entry) => entry.kind === 'output'
+      || (entry.kind === 'input' && REPLAYED_INPUT_TYPES.has(entry.type))
+  );
+}
+
+/** 83_500 → "1:23". */
+export function formatJamRecordingDuration(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${String(seconds).padStart(2, '0')}`;
+}
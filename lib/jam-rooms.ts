@@ -0,0 +1,202 @@
+/**
+ * Shared jam rooms for the runtime WebSocket route. A room owns one jam: the
+ * boss steers it (start/stop, presets, directives, song form) and every
+ * member — boss and spectators — receives the full broadcast stream so all
+ * browsers show the same state and play the same patterns.
+ *
+ * Each connection starts in a private room of its own, which keeps the
+ * single-tab behaviour unchanged until a client joins a named room.
+ */
+
+import type { JamRoomMember, JamRoomRole, JamRoomState } from './types';
+
+/** The slice of `ws.WebSocket` a room needs; lets tests use plain objects. */
+export interface JamRoomClient {
+  readonly readyState: number;
+  send(data: string): void;
+}
+
+interface JamRoomMemberEntry {
+  id: number;
+  name: string;
+}
+
+export const JAM_ROOM_NAME_MAX_LENGTH = 40;
+export const JAM_ROOM_MEMBER_NAME_MAX_LENGTH = 32;
+
+// Replayed to late joiners so they catch up without waiting for the next turn
+const CATCH_UP_MESSAGE_TYPES = ['jam_state_update', 'execute'] as const;
+
+const OPEN_READY_STATE = 1; // WebSocket.OPEN
+
+/** Lower-case slug of letters, digits, '-' and '_'; null if nothing usable remains. */
+export function normalizeJamRoomName(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const slug = value
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, '-')
+    .replace(/[^a-z0-9_-]/g, '')
+    .slice(0, JAM_ROOM_NAME_MAX_LENGTH);
+  return slug.length > 0 ? slug : null;
+}
+
+export function normalizeJamRoomMemberName(value: unknown, fallback: string): string {
+  if (typeof value !== 'string') return fallback;
+  const name = value.trim().replace(/\s+/g, ' ').slice(0, JAM_ROOM_MEMBER_NAME_MAX_LENGTH);
+  return name || fallback;
+}
+
+export class JamRoom<C extends JamRoomClient = JamRoomClient> {
+  readonly name: string;
+  readonly isPrivate: boolean;
+
+  // Insertion order doubles as join order for boss promotion
+  private readonly members = new Map<C, JamRoomMemberEntry>();
+  private boss: C | null = null;
+  private readonly catchUp = new Map<string, string>();
+
+  constructor(name: string, options: { isPrivate?: boolean } = {}) {
+    this.name = name;
+    this.isPrivate = options.isPrivate ?? false;
+  }
+
+  get size(): number {
+    return this.members.size;
+  }
+
+  get bossClient(): C | null {
+    return this.boss;
+  }
+
+  has(client: C): boolean {
+    return this.members.has(client);
+  }
+
+  clients(): C[] {
+    return Array.from(this.members.keys());
+  }
+
+  /** Add a member; the first member (or the first after the boss left) becomes boss. */
+  join(client: C, id: number, name: string): JamRoomRole {
+    this.members.set(client, { id, name });
+    if (!this.boss) this.boss = client;
+    return this.getRole(client);
+  }
+
+  /** Remove a member. If the boss left, the earliest-joined remaining member is promoted. */
+  leave(client: C): { promoted: C | null } {
+    if (!this.members.delete(client)) return { promoted: null };
+    if (this.boss !== client) return { promoted: null };
+    this.boss = this.members.keys().next().value ?? null;
+    return { promoted: this.boss };
+  }
+
+  isBoss(client: C): boolean {
+    return this.boss === client;
+  }
+
+  getRole(client: C): JamRoomRole {
+    return this.boss === client ? 'boss' : 'spectator';
+  }
+
+  getMemberName(client: C): string | null {
+    return this.members.get(client)?.name ?? null;
+  }
+
+  /** Pass the boss role from the current boss to another member. */
+  handOffBoss(from: C, toMemberId: number): C | null {
+    if (this.boss !== from) return null;
+    const target = this.clients().find((client) => client !== from && this.members.get(client)?.id === toMemberId);
+    if (!target) return null;
+    this.boss = target;
+    return target;
+  }
+
+  getMembers(): JamRoomMember[] {
+    return Array.from(this.members, ([client, member]) => ({
+      id: member.id,
+      name: member.name,
+      role: this.getRole(client),
+    }));
+  }
+
+  getState(client: C, jam: { active: boolean; activeAgents: string[] }): JamRoomState | null {
+    const member = this.members.get(client);
+    if (!member) return null;
+    return {
+      room: this.name,
+      isPrivate: this.isPrivate,
+      memberId: member.id,
+      role: this.getRole(client),
+      members: this.getMembers(),
+      jamActive: jam.active,
+      activeAgents: [...jam.activeAgents],
+    };
+  }
+
+  /** Send a jam broadcast to every member, remembering catch-up messages for late joiners. */
+  broadcast(message: { type: string; payload: unknown }): void {
+    const data = JSON.stringify(message);
+    if ((CATCH_UP_MESSAGE_TYPES as readonly string[]).includes(message.type)) {
+      this.catchUp.set(message.type, data);
+    }
+    for (const client of this.clients()) {
+      if (client.readyState === OPEN_READY_STATE) {
+        client.send(data);
+      }
+    }
+  }
+
+  /** Latest full jam state and execute, in the order a late joiner should apply them. */
+  sendCatchUp(client: C): void {
+    if (client.readyState !== OPEN_READY_STATE) return;
+    for (const type of CATCH_UP_MESSAGE_TYPES) {
+      const data = this.catchUp.get(type);
+      if (data) client.send(data);
+    }
+  }
+
+  clearCatchUp(): void {
+    this.catchUp.clear();
+  }
+}
+
+/** Rooms by name plus each client's current room. Empty rooms are dropped. */
+export class JamRoomRegistry<C extends JamRoomClient = JamRoomClient> {
+  private readonly rooms = new Map<string, JamRoom<C>>();
+  private readonly roomByClient = new Map<C, JamRoom<C>>();
+
+  getRoom(client: C): JamRoom<C> | null {
+    return this.roomByClient.get(client) ?? null;
+  }
+
+  getRoomByName(name: string): JamRoom<C> | null {
+    return this.rooms.get(name) ?? null;
+  }
+
+  /**
+   * Put a client in the named room, creating it if needed. The caller must
+   * have removed the client from its previous room first (see leave()).
+   */
+  join(client: C, id: number, roomName: string, memberName: string, options: { isPrivate?: boolean } = {}): JamRoom<C> {
+    let room = this.rooms.get(roomName);
+    if (!room) {
+      room = new JamRoom<C>(roomName, options);
+      this.rooms.set(roomName, room);
+    }
+    room.join(client, id, memberName);
+    this.roomByClient.set(client, room);
+    return room;
+  }
+
+  leave(client: C): { room: JamRoom<C>; promoted: C | null; isEmpty: boolean } | null {
+    const room = this.roomByClient.get(client);
+    if (!room) return null;
+    this.roomByClient.delete(client);
+    const { promoted } = room.leave(client);
+    const isEmpty = room.size === 0;
+    if (isEmpty) this.rooms.delete(room.name);
+    return { room, promoted, isEmpty };
+  }
+}
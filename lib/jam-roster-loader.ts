@@ -0,0 +1,80 @@
+/**
+ * Loads the band roster from `.codex/agents/*.md` front-matter. Persona files
+ * without a `key` field (e.g. normal-mode-system-prompt.md) are not band
+ * members. Invalid or duplicate entries are skipped with a warning; if no
+ * file yields a valid entry, the built-in band is used.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { AgentMeta } from './types';
+import {
+  DEFAULT_AGENT_ROSTER,
+  applyAgentRoster,
+  cloneAgentMeta,
+  parseAgentFrontMatter,
+  parseAgentRosterEntry,
+} from './jam-roster';
+
+const AGENT_ROSTER_DIR = ['.codex', 'agents'] as const;
+
+export function getAgentRosterDir(workingDir: string): string {
+  return path.join(workingDir, ...AGENT_ROSTER_DIR);
+}
+
+export function loadAgentRoster(workingDir: string): AgentMeta[] {
+  const dir = getAgentRosterDir(workingDir);
+  let files: string[];
+  try {
+    files = fs.readdirSync(dir).filter((file) => file.endsWith('.md')).sort();
+  } catch {
+    return DEFAULT_AGENT_ROSTER.map(cloneAgentMeta);
+  }
+
+  const entries: Array<{ meta: AgentMeta; order: number }> = [];
+  const keys = new Set<string>();
+  const mentions = new Set<string>();
+  for (const file of files) {
+    let content: string;
+    try {
+      content = fs.readFileSync(path.join(dir, file), 'utf-8');
+    } catch (err) {
+      console.warn(`[AgentRoster] Failed to read ${file}:`, err);
+      continue;
+    }
+
+    const fields = parseAgentFrontMatter(content);
+    if (!fields?.key) continue;
+
+    const result = parseAgentRosterEntry(fields, file.replace(/\.md$/, ''));
+    if (!result.ok) {
+      console.warn(`[AgentRoster] Skipping ${file}: ${result.error}`);
+      continue;
+    }
+
+    const mentionKey = result.meta.mention.toLowerCase();
+    if (keys.has(result.meta.key) || mentions.has(mentionKey)) {
+      console.warn(`[AgentRoster] Skipping ${file}: duplicate key or mention (${result.meta.key}, ${result.meta.mention})`);
+      continue;
+    }
+    keys.add(result.meta.key);
+    mentions.add(mentionKey);
+    entries.push({ meta: result.meta, order: result.order });
+  }
+
+  if (entries.length === 0) {
+    return DEFAULT_AGENT_ROSTER.map(cloneAgentMeta);
+  }
+
+  // Stable sort: equal orders keep filename order
+  return entries
+    .sort((a, b) => (a.order === b.order ? 0 : a.order < b.order ? -1 : 1))
+    .map((entry) => entry.meta);
+}
+
+/** Load the roster from disk and make it the live AGENT_META table. */
+export function syncAgentRoster(workingDir: string): AgentMeta[] {
+  const roster = loadAgentRoster(workingDir);
+  applyAgentRoster(roster);
+  return roster;
+}
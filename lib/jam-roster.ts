@@ -0,0 +1,197 @@
+/**
+ * Band roster registry. The jam band is defined by `.codex/agents/*.md`
+ * front-matter (see lib/jam-roster-loader.ts); this module validates roster
+ * entries and applies them to AGENT_META in place, so routing, UI columns,
+ * admission limits and prompts all read one live table.
+ */
+
+import { AGENT_META, type AgentMeta, type AgentMetaColors } from './types';
+
+/**
+ * Colour classes per palette hue. Listed literally so Tailwind's content scan
+ * of lib/ compiles them; roster files pick a hue with `color:`.
+ */
+export const AGENT_COLOR_PALETTE: Record<string, AgentMetaColors> = {
+  red:     { border: 'border-red-500/50',     accent: 'text-red-400',     bg: 'bg-red-500/10',     bgSolid: 'bg-red-900/50' },
+  orange:  { border: 'border-orange-500/50',  accent: 'text-orange-400',  bg: 'bg-orange-500/10',  bgSolid: 'bg-orange-900/50' },
+  amber:   { border: 'border-amber-500/50',   accent: 'text-amber-400',   bg: 'bg-amber-500/10',   bgSolid: 'bg-amber-900/50' },
+  yellow:  { border: 'border-yellow-500/50',  accent: 'text-yellow-400',  bg: 'bg-yellow-500/10',  bgSolid: 'bg-yellow-900/50' },
+  lime:    { border: 'border-lime-500/50',    accent: 'text-lime-400',    bg: 'bg-lime-500/10',    bgSolid: 'bg-lime-900/50' },
+  green:   { border: 'border-green-500/50',   accent: 'text-green-400',   bg: 'bg-green-500/10',   bgSolid: 'bg-green-900/50' },
+  emerald: { border: 'border-emerald-500/50', accent: 'text-emerald-400', bg: 'bg-emerald-500/10', bgSolid: 'bg-emerald-900/50' },
+  teal:    { border: 'border-teal-500/50',    accent: 'text-teal-400',    bg: 'bg-teal-500/10',    bgSolid: 'bg-teal-900/50' },
+  cyan:    { border: 'border-cyan-500/50',    accent: 'text-cyan-400',    bg: 'bg-cyan-500/10',    bgSolid: 'bg-cyan-900/50' },
+  sky:     { border: 'border-sky-500/50',     accent: 'text-sky-400',     bg: 'bg-sky-500/10',     bgSolid: 'bg-sky-900/50' },
+  blue:    { border: 'border-blue-500/50',    accent: 'text-blue-400',    bg: 'bg-blue-500/10',    bgSolid: 'bg-blue-900/50' },
+  indigo:  { border: 'border-indigo-500/50',  accent: 'text-indigo-400',  bg: 'bg-indigo-500/10',  bgSolid: 'bg-indigo-900/50' },
+  violet:  { border: 'border-violet-500/50',  accent: 'text-violet-400',  bg: 'bg-violet-500/10',  bgSolid: 'bg-violet-900/50' },
+  purple:  { border: 'border-purple-500/50',  accent: 'text-purple-400',  bg: 'bg-purple-500/10',  bgSolid: 'bg-purple-900/50' },
+  fuchsia: { border: 'border-fuchsia-500/50', accent: 'text-fuchsia-400', bg: 'bg-fuchsia-500/10', bgSolid: 'bg-fuchsia-900/50' },
+  pink:    { border: 'border-pink-500/50',    accent: 'text-pink-400',    bg: 'bg-pink-500/10',    bgSolid: 'bg-pink-900/50' },
+  rose:    { border: 'border-rose-500/50',    accent: 'text-rose-400',    bg: 'bg-rose-500/10',    bgSolid: 'bg-rose-900/50' },
+  gray:    { border: 'border-gray-400/50',    accent: 'text-gray-200',    bg: 'bg-gray-500/10',    bgSolid: 'bg-gray-900/50' },
+};
+
+export const DEFAULT_AGENT_COLOR = 'gray';
+
+// Built-in band, captured before any roster is applied
+export const DEFAULT_AGENT_ROSTER: ReadonlyArray<AgentMeta> = Object.values(AGENT_META).map(cloneAgentMeta);
+
+// 'all' is the broadcast target in conductor/camera payloads
+const RESERVED_AGENT_KEYS = new Set(['all']);
+const AGENT_KEY_PATTERN = /^[a-z][a-z0-9_-]{0,31}$/;
+const MENTION_PATTERN = /^@[A-Za-z][A-Za-z0-9_-]{0,31}$/;
+
+export function cloneAgentMeta(meta: AgentMeta): AgentMeta {
+  return { ...meta, colors: { ...meta.colors } };
+}
+
+/** True for keys in the live roster (own properties only, so 'constructor' is not an agent). */
+export function isAgentRosterKey(value: unknown): value is string {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(AGENT_META, value);
+}
+
+export function getAgentRosterKeys(): string[] {
+  return Object.keys(AGENT_META);
+}
+
+/**
+ * Resolve a free-text reference to one of `bandKeys` by key, @mention, or
+ * display name (case-insensitive). Returns null for anyone not in the band.
+ */
+export function resolveAgentReference(value: string, bandKeys: string[]): string | null {
+  const wanted = value.trim().replace(/^@/, '').toLowerCase();
+  if (!wanted) return null;
+  return bandKeys.find((key) => {
+    const meta = AGENT_META[key];
+    return key.toLowerCase() === wanted
+      || meta?.name.toLowerCase() === wanted
+      || meta?.mention.replace(/^@/, '').toLowerCase() === wanted;
+  }) ?? null;
+}
+
+/**
+ * Parse simple `key: value` YAML front-matter. Values may be quoted; nested
+ * YAML is not supported (roster fields are all scalars). Returns null when the
+ * content has no front-matter block.
+ */
+export function parseAgentFrontMatter(content: string): Record<string, string> | null {
+  const match = content.match(/^---\r?\n([\s\S]*?)\r?\n---/);
+  if (!match) return null;
+
+  const fields: Record<string, string> = {};
+  for (const line of match[1].split(/\r?\n/)) {
+    const fieldMatch = line.match(/^([A-Za-z_][\w-]*):\s*(.*)$/);
+    if (!fieldMatch) continue;
+    let value = fieldMatch[2].trim();
+    if (value.length >= 2 && (value[0] === '"' || value[0] === "'") && value.endsWith(value[0])) {
+      value = value.slice(1, -1);
+    }
+    fields[fieldMatch[1]] = value;
+  }
+  return fields;
+}
+
+export type AgentRosterEntryResult =
+  | { ok: true; meta: AgentMeta; order: number }
+  | { ok: false; error: string };
+
+/**
+ * Validate one persona file's front-matter as a roster entry.
+ * `key`, `display_name` and `emoji` are required; `mention` defaults to
+ * `@<DISPLAY_NAME>`, `color` to gray, `pattern_family` to the key, and
+ * `order` (column position) to the end of the band.
+ */
+export function parseAgentRosterEntry(fields: Record<string, string>, file: string): AgentRosterEntryResult {
+  const key = fields.key?.trim() ?? '';
+  if (!AGENT_KEY_PATTERN.test(key) || RESERVED_AGENT_KEYS.has(key)) {
+    return { ok: false, error: `invalid key "${key}"` };
+  }
+
+  const name = fields.display_name?.trim() ?? '';
+  if (!name) return { ok: false, error: 'missing display_name' };
+
+  const emoji = fields.emoji?.trim() ?? '';
+  if (!emoji) return { ok: false, error: 'missing emoji' };
+
+  const mention = fields.mention?.trim() || `@${name.replace(/\s+/g, '').toUpperCase()}`;
+  if (!MENTION_PATTERN.test(mention)) {
+    return { ok: false, error: `invalid mention "${mention}"` };
+  }
+
+  const color = fields.color?.trim().toLowerCase() || DEFAULT_AGENT_COLOR;
+  const colors = AGENT_COLOR_PALETTE[color];
+  if (!colors) return { ok: false, error: `unknown color "${color}"` };
+
+  const orderRaw = fields.order?.trim();
+  const order = orderRaw ? Number(orderRaw) : Number.POSITIVE_INFINITY;
+  if (Number.isNaN(order)) return { ok: false, error: `invalid order "${orderRaw}"` };
+
+  return {
+    ok: true,
+    order,
+    meta: {
+      key,
+      name,
+      emoji,
+      mention,
+      colors: { ...colors },
+      role: fields.role?.trim() || 'instrumental part',
+      patternFamily: fields.pattern_family?.trim().toLowerCase() || key,
+      file,
+    },
+  };
+}
+
+/**
+ * Validate a roster received over the wire (e.g. from /api/jam-roster).
+ * Returns null unless every entry is well-formed and keys/mentions are unique.
+ */
+export function normalizeAgentRoster(value: unknown): AgentMeta[] | null {
+  if (!Array.isArray(value) || value.length === 0) return null;
+
+  const roster: AgentMeta[] = [];
+  const keys = new Set<string>();
+  const mentions = new Set<string>();
+  for (const entry of value) {
+    if (!entry || typeof entry !== 'object') return null;
+    const record = entry as Record<string, unknown>;
+    const colors = record.colors as Record<string, unknown> | undefined;
+    const stringFields = ['key', 'name', 'emoji', 'mention', 'role', 'patternFamily', 'file'] as const;
+    if (stringFields.some((field) => typeof record[field] !== 'string' || !record[field])) return null;
+    if (!colors || typeof colors !== 'object') return null;
+    if (['border', 'accent', 'bg', 'bgSolid'].some((field) => typeof colors[field] !== 'string')) return null;
+
+    const meta = cloneAgentMeta(record as unknown as AgentMeta);
+    if (!AGENT_KEY_PATTERN.test(meta.key) || RESERVED_AGENT_KEYS.has(meta.key)) return null;
+    const mentionKey = meta.mention.toLowerCase();
+    if (keys.has(meta.key) || mentions.has(mentionKey)) return null;
+    keys.add(meta.key);
+    mentions.add(mentionKey);
+    roster.push(meta);
+  }
+  return roster;
+}
+
+/** Replace the live roster in AGENT_META, preserving the given column order. */
+export function applyAgentRoster(roster: ReadonlyArray<AgentMeta>): void {
+  for (const key of Object.keys(AGENT_META)) {
+    delete AGENT_META[key];
+  }
+  for (const meta of roster) {
+    AGENT_META[meta.key] = cloneAgentMeta(meta);
+  }
+}
+
+/** "Your bandmates" block for an agent's system prompt. */
+export function formatBandRosterForPrompt(selfKey: string, activeAgents: string[]): string {
+  const lines = activeAgents
+    .filter(isAgentRosterKey)
+    .map((key) => {
+      const meta = AGENT_META[key];
+      const you = key === selfKey ? ' ← you' : '';
+      return `- ${meta.emoji} ${meta.name} (${key}, ${meta.mention}): ${meta.role}${you}`;
+    });
+  if (lines.length === 0) return '';
+  return ['<band_roster>', 'The band in this jam:', ...lines, '</band_roster>'].join('\n');
+}
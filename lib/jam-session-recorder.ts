@@ -0,0 +1,216 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import {
+  JAM_RECORDING_FILE_EXTENSION,
+  JAM_RECORDING_SUMMARY_FILE_EXTENSION,
+  createJamRecordingId,
+  isJamRecordingDirective,
+  isValidJamRecordingId,
+  parseJamRecording,
+  parseJamRecordingSummary,
+  serializeJamRecordingEntry,
+  summarizeJamRecording,
+} from './jam-recording';
+import type {
+  JamRecordingEntry,
+  JamRecordingEntryKind,
+  JamRecordingSummary,
+} from './types';
+
+const DEFAULT_JAM_RECORDINGS_DIR = '.jam-sessions';
+
+/** JAM_RECORDING=off disables on-disk session recording. */
+export function isJamRecordingEnabled(): boolean {
+  const raw = (process.env.JAM_RECORDING ?? '').trim().toLowerCase();
+  return raw !== 'off' && raw !== 'false' && raw !== '0';
+}
+
+/** Directory for recordings: JAM_RECORDINGS_DIR, else `<workingDir>/.jam-sessions`. */
+export function getJamRecordingsDir(workingDir: string): string {
+  const configured = (process.env.JAM_RECORDINGS_DIR ?? '').trim();
+  if (!configured) return path.join(workingDir, DEFAULT_JAM_RECORDINGS_DIR);
+  return path.isAbsolute(configured) ? configured : path.join(workingDir, configured);
+}
+
+export interface JamSessionRecorderOptions {
+  dir: string;
+  activeAgents: string[];
+  now?: () => number;
+}
+
+/**
+ * Append-only JSONL log of one jam session: every jam broadcast the manager
+ * emits, plus the browser inputs (boss directives, camera cues, audio
+ * feedback) that drove turns. Writes are buffered through one WriteStream,
+ * which keeps entries in emission order without blocking the jam; a write
+ * failure disables the recorder instead of breaking the jam. Closing writes
+ * a summary sidecar so listing never has to parse the log.
+ */
+export class JamSessionRecorder {
+  readonly id: string;
+  readonly filePath: string;
+  readonly summaryPath: string;
+  private readonly now: () => number;
+  private readonly startedAtMs: number;
+  private readonly activeAgents: string[];
+  private stream: fs.WriteStream | null = null;
+  private seq = 0;
+  private lastOffsetMs = 0;
+  private directiveCount = 0;
+  private closed = false;
+
+  constructor(options: JamSessionRecorderOptions) {
+    this.now = options.now ?? Date.now;
+    this.startedAtMs = this.now();
+    this.id = createJamRecordingId(this.startedAtMs, randomUUID().slice(0, 6));
+    this.filePath = path.join(options.dir, `${this.id}${JAM_RECORDING_FILE_EXTENSION}`);
+    this.summaryPath = path.join(options.dir, `${this.id}${JAM_RECORDING_SUMMARY_FILE_EXTENSION}`);
+    this.activeAgents = [...options.activeAgents];
+
+    try {
+      fs.mkdirSync(options.dir, { recursive: true });
+    } catch (error) {
+      this.disable(error);
+      return;
+    }
+
+    this.stream = fs.createWriteStream(this.filePath, { flags: 'a', encoding: 'utf-8' });
+    this.stream.on('error', (error) => this.disable(error));
+
+    this.append('session', 'session_start', {
+      recordingId: this.id,
+      activeAgents: this.activeAgents,
+    });
+  }
+
+  get isActive(): boolean {
+    return !this.closed;
+  }
+
+  recordOutput(message: { type: string; payload: unknown }): void {
+    this.append('output', message.type, message.payload);
+  }
+
+  recordInput(type: string, payload: unknown): void {
+    this.append('input', type, payload);
+  }
+
+  /** Ends the log; resolves once it is flushed and the summary is written. */
+  close(reason: string): Promise<void> {
+    if (this.closed) return Promise.resolve();
+    this.append('session', 'session_end', { reason });
+    this.closed = true;
+
+    const stream = this.stream;
+    if (!stream) return Promise.resolve();
+
+    const summary: JamRecordingSummary = {
+      id: this.id,
+      startedAt: new Date(this.startedAtMs).toISOString(),
+      durationMs: this.lastOffsetMs,
+      eventCount: this.seq,
+      activeAgents: this.activeAgents,
+      directiveCount: this.directiveCount,
+    };
+
+    return new Promise<void>((resolve) => {
+      stream.once('error', () => resolve());
+      stream.end(() => {
+        // A stream error already disabled the recorder; leave the log unsummarised.
+        if (this.stream !== stream) {
+          resolve();
+          return;
+        }
+        this.stream = null;
+        fs.promises.writeFile(this.summaryPath, JSON.stringify(summary), 'utf-8')
+          .catch((error: unknown) => {
+            const message = error instanceof Error ? error.message : String(error);
+            console.error(`[JamRecorder] Summary for ${this.id} not written: ${message}`);
+          })
+          .then(() => resolve());
+      });
+    });
+  }
+
+  private append(kind: JamRecordingEntryKind, type: string, payload: unknown): void {
+    if (this.closed) return;
+
+    const nowMs = this.now();
+    const entry: JamRecordingEntry = {
+      seq: this.seq++,
+      offsetMs: Math.max(0, nowMs - this.startedAtMs),
+      recordedAt: new Date(nowMs).toISOString(),
+      kind,
+      type,
+      payload: payload ?? null,
+    };
+
+    this.lastOffsetMs = entry.offsetMs;
+    if (isJamRecordingDirective(entry)) this.directiveCount++;
+    this.stream?.write(serializeJamRecordingEntry(entry));
+  }
+
+  private disable(error: unknown): void {
+    this.closed = true;
+    this.stream?.destroy();
+    this.stream = null;
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[JamRecorder] Recording ${this.id} disabled: ${message}`);
+  }
+}
+
+/**
+ * Summaries of all recordings in `dir`, newest first. Missing dir → [].
+ * Closed recordings are read from their summary sidecar; only a session that
+ * is still running (or died without closing) has its log parsed.
+ */
+export function listJamRecordings(dir: string): JamRecordingSummary[] {
+  let files: string[];
+  try {
+    files = fs.readdirSync(dir);
+  } catch {
+    return [];
+  }
+
+  const summaries: JamRecordingSummary[] = [];
+  for (const file of files) {
+    if (!file.endsWith(JAM_RECORDING_FILE_EXTENSION)) continue;
+    const id = file.slice(0, -JAM_RECORDING_FILE_EXTENSION.length);
+    const summary = readJamRecordingSummary(dir, id);
+    if (summary) {
+      summaries.push(summary);
+      continue;
+    }
+
+    const entries = readJamRecording(dir, id);
+    if (!entries || entries.length === 0) continue;
+    summaries.push(summarizeJamRecording(id, entries));
+  }
+
+  return summaries.sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+}
+
+function readJamRecordingSummary(dir: string, id: string): JamRecordingSummary | null {
+  if (!isValidJamRecordingId(id)) return null;
+
+  try {
+    const text = fs.readFileSync(path.join(dir, `${id}${JAM_RECORDING_SUMMARY_FILE_EXTENSION}`), 'utf-8');
+    const summary = parseJamRecordingSummary(text);
+    return summary?.id === id ? summary : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Entries of one recording, or null if the id is invalid or unknown. */
+export function readJamRecording(dir: string, id: string): JamRecordingEntry[] | null {
+  if (!isValidJamRecordingId(id)) return null;
+
+  try {
+    const text = fs.readFileSync(path.join(dir, `${id}${JAM_RECORDING_FILE_EXTENSION}`), 'utf-8');
+    return parseJamRecording(text);
+  } catch {
+    return null;
+  }
+}
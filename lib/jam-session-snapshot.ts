@@ -0,0 +1,192 @@
+/**
+ * On-disk jam session snapshots. AgentProcessManager emits a snapshot after
+ * every completed turn; the runtime websocket writes it here so a session can
+ * be rebuilt with `AgentProcessManager.resume()` after stop() or a server
+ * restart, including each agent's Codex thread id.
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import type { JamStartMode } from './agent-process-manager';
+import { normalizeArrangementSections, type ArrangementPosition } from './jam-arrangement';
+import type {
+  AgentMixChannel,
+  AgentPatternVersion,
+  AgentState,
+  ArrangementSection,
+  AutoTickSchedule,
+  JamSessionSnapshotSummary,
+  JamUsageSnapshot,
+  MusicalContext,
+  StructuredMusicalDecision,
+} from './types';
+
+export const JAM_SESSION_SNAPSHOT_VERSION = 1;
+
+const DEFAULT_JAM_SNAPSHOTS_DIR = path.join('.jam-sessions', 'snapshots');
+const JAM_SESSION_ID_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_-]{0,127}$/;
+
+export interface JamSessionSnapshotAgent {
+  pattern: string;
+  state: AgentState;
+  threadId: string | null;
+  decision?: StructuredMusicalDecision;
+  history?: AgentPatternVersion[];  // absent in snapshots saved before pattern history
+}
+
+export interface JamSessionSnapshotArrangement extends ArrangementPosition {
+  sections: ArrangementSection[];
+}
+
+export interface JamSessionSnapshot {
+  version: typeof JAM_SESSION_SNAPSHOT_VERSION;
+  sessionId: string;
+  savedAt: string;
+  round: number;
+  jamStartMode: JamStartMode;
+  presetConfigured: boolean;
+  musicalContext: MusicalContext;
+  activeAgents: string[];
+  activatedAgents: string[];
+  mutedAgents: string[];
+  // Absent in snapshots saved before the mixer; resume() fills in unity channels
+  mixer?: Record<string, AgentMixChannel>;
+  // Absent in snapshots saved before scheduling modes; resume() uses the interval
+  autoTickSchedule?: AutoTickSchedule;
+  // Absent in snapshots saved before usage metering; resume() starts from zero
+  usage?: JamUsageSnapshot;
+  agents: Record<string, JamSessionSnapshotAgent>;
+  arrangement?: JamSessionSnapshotArrangement;
+}
+
+/** Snapshot directory: JAM_SNAPSHOTS_DIR, else `<workingDir>/.jam-sessions/snapshots`. */
+export function getJamSnapshotsDir(workingDir: string): string {
+  const configured = (process.env.JAM_SNAPSHOTS_DIR ?? '').trim();
+  if (!configured) return path.join(workingDir, DEFAULT_JAM_SNAPSHOTS_DIR);
+  return path.isAbsolute(configured) ? configured : path.join(workingDir, configured);
+}
+
+export function isValidJamSessionId(sessionId: string): boolean {
+  return JAM_SESSION_ID_PATTERN.test(sessionId);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
+
+/**
+ * Validate parsed snapshot JSON. Returns null for anything that could not
+ * have been written by this version of the manager.
+ */
+export function parseJamSessionSnapshot(value: unknown): JamSessionSnapshot | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+  const raw = value as Record<string, unknown>;
+
+  if (raw.version !== JAM_SESSION_SNAPSHOT_VERSION) return null;
+  if (typeof raw.sessionId !== 'string' || !isValidJamSessionId(raw.sessionId)) return null;
+  if (typeof raw.savedAt !== 'string' || typeof raw.round !== 'number') return null;
+  if (raw.jamStartMode !== 'autonomous_opening' && raw.jamStartMode !== 'staged_silent') return null;
+  if (typeof raw.presetConfigured !== 'boolean') return null;
+  if (!isStringArray(raw.activeAgents) || !isStringArray(raw.activatedAgents) || !isStringArray(raw.mutedAgents)) {
+    return null;
+  }
+
+  const context = raw.musicalContext as Record<string, unknown> | undefined;
+  if (
+    !context
+    || typeof context.key !== 'string'
+    || typeof context.bpm !== 'number'
+    || typeof context.timeSignature !== 'string'
+    || !isStringArray(context.scale)
+    || !isStringArray(context.chordProgression)
+  ) {
+    return null;
+  }
+
+  if (!raw.agents || typeof raw.agents !== 'object' || Array.isArray(raw.agents)) return null;
+  const agents = raw.agents as Record<string, unknown>;
+  for (const key of raw.activeAgents) {
+    const agent = agents[key] as Record<string, unknown> | undefined;
+    if (
+      !agent
+      || typeof agent.pattern !== 'string'
+      || !agent.state
+      || typeof agent.state !== 'object'
+      || (agent.threadId !== null && typeof agent.threadId !== 'string')
+    ) {
+      return null;
+    }
+  }
+
+  if (raw.arrangement !== undefined) {
+    const arrangement = raw.arrangement as Record<string, unknown> | null;
+    if (
+      !arrangement
+      || !normalizeArrangementSections(arrangement.sections)
+      || typeof arrangement.currentIndex !== 'number'
+      || typeof arrangement.barsElapsed !== 'number'
+    ) {
+      return null;
+    }
+  }
+
+  return value as JamSessionSnapshot;
+}
+
+export function summarizeJamSessionSnapshot(snapshot: JamSessionSnapshot): JamSessionSnapshotSummary {
+  return {
+    sessionId: snapshot.sessionId,
+    savedAt: snapshot.savedAt,
+    round: snapshot.round,
+    activeAgents: [...snapshot.activeAgents],
+    activatedAgents: [...snapshot.activatedAgents],
+    genre: snapshot.musicalContext.genre,
+    key: snapshot.musicalContext.key,
+    bpm: snapshot.musicalContext.bpm,
+  };
+}
+
+/** Write via temp file + rename so a crash mid-write never leaves a torn snapshot. */
+export function writeJamSessionSnapshot(dir: string, snapshot: JamSessionSnapshot): void {
+  if (!isValidJamSessionId(snapshot.sessionId)) {
+    throw new Error(`Invalid jam session id: ${snapshot.sessionId}`);
+  }
+
+  fs.mkdirSync(dir, { recursive: true });
+  const filePath = path.join(dir, `${snapshot.sessionId}.json`);
+  const tempPath = `${filePath}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(snapshot, null, 2), 'utf-8');
+  fs.renameSync(tempPath, filePath);
+}
+
+/** Snapshot for `sessionId`, or null if the id is invalid, unknown, or unreadable. */
+export function readJamSessionSnapshot(dir: string, sessionId: string): JamSessionSnapshot | null {
+  if (!isValidJamSessionId(sessionId)) return null;
+
+  try {
+    const text = fs.readFileSync(path.join(dir, `${sessionId}.json`), 'utf-8');
+    return parseJamSessionSnapshot(JSON.parse(text));
+  } catch {
+    return null;
+  }
+}
+
+/** Summaries of all resumable sessions in `dir`, most recently saved first. */
+export function listJamSessionSnapshots(dir: string): JamSessionSnapshotSummary[] {
+  let files: string[];
+  try {
+    files = fs.readdirSync(dir);
+  } catch {
+    return [];
+  }
+
+  const summaries: JamSessionSnapshotSummary[] = [];
+  for (const file of files) {
+    if (!file.endsWith('.json')) continue;
+    const snapshot = readJamSessionSnapshot(dir, file.slice(0, -'.json'.length));
+    if (snapshot) {
+      summaries.push(summarizeJamSessionSnapshot(snapshot));
+    }
+  }
+
+  return summaries.sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+}
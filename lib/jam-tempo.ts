@@ -0,0 +1,68 @@
+/**
+ * Deterministic tempo/meter clock for jam mode.
+ *
+ * The runtime owns the clock: composed jam code is prefixed with a `setcpm(...)`
+ * call derived from MusicalContext.bpm and timeSignature, so boss tempo changes
+ * are audible exactly regardless of what agents write.
+ *
+ * Conventions: one Strudel cycle = one bar, and BPM counts quarter notes
+ * (so 4/4 at 120 BPM → setcpm(120/4), 6/8 at 120 BPM → setcpm(120/3)).
+ */
+import type { MusicalContext } from './types';
+
+export interface TimeSignature {
+  beatsPerBar: number;
+  beatUnit: number;
+}
+
+const DEFAULT_TIME_SIGNATURE: TimeSignature = { beatsPerBar: 4, beatUnit: 4 };
+const VALID_BEAT_UNITS = new Set([1, 2, 4, 8, 16, 32]);
+
+/** Parse "7/8" → { beatsPerBar: 7, beatUnit: 8 }. Returns null if unrecognized. */
+export function parseTimeSignature(value: string): TimeSignature | null {
+  const match = value.trim().match(/^(\d{1,2})\s*\/\s*(\d{1,2})$/);
+  if (!match) return null;
+
+  const beatsPerBar = parseInt(match[1], 10);
+  const beatUnit = parseInt(match[2], 10);
+  if (beatsPerBar < 1 || !VALID_BEAT_UNITS.has(beatUnit)) return null;
+  return { beatsPerBar, beatUnit };
+}
+
+/** Number of quarter notes in one bar (4/4 → 4, 3/4 → 3, 6/8 → 3, 7/8 → 3.5). */
+export function quarterNotesPerBar(timeSignature: string): number {
+  const parsed = parseTimeSignature(timeSignature) ?? DEFAULT_TIME_SIGNATURE;
+  return (parsed.beatsPerBar * 4) / parsed.beatUnit;
+}
+
+/** Cycles (bars) per minute for the given quarter-note BPM and meter. */
+export function deriveCyclesPerMinute(bpm: number, timeSignature: string): number {
+  return bpm / quarterNotesPerBar(timeSignature);
+}
+
+function formatClockNumber(value: number): string {
+  return String(Number(value.toFixed(4)));
+}
+
+/**
+ * Strudel statement that pins the global clock, kept as `bpm/quarters` so the
+ * derivation stays readable in the executed code.
+ */
+export function buildTempoPreamble(
+  context: Pick<MusicalContext, 'bpm' | 'timeSignature'>
+): string {
+  const quarters = quarterNotesPerBar(context.timeSignature);
+  return `setcpm(${formatClockNumber(context.bpm)}/${formatClockNumber(quarters)})`;
+}
+
+/**
+ * Prefix composed jam code with the authoritative tempo. Silence stays bare:
+ * nothing is audible, and the next audible execute carries the clock anyway.
+ */
+export function applyTempoToComposedPattern(
+  code: string,
+  context: Pick<MusicalContext, 'bpm' | 'timeSignature'>
+): string {
+  if (code === 'silence') return code;
+  return `${buildTempoPreamble(context)}\n${code}`;
+}
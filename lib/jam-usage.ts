@@ -0,0 +1,182 @@
+/**
+ * Session usage and budget. Every jam turn is a separate model call; the
+ * manager folds each turn's wall-clock time and reported usage into per-agent
+ * and per-session totals, and the budget governor stretches auto-tick spacing
+ * as the session budget is approached and stops autonomous rounds once it is
+ * spent.
+ *
+ * Codex reports tokens but not cost; cost is estimated from per-million-token
+ * prices when they are configured (see parseJamTokenPricing).
+ */
+
+import type {
+  JamBudgetState,
+  JamSessionBudget,
+  JamUsageSnapshot,
+  JamUsageTotals,
+} from './types';
+import type { RuntimeTurnMetrics } from './runtime-process';
+import { JAM_GOVERNANCE } from './jam-governance-constants';
+
+export interface JamTokenPricing {
+  inputUsdPerMTok: number;
+  cachedInputUsdPerMTok: number;
+  outputUsdPerMTok: number;
+}
+
+export const NO_SESSION_BUDGET: Readonly<JamSessionBudget> = { maxCostUsd: null, maxTokens: null };
+
+export function createUsageTotals(): JamUsageTotals {
+  return { turns: 0, durationMs: 0, inputTokens: 0, cachedInputTokens: 0, outputTokens: 0, costUsd: 0 };
+}
+
+/**
+ * Usage of one turn. Reported cost wins; otherwise cost is estimated from
+ * pricing, with cached input billed at the cached rate.
+ */
+export function getTurnUsage(
+  metrics: RuntimeTurnMetrics | undefined,
+  durationMs: number,
+  pricing: JamTokenPricing | null
+): JamUsageTotals {
+  const inputTokens = Math.max(0, metrics?.input_tokens ?? 0);
+  const cachedInputTokens = Math.min(inputTokens, Math.max(0, metrics?.cached_input_tokens ?? 0));
+  const outputTokens = Math.max(0, metrics?.output_tokens ?? 0);
+
+  let costUsd = Math.max(0, metrics?.cost_usd ?? 0);
+  if (metrics?.cost_usd === undefined && pricing) {
+    costUsd = (
+      (inputTokens - cachedInputTokens) * pricing.inputUsdPerMTok
+      + cachedInputTokens * pricing.cachedInputUsdPerMTok
+      + outputTokens * pricing.outputUsdPerMTok
+    ) / 1_000_000;
+  }
+
+  return {
+    turns: 1,
+    durationMs: Math.max(0, Math.round(durationMs)),
+    inputTokens,
+    cachedInputTokens,
+    outputTokens,
+    costUsd,
+  };
+}
+
+export function addUsageTotals(a: JamUsageTotals, b: JamUsageTotals): JamUsageTotals {
+  return {
+    turns: a.turns + b.turns,
+    durationMs: a.durationMs + b.durationMs,
+    inputTokens: a.inputTokens + b.inputTokens,
+    cachedInputTokens: a.cachedInputTokens + b.cachedInputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    costUsd: a.costUsd + b.costUsd,
+  };
+}
+
+function readLimit(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : null;
+}
+
+/** Validate a budget from the wire or a snapshot; null when it is not an object. */
+export function normalizeSessionBudget(value: unknown): JamSessionBudget | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+  const raw = value as Record<string, unknown>;
+  const maxTokens = readLimit(raw.maxTokens);
+  return {
+    maxCostUsd: readLimit(raw.maxCostUsd),
+    maxTokens: maxTokens === null ? null : Math.round(maxTokens),
+  };
+}
+
+/** Snapshot totals: missing or malformed counters read as zero. */
+export function normalizeUsageTotals(value: unknown): JamUsageTotals {
+  const raw = value && typeof value === 'object' && !Array.isArray(value)
+    ? value as Record<string, unknown>
+    : {};
+  const read = (field: keyof JamUsageTotals): number => {
+    const n = raw[field];
+    return typeof n === 'number' && Number.isFinite(n) && n > 0 ? n : 0;
+  };
+  return {
+    turns: read('turns'),
+    durationMs: read('durationMs'),
+    inputTokens: read('inputTokens'),
+    cachedInputTokens: read('cachedInputTokens'),
+    outputTokens: read('outputTokens'),
+    costUsd: read('costUsd'),
+  };
+}
+
+/** Share of the tightest configured limit used so far; null without a budget. */
+export function getBudgetUsedFraction(totals: JamUsageTotals, budget: JamSessionBudget): number | null {
+  const fractions: number[] = [];
+  if (budget.maxCostUsd !== null) fractions.push(totals.costUsd / budget.maxCostUsd);
+  if (budget.maxTokens !== null) fractions.push((totals.inputTokens + totals.outputTokens) / budget.maxTokens);
+  return fractions.length > 0 ? Math.max(...fractions) : null;
+}
+
+export function getBudgetState(usedFraction: number | null): JamBudgetState {
+  if (usedFraction === null) return 'ok';
+  if (usedFraction >= 1) return 'paused';
+  if (usedFraction >= JAM_GOVERNANCE.BUDGET_SLOWDOWN_FRACTION) return 'slowed';
+  return 'ok';
+}
+
+export function buildUsageSnapshot(
+  session: JamUsageTotals,
+  agents: Record<string, JamUsageTotals>,
+  budget: JamSessionBudget
+): JamUsageSnapshot {
+  const budgetUsedFraction = getBudgetUsedFraction(session, budget);
+  return {
+    session: { ...session },
+    agents: Object.fromEntries(Object.entries(agents).map(([key, totals]) => [key, { ...totals }])),
+    budget: { ...budget },
+    budgetUsedFraction,
+    budgetState: getBudgetState(budgetUsedFraction),
+  };
+}
+
+function readEnvNumber(raw: string | undefined): number | null {
+  const value = Number((raw ?? '').trim());
+  return (raw ?? '').trim() && Number.isFinite(value) && value > 0 ? value : null;
+}
+
+/**
+ * Default budget from JAM_BUDGET_USD and JAM_BUDGET_TOKENS; unset or invalid
+ * values leave that limit off.
+ */
+export function parseJamSessionBudget(env: Record<string, string | undefined>): JamSessionBudget {
+  const maxTokens = readEnvNumber(env.JAM_BUDGET_TOKENS);
+  return {
+    maxCostUsd: readEnvNumber(env.JAM_BUDGET_USD),
+    maxTokens: maxTokens === null ? null : Math.round(maxTokens),
+  };
+}
+
+/**
+ * Token prices in USD per million tokens from JAM_PRICE_INPUT_PER_MTOK,
+ * JAM_PRICE_CACHED_INPUT_PER_MTOK and JAM_PRICE_OUTPUT_PER_MTOK. Null unless
+ * the input and output prices are both set; cached input defaults to the
+ * input price.
+ */
+export function parseJamTokenPricing(env: Record<string, string | undefined>): JamTokenPricing | null {
+  const inputUsdPerMTok = readEnvNumber(env.JAM_PRICE_INPUT_PER_MTOK);
+  const outputUsdPerMTok = readEnvNumber(env.JAM_PRICE_OUTPUT_PER_MTOK);
+  if (inputUsdPerMTok === null || outputUsdPerMTok === null) return null;
+  return {
+    inputUsdPerMTok,
+    cachedInputUsdPerMTok: readEnvNumber(env.JAM_PRICE_CACHED_INPUT_PER_MTOK) ?? inputUsdPerMTok,
+    outputUsdPerMTok,
+  };
+}
+
+export function formatUsd(value: number): string {
+  return value < 1 ? `$${value.toFixed(3)}` : `$${value.toFixed(2)}`;
+}
+
+export function formatTokenCount(value: number): string {
+  if (value >= 1_000_000) return `${(value / 1_000_000).toFixed(1)}M`;
+  if (value >= 1_000) return `${Math.round(value / 1_000)}k`;
+  return String(Math.round(value));
+}
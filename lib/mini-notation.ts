@@ -0,0 +1,586 @@
+/**
+ * Node-safe mini-notation parser and evaluator.
+ *
+ * `parseMiniNotation()` turns a mini string ("bd [~ bd] <sd cp>*2") into an
+ * AST; `expandMiniNotation()` plays that AST for N cycles and returns timed
+ * events, so server-side analyses (rhythm density, harmony, meter) work from
+ * what a layer actually plays rather than from a list of leaf tokens.
+ *
+ * Covers sequences with `@` weights, `_` elongation and `.` grouping, `[]`
+ * groups, `,` stacks, `<>` alternation, `{}` polymeter with `%` steps,
+ * `|` random choice, euclid `(3,8,2)`, and the `*` `/` `!` `?` operators,
+ * including patterned factors ("hh*<2 4>"). We avoid `@strudel/mini` because
+ * it pulls in browser-only `@strudel/core`.
+ *
+ * Randomness is deterministic: `|` picks an option from a hash of the cycle
+ * and position, and `?` lowers an event's `probability` instead of dropping it.
+ */
+
+const EPSILON = 1e-9;
+// Longest repeat period getMiniPeriod() reports
+const MAX_PERIOD_CYCLES = 1024;
+
+export class MiniNotationError extends Error {
+  readonly position: number;
+
+  constructor(message: string, position: number) {
+    super(`${message} at position ${position}`);
+    this.name = 'MiniNotationError';
+    this.position = position;
+  }
+}
+
+/** A number, or a pattern sampled at the step's position ("<2 4>"). */
+export type MiniFactor = number | MiniNode;
+
+export type MiniOperator =
+  | { kind: 'fast'; factor: MiniFactor }
+  | { kind: 'slow'; factor: MiniFactor }
+  | { kind: 'euclid'; pulses: MiniFactor; steps: MiniFactor; rotation: MiniFactor }
+  | { kind: 'degrade'; amount: number };
+
+export interface MiniStep {
+  node: MiniNode;
+  weight: number;
+  // Applied in source order: "bd(3,8)*2" is euclid, then fast
+  operators: MiniOperator[];
+}
+
+export type MiniNode =
+  | { kind: 'atom'; value: string }
+  | { kind: 'rest' }
+  | { kind: 'sequence'; steps: MiniStep[] }
+  | { kind: 'stack'; layers: MiniNode[] }
+  | { kind: 'choice'; options: MiniNode[] }
+  | { kind: 'alternation'; steps: MiniStep[] }
+  | { kind: 'polymeter'; layers: MiniStep[][]; stepsPerCycle?: MiniFactor };
+
+export interface MiniEvent {
+  value: string;
+  // Absolute cycle time; begin 2.25 is a quarter into the third cycle
+  begin: number;
+  end: number;
+  // Below 1 when `?` may drop the event
+  probability: number;
+}
+
+export interface MiniExpandOptions {
+  // First cycle to play (default 0)
+  from?: number;
+  // Cycles to play (default 1)
+  cycles?: number;
+}
+
+function createStep(node: MiniNode): MiniStep {
+  return { node, weight: 1, operators: [] };
+}
+
+const WORD_PATTERN = /^[A-Za-z0-9#'\-._]+/;
+const NUMBER_PATTERN = /^-?\d+(?:\.\d+)?/;
+
+class MiniParser {
+  private pos = 0;
+
+  constructor(private readonly src: string) {}
+
+  parse(): MiniNode {
+    const node = this.toGroup(this.readLayers(null));
+    this.skipSpace();
+    if (this.pos < this.src.length) this.fail(`Unexpected "${this.peek()}"`);
+    return node;
+  }
+
+  private fail(message: string): never {
+    throw new MiniNotationError(message, this.pos);
+  }
+
+  private peek(offset = 0): string {
+    return this.src[this.pos + offset] ?? '';
+  }
+
+  private skipSpace(): void {
+    while (/\s/.test(this.peek())) this.pos++;
+  }
+
+  // Whether the current character stands alone ("a . b", "a _", "a !]")
+  private isSeparatorAhead(): boolean {
+    const next = this.peek(1);
+    return next === '' || /[\s\]>},|]/.test(next);
+  }
+
+  private toGroup(layers: MiniNode[]): MiniNode {
+    return layers.length === 1 ? layers[0] : { kind: 'stack', layers };
+  }
+
+  /**
+   * Layers up to `close`: "," separates stacked layers, "|" random-choice
+   * options within a layer, and "." groups steps into sub-sequences.
+   */
+  private readLayers(close: string | null): MiniNode[] {
+    const layers: MiniNode[] = [];
+    let options: MiniNode[] = [];
+    let groups: MiniStep[][] = [[]];
+
+    const finishOption = () => {
+      const nonEmpty = groups.filter((group) => group.length > 0);
+      options.push(nonEmpty.length > 1
+        ? { kind: 'sequence', steps: nonEmpty.map((steps) => createStep({ kind: 'sequence', steps })) }
+        : { kind: 'sequence', steps: nonEmpty[0] ?? [] });
+      groups = [[]];
+    };
+    const finishLayer = () => {
+      finishOption();
+      layers.push(options.length === 1 ? options[0] : { kind: 'choice', options });
+      options = [];
+    };
+
+    for (;;) {
+      this.skipSpace();
+      const ch = this.peek();
+      if (!ch) {
+        if (close) this.fail(`Missing "${close}"`);
+        break;
+      }
+      if (ch === close) {
+        this.pos++;
+        break;
+      }
+      if (ch === ']' || ch === '>' || ch === '}' || ch === ')') this.fail(`Unexpected "${ch}"`);
+
+      if (ch === ',') {
+        this.pos++;
+        finishLayer();
+        continue;
+      }
+      if (ch === '|') {
+        this.pos++;
+        finishOption();
+        continue;
+      }
+
+      const current = groups[groups.length - 1];
+      const previous = current[current.length - 1];
+      if (ch === '.' && this.isSeparatorAhead()) {
+        this.pos++;
+        groups.push([]);
+        continue;
+      }
+      // Standalone "_" stretches and "!" repeats the previous step
+      if ((ch === '_' || ch === '!') && this.isSeparatorAhead()) {
+        if (!previous) this.fail(`"${ch}" needs a step before it`);
+        this.pos++;
+        if (ch === '_') previous.weight += 1;
+        else current.push({ ...previous, operators: [...previous.operators] });
+        continue;
+      }
+
+      current.push(...this.readStep());
+    }
+
+    finishLayer();
+    return layers;
+  }
+
+  private readNumber(): number | null {
+    const match = this.src.slice(this.pos).match(NUMBER_PATTERN);
+    if (!match) return null;
+    this.pos += match[0].length;
+    return Number(match[0]);
+  }
+
+  private readFactor(): MiniFactor {
+    const value = this.readNumber();
+    if (value !== null) return value;
+    const ch = this.peek();
+    if (ch === '<' || ch === '[') return this.readTerm();
+    return this.fail('Expected a number or pattern');
+  }
+
+  private readStep(): MiniStep[] {
+    const step = createStep(this.readTerm());
+    let copies = 1;
+
+    for (;;) {
+      const ch = this.peek();
+      if (ch === '*' || ch === '/') {
+        this.pos++;
+        step.operators.push({ kind: ch === '*' ? 'fast' : 'slow', factor: this.readFactor() });
+      } else if (ch === '@') {
+        this.pos++;
+        const weight = this.readNumber();
+        if (weight === null || weight <= 0) this.fail('Expected a positive weight');
+        step.weight = weight;
+      } else if (ch === '!') {
+        this.pos++;
+        const count = this.readNumber();
+        copies += count !== null ? Math.max(0, Math.round(count) - 1) : 1;
+      } else if (ch === '?') {
+        this.pos++;
+        const amount = this.readNumber();
+        step.operators.push({ kind: 'degrade', amount: amount ?? 0.5 });
+      } else if (ch === ':') {
+        this.pos++;
+        const suffix = this.src.slice(this.pos).match(WORD_PATTERN)?.[0] ?? '';
+        this.pos += suffix.length;
+        if (step.node.kind === 'atom') step.node = { kind: 'atom', value: `${step.node.value}:${suffix}` };
+      } else if (ch === '(') {
+        this.pos++;
+        step.operators.push(this.readEuclid());
+      } else {
+        break;
+      }
+    }
+
+    return Array.from({ length: copies }, () => ({ ...step, operators: [...step.operators] }));
+  }
+
+  private readEuclid(): MiniOperator {
+    const args: MiniFactor[] = [];
+    for (;;) {
+      this.skipSpace();
+      args.push(this.readFactor());
+      this.skipSpace();
+      const ch = this.peek();
+      this.pos++;
+      if (ch === ')') break;
+      if (ch !== ',') this.fail('Malformed euclid');
+    }
+    if (args.length < 2 || args.length > 3) this.fail('Euclid takes 2 or 3 arguments');
+    return { kind: 'euclid', pulses: args[0], steps: args[1], rotation: args[2] ?? 0 };
+  }
+
+  private readTerm(): MiniNode {
+    const ch = this.peek();
+    if (ch === '[') {
+      this.pos++;
+      return this.toGroup(this.readLayers(']'));
+    }
+    if (ch === '<') {
+      this.pos++;
+      const layers = this.readLayers('>').map((layer): MiniNode => (
+        layer.kind === 'sequence' ? { kind: 'alternation', steps: layer.steps } : layer
+      ));
+      return this.toGroup(layers);
+    }
+    if (ch === '{') {
+      this.pos++;
+      const layers = this.readLayers('}').map((layer) => (
+        layer.kind === 'sequence' ? layer.steps : [createStep(layer)]
+      ));
+      let stepsPerCycle: MiniFactor | undefined;
+      if (this.peek() === '%') {
+        this.pos++;
+        stepsPerCycle = this.readFactor();
+      }
+      return { kind: 'polymeter', layers, ...(stepsPerCycle !== undefined ? { stepsPerCycle } : {}) };
+    }
+    if (ch === '~') {
+      this.pos++;
+      return { kind: 'rest' };
+    }
+    const word = (this.src.slice(this.pos).match(WORD_PATTERN)?.[0] ?? '').replace(/\.+$/, '');
+    if (!word) return this.fail(`Unexpected "${ch}"`);
+    this.pos += word.length;
+    return word === '-' ? { kind: 'rest' } : { kind: 'atom', value: word };
+  }
+}
+
+/** Parse a mini-notation string into an AST. Throws MiniNotationError. */
+export function parseMiniNotation(src: string): MiniNode {
+  return new MiniParser(src).parse();
+}
+
+// ─── Evaluation ────────────────────────────────────────────────────
+
+function positiveMod(value: number, modulus: number): number {
+  return ((value % modulus) + modulus) % modulus;
+}
+
+// Deterministic stand-in for Strudel's seeded randomness
+function seededIndex(cycle: number, position: number, count: number): number {
+  const seed = Math.sin(cycle * 12.9898 + position * 78.233) * 43758.5453;
+  return Math.floor((seed - Math.floor(seed)) * count);
+}
+
+/** Euclidean rhythm (Bjorklund): (3,8) → x..x..x. */
+export function getEuclidHits(pulses: number, steps: number): boolean[] {
+  if (steps <= 0) return [];
+  if (pulses <= 0) return Array.from({ length: steps }, () => false);
+  if (pulses >= steps) return Array.from({ length: steps }, () => true);
+
+  let front: boolean[][] = Array.from({ length: pulses }, () => [true]);
+  let back: boolean[][] = Array.from({ length: steps - pulses }, () => [false]);
+  while (back.length > 1) {
+    const count = Math.min(front.length, back.length);
+    const merged = front.slice(0, count).map((group, i) => group.concat(back[i]));
+    back = front.length > count ? front.slice(count) : back.slice(count);
+    front = merged;
+  }
+  return front.concat(back).reduce<boolean[]>((hits, group) => hits.concat(group), []);
+}
+
+// Numeric value of a factor at a point in the cycle; null when it is not a number
+function resolveFactor(factor: MiniFactor, cycle: number, begin: number): number | null {
+  if (typeof factor === 'number') return factor;
+  const events: MiniEvent[] = [];
+  evalNode(factor, cycle, cycle, 1, events);
+  const position = cycle + positiveMod(begin, 1);
+  const active = events.find((event) => event.begin <= position + EPSILON && position < event.end - EPSILON)
+    ?? events[0];
+  const value = active ? Number(active.value) : NaN;
+  return Number.isFinite(value) ? value : null;
+}
+
+// Keep events that start inside the window; `clip` cuts their ends to it
+function pushWindow(events: MiniEvent[], start: number, dur: number, clip: boolean, out: MiniEvent[]): void {
+  const end = start + dur;
+  for (const event of events) {
+    if (event.begin < start - EPSILON || event.begin >= end - EPSILON) continue;
+    out.push(clip && event.end > end ? { ...event, end } : event);
+  }
+}
+
+function evalOperators(
+  step: MiniStep,
+  count: number,
+  cycle: number,
+  start: number,
+  dur: number,
+  clip: boolean,
+  out: MiniEvent[]
+): void {
+  if (count === 0) {
+    evalNode(step.node, cycle, start, dur, out);
+    return;
+  }
+
+  const operator = step.operators[count - 1];
+  const run = (innerCycle: number, innerStart: number, innerDur: number, windowStart: number, windowDur: number) => {
+    const events: MiniEvent[] = [];
+    evalOperators(step, count - 1, innerCycle, innerStart, innerDur, clip, events);
+    pushWindow(events, windowStart, windowDur, clip, out);
+  };
+
+  switch (operator.kind) {
+    case 'fast':
+    case 'slow': {
+      const factor = resolveFactor(operator.factor, cycle, start);
+      if (factor === null || factor <= 0) return;
+      // The window holds `rate` inner cycles, starting part-way into one
+      const rate = operator.kind === 'fast' ? factor : 1 / factor;
+      const innerDur = dur / rate;
+      const innerFrom = cycle * rate;
+      for (let inner = Math.floor(innerFrom + EPSILON); inner < innerFrom + rate - EPSILON; inner++) {
+        run(inner, start + (inner - innerFrom) * innerDur, innerDur, start, dur);
+      }
+      return;
+    }
+    case 'euclid': {
+      const pulses = resolveFactor(operator.pulses, cycle, start);
+      const steps = resolveFactor(operator.steps, cycle, start);
+      const rotation = resolveFactor(operator.rotation, cycle, start) ?? 0;
+      if (pulses === null || steps === null || steps < 1) return;
+      const hits = getEuclidHits(Math.round(pulses), Math.round(steps));
+      const slot = dur / hits.length;
+      hits.forEach((_, i) => {
+        if (hits[positiveMod(i + Math.round(rotation), hits.length)]) {
+          run(cycle, start + i * slot, slot, start + i * slot, slot);
+        }
+      });
+      return;
+    }
+    case 'degrade': {
+      const events: MiniEvent[] = [];
+      evalOperators(step, count - 1, cycle, start, dur, clip, events);
+      const keep = Math.max(0, 1 - operator.amount);
+      for (const event of events) out.push({ ...event, probability: event.probability * keep });
+      return;
+    }
+  }
+}
+
+function evalStep(step: MiniStep, cycle: number, start: number, dur: number, out: MiniEvent[], clip = true): void {
+  const events: MiniEvent[] = [];
+  evalOperators(step, step.operators.length, cycle, start, dur, clip, events);
+  pushWindow(events, start, dur, clip, out);
+}
+
+function evalNode(node: MiniNode, cycle: number, start: number, dur: number, out: MiniEvent[]): void {
+  switch (node.kind) {
+    case 'atom':
+      out.push({ value: node.value, begin: start, end: start + dur, probability: 1 });
+      return;
+    case 'rest':
+      return;
+    case 'stack':
+      for (const layer of node.layers) evalNode(layer, cycle, start, dur, out);
+      return;
+    case 'choice':
+      evalNode(node.options[seededIndex(cycle, start, node.options.length)], cycle, start, dur, out);
+      return;
+    case 'alternation': {
+      if (node.steps.length === 0) return;
+      const index = positiveMod(cycle, node.steps.length);
+      evalStep(node.steps[index], Math.floor(cycle / node.steps.length), start, dur, out);
+      return;
+    }
+    case 'sequence': {
+      const total = node.steps.reduce((sum, step) => sum + step.weight, 0);
+      let position = start;
+      for (const step of node.steps) {
+        const stepDur = (dur * step.weight) / total;
+        evalStep(step, cycle, position, stepDur, out);
+        position += stepDur;
+      }
+      return;
+    }
+    case 'polymeter': {
+      const firstLayer = node.layers[0] ?? [];
+      const stepsPerCycle = node.stepsPerCycle !== undefined
+        ? resolveFactor(node.stepsPerCycle, cycle, start)
+        : firstLayer.length;
+      if (!stepsPerCycle || stepsPerCycle < 1) return;
+      const perCycle = Math.round(stepsPerCycle);
+      const slot = dur / perCycle;
+      for (const layer of node.layers) {
+        if (layer.length === 0) continue;
+        for (let i = 0; i < perCycle; i++) {
+          const position = cycle * perCycle + i;
+          evalStep(
+            layer[positiveMod(position, layer.length)],
+            Math.floor(position / layer.length),
+            start + i * slot,
+            slot,
+            out
+          );
+        }
+      }
+      return;
+    }
+  }
+}
+
+/**
+ * Play a mini string or AST for `cycles` cycles from `from` and return its
+ * events in onset order (stacked events keep source order). An event belongs
+ * to the cycle its onset falls in; notes stretched by `/` may end past it.
+ * Throws MiniNotationError for an unparseable string.
+ */
+export function expandMiniNotation(input: string | MiniNode, options: MiniExpandOptions = {}): MiniEvent[] {
+  const root = typeof input === 'string' ? parseMiniNotation(input) : input;
+  const from = options.from ?? 0;
+  const cycles = options.cycles ?? 1;
+
+  const events: MiniEvent[] = [];
+  // A lone top-level step ("<a b>/2") may hold notes past the cycle end
+  const step = root.kind === 'sequence' && root.steps.length === 1 ? root.steps[0] : createStep(root);
+  for (let cycle = from; cycle < from + cycles; cycle++) {
+    evalStep(step, cycle, cycle, 1, events, false);
+  }
+  return events
+    .map((event, order) => ({ event, order }))
+    .sort((a, b) => a.event.begin - b.event.begin || a.order - b.order)
+    .map(({ event }) => event);
+}
+
+// ─── Structure queries ─────────────────────────────────────────────
+
+function gcd(a: number, b: number): number {
+  return b === 0 ? a : gcd(b, a % b);
+}
+
+function lcm(a: number, b: number): number {
+  return Math.min((a / gcd(a, b)) * b, MAX_PERIOD_CYCLES + 1);
+}
+
+function factorPeriod(factor: MiniFactor): number {
+  return typeof factor === 'number' ? 1 : nodePeriod(factor);
+}
+
+function stepPeriod(step: MiniStep): number {
+  let period = nodePeriod(step.node);
+  for (const operator of step.operators) {
+    if (operator.kind === 'fast' || operator.kind === 'slow') {
+      if (typeof operator.factor !== 'number' || !Number.isInteger(operator.factor)) {
+        return MAX_PERIOD_CYCLES + 1;
+      }
+      period = operator.kind === 'fast'
+        ? period / gcd(period, operator.factor)
+        : period * operator.factor;
+    } else if (operator.kind === 'euclid') {
+      period = [operator.pulses, operator.steps, operator.rotation].reduce<number>(
+        (acc, factor) => lcm(acc, factorPeriod(factor)),
+        period
+      );
+    }
+  }
+  return Math.min(period, MAX_PERIOD_CYCLES + 1);
+}
+
+function nodePeriod(node: MiniNode): number {
+  switch (node.kind) {
+    case 'atom':
+    case 'rest':
+      return 1;
+    case 'stack':
+      return node.layers.reduce((period, layer) => lcm(period, nodePeriod(layer)), 1);
+    case 'choice':
+      return MAX_PERIOD_CYCLES + 1;
+    case 'sequence':
+      return node.steps.reduce((period, step) => lcm(period, stepPeriod(step)), 1);
+    case 'alternation': {
+      const inner = node.steps.reduce((period, step) => lcm(period, stepPeriod(step)), 1);
+      return Math.min(inner * Math.max(1, node.steps.length), MAX_PERIOD_CYCLES + 1);
+    }
+    case 'polymeter': {
+      if (node.stepsPerCycle !== undefined && typeof node.stepsPerCycle !== 'number') {
+        return MAX_PERIOD_CYCLES + 1;
+      }
+      const perCycle = Math.round(node.stepsPerCycle ?? node.layers[0]?.length ?? 1) || 1;
+      return node.layers.reduce((period, layer) => {
+        if (layer.length === 0) return period;
+        const turnover = layer.length / gcd(layer.length, perCycle);
+        const inner = layer.reduce((acc, step) => lcm(acc, stepPeriod(step)), 1);
+        return lcm(period, Math.min(turnover * inner, MAX_PERIOD_CYCLES + 1));
+      }, 1);
+    }
+  }
+}
+
+/**
+ * Cycles after which the pattern repeats exactly, or null when it never
+ * settles within 1024 cycles (random choice, patterned or fractional speeds).
+ */
+export function getMiniPeriod(node: MiniNode): number | null {
+  const period = nodePeriod(node);
+  return period > MAX_PERIOD_CYCLES ? null : period;
+}
+
+/** Every atom value in source order, including options a choice may skip. */
+export function collectMiniValues(node: MiniNode): string[] {
+  const values: string[] = [];
+  const visit = (current: MiniNode) => {
+    switch (current.kind) {
+      case 'atom':
+        values.push(current.value);
+        return;
+      case 'rest':
+        return;
+      case 'stack':
+        current.layers.forEach(visit);
+        return;
+      case 'choice':
+        current.options.forEach(visit);
+        return;
+      case 'sequence':
+      case 'alternation':
+        current.steps.forEach((step) => visit(step.node));
+        return;
+      case 'polymeter':
+        current.layers.forEach((layer) => layer.forEach((step) => visit(step.node)));
+        return;
+    }
+  };
+  visit(node);
+  return values;
+}
@@ -6,14 +6,96 @@
  */
 import type { MusicalContext } from './types';
 import { JAM_GOVERNANCE } from './jam-governance-constants';
+import { parseTimeSignature } from './jam-tempo';
 
 // Chromatic scale representations
 const SHARP_CHROMATIC = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
 const FLAT_CHROMATIC  = ['C', 'Db', 'D', 'Eb', 'E', 'F', 'Gb', 'G', 'Ab', 'A', 'Bb', 'B'];
 
-// Scale interval patterns (semitones from root)
-const MAJOR_INTERVALS = [0, 2, 4, 5, 7, 9, 11];
-const MINOR_INTERVALS = [0, 2, 3, 5, 7, 8, 10];
+const LETTERS = ['C', 'D', 'E', 'F', 'G', 'A', 'B'];
+const LETTER_PITCH_CLASS: Record<string, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 };
+
+export type ScaleMode =
+  | 'major' | 'minor'
+  | 'ionian' | 'dorian' | 'phrygian' | 'lydian' | 'mixolydian' | 'aeolian' | 'locrian'
+  | 'harmonic minor' | 'melodic minor'
+  | 'major pentatonic' | 'minor pentatonic'
+  | 'blues' | 'major blues';
+
+interface ScaleDefinition {
+  // Semitones from the root
+  intervals: number[];
+  // Scale degree (1-7) each note is spelled as; defaults to 1..7 for heptatonic scales
+  degrees?: number[];
+  // Heptatonic scale whose triads the fallback progression uses; defaults to this scale
+  chordsFrom?: ScaleMode;
+  // Indices into the chord scale for the fallback progression
+  progression: number[];
+  // Dominant-seventh flavour for blues changes
+  sevenths?: boolean;
+}
+
+/**
+ * Scales a key can name, e.g. "D dorian" or "A minor pentatonic". Each mode's
+ * fallback progression leans on its characteristic chord (IV in dorian, bII in
+ * phrygian, II in lydian, bVII in mixolydian, V in harmonic minor).
+ */
+const SCALES: Record<ScaleMode, ScaleDefinition> = {
+  major:              { intervals: [0, 2, 4, 5, 7, 9, 11], progression: [0, 5, 3, 4] }, // I vi IV V
+  minor:              { intervals: [0, 2, 3, 5, 7, 8, 10], progression: [0, 5, 2, 6] }, // i VI III VII
+  ionian:             { intervals: [0, 2, 4, 5, 7, 9, 11], progression: [0, 5, 3, 4] }, // I vi IV V
+  dorian:             { intervals: [0, 2, 3, 5, 7, 9, 10], progression: [0, 3, 2, 6] }, // i IV III VII
+  phrygian:           { intervals: [0, 1, 3, 5, 7, 8, 10], progression: [0, 1, 2, 6] }, // i bII III bvii
+  lydian:             { intervals: [0, 2, 4, 6, 7, 9, 11], progression: [0, 1, 5, 4] }, // I II vi V
+  mixolydian:         { intervals: [0, 2, 4, 5, 7, 9, 10], progression: [0, 6, 3, 0] }, // I bVII IV I
+  aeolian:            { intervals: [0, 2, 3, 5, 7, 8, 10], progression: [0, 5, 2, 6] }, // i VI III VII
+  locrian:            { intervals: [0, 1, 3, 5, 6, 8, 10], progression: [0, 1, 5, 4] }, // i° bII bvii bV
+  'harmonic minor':   { intervals: [0, 2, 3, 5, 7, 8, 11], progression: [0, 5, 3, 4] }, // i VI iv V
+  'melodic minor':    { intervals: [0, 2, 3, 5, 7, 9, 11], progression: [0, 1, 3, 4] }, // i ii IV V
+  'major pentatonic': { intervals: [0, 2, 4, 7, 9], degrees: [1, 2, 3, 5, 6], chordsFrom: 'major', progression: [0, 5, 3, 4] },
+  'minor pentatonic': { intervals: [0, 3, 5, 7, 10], degrees: [1, 3, 4, 5, 7], chordsFrom: 'minor', progression: [0, 5, 2, 6] },
+  blues:              { intervals: [0, 3, 5, 6, 7, 10], degrees: [1, 3, 4, 5, 5, 7], chordsFrom: 'major', progression: [0, 3, 0, 4], sevenths: true }, // I7 IV7 I7 V7
+  'major blues':      { intervals: [0, 2, 3, 4, 7, 9], degrees: [1, 2, 3, 3, 5, 6], chordsFrom: 'major', progression: [0, 3, 0, 4], sevenths: true },
+};
+
+// Shorthand and alternate names accepted in keys; "A pentatonic" is major pentatonic
+const MODE_ALIASES: Record<string, ScaleMode> = {
+  maj: 'major',
+  min: 'minor',
+  pentatonic: 'major pentatonic',
+  'minor blues': 'blues',
+};
+
+// Longest names first so "minor pentatonic" wins over "minor"
+const MODE_PATTERN = [...Object.keys(SCALES), ...Object.keys(MODE_ALIASES)]
+  .sort((a, b) => b.length - a.length)
+  .map((name) => name.replace(' ', '\\s+'))
+  .join('|');
+
+// "Switch to D major", "key of Eb minor", "change to G", "in the key of A minor",
+// "switch to Cmin", "D dorian", "A minor pentatonic"
+const KEY_PATTERNS = [
+  new RegExp(`(?:switch(?:\\s+(?:it|the\\s+key))?\\s+to|key\\s+of|in\\s+the\\s+key\\s+of|change\\s+(?:the\\s+)?(?:key\\s+)?to)\\s+([A-G][b#]?)(?:\\s*(${MODE_PATTERN})\\b|(?![a-z]))`, 'i'),
+  new RegExp(`\\b([A-G][b#]?)\\s+(${MODE_PATTERN})\\b`, 'i'),
+];
+
+// "switch to 7/8", "in 5/4", "back to 4/4", "6/8 feel", "time signature 3/4"
+const TIME_SIGNATURE_PATTERNS = [
+  /\b(?:(?:switch|change|go|move)(?:\s+it)?(?:\s+back)?\s+to|back\s+to|in(?:to)?|time\s+signature(?:\s+(?:of|to))?|meter(?:\s+(?:of|to))?)\s+(\d{1,2}\s*\/\s*\d{1,2})(?![\d/])/i,
+  /\b(\d{1,2}\s*\/\s*\d{1,2})\s+(?:time|feel|meter|groove)\b/i,
+];
+
+// Named meters: "play it as a waltz", "back to four", "common time"
+const NAMED_TIME_SIGNATURES: Array<[RegExp, string]> = [
+  [/\bwaltz\b/i, '3/4'],
+  [/\b(?:back\s+to\s+(?:four|4)(?![\d/])|common\s+time|straight\s+four)\b/i, '4/4'],
+];
+
+// "go phrygian", "switch to dorian", "lydian mode"
+const MODE_CHANGE_PATTERNS = [
+  new RegExp(`\\b(?:go|switch\\s+to|change\\s+to|move\\s+to)\\s+(${MODE_PATTERN})\\b`, 'i'),
+  new RegExp(`\\b(${MODE_PATTERN})\\s+mode\\b`, 'i'),
+];
 
 type RelativeMusicalContextCues = {
   tempo: 'increase' | 'decrease' | 'mixed' | null;
@@ -27,45 +109,108 @@ function normalizeNoteName(raw: string): string | null {
   return match[1].toUpperCase() + match[2];
 }
 
-/** Determine whether a key conventionally uses flats or sharps. */
-function shouldUseFlats(root: string, quality: 'major' | 'minor'): boolean {
-  if (root.includes('b')) return true;
-  if (root.includes('#')) return false;
-  // Natural root keys that conventionally use flats in their key signature
-  if (quality === 'major') return new Set(['F']).has(root);
-  return new Set(['D', 'G', 'C', 'F']).has(root);
+function normalizeModeName(raw: string): ScaleMode | null {
+  const name = raw.trim().toLowerCase().replace(/\s+/g, ' ');
+  if (name in SCALES) return name as ScaleMode;
+  return MODE_ALIASES[name] ?? null;
+}
+
+function pitchClass(note: string): number {
+  const accidental = note.slice(1);
+  const offset = accidental === '#' ? 1 : accidental === 'b' ? -1 : 0;
+  return (LETTER_PITCH_CLASS[note[0]] + offset + 12) % 12;
 }
 
 /**
- * Derive the scale notes for a given key string like "D major" or "Eb minor".
- * Returns null if the key string is not recognized.
- *
- * Uses flats for flat keys, sharps for sharp keys, following standard conventions.
- * Note: enharmonic simplifications (B instead of Cb) are intentional — Strudel
- * uses standard note names, not double-flats or theoretically "correct" spellings.
+ * Spell `semitones` above `root` as the given scale degree, so each degree of
+ * a heptatonic scale gets its own letter (Cb in Eb minor, E# in C# minor).
+ * Where that would need a double sharp or flat the plain enharmonic name is
+ * used instead: Strudel takes standard note names.
  */
-export function deriveScale(key: string): string[] | null {
-  const match = key.match(/^([A-G][b#]?)\s+(major|minor)$/i);
-  if (!match) return null;
+function spellNote(root: string, semitones: number, degree: number): string {
+  const target = (pitchClass(root) + semitones) % 12;
+  const letter = LETTERS[(LETTERS.indexOf(root[0]) + degree - 1) % 7];
+  const offset = ((target - LETTER_PITCH_CLASS[letter] + 18) % 12) - 6;
+  if (offset === 0) return letter;
+  if (offset === 1) return `${letter}#`;
+  if (offset === -1) return `${letter}b`;
+  return (root.includes('#') ? SHARP_CHROMATIC : FLAT_CHROMATIC)[target];
+}
 
+function parseKey(key: string): { root: string; mode: ScaleMode } | null {
+  const match = key.trim().match(/^([A-Ga-g][b#]?)\s+(.+)$/);
+  if (!match) return null;
   const root = normalizeNoteName(match[1]);
-  if (!root) return null;
-  const quality = match[2].toLowerCase() as 'major' | 'minor';
-
-  const useFlats = shouldUseFlats(root, quality);
-  const chromatic = useFlats ? FLAT_CHROMATIC : SHARP_CHROMATIC;
-  const intervals = quality === 'major' ? MAJOR_INTERVALS : MINOR_INTERVALS;
-
-  const rootIndex = chromatic.indexOf(root);
-  if (rootIndex === -1) {
-    // Root not found in preferred set — try the other (e.g. Db in SHARP_CHROMATIC)
-    const altChromatic = useFlats ? SHARP_CHROMATIC : FLAT_CHROMATIC;
-    const altIndex = altChromatic.indexOf(root);
-    if (altIndex === -1) return null;
-    return intervals.map((i) => altChromatic[(altIndex + i) % 12]);
-  }
+  const mode = normalizeModeName(match[2]);
+  return root && mode ? { root, mode } : null;
+}
+
+function spellScale(root: string, mode: ScaleMode): string[] {
+  const definition = SCALES[mode];
+  return definition.intervals.map((semitones, index) => (
+    spellNote(root, semitones, definition.degrees?.[index] ?? index + 1)
+  ));
+}
 
-  return intervals.map((i) => chromatic[(rootIndex + i) % 12]);
+/**
+ * Canonical key string ("Root mode") for a key in any accepted spelling:
+ * "eb MAJ" → "Eb major", "a minor blues" → "A blues". Null when the root or
+ * mode is not recognized.
+ */
+export function normalizeKeyName(key: string): string | null {
+  const parsed = parseKey(key.trim().replace(/^([A-Ga-g])B(?=\s)/, '$1b'));
+  return parsed ? `${parsed.root} ${parsed.mode}` : null;
+}
+
+/**
+ * Derive the scale notes for a given key string like "D major", "Eb minor",
+ * "F# dorian" or "A minor pentatonic". Returns null if the key string is not
+ * recognized.
+ */
+export function deriveScale(key: string): string[] | null {
+  const parsed = parseKey(key);
+  return parsed ? spellScale(parsed.root, parsed.mode) : null;
+}
+
+export interface StrudelNoteName {
+  letter: string;
+  // Normalized to "#"/"b" ("s" and "f" are Strudel's ASCII spellings)
+  accidentals: string;
+  // Net semitones the accidentals add
+  offset: number;
+  // Semitones above the C of the note's own octave; Cb is -1, B# is 12
+  semitonesFromC: number;
+  pitchClass: number;
+  octave: number | null;
+}
+
+/** Parse a Strudel note name ("c3", "Eb", "f#4", "cs-1"); null if it is not one. */
+export function parseStrudelNoteName(name: string): StrudelNoteName | null {
+  const match = name.trim().match(/^([a-g])([#sbf]*)(-?\d+)?$/i);
+  if (!match) return null;
+  const letter = match[1].toUpperCase();
+  const accidentals = match[2].toLowerCase().replace(/s/g, '#').replace(/f/g, 'b');
+  const offset = accidentals.split('').reduce((sum, ch) => sum + (ch === '#' ? 1 : -1), 0);
+  const semitonesFromC = LETTER_PITCH_CLASS[letter] + offset;
+  return {
+    letter,
+    accidentals,
+    offset,
+    semitonesFromC,
+    pitchClass: ((semitonesFromC % 12) + 12) % 12,
+    octave: match[3] !== undefined ? parseInt(match[3], 10) : null,
+  };
+}
+
+/**
+ * Read a Strudel `.scale()` name ("C:minor", "c4:minor:pentatonic", "D dorian"):
+ * its root as written and the scale notes. Null when the key is not recognized.
+ */
+export function parseStrudelScale(name: string): { root: string; notes: string[] } | null {
+  const [root, ...modeParts] = name.trim().split(/[:\s]+/);
+  const key = normalizeKeyName(`${root.replace(/-?\d+$/, '')} ${modeParts.join(' ') || 'major'}`);
+  const notes = key ? deriveScale(key) : null;
+  return notes ? { root, notes } : null;
 }
 
 /**
@@ -86,31 +231,42 @@ export function parseDeterministicMusicalContextChanges(
   let hasChanges = false;
 
   // ─── Key ──────────────────────────────────────────────────────
-  // "Switch to D major", "key of Eb minor", "change to G", "in the key of A minor"
-  const keyPatterns = [
-    /(?:switch(?:\s+(?:it|the\s+key))?\s+to|key\s+of|in\s+the\s+key\s+of|change\s+(?:the\s+)?(?:key\s+)?to)\s+([A-G][b#]?)\s*(major|minor|maj|min)?/i,
-    /\b([A-G][b#]?)\s+(major|minor)\b/i,
-  ];
-
-  for (const pattern of keyPatterns) {
+  for (const pattern of KEY_PATTERNS) {
     const match = text.match(pattern);
     if (match) {
       const root = normalizeNoteName(match[1]);
-      if (root) {
-        let quality = 'major'; // default when quality omitted
-        if (match[2]) {
-          quality = match[2].toLowerCase().startsWith('min') ? 'minor' : 'major';
-        }
-        const keyStr = `${root} ${quality}`;
-        changes.key = keyStr;
-        const scale = deriveScale(keyStr);
-        if (scale) changes.scale = scale;
+      // Major when the mode is omitted
+      const mode = (match[2] && normalizeModeName(match[2])) || 'major';
+      // "play a blues shuffle": a lowercase "a" before a scale name is the article
+      const isArticle = match[1] === 'a' && mode !== 'major' && mode !== 'minor';
+      if (root && !isArticle) {
+        changes.key = `${root} ${mode}`;
+        changes.scale = spellScale(root, mode);
         hasChanges = true;
         break;
       }
     }
   }
 
+  // A mode on its own keeps the current root
+  const currentKey = parseKey(current.key);
+  const modeOnly = !changes.key && currentKey
+    ? MODE_CHANGE_PATTERNS.map((pattern) => text.match(pattern)).find(Boolean)
+    : null;
+  const mode = modeOnly && normalizeModeName(modeOnly[1]);
+  if (currentKey && mode) {
+    changes.key = `${currentKey.root} ${mode}`;
+    changes.scale = spellScale(currentKey.root, mode);
+    hasChanges = true;
+  }
+
+  // ─── Time signature ───────────────────────────────────────────
+  const timeSignature = parseTimeSignatureChange(text);
+  if (timeSignature && timeSignature !== current.timeSignature) {
+    changes.timeSignature = timeSignature;
+    hasChanges = true;
+  }
+
   // ─── BPM (deterministic anchors only) ─────────────────────────
   // Explicit: "BPM 140", "tempo 90", "140 BPM", "140bpm"
   const bpmExplicit =
@@ -146,6 +302,22 @@ export function parseDeterministicMusicalContextChanges(
   return hasChanges ? changes : null;
 }
 
+/** Meter named by a directive, canonicalized as "7/8"; null when none or unusable. */
+function parseTimeSignatureChange(text: string): string | null {
+  for (const pattern of TIME_SIGNATURE_PATTERNS) {
+    const match = text.match(pattern);
+    const parsed = match ? parseTimeSignature(match[1]) : null;
+    // One-beat bars are note values ("hats in 1/16"), not meters
+    if (parsed && parsed.beatsPerBar >= 2 && parsed.beatsPerBar <= JAM_GOVERNANCE.METER_BEATS_MAX) {
+      return `${parsed.beatsPerBar}/${parsed.beatUnit}`;
+    }
+  }
+  for (const [pattern, timeSignature] of NAMED_TIME_SIGNATURES) {
+    if (pattern.test(text)) return timeSignature;
+  }
+  return null;
+}
+
 export function detectRelativeMusicalContextCues(text: string): RelativeMusicalContextCues {
   const tempoIncrease = hasRelativeTempoIncreaseCue(text);
   const tempoDecrease = hasRelativeTempoDecreaseCue(text);
@@ -186,59 +358,42 @@ function hasRelativeEnergyDecreaseCue(text: string): boolean {
   );
 }
 
+/** Chord symbol suffix for the triad stacked in thirds on `index` of a heptatonic scale. */
+function triadSuffix(scale: string[], index: number): string {
+  const root = pitchClass(scale[index]);
+  const third = (pitchClass(scale[(index + 2) % 7]) - root + 12) % 12;
+  const fifth = (pitchClass(scale[(index + 4) % 7]) - root + 12) % 12;
+  if (third === 4) return fifth === 8 ? 'aug' : '';
+  return fifth === 6 ? 'dim' : 'm';
+}
+
 /**
  * Derive a basic diatonic chord progression for a given key string.
  *
  * Classification: C (hybrid) — MCP-04 / bsj-7k4.15
  * The deterministic shell (deriving chords from a key) is code-owned.
- * The template choices (I-vi-IV-V major, i-VI-III-VII minor) are minimal
- * diatonic fallbacks — not a musical policy assertion.
+ * The template choices (I-vi-IV-V major, i-VI-III-VII minor, and one
+ * progression per mode in SCALES) are minimal diatonic fallbacks — not a
+ * musical policy assertion. Pentatonic keys borrow the triads of their
+ * parent major/minor scale; blues keys get I7-IV7-I7-V7.
  *
- * This function is called from `applyContextSuggestions()` when 2+ agents
- * achieve key consensus, providing immediate harmonic continuity after a
- * key change. Agents may override these defaults on subsequent turns via
- * `suggested_chords` in their decision blocks.
+ * This function is called when a key proposal is applied, providing
+ * immediate harmonic continuity after a key change. Agents may override
+ * these defaults on subsequent turns via `suggested_chords` in their
+ * decision blocks.
  *
- * Returns 4 triads using conventional chord naming (e.g. "Cm", "Ab", "Eb", "Bb").
+ * Returns 4 chords using conventional chord naming (e.g. "Cm", "Ab", "Eb", "Bb").
  * Returns null if the key string is not recognized.
  */
 export function deriveChordProgression(key: string): string[] | null {
-  const match = key.match(/^([A-G][b#]?)\s+(major|minor)$/i);
-  if (!match) return null;
+  const parsed = parseKey(key);
+  if (!parsed) return null;
 
-  const root = normalizeNoteName(match[1]);
-  if (!root) return null;
-  const quality = match[2].toLowerCase() as 'major' | 'minor';
-
-  const useFlats = shouldUseFlats(root, quality);
-  let chromatic = useFlats ? FLAT_CHROMATIC : SHARP_CHROMATIC;
-  let rootIndex = chromatic.indexOf(root);
-  if (rootIndex === -1) {
-    // Fallback: try alternative chromatic set (mirrors deriveScale)
-    chromatic = useFlats ? SHARP_CHROMATIC : FLAT_CHROMATIC;
-    rootIndex = chromatic.indexOf(root);
-    if (rootIndex === -1) return null;
-  }
-
-  const noteAt = (semitones: number) => chromatic[(rootIndex + semitones) % 12];
-
-  if (quality === 'major') {
-    // I  vi  IV  V
-    return [
-      root,                        // I  (major)
-      noteAt(9) + 'm',             // vi (minor)
-      noteAt(5),                   // IV (major)
-      noteAt(7),                   // V  (major)
-    ];
-  } else {
-    // i  VI  III  VII
-    return [
-      root + 'm',                  // i   (minor)
-      noteAt(8),                   // VI  (major)
-      noteAt(3),                   // III (major)
-      noteAt(10),                  // VII (major)
-    ];
-  }
+  const definition = SCALES[parsed.mode];
+  const scale = spellScale(parsed.root, definition.chordsFrom ?? parsed.mode);
+  return definition.progression.map((index) => (
+    scale[index] + (definition.sevenths ? '7' : triadSuffix(scale, index))
+  ));
 }
 
 function clamp(value: number, min: number, max: number): number {
@@ -10,7 +10,7 @@ export interface JamPreset {
   id: string;
   genre: string;
   key: string;
-  scale?: string[]; // explicit scale for modal keys; derived for major/minor
+  scale?: string[]; // explicit scale; derived from the key when omitted
   chordProgression: string[];
   bpm: number;
   timeSignature: string;
@@ -167,7 +167,7 @@ export const PRESETS: JamPreset[] = RAW_PRESETS.map((preset) => ({
 
 const PRESETS_BY_ID = new Map(PRESETS.map((preset) => [preset.id, preset]));
 
-// Fallback scale if deriveScale fails for a non-modal key
+// Fallback scale if deriveScale does not recognize the key
 const C_MAJOR_FALLBACK = ['C', 'D', 'E', 'F', 'G', 'A', 'B'];
 
 export const UNCONFIGURED_MUSICAL_CONTEXT: MusicalContext = {
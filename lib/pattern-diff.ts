@@ -0,0 +1,229 @@
+/**
+ * Semantic pattern diffs. Compares two agent patterns layer by layer through
+ * `parsePattern` and reports what a musician would call the change: a layer
+ * added or dropped, sounds or notes swapped, an effect turned (`lpf 800→1200`),
+ * a modifier added. The manager attaches the list to each `agent_thought`,
+ * the UI shows it next to the agent's pattern, and bandmates read it in their
+ * next prompt.
+ *
+ * Layers are paired by identical mini notation first, then by shared
+ * sounds/notes, then in order among layers of the same source; whatever is
+ * left over was added or removed. Code that does not parse on either side is
+ * reported as a rewrite.
+ */
+
+import type { LayerSummary, PatternChange } from './types';
+import { AGENT_META } from './types';
+import { parsePattern } from './pattern-parser';
+
+// Changes shown per agent before the rest are folded into "+N more"
+const MAX_LISTED_CHANGES = 6;
+const MAX_LABEL_VALUES = 3;
+
+function isSilent(pattern: string | undefined): boolean {
+  return !pattern || pattern === 'silence';
+}
+
+function uniqueValues(values: string[]): string[] {
+  return values.filter((value, index) => values.indexOf(value) === index);
+}
+
+function layerLabel(layer: LayerSummary): string {
+  const values = uniqueValues(layer.content);
+  if (values.length === 0) return layer.source === 'note' ? 'note' : 's';
+  const shown = values.slice(0, MAX_LABEL_VALUES).join(' ');
+  return values.length > MAX_LABEL_VALUES ? `${shown} …` : shown;
+}
+
+function contentOverlap(a: LayerSummary, b: LayerSummary): number {
+  const left = uniqueValues(a.content);
+  const right = uniqueValues(b.content);
+  if (left.length === 0 || right.length === 0) return 0;
+  const shared = left.filter((value) => right.indexOf(value) !== -1).length;
+  return shared / (left.length + right.length - shared);
+}
+
+// Index pairs [before, after] of layers that are the same layer across both patterns
+function pairLayers(before: LayerSummary[], after: LayerSummary[]): Array<[number, number]> {
+  const pairs: Array<[number, number]> = [];
+  const usedBefore: boolean[] = before.map(() => false);
+  const usedAfter: boolean[] = after.map(() => false);
+  const pair = (i: number, j: number) => {
+    pairs.push([i, j]);
+    usedBefore[i] = true;
+    usedAfter[j] = true;
+  };
+
+  after.forEach((layer, j) => {
+    const i = before.findIndex((candidate, index) => (
+      !usedBefore[index] && candidate.source === layer.source && candidate.mini === layer.mini
+    ));
+    if (i !== -1) pair(i, j);
+  });
+
+  after.forEach((layer, j) => {
+    if (usedAfter[j]) return;
+    let best = -1;
+    let bestScore = 0;
+    before.forEach((candidate, i) => {
+      if (usedBefore[i] || candidate.source !== layer.source) return;
+      const score = contentOverlap(candidate, layer);
+      if (score > bestScore) {
+        best = i;
+        bestScore = score;
+      }
+    });
+    if (best !== -1) pair(best, j);
+  });
+
+  after.forEach((layer, j) => {
+    if (usedAfter[j]) return;
+    const i = before.findIndex((candidate, index) => !usedBefore[index] && candidate.source === layer.source);
+    if (i !== -1) pair(i, j);
+  });
+
+  return pairs.sort((a, b) => a[1] - b[1]);
+}
+
+function diffLayer(before: LayerSummary, after: LayerSummary): PatternChange[] {
+  const layer = layerLabel(before);
+  const changes: PatternChange[] = [];
+
+  const beforeValues = uniqueValues(before.content);
+  const afterValues = uniqueValues(after.content);
+  const added = afterValues.filter((value) => beforeValues.indexOf(value) === -1);
+  const removed = beforeValues.filter((value) => afterValues.indexOf(value) === -1);
+  if (added.length > 0 || removed.length > 0) {
+    changes.push({ kind: 'content', layer, added, removed });
+  } else if (before.mini !== after.mini) {
+    changes.push({
+      kind: 'rhythm',
+      layer,
+      ...(before.rhythm ? { from: before.rhythm.eventsPerCycle } : {}),
+      ...(after.rhythm ? { to: after.rhythm.eventsPerCycle } : {}),
+    });
+  }
+
+  const effectNames = uniqueValues(Object.keys(before.effects).concat(Object.keys(after.effects)));
+  for (const effect of effectNames) {
+    const from = before.effects[effect];
+    const to = after.effects[effect];
+    if (from === to) continue;
+    changes.push({
+      kind: 'effect',
+      layer,
+      effect,
+      ...(from !== undefined ? { from } : {}),
+      ...(to !== undefined ? { to } : {}),
+    });
+  }
+
+  for (const modifier of after.modifiers) {
+    if (before.modifiers.indexOf(modifier) === -1) changes.push({ kind: 'modifier_added', layer, modifier });
+  }
+  for (const modifier of before.modifiers) {
+    if (after.modifiers.indexOf(modifier) === -1) changes.push({ kind: 'modifier_removed', layer, modifier });
+  }
+
+  return changes;
+}
+
+/**
+ * What changed between two patterns, in the order the new pattern lists its
+ * layers (removed layers last). Empty when nothing audible changed: equal
+ * code, `no_change`, or silence on both sides.
+ */
+export function diffPatterns(before: string | undefined, after: string | undefined, timeSignature = '4/4'): PatternChange[] {
+  if (after === 'no_change') return [];
+  const previous = isSilent(before) ? 'silence' : before!;
+  const next = isSilent(after) ? 'silence' : after!;
+  if (previous === next) return [];
+  if (next === 'silence') return [{ kind: 'stopped' }];
+
+  const afterSummary = parsePattern(next, timeSignature);
+  if (previous === 'silence') {
+    return [{ kind: 'started', layers: afterSummary ? afterSummary.layers.map(layerLabel) : [] }];
+  }
+
+  const beforeSummary = parsePattern(previous, timeSignature);
+  if (!beforeSummary || !afterSummary) return [{ kind: 'rewritten' }];
+
+  const beforeLayers = beforeSummary.layers;
+  const afterLayers = afterSummary.layers;
+  const pairs = pairLayers(beforeLayers, afterLayers);
+  const changes: PatternChange[] = [];
+
+  afterLayers.forEach((layer, j) => {
+    const match = pairs.find((entry) => entry[1] === j);
+    if (match) {
+      changes.push(...diffLayer(beforeLayers[match[0]], layer));
+    } else {
+      changes.push({ kind: 'layer_added', layer: layerLabel(layer) });
+    }
+  });
+  beforeLayers.forEach((layer, i) => {
+    if (!pairs.some((entry) => entry[0] === i)) {
+      changes.push({ kind: 'layer_removed', layer: layerLabel(layer) });
+    }
+  });
+
+  // Same layers, same figures: only formatting or an unsummarized method moved
+  return changes.length > 0 ? changes : [{ kind: 'rewritten' }];
+}
+
+/** One change as a short phrase, e.g. "hh: lpf 800→1200" or "bd sd: +cp −sd". */
+export function formatPatternChange(change: PatternChange): string {
+  switch (change.kind) {
+    case 'started':
+      return change.layers.length > 0 ? `came in with ${change.layers.join(' | ')}` : 'came in';
+    case 'stopped':
+      return 'went silent';
+    case 'rewritten':
+      return 'rewrote the pattern';
+    case 'layer_added':
+      return `added layer ${change.layer}`;
+    case 'layer_removed':
+      return `dropped layer ${change.layer}`;
+    case 'content':
+      return `${change.layer}: ${[
+        ...change.added.map((value) => `+${value}`),
+        ...change.removed.map((value) => `−${value}`),
+      ].join(' ')}`;
+    case 'rhythm':
+      return change.from !== undefined && change.to !== undefined && change.from !== change.to
+        ? `${change.layer}: rhythm ${change.from}→${change.to} ev/cycle`
+        : `${change.layer}: new rhythm`;
+    case 'effect':
+      if (change.from === undefined) return `${change.layer}: +${change.effect} ${change.to}`;
+      if (change.to === undefined) return `${change.layer}: −${change.effect}`;
+      return `${change.layer}: ${change.effect} ${change.from}→${change.to}`;
+    case 'modifier_added':
+      return `${change.layer}: +${change.modifier}`;
+    case 'modifier_removed':
+      return `${change.layer}: −${change.modifier}`;
+  }
+}
+
+/** The change list as phrases, the overflow folded into a final "+N more". */
+export function formatPatternChanges(changes: PatternChange[]): string[] {
+  const phrases = changes.slice(0, MAX_LISTED_CHANGES).map(formatPatternChange);
+  const hidden = changes.length - MAX_LISTED_CHANGES;
+  return hidden > 0 ? [...phrases, `+${hidden} more`] : phrases;
+}
+
+/**
+ * "BANDMATE CHANGES" prompt section: one line per bandmate that changed its
+ * pattern in the current or previous round. Empty when nobody did.
+ */
+export function formatBandmateChangesForPrompt(
+  entries: Array<{ agentKey: string; changes: PatternChange[] }>
+): string[] {
+  const lines = entries
+    .filter((entry) => entry.changes.length > 0)
+    .map((entry) => {
+      const meta = AGENT_META[entry.agentKey];
+      const label = meta ? `${meta.emoji} ${meta.name} (${entry.agentKey})` : entry.agentKey;
+      return `- ${label}: ${formatPatternChanges(entry.changes).join('; ')}`;
+    });
+  return lines.length > 0 ? ['BANDMATE CHANGES (last round):', ...lines] : [];
+}
@@ -3,15 +3,18 @@
  *
  * Two-layer parsing:
  *   Outer: acorn AST for JS method chains (s("...").gain(0.5).bank("X"))
- *   Inner: regex-based extraction of mini notation tokens ("bd [~ bd] sd ~")
+ *   Inner: mini-notation AST and event expansion ("bd [~ bd] sd ~"), see mini-notation.ts
  *
  * Zero new dependencies — acorn is already used by Strudel's transpiler.
  * We intentionally avoid importing @strudel/mini because it transitively
  * pulls in @strudel/core (browser-only), which breaks in Node.js test/server contexts.
  */
 import { parse } from 'acorn';
-import type { PatternSummary, LayerSummary } from './types';
+import type { PatternSummary, LayerSummary, LayerTiming, PatternValidationIssue } from './types';
 import { AGENT_META } from './types';
+import { doesStepCountFitMeter } from './jam-meter';
+import { analyzeMiniRhythm } from './pattern-rhythm';
+import { collectMiniValues, parseMiniNotation, type MiniNode } from './mini-notation';
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 type ASTNode = any;
@@ -20,8 +23,13 @@ type MiniDelimiter = '<' | '>' | '[' | ']' | '{' | '}' | '(' | ')';
 export interface PatternValidationResult {
   valid: boolean;
   reason?: string;
+  // Set when invalid: the checked code and every issue, with spans into it
+  code?: string;
+  issues?: PatternValidationIssue[];
 }
 
+const EXPRESSION_PREFIX = 'const __expr = ';
+
 const VALID_ROOT_CALLS = new Set([
   'note',
   'sound',
@@ -100,16 +108,21 @@ const FORBIDDEN_GLOBALS = new Set([
 // Includes .s() which sets the sound source on note() patterns
 const EFFECT_METHODS = new Set([
   'gain', 'lpf', 'hpf', 'room', 'delay', 'bank', 's',
-  'distort', 'crush', 'coarse', 'speed', 'pan', 'vowel',
+  'distort', 'crush', 'coarse', 'speed', 'pan', 'vowel', 'scale',
 ]);
 
 // Known modifier methods (behavior-changing — we record the name + optional arg)
 const MODIFIER_METHODS = new Set([
   'sometimes', 'rarely', 'every', 'fast', 'slow',
   'degradeBy', 'palindrome', 'euclid',
+  'add', 'sub', 'transpose', 'scaleTranspose',
 ]);
 
 const MINI_SOURCE_METHODS = new Set(['s', 'sound', 'note']);
+
+// Methods that stretch, squeeze or re-grid a layer, so its mini step count
+// no longer says how many steps land in one cycle
+const CYCLE_RESHAPING_METHODS = new Set(['fast', 'slow', 'euclid', 'palindrome', 'shuffle']);
 const MINI_OPEN_TO_CLOSE: Record<string, string> = {
   '[': ']',
   '<': '>',
@@ -218,7 +231,71 @@ function isPanSinCall(node: ASTNode): boolean {
   return true;
 }
 
-function findInvalidPatternConstructs(node: ASTNode): string | null {
+// Likely intended names for methods the safety gate does not allow
+const METHOD_ALIASES: Record<string, string> = {
+  wave: 's',
+  band: 'bpf',
+  sound: 's',
+  lowpass: 'lpf',
+  cutoff: 'lpf',
+  highpass: 'hpf',
+  hcutoff: 'hpf',
+  bandpass: 'bpf',
+  resonance: 'lpq',
+  reverb: 'room',
+  degrade: 'degradeBy',
+  velocity: 'gain',
+};
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// Closest allowed name within a third of the name's length (at least one edit)
+function findNearestName(name: string, allowed: Set<string>): string | null {
+  const lower = name.toLowerCase();
+  let best: string | null = null;
+  let bestDistance = Math.max(1, Math.floor(name.length / 3)) + 1;
+  allowed.forEach((candidate) => {
+    const distance = editDistance(lower, candidate.toLowerCase());
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  });
+  return best;
+}
+
+function suggestMethod(name: string): string | undefined {
+  const target = METHOD_ALIASES[name] ?? findNearestName(name, VALID_METHOD_CALLS);
+  return target ? `use ".${target}()"` : undefined;
+}
+
+function suggestRootCall(name: string): string | undefined {
+  const target = findNearestName(name, VALID_ROOT_CALLS);
+  return target
+    ? `use "${target}()"`
+    : `start from ${Array.from(VALID_ROOT_CALLS).map((root) => `${root}()`).join(', ')}`;
+}
+
+function isForbiddenGlobalObject(node: ASTNode): boolean {
+  return node?.type === 'Identifier' && FORBIDDEN_GLOBALS.has(node.name);
+}
+
+function findInvalidPatternConstructs(node: ASTNode): PatternValidationIssue[] {
+  const issues: PatternValidationIssue[] = [];
   const stack: Array<{ node: ASTNode; parent: ASTNode | null }> = [
     { node, parent: null },
   ];
@@ -236,25 +313,57 @@ function findInvalidPatternConstructs(node: ASTNode): string | null {
       astNode.type === 'Identifier'
       && isForbiddenGlobalReference(astNode, parent)
     ) {
-      return `disallowed runtime global "${astNode.name}"`;
+      // Report "Math.random" as one construct rather than the global plus an unknown method
+      const member = parent?.type === 'MemberExpression' && parent.object === astNode && !parent.computed
+        ? parent
+        : null;
+      const name = member?.property?.type === 'Identifier' ? `${astNode.name}.${member.property.name}` : astNode.name;
+      issues.push({
+        code: 'disallowed_construct',
+        message: `disallowed runtime global "${name}"`,
+        start: (member ?? astNode).start,
+        end: (member ?? astNode).end,
+        suggestion: astNode.name === 'Math'
+          ? 'use a Strudel signal such as rand or sine'
+          : 'remove it; patterns cannot reach the page or the clock',
+      });
     }
 
     if (astNode.type === 'CallExpression') {
       const callee = astNode.callee;
       if (callee.type === 'Identifier' && !isValidRootFunction(callee.name)) {
-        return `unsupported root "${callee.name}"`;
+        issues.push({
+          code: 'invalid_root_call',
+          message: `unsupported root "${callee.name}"`,
+          start: callee.start,
+          end: callee.end,
+          suggestion: suggestRootCall(callee.name),
+        });
       }
-      if (callee.type === 'MemberExpression' && callee.property?.type === 'Identifier') {
+      if (
+        callee.type === 'MemberExpression'
+        && callee.property?.type === 'Identifier'
+        && !isForbiddenGlobalObject(callee.object)
+      ) {
         const methodName = callee.property.name;
-        if (methodName === 'wave') return 'unsupported method ".wave()"';
-        if (methodName === 'band') return 'unsupported method ".band()"';
         if (!isValidMethod(methodName)) {
-          return `unsupported method ".${methodName}()"`;
-        }
-        if (methodName === 'pan') {
+          issues.push({
+            code: 'unknown_method',
+            message: `unsupported method ".${methodName}()"`,
+            start: callee.property.start,
+            end: callee.property.end,
+            suggestion: suggestMethod(methodName),
+          });
+        } else if (methodName === 'pan') {
           const arg = astNode.arguments?.[0] as ASTNode | undefined;
           if (isSineArgument(arg) || isPanSinCall(arg)) {
-            return 'use sine for pan modulation (for example .pan(sine.range(0,1))';
+            issues.push({
+              code: 'disallowed_construct',
+              message: 'use sine for pan modulation (for example .pan(sine.range(0,1))',
+              start: arg.start,
+              end: arg.end,
+              suggestion: 'use "sine.range(0,1)"',
+            });
           }
         }
       }
@@ -275,11 +384,11 @@ function findInvalidPatternConstructs(node: ASTNode): string | null {
     }
   }
 
-  return null;
+  return issues;
 }
 
 function parsePatternExpression(code: string): ASTNode | null {
-  const wrapped = `const __expr = ${code}`;
+  const wrapped = `${EXPRESSION_PREFIX}${code}`;
   const ast = parse(wrapped, {
     ecmaVersion: 2022,
     sourceType: 'module',
@@ -305,37 +414,55 @@ function getCallName(node: ASTNode): string | null {
   return null;
 }
 
-function validateMiniDelimiterBalance(miniStr: string): string | null {
-  const expectedClosers: string[] = [];
+interface MiniDelimiterIssue {
+  index: number;
+  message: string;
+  suggestion: string;
+}
+
+// Every delimiter problem in one mini string; a mismatched closer still closes its opener
+function findMiniDelimiterIssues(miniStr: string): MiniDelimiterIssue[] {
+  const issues: MiniDelimiterIssue[] = [];
+  const openers: Array<{ char: string; index: number }> = [];
 
   for (let i = 0; i < miniStr.length; i++) {
     const ch = miniStr[i] as MiniDelimiter;
     if (ch in MINI_OPEN_TO_CLOSE) {
-      expectedClosers.push(MINI_OPEN_TO_CLOSE[ch]);
+      openers.push({ char: ch, index: i });
       continue;
     }
     if (!(ch in MINI_CLOSE_TO_OPEN)) continue;
 
-    const expected = expectedClosers.pop();
-    if (!expected) {
-      return `unmatched "${ch}" in mini string`;
+    const opener = openers.pop();
+    if (!opener) {
+      issues.push({ index: i, message: `unmatched "${ch}" in mini string`, suggestion: `remove "${ch}"` });
+      continue;
     }
+    const expected = MINI_OPEN_TO_CLOSE[opener.char];
     if (ch !== expected) {
-      return `mismatched mini delimiter: expected "${expected}" but found "${ch}"`;
+      issues.push({
+        index: i,
+        message: `mismatched mini delimiter: expected "${expected}" but found "${ch}"`,
+        suggestion: `replace "${ch}" with "${expected}"`,
+      });
     }
   }
 
-  if (expectedClosers.length > 0) {
-    const lastUnclosed = MINI_CLOSE_TO_OPEN[
-      expectedClosers[expectedClosers.length - 1] as MiniDelimiter
-    ];
-    return `unclosed "${lastUnclosed}" in mini string`;
+  for (const opener of openers) {
+    const closer = MINI_OPEN_TO_CLOSE[opener.char];
+    issues.push({
+      index: opener.index,
+      message: `unclosed "${opener.char}" in mini string`,
+      suggestion: `close it with "${closer}"`,
+    });
   }
 
-  return null;
+  return issues;
 }
 
-function findMiniDelimiterIssue(node: ASTNode): string | null {
+// Issues per mini string in scan order, strings in source order
+function findMiniDelimiterIssuesInPattern(node: ASTNode): PatternValidationIssue[] {
+  const groups: Array<{ start: number; issues: PatternValidationIssue[] }> = [];
   const stack: ASTNode[] = [node];
 
   while (stack.length > 0) {
@@ -347,10 +474,16 @@ function findMiniDelimiterIssue(node: ASTNode): string | null {
       if (callName && MINI_SOURCE_METHODS.has(callName)) {
         const arg = current.arguments?.[0];
         if (arg?.type === 'Literal' && typeof arg.value === 'string') {
-          const delimiterIssue = validateMiniDelimiterBalance(arg.value);
-          if (delimiterIssue) {
-            return `${callName}(): ${delimiterIssue}`;
-          }
+          // Point at the character when the literal has no escapes, else at the whole string
+          const isVerbatim = typeof arg.raw === 'string' && arg.raw.slice(1, -1) === arg.value;
+          const issues = findMiniDelimiterIssues(arg.value).map((issue): PatternValidationIssue => ({
+            code: 'unbalanced_delimiter',
+            message: `${callName}(): ${issue.message}`,
+            start: isVerbatim ? arg.start + 1 + issue.index : arg.start,
+            end: isVerbatim ? arg.start + 2 + issue.index : arg.end,
+            suggestion: issue.suggestion,
+          }));
+          if (issues.length > 0) groups.push({ start: arg.start, issues });
         }
       }
     }
@@ -368,12 +501,32 @@ function findMiniDelimiterIssue(node: ASTNode): string | null {
     }
   }
 
-  return null;
+  return groups
+    .sort((a, b) => a.start - b.start)
+    .reduce<PatternValidationIssue[]>((all, group) => all.concat(group.issues), []);
+}
+
+// Acorn offsets count the "const __expr = " wrapper; shift them back onto the pattern
+function toPatternSpan(issue: PatternValidationIssue, codeLength: number): PatternValidationIssue {
+  const clamp = (offset: number) => Math.max(0, Math.min(codeLength, offset - EXPRESSION_PREFIX.length));
+  return { ...issue, start: clamp(issue.start), end: clamp(issue.end) };
+}
+
+function invalidResult(code: string, issues: PatternValidationIssue[]): PatternValidationResult {
+  return { valid: false, reason: issues[0].message, code, issues };
 }
 
 /**
  * Lightweight server-safe validator for jam pattern outputs.
  * This intentionally avoids browser-only Strudel parser dependencies.
+ *
+ * An invalid result lists every issue found with spans into `code` (the input
+ * after normalizeStrudelPatternForJam): construct issues in source order, then
+ * mini delimiter issues in the order a left-to-right scan meets them. `reason`
+ * repeats the first issue's message.
+ *
+ * The MCP server bundles this module; its execute_pattern reports these issues
+ * as advice (see packages/mcp-server/src/pattern-check.ts).
  */
 export function validatePatternForJam(code: string): PatternValidationResult {
   if (!code || code === 'silence' || code === 'no_change') {
@@ -384,29 +537,141 @@ export function validatePatternForJam(code: string): PatternValidationResult {
   let expr: ASTNode | null;
   try {
     expr = parsePatternExpression(normalizedCode);
-  } catch {
-    return { valid: false, reason: 'not a valid expression' };
+  } catch (error) {
+    // Acorn reports the failing position as `pos` on its SyntaxError
+    const pos = (error as { pos?: number }).pos;
+    const detail = error instanceof Error ? error.message.replace(/\s*\(\d+:\d+\)$/, '') : '';
+    const start = typeof pos === 'number' ? pos : EXPRESSION_PREFIX.length;
+    return invalidResult(normalizedCode, [toPatternSpan({
+      code: 'syntax_error',
+      message: detail ? `not a valid expression (${detail})` : 'not a valid expression',
+      start,
+      end: start + 1,
+      suggestion: 'close every string, bracket and method call',
+    }, normalizedCode.length)]);
   }
   if (!expr) {
-    return { valid: false, reason: 'missing expression' };
+    return invalidResult(normalizedCode, [{
+      code: 'syntax_error',
+      message: 'missing expression',
+      start: 0,
+      end: normalizedCode.length,
+    }]);
   }
 
-  const invalidConstruct = findInvalidPatternConstructs(expr);
-  if (invalidConstruct) {
-    return { valid: false, reason: invalidConstruct };
+  const issues = findInvalidPatternConstructs(expr)
+    .sort((a, b) => a.start - b.start || a.end - b.end)
+    .concat(findMiniDelimiterIssuesInPattern(expr))
+    .map((issue) => toPatternSpan(issue, normalizedCode.length));
+  if (issues.length > 0) {
+    return invalidResult(normalizedCode, issues);
   }
 
-  const delimiterIssue = findMiniDelimiterIssue(expr);
-  if (delimiterIssue) {
-    return { valid: false, reason: delimiterIssue };
+  return { valid: true };
+}
+
+function describeIssueLocation(code: string, offset: number): string {
+  const before = code.slice(0, offset).split('\n');
+  const column = before[before.length - 1].length + 1;
+  return code.includes('\n') ? `line ${before.length} col ${column}` : `col ${column}`;
+}
+
+/** One issue as a located phrase: `unsupported method ".lpff()" at col 19 — use ".lpf()"`. */
+export function describePatternValidationIssue(code: string, issue: PatternValidationIssue): string {
+  const location = `${issue.message} at ${describeIssueLocation(code, issue.start)}`;
+  return issue.suggestion ? `${location} — ${issue.suggestion}` : location;
+}
+
+/** "PATTERN PROBLEMS" section for a repair prompt; empty when there are no issues. */
+export function formatPatternValidationIssuesForPrompt(code: string, issues: PatternValidationIssue[]): string[] {
+  if (issues.length === 0) return [];
+  return [
+    'PATTERN PROBLEMS:',
+    ...issues.map((issue) => {
+      const excerpt = code.slice(issue.start, issue.end).replace(/\s+/g, ' ');
+      const shown = excerpt.length > 40 ? `${excerpt.slice(0, 40)}…` : excerpt;
+      return `- ${describePatternValidationIssue(code, issue)}${shown ? ` (at \`${shown}\`)` : ''}`;
+    }),
+  ];
+}
+
+/**
+ * Count the top-level steps of a mini string: "bd [~ bd] sd ~" → 4,
+ * "bd!3 sd" → 4, "c2@3 eb2" → 4, "bd sd . hh hh hh" → 2. Null when the top
+ * level is not a plain sequence (stacked with ",", random "|", polymeter
+ * "{}") or the string does not parse.
+ */
+function countMiniSteps(miniStr: string): number | null {
+  let root: MiniNode;
+  try {
+    root = parseMiniNotation(miniStr);
+  } catch {
+    return null;
   }
+  if (root.kind !== 'sequence') return null;
 
-  return { valid: true };
+  const steps = root.steps.reduce((sum, step) => sum + step.weight, 0);
+  return steps > 0 && Number.isInteger(steps) ? steps : null;
+}
+
+function collectMeterLayers(expr: ASTNode): ASTNode[] {
+  const isStack = expr.type === 'CallExpression'
+    && expr.callee?.type === 'Identifier'
+    && expr.callee.name === 'stack';
+  return isStack ? expr.arguments : [expr];
 }
 
 /**
- * Extract leaf values from a mini notation string using regex.
- * Strips brackets, operators, and rest symbols to find sound/note names.
+ * First layer of a pattern whose step count obviously does not fit the
+ * meter, described for the agent ("s(\"bd sd bd sd\") has 4 steps per
+ * cycle"); null when every countable layer fits or nothing can be counted.
+ * Layers reshaped by fast/slow/euclid and non-sequence mini strings are
+ * skipped rather than guessed at.
+ */
+export function findMeterMismatch(code: string, timeSignature: string): string | null {
+  if (!code || code === 'silence' || code === 'no_change') return null;
+
+  let expr: ASTNode | null;
+  try {
+    expr = parsePatternExpression(normalizeStrudelPatternForJam(code));
+  } catch {
+    return null;
+  }
+  if (!expr) return null;
+
+  for (const layer of collectMeterLayers(expr)) {
+    let current = layer;
+    let reshaped = false;
+    let mini: { call: string; value: string } | null = null;
+
+    // Walk the chain down to its root s()/note() call
+    while (current?.type === 'CallExpression') {
+      const callName = getCallName(current);
+      if (callName && CYCLE_RESHAPING_METHODS.has(callName)) reshaped = true;
+      if (current.callee?.type === 'Identifier') {
+        const arg = current.arguments?.[0];
+        if (callName && MINI_SOURCE_METHODS.has(callName) && arg?.type === 'Literal' && typeof arg.value === 'string') {
+          mini = { call: callName, value: arg.value };
+        }
+        break;
+      }
+      current = current.callee?.object;
+    }
+
+    if (reshaped || !mini) continue;
+    const steps = countMiniSteps(mini.value);
+    if (steps !== null && !doesStepCountFitMeter(steps, timeSignature)) {
+      return `${mini.call}("${mini.value}") has ${steps} steps per cycle`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Extract the distinct leaf values of a mini notation string from its AST,
+ * in source order. Falls back to stripping brackets, operators, and rest
+ * symbols with regexes when the string does not parse.
  *
  * Examples:
  *   "bd [~ bd] sd [bd ~]"  → ["bd", "sd"]
@@ -416,7 +681,12 @@ export function validatePatternForJam(code: string): PatternValidationResult {
  *   "<bd sd> hh"            → ["bd", "sd", "hh"]
  */
 function extractMiniLeaves(miniStr: string): string[] {
-  // Remove brackets, angle brackets, and operators
+  try {
+    return Array.from(new Set(collectMiniValues(parseMiniNotation(miniStr))));
+  } catch {
+    // Unparseable mini: fall back to splitting tokens so the summary still reads
+  }
+
   const cleaned = miniStr.replace(/[[\]<>]/g, ' ');
   // Split on whitespace, filter rests/numbers/operators/empty
   const tokens = cleaned.split(/[\s,]+/).filter((t) => {
@@ -433,13 +703,15 @@ function extractMiniLeaves(miniStr: string): string[] {
 }
 
 /**
- * Walk a call expression chain to extract source, effects, modifiers, and mini content.
+ * Walk a call expression chain to extract source, effects, modifiers, mini
+ * content, and the layer's rhythm figures under `timeSignature`.
  */
-function extractLayerInfo(node: ASTNode): LayerSummary | null {
+function extractLayerInfo(node: ASTNode, timeSignature: string): LayerSummary | null {
   let source: 'note' | 's' | null = null;
   let miniStr = '';
   const effects: Record<string, number | string> = {};
   const modifiers: string[] = [];
+  const timing: LayerTiming = {};
 
   // Walk the chain from outermost to innermost
   // e.g. s("bd sd").bank("X").gain(0.5)
@@ -478,8 +750,15 @@ function extractLayerInfo(node: ASTNode): LayerSummary | null {
               .filter((a: ASTNode) => a.type === 'Literal' && typeof a.value === 'number')
               .map((a: ASTNode) => a.value);
             modifiers.push(args.length ? `${methodName}(${args.join(',')})` : methodName);
+            if (methodName === 'euclid' && args.length >= 2) timing.euclid = [args[0], args[1]];
           } else if ((methodName === 'fast' || methodName === 'slow' || methodName === 'degradeBy') && current.arguments[0]?.type === 'Literal') {
             modifiers.push(`${methodName}(${current.arguments[0].value})`);
+            const value = current.arguments[0].value;
+            if (typeof value === 'number') {
+              if (methodName === 'fast') timing.fast = (timing.fast ?? 1) * value;
+              else if (methodName === 'slow') timing.slow = (timing.slow ?? 1) * value;
+              else timing.degradeBy = 1 - (1 - (timing.degradeBy ?? 0)) * (1 - value);
+            }
           } else {
             modifiers.push(methodName);
           }
@@ -496,14 +775,24 @@ function extractLayerInfo(node: ASTNode): LayerSummary | null {
   if (!source) return null;
 
   const content = extractMiniLeaves(miniStr);
-  return { source, content, effects, modifiers };
+  const rhythm = analyzeMiniRhythm(miniStr, timing, timeSignature);
+  return {
+    source,
+    content,
+    mini: miniStr,
+    effects,
+    modifiers,
+    ...(Object.keys(timing).length > 0 ? { timing } : {}),
+    ...(rhythm ? { rhythm } : {}),
+  };
 }
 
 /**
- * Parse a Strudel pattern string into a structured summary.
+ * Parse a Strudel pattern string into a structured summary. `timeSignature`
+ * sets the beat grid the layers' syncopation is measured against.
  * Returns null if parsing fails (raw code is always shown as fallback).
  */
-export function parsePattern(code: string): PatternSummary | null {
+export function parsePattern(code: string, timeSignature = '4/4'): PatternSummary | null {
   if (!code || code === 'silence' || code === 'no_change') return null;
 
   try {
@@ -517,7 +806,7 @@ export function parsePattern(code: string): PatternSummary | null {
       expr.callee.name === 'stack'
     ) {
       const layers = expr.arguments
-        .map((arg: ASTNode) => extractLayerInfo(arg))
+        .map((arg: ASTNode) => extractLayerInfo(arg, timeSignature))
         .filter((l: LayerSummary | null): l is LayerSummary => l !== null);
 
       if (layers.length === 0) return null;
@@ -525,7 +814,7 @@ export function parsePattern(code: string): PatternSummary | null {
     }
 
     // Single expression (not wrapped in stack)
-    const layer = extractLayerInfo(expr);
+    const layer = extractLayerInfo(expr, timeSignature);
     if (!layer) return null;
     return { structure: 'single', layers: [layer] };
   } catch {
@@ -562,6 +851,14 @@ function formatLayer(layer: LayerSummary): string {
 
   if (effectParts.length > 0) parts.push(effectParts.join(', '));
 
+  // Rhythm: "4 ev/cycle, sync 25%, rest 50%"
+  if (layer.rhythm) {
+    const { eventsPerCycle, syncopation, restRatio } = layer.rhythm;
+    parts.push(
+      `${eventsPerCycle} ev/cycle, sync ${Math.round(syncopation * 100)}%, rest ${Math.round(restRatio * 100)}%`
+    );
+  }
+
   // Modifiers
   if (layer.modifiers.length > 0) {
     parts.push(`[${layer.modifiers.join(', ')}]`);
@@ -576,7 +873,7 @@ function formatLayer(layer: LayerSummary): string {
  *
  * Example:
  *   Input:  stack(s("bd [~ bd] sd [bd ~]").bank("RolandTR909"), s("hh*4").gain(0.5))
- *   Output: "2 layers: bd sd (TR909) | hh, gain 0.5"
+ *   Output: "2 layers: bd sd (TR909), 4 ev/cycle, sync 0%, rest 25% | hh, gain 0.5, 4 ev/cycle, sync 0%, rest 0%"
  */
 /**
  * Format a complete band state line for an agent.
@@ -584,22 +881,22 @@ function formatLayer(layer: LayerSummary): string {
  *
  * Example:
  *   formatBandStateLine('drums', 'stack(s("bd ~ sd ~").bank("RolandTR909"), s("hh*4").gain(0.5))')
- *   → '🥁 BEAT (drums) [2 layers: bd sd (TR909) | hh, gain 0.5]: stack(s("bd ~ sd ~")...)'
+ *   → '🥁 BEAT (drums) [2 layers: bd sd (TR909), 2 ev/cycle, ... | hh, gain 0.5, 4 ev/cycle, ...]: stack(s("bd ~ sd ~")...)'
  */
-export function formatBandStateLine(agentKey: string, pattern: string): string {
+export function formatBandStateLine(agentKey: string, pattern: string, timeSignature = '4/4'): string {
   const meta = AGENT_META[agentKey];
   if (!meta) return `${agentKey}: ${pattern}`;
-  const summary = summarizePattern(pattern);
+  const summary = summarizePattern(pattern, timeSignature);
   const label = summary
     ? `${meta.emoji} ${meta.name} (${agentKey}) [${summary}]`
     : `${meta.emoji} ${meta.name} (${agentKey})`;
   return `${label}: ${pattern}`;
 }
 
-export function summarizePattern(code: string): string | null {
+export function summarizePattern(code: string, timeSignature = '4/4'): string | null {
   if (!code || code === 'silence' || code === 'no_change') return null;
 
-  const parsed = parsePattern(code);
+  const parsed = parsePattern(code, timeSignature);
   if (!parsed) return null;
 
   if (parsed.structure === 'single') {
@@ -612,3 +909,16 @@ export function summarizePattern(code: string): string | null {
   if (layerDescs.length === 0) return null;
   return `${layerDescs.length} layers: ${layerDescs.join(' | ')}`;
 }
+
+/**
+ * Events per cycle across every layer of a pattern (the sum of the layers'
+ * rhythm figures). Null for silence, unparseable code, or when no layer's
+ * rhythm could be read.
+ */
+export function getPatternEventsPerCycle(code: string, timeSignature = '4/4'): number | null {
+  const parsed = parsePattern(code, timeSignature);
+  if (!parsed) return null;
+  const rhythms = parsed.layers.flatMap((layer) => (layer.rhythm ? [layer.rhythm] : []));
+  if (rhythms.length === 0) return null;
+  return Math.round(rhythms.reduce((sum, rhythm) => sum + rhythm.eventsPerCycle, 0) * 10) / 10;
+}
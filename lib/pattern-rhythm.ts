@@ -0,0 +1,126 @@
+/**
+ * Rhythm figures for one pattern layer: how many events start per cycle, how
+ * many of them are syncopated, and how much of the cycle rests. The layer's
+ * mini notation is expanded into events (lib/mini-notation.ts) over the
+ * cycles it takes to repeat, so "<a b c>" alternation averages out; layers
+ * that repeat only after more than twelve cycles, or never (random choice),
+ * are averaged over the first twelve.
+ */
+
+import type { LayerRhythm, LayerTiming } from './types';
+import { getMeterGrouping } from './jam-meter';
+import {
+  expandMiniNotation,
+  getMiniPeriod,
+  parseMiniNotation,
+  type MiniEvent,
+  type MiniNode,
+  type MiniOperator,
+} from './mini-notation';
+
+// Most cycles evaluated; enough to average alternations of length 1, 2, 3, 4 and 6
+const MAX_EVALUATED_CYCLES = 12;
+const ONSET_PRECISION = 1e6;
+
+// The layer's method chain as operators on one wrapping step
+function applyLayerTiming(node: MiniNode, timing: LayerTiming): MiniNode {
+  const operators: MiniOperator[] = [];
+  if (timing.euclid) {
+    operators.push({ kind: 'euclid', pulses: timing.euclid[0], steps: timing.euclid[1], rotation: 0 });
+  }
+  if (timing.fast && timing.fast > 0) operators.push({ kind: 'fast', factor: timing.fast });
+  if (timing.slow && timing.slow > 0) operators.push({ kind: 'slow', factor: timing.slow });
+  if (timing.degradeBy !== undefined) operators.push({ kind: 'degrade', amount: timing.degradeBy });
+  return operators.length === 0 ? node : { kind: 'sequence', steps: [{ node, weight: 1, operators }] };
+}
+
+/**
+ * Events of a layer's mini notation under its fast/slow/euclid/degradeBy
+ * calls, from cycle 0 for `cycles` cycles. Null when the mini string cannot be
+ * read.
+ */
+export function expandLayerEvents(mini: string, timing: LayerTiming = {}, cycles = 1): MiniEvent[] | null {
+  try {
+    return expandMiniNotation(applyLayerTiming(parseMiniNotation(mini), timing), { cycles });
+  } catch {
+    return null;
+  }
+}
+
+function onsetKey(time: number): number {
+  return Math.round(time * ONSET_PRECISION) / ONSET_PRECISION;
+}
+
+function roundTo(value: number, places: number): number {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Events per cycle, syncopation and rest ratio of a mini notation string
+ * under the layer's fast/slow/euclid/degradeBy calls. An onset is syncopated
+ * when it lands off the beat and nothing starts on the next beat, so straight
+ * subdivisions (16th hats) do not count and anticipations do. Null when the
+ * mini string cannot be read.
+ */
+export function analyzeMiniRhythm(
+  mini: string,
+  timing: LayerTiming = {},
+  timeSignature = '4/4'
+): LayerRhythm | null {
+  let node: MiniNode;
+  try {
+    node = applyLayerTiming(parseMiniNotation(mini), timing);
+  } catch {
+    return null;
+  }
+
+  const cycles = Math.min(getMiniPeriod(node) ?? MAX_EVALUATED_CYCLES, MAX_EVALUATED_CYCLES);
+  const events = expandMiniNotation(node, { cycles }).filter((event) => event.probability > 0);
+
+  const grouping = getMeterGrouping(timeSignature);
+  const beatsPerBar = grouping.reduce((sum, size) => sum + size, 0);
+  const beats: number[] = [];
+  grouping.reduce((position, size) => {
+    beats.push(position / beatsPerBar);
+    return position + size;
+  }, 0);
+
+  // Distinct onset times; stacked notes on the same step are one event
+  const onsets = new Map<number, number>();
+  for (const event of events) {
+    const key = onsetKey(event.begin);
+    onsets.set(key, Math.max(onsets.get(key) ?? 0, event.probability));
+  }
+
+  let total = 0;
+  let syncopated = 0;
+  onsets.forEach((probability, time) => {
+    total += probability;
+    const cycle = Math.floor(time);
+    const position = time - cycle;
+    if (beats.some((beat) => Math.abs(beat - position) < 1 / ONSET_PRECISION)) return;
+    const nextBeat = cycle + (beats.find((beat) => beat > position) ?? 1);
+    // The beat after the last evaluated cycle wraps to the first
+    const landsOnNextBeat = onsets.has(onsetKey(nextBeat >= cycles ? nextBeat - cycles : nextBeat));
+    if (!landsOnNextBeat) syncopated += probability;
+  });
+
+  // Covered share of the evaluated cycles: union of sounding events
+  let sounding = 0;
+  let coveredUntil = 0;
+  for (const event of events) {
+    const from = Math.max(event.begin, coveredUntil);
+    const to = Math.min(event.end, cycles);
+    if (to > from) {
+      sounding += to - from;
+      coveredUntil = to;
+    }
+  }
+
+  return {
+    eventsPerCycle: roundTo(total / cycles, 1),
+    syncopation: total > 0 ? roundTo(syncopated / total, 2) : 0,
+    restRatio: roundTo(Math.max(0, 1 - sounding / cycles), 2),
+  };
+}
@@ -3,6 +3,9 @@ export type RuntimeStatus = 'connecting' | 'ready' | 'thinking' | 'done';
 export interface RuntimeTurnMetrics {
   duration_ms?: number;
   cost_usd?: number;
+  input_tokens?: number;
+  cached_input_tokens?: number;
+  output_tokens?: number;
 }
 
 export type RuntimeEvent =
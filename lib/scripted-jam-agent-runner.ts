@@ -0,0 +1,165 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type {
+  JamAgentRunner,
+  JamAgentRunnerSessionConfig,
+  JamAgentTurnOutput,
+  JamAgentTurnRequest,
+} from './jam-agent-runner';
+
+export const DEFAULT_JAM_AGENT_SCRIPT_PATH = path.join('config', 'jam-agent-scripts', 'default.json');
+const SCRIPTED_DEFAULT_MODEL = 'scripted';
+
+/**
+ * One canned turn. Objects are serialized to JSON exactly as a model would emit
+ * them; strings are replayed verbatim (useful for malformed-output fixtures).
+ */
+export type JamAgentScriptEntry = string | Record<string, unknown>;
+
+export interface JamAgentScript {
+  turn_delay_ms?: number;
+  agents: Record<string, JamAgentScriptEntry[]>;
+}
+
+export interface ScriptedJamAgentRunnerOptions {
+  workingDir: string;
+  scriptPath?: string;
+  // Inline script; skips the fixture file entirely (tests, embedded demos).
+  script?: JamAgentScript;
+}
+
+export function parseJamAgentScript(raw: unknown, source: string): JamAgentScript {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error(`Jam agent script ${source} must be a JSON object.`);
+  }
+
+  const record = raw as Record<string, unknown>;
+  const agents = record.agents;
+  if (!agents || typeof agents !== 'object' || Array.isArray(agents)) {
+    throw new Error(`Jam agent script ${source} is missing an "agents" object.`);
+  }
+
+  const parsedAgents: Record<string, JamAgentScriptEntry[]> = {};
+  for (const [agentKey, entries] of Object.entries(agents as Record<string, unknown>)) {
+    if (!Array.isArray(entries)) {
+      throw new Error(`Jam agent script ${source}: "agents.${agentKey}" must be an array.`);
+    }
+    entries.forEach((entry, index) => {
+      const isObject = !!entry && typeof entry === 'object' && !Array.isArray(entry);
+      if (typeof entry !== 'string' && !isObject) {
+        throw new Error(
+          `Jam agent script ${source}: "agents.${agentKey}[${index}]" must be an object or string.`
+        );
+      }
+    });
+    parsedAgents[agentKey] = entries as JamAgentScriptEntry[];
+  }
+
+  const turnDelayMs = record.turn_delay_ms;
+  return {
+    ...(typeof turnDelayMs === 'number' && Number.isFinite(turnDelayMs) && turnDelayMs > 0
+      ? { turn_delay_ms: Math.round(turnDelayMs) }
+      : {}),
+    agents: parsedAgents,
+  };
+}
+
+/**
+ * Offline stand-in for the Codex runner: replays canned responses per agent in
+ * order, wrapping around once an agent's list is exhausted. No processes, no network.
+ */
+export class ScriptedJamAgentRunner implements JamAgentRunner {
+  readonly kind = 'scripted' as const;
+  private workingDir: string;
+  private scriptPath: string;
+  private inlineScript: JamAgentScript | null;
+  private script: JamAgentScript | null = null;
+  private cursors: Record<string, number> = {};
+  private pendingTimers = new Map<string, { timer: NodeJS.Timeout; release: () => void }>();
+
+  constructor(options: ScriptedJamAgentRunnerOptions) {
+    this.workingDir = options.workingDir;
+    this.scriptPath = options.scriptPath ?? DEFAULT_JAM_AGENT_SCRIPT_PATH;
+    this.inlineScript = options.script ?? null;
+  }
+
+  async prepare(): Promise<JamAgentRunnerSessionConfig> {
+    this.script = this.inlineScript
+      ? parseJamAgentScript(this.inlineScript, '(inline)')
+      : this.loadScriptFile();
+    this.cursors = {};
+    return { defaultModel: SCRIPTED_DEFAULT_MODEL };
+  }
+
+  runTurn(request: JamAgentTurnRequest): Promise<JamAgentTurnOutput> {
+    const key = request.agentKey;
+    const output: JamAgentTurnOutput = {
+      text: this.nextEntryText(key),
+      threadId: request.threadId ?? `scripted-${key}`,
+    };
+
+    const delayMs = this.script?.turn_delay_ms ?? 0;
+    if (delayMs <= 0) {
+      return Promise.resolve(output);
+    }
+
+    return new Promise((resolve) => {
+      const release = () => {
+        this.pendingTimers.delete(key);
+        resolve(output);
+      };
+      const timer = setTimeout(release, delayMs);
+      this.pendingTimers.set(key, { timer, release });
+    });
+  }
+
+  async cancelTurn(agentKey: string): Promise<void> {
+    const pending = this.pendingTimers.get(agentKey);
+    if (!pending) return;
+    clearTimeout(pending.timer);
+    pending.release();
+  }
+
+  reset(): void {
+    for (const pending of Array.from(this.pendingTimers.values())) {
+      clearTimeout(pending.timer);
+    }
+    this.pendingTimers.clear();
+    this.cursors = {};
+  }
+
+  private loadScriptFile(): JamAgentScript {
+    const resolvedPath = path.isAbsolute(this.scriptPath)
+      ? this.scriptPath
+      : path.join(this.workingDir, this.scriptPath);
+
+    let raw: string;
+    try {
+      raw = fs.readFileSync(resolvedPath, 'utf-8');
+    } catch {
+      throw new Error(`Jam agent script not found: ${resolvedPath}`);
+    }
+
+    try {
+      return parseJamAgentScript(JSON.parse(raw), resolvedPath);
+    } catch (err) {
+      if (err instanceof SyntaxError) {
+        throw new Error(`Jam agent script ${resolvedPath} is not valid JSON: ${err.message}`);
+      }
+      throw err;
+    }
+  }
+
+  private nextEntryText(agentKey: string): string {
+    const entries = this.script?.agents[agentKey] ?? [];
+    if (entries.length === 0) {
+      console.warn(`[ScriptedRunner] No scripted turns for agent: ${agentKey}`);
+      return '';
+    }
+
+    const cursor = this.cursors[agentKey] ?? 0;
+    this.cursors[agentKey] = cursor + 1;
+    const entry = entries[cursor % entries.length];
+    return typeof entry === 'string' ? entry : JSON.stringify(entry);
+  }
+}
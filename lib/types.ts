@@ -13,11 +13,13 @@ export type WSMessageType =
   | 'auto_tick_fired'
   | 'agent_thought'
   | 'agent_commentary'
+  | 'agent_request'
   | 'musical_context_update'
   | 'agent_status'
   | 'start_jam'
   | 'audio_feedback'
-  | 'directive_error';
+  | 'directive_error'
+  | 'directive_queue_update';
 
 export interface WSMessage<T = unknown> {
   type: WSMessageType;
@@ -46,9 +48,50 @@ export interface AgentThoughtPayload {
   thought: string;
   pattern: string;
   timestamp: string;
-}
-
-export type JamTurnSource = 'jam-start' | 'directive' | 'auto-tick' | 'staged-silent';
+  // What this turn changed in the agent's pattern; empty when it held
+  changes?: PatternChange[];
+}
+
+// One semantic difference between an agent's previous and new pattern (see pattern-diff.ts).
+// `layer` labels the layer by its first sounds/notes, e.g. "bd sd" or "c2 eb2 g2".
+export type PatternChange =
+  | { kind: 'started'; layers: string[] }
+  | { kind: 'stopped' }
+  | { kind: 'rewritten' }
+  | { kind: 'layer_added'; layer: string }
+  | { kind: 'layer_removed'; layer: string }
+  | { kind: 'content'; layer: string; added: string[]; removed: string[] }
+  | { kind: 'rhythm'; layer: string; from?: number; to?: number }
+  | { kind: 'effect'; layer: string; effect: string; from?: number | string; to?: number | string }
+  | { kind: 'modifier_added'; layer: string; modifier: string }
+  | { kind: 'modifier_removed'; layer: string; modifier: string };
+
+// One problem found by validatePatternForJam (see pattern-parser.ts). `start` and
+// `end` are offsets into the validated code; `suggestion` is a likely fix when known.
+export type PatternValidationIssueCode =
+  | 'syntax_error'
+  | 'unknown_method'
+  | 'invalid_root_call'
+  | 'unbalanced_delimiter'
+  | 'disallowed_construct';
+
+export interface PatternValidationIssue {
+  code: PatternValidationIssueCode;
+  message: string;
+  start: number;
+  end: number;
+  suggestion?: string;
+}
+
+export type JamTurnSource =
+  | 'jam-start'
+  | 'directive'
+  | 'auto-tick'
+  | 'staged-silent'
+  | 'resume'
+  | 'agent-request'
+  | 'mixer'
+  | 'revert';
 
 export interface AgentCommentaryPayload {
   agent: string;
@@ -57,6 +100,32 @@ export interface AgentCommentaryPayload {
   timestamp: string;
 }
 
+// One band member addressing another; routed as a targeted turn for `to`
+export interface AgentRequestPayload {
+  from: string;
+  to: string;
+  emoji: string;
+  text: string;
+  round: number;
+  timestamp: string;
+}
+
+// A boss directive waiting for its band turn (see lib/jam-directive-queue.ts)
+export interface QueuedDirective {
+  id: number;
+  text: string;         // coalesced cues joined with "; "
+  targetAgent?: string;
+  cueCount: number;     // boss cues folded into this turn
+  queuedAtMs: number;
+}
+
+export interface DirectiveQueuePayload {
+  pending: QueuedDirective[];
+  activeTurn: { label: string; startedAtMs: number } | null;
+  etaMs: number | null;  // estimated wait until the last pending directive is answered
+  serverNowMs: number;
+}
+
 export interface JamStatePayload {
   jamState: JamState;
   combinedPattern: string;
@@ -64,6 +133,14 @@ export interface JamStatePayload {
   diagnostics?: JamStateDiagnostics;
 }
 
+export interface DirectiveErrorPayload {
+  message: string;
+  targetAgent?: string;
+  // Set when a pattern failed validation: the checked code and where it went wrong
+  pattern?: string;
+  issues?: PatternValidationIssue[];
+}
+
 export interface AutoTickTimingPayload {
   autoTick: AutoTickTiming;
 }
@@ -85,7 +162,8 @@ export interface MusicalContextPayload {
   musicalContext: MusicalContext;
 }
 
-export type JamAgentKey = 'drums' | 'bass' | 'melody' | 'chords';
+// Any key in the band roster (see AGENT_META and lib/jam-roster.ts)
+export type JamAgentKey = string;
 
 export interface CameraMotionVector {
   score: number;
@@ -224,24 +302,149 @@ export interface JamState {
   activeAgents: string[];
   activatedAgents: string[];
   mutedAgents: string[];
+  mixer: Record<string, AgentMixChannel>;  // one channel per agent in activeAgents
+  patternHistory: Record<string, AgentPatternVersion[]>;  // oldest first; last entry is the current pattern
   autoTick?: AutoTickTiming;
+  arrangement?: JamArrangementState;  // present only when the boss has set a song form
+  usage?: JamUsageSnapshot;
+  harmonyProposals?: HarmonyProposal[];  // open proposals plus recent history, oldest first
+  harmony?: Record<string, AgentHarmonyReport>;  // agents whose note layers could be checked
+}
+
+// Notes an agent's pattern plays, checked against the current key and chords (see lib/jam-harmony-check.ts)
+export interface AgentHarmonyReport {
+  key: string;              // key the pattern was checked against
+  notes: string[];          // distinct pitch classes played, in order of appearance
+  outOfKey: string[];       // played notes outside musicalContext.scale
+  nonChordTones: string[];  // in key, but not a tone of any chord in the progression
+}
+
+// Server-owned mixer channel, applied around the agent's layer at composition time
+export interface AgentMixChannel {
+  gain: number;   // multiplier on the agent's own levels, MIXER_GAIN_MIN..MIXER_GAIN_MAX
+  pan: number;    // -1 (left) .. 1 (right)
+  solo: boolean;
+  mute: boolean;  // channel mute: the agent keeps playing, the mix drops its layer
+}
+
+// One entry in an agent's bounded pattern history (see lib/jam-pattern-history.ts)
+export interface AgentPatternVersion {
+  version: number;  // per-agent sequence number, increasing
+  pattern: string;
+  round: number;
+  turnSource: JamTurnSource;
+  directive?: string;  // boss directive that produced this version
+  revertOf?: number;   // set on 'revert' entries: the version that was restored
+  createdAt: string;
+}
+
+// Key/chord change proposed by an agent and voted on by the band (see lib/jam-harmony-proposals.ts)
+export type HarmonyProposalKind = 'key' | 'chords';
+export type HarmonyProposalStatus = 'pending' | 'applied' | 'rejected' | 'expired' | 'superseded';
+
+export interface HarmonyProposal {
+  id: number;
+  kind: HarmonyProposalKind;
+  key?: string;         // kind 'key', e.g. "Eb major"
+  chords?: string[];    // kind 'chords'
+  proposedBy: string;
+  round: number;
+  supporters: string[];  // proposer first
+  objectors: string[];
+  status: HarmonyProposalStatus;
+  resolvedRound?: number;
+  resolvedBy?: 'band' | 'boss';  // set on applied and rejected proposals
+}
+
+// Model usage accumulated over agent turns (see lib/jam-usage.ts)
+export interface JamUsageTotals {
+  turns: number;
+  durationMs: number;         // wall-clock time spent waiting on turns
+  inputTokens: number;        // includes cached input
+  cachedInputTokens: number;
+  outputTokens: number;
+  costUsd: number;            // reported by the backend, else estimated from token pricing
+}
+
+// Session budget; null disables that limit
+export interface JamSessionBudget {
+  maxCostUsd: number | null;
+  maxTokens: number | null;   // input + output tokens
+}
+
+// How the budget governor treats auto-tick:
+// - ok: normal spacing
+// - slowed: spacing stretched by BUDGET_SLOWDOWN_FACTOR
+// - paused: no autonomous rounds; boss directives still run
+export type JamBudgetState = 'ok' | 'slowed' | 'paused';
+
+export interface JamUsageSnapshot {
+  session: JamUsageTotals;
+  agents: Record<string, JamUsageTotals>;
+  budget: JamSessionBudget;
+  budgetUsedFraction: number | null;  // share of the tightest limit used; null without a budget
+  budgetState: JamBudgetState;
+}
+
+// How autonomous rounds are timed:
+// - interval: every AUTO_TICK_INTERVAL_MS of wall-clock time, whole band
+// - bars: every N bars at the current tempo, whole band
+// - round_robin: every N bars at the current tempo, one agent per tick in turn
+// - section: at song-form section boundaries (interval while none is ahead)
+export type AutoTickMode = 'interval' | 'bars' | 'round_robin' | 'section';
+
+export interface AutoTickSchedule {
+  mode: AutoTickMode;
+  bars: number;  // tick spacing for 'bars' and 'round_robin'
 }
 
 export interface AutoTickTiming {
   intervalMs: number;
   nextTickAtMs: number | null;
   serverNowMs: number;
+  schedule?: AutoTickSchedule;
+  // Agent(s) the next tick will prompt; one agent in round_robin mode
+  nextAgents?: string[];
+}
+
+// Song-form arrangement — ordered sections the runtime advances bar by bar
+export type ArrangementSectionKind =
+  | 'intro'
+  | 'verse'
+  | 'pre_chorus'
+  | 'chorus'
+  | 'bridge'
+  | 'breakdown'
+  | 'drop'
+  | 'outro';
+
+export interface ArrangementSection {
+  kind: ArrangementSectionKind;
+  bars: number;
+  energy: number;             // 1-10, applied to the musical context on entry
+  key?: string;               // e.g. "D minor"; scale is derived on entry
+  chords?: string[];          // defaults to chords derived from `key` when omitted
+}
+
+export interface JamArrangementState {
+  sections: ArrangementSection[];
+  currentIndex: number;
+  barsElapsed: number;            // whole bars played in the current section
+  barsUntilNext: number | null;   // null on the final section, which holds until the jam ends
+  isRunning: boolean;             // clock starts with the first audible execute
+  nextSectionAtMs: number | null; // server clock; null while paused or on the final section
+  serverNowMs: number;
 }
 
 export interface JamChatMessage {
   id: string;
-  type: 'agent_thought' | 'agent_commentary' | 'boss_directive' | 'system';
-  agent?: string;          // 'drums' | 'bass' | 'melody' | 'chords'
+  type: 'agent_thought' | 'agent_commentary' | 'agent_request' | 'boss_directive' | 'system';
+  agent?: string;          // band roster key, e.g. 'drums'
   agentName?: string;      // 'BEAT' | 'GROOVE' | 'ARIA' | 'CHORDS'
   emoji?: string;
   text: string;
   pattern?: string;        // optional code snippet
-  targetAgent?: string;    // @mention-directed boss directive target
+  targetAgent?: string;    // @mention-directed boss directive target, or agent request recipient
   timestamp: Date;
 }
 
@@ -279,7 +482,8 @@ export type AgentTurnOutcome =
   | 'accepted'
   | 'rejected_or_failed'
   | 'empty_or_unparseable'
-  | 'missing_agent';
+  | 'missing_agent'
+  | 'preempted';
 
 export interface AgentContextBandStateEntry {
   agent: string;
@@ -324,6 +528,7 @@ export interface AgentContextTurnSnapshot {
   managerContext: string;
   rawPrompt: AgentRawPromptSnapshot;
   outcome: AgentTurnOutcome;
+  preemptedBy?: string;  // directive that aborted this auto-tick turn
   thread: AgentTurnThreadState;
 }
 
@@ -341,8 +546,74 @@ export interface AgentContextWindow {
   lastCompaction?: AgentThreadCompactionEvent;
 }
 
+// Auto-tick round whose in-flight turns were aborted by a boss directive
+export interface AutoTickPreemption {
+  round: number;
+  agents: string[];
+  directive: string;
+  preemptedAt: string;
+}
+
 export interface JamStateDiagnostics {
-  agentContextWindowsDelta: Record<string, AgentContextWindow>;
+  agentContextWindowsDelta?: Record<string, AgentContextWindow>;
+  preemptedAutoTick?: AutoTickPreemption;
+}
+
+// Jam session recording — append-only JSONL event log, one entry per line
+export type JamRecordingEntryKind =
+  | 'session'   // recording lifecycle: session_start / session_end
+  | 'output'    // jam broadcast sent to the browser (execute, jam_state_update, ...)
+  | 'input';    // browser message that drove a turn (boss_directive, camera_directive, ...)
+
+export interface JamRecordingEntry {
+  seq: number;
+  offsetMs: number;           // ms since recording start; replay timing source
+  recordedAt: string;         // ISO timestamp
+  kind: JamRecordingEntryKind;
+  type: string;
+  payload: unknown;
+}
+
+export interface JamRecordingSummary {
+  id: string;
+  startedAt: string;
+  durationMs: number;
+  eventCount: number;
+  activeAgents: string[];
+  directiveCount: number;
+}
+
+// Resumable jam session listing (full snapshot lives in lib/jam-session-snapshot.ts)
+export interface JamSessionSnapshotSummary {
+  sessionId: string;
+  savedAt: string;
+  round: number;
+  activeAgents: string[];
+  activatedAgents: string[];
+  genre: string;
+  key: string;
+  bpm: number;
+}
+
+// Shared jam rooms (see lib/jam-rooms.ts). Every connection starts in a
+// private room of its own; named rooms are shared by everyone who joins.
+export type JamRoomRole = 'boss' | 'spectator';
+
+export interface JamRoomMember {
+  id: number;
+  name: string;
+  role: JamRoomRole;
+}
+
+// Sent to each member as `jam_room_state` whenever membership, roles, or the jam change
+export interface JamRoomState {
+  room: string;
+  isPrivate: boolean;
+  memberId: number;        // the recipient's own member id
+  role: JamRoomRole;       // the recipient's role
+  members: JamRoomMember[];
+  jamActive: boolean;
+  activeAgents: string[];
 }
 
 // Pattern parser types — structured summary of agent Strudel patterns
@@ -354,20 +625,51 @@ export interface PatternSummary {
 export interface LayerSummary {
   source: 'note' | 's';
   content: string[];          // leaf values from mini notation
+  mini: string;               // raw mini notation string of the source call
   effects: Record<string, number | string>;  // gain, lpf, bank, etc.
   modifiers: string[];        // "sometimes", "every(4)", etc.
+  timing?: LayerTiming;       // literal fast/slow/degradeBy/euclid calls; absent when there are none
+  rhythm?: LayerRhythm;       // timing figures; absent when the mini string can't be read
+}
+
+/** Layer-level method calls that reshape the mini pattern. */
+export interface LayerTiming {
+  fast?: number;
+  slow?: number;
+  degradeBy?: number;
+  euclid?: [number, number];
+}
+
+export interface LayerRhythm {
+  eventsPerCycle: number;     // distinct onsets per cycle, averaged over alternations
+  syncopation: number;        // 0–1 share of onsets off the beat with nothing on the next beat
+  restRatio: number;          // 0–1 share of the cycle with no step sounding
+}
+
+export interface AgentMetaColors {
+  border: string;
+  accent: string;
+  bg: string;
+  bgSolid: string;
 }
 
-// Consolidated agent metadata — single source of truth for names, emojis, colors
-export const AGENT_META: Record<string, {
+export interface AgentMeta {
   key: string;
   name: string;
   emoji: string;
   mention: string;
-  colors: { border: string; accent: string; bg: string; bgSolid: string };
-}> = {
-  drums:  { key: 'drums',  name: 'BEAT',   emoji: '🥁', mention: '@BEAT',   colors: { border: 'border-red-500/50',    accent: 'text-red-400',    bg: 'bg-red-500/10',    bgSolid: 'bg-red-900/50' } },
-  bass:   { key: 'bass',   name: 'GROOVE', emoji: '🎸', mention: '@GROOVE', colors: { border: 'border-blue-500/50',   accent: 'text-blue-400',   bg: 'bg-blue-500/10',   bgSolid: 'bg-blue-900/50' } },
-  melody: { key: 'melody', name: 'ARIA',   emoji: '🎹', mention: '@ARIA',   colors: { border: 'border-gray-400/50', accent: 'text-gray-200', bg: 'bg-gray-500/10', bgSolid: 'bg-gray-900/50' } },
-  chords: { key: 'chords', name: 'CHORDS', emoji: '🎼', mention: '@CHORDS', colors: { border: 'border-fuchsia-500/50',  accent: 'text-fuchsia-400',  bg: 'bg-fuchsia-500/10',  bgSolid: 'bg-fuchsia-900/50' } },
+  colors: AgentMetaColors;
+  role: string;           // one-line role description used in prompts
+  patternFamily: string;  // genre guidance lane: drums | bass | melody | chords
+  file: string;           // persona filename in .codex/agents (without .md)
+}
+
+// Consolidated agent metadata — single source of truth for names, emojis, colors.
+// These are the built-in defaults; the live band roster is loaded from
+// .codex/agents/*.md front-matter and applied in place (lib/jam-roster.ts).
+export const AGENT_META: Record<string, AgentMeta> = {
+  drums:  { key: 'drums',  name: 'BEAT',   emoji: '🥁', mention: '@BEAT',   colors: { border: 'border-red-500/50',    accent: 'text-red-400',    bg: 'bg-red-500/10',    bgSolid: 'bg-red-900/50' },    role: 'rhythm and groove driver',              patternFamily: 'drums',  file: 'drummer' },
+  bass:   { key: 'bass',   name: 'GROOVE', emoji: '🎸', mention: '@GROOVE', colors: { border: 'border-blue-500/50',   accent: 'text-blue-400',   bg: 'bg-blue-500/10',   bgSolid: 'bg-blue-900/50' },   role: 'low-end movement and pocket',           patternFamily: 'bass',   file: 'bassist' },
+  melody: { key: 'melody', name: 'ARIA',   emoji: '🎹', mention: '@ARIA',   colors: { border: 'border-gray-400/50', accent: 'text-gray-200', bg: 'bg-gray-500/10', bgSolid: 'bg-gray-900/50' },       role: 'top-line phrasing and motifs',          patternFamily: 'melody', file: 'melody' },
+  chords: { key: 'chords', name: 'CHORDS', emoji: '🎼', mention: '@CHORDS', colors: { border: 'border-fuchsia-500/50',  accent: 'text-fuchsia-400',  bg: 'bg-fuchsia-500/10',  bgSolid: 'bg-fuchsia-900/50' }, role: 'harmonic movement and comping texture', patternFamily: 'chords', file: 'chords' },
 };
@@ -2,8 +2,11 @@ import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import WebSocket from "ws";
 import { randomUUID } from "crypto";
+import * as fs from "fs";
+import * as path from "path";
 import { z } from "zod";
 import { STRUDEL_REFERENCE } from "./strudel-reference.js";
+import { checkPattern } from "./pattern-check.js";
 
 const server = new McpServer({
   name: "strudel-mcp",
@@ -26,13 +29,53 @@ interface UserMessage {
 const userMessages: UserMessage[] = [];
 
 // @mention parser: case-insensitive, maps @BEAT→drums, @GROOVE→bass, etc.
-const MENTION_TO_AGENT: Record<string, string> = {
+// Built-in band; replaced by the roster in .codex/agents/*.md front-matter when present.
+const DEFAULT_MENTION_TO_AGENT: Record<string, string> = {
   '@beat': 'drums',
   '@groove': 'bass',
   '@aria': 'melody',
   '@chords': 'chords',
 };
 
+const AGENTS_DIR = process.env.JAM_AGENTS_DIR || path.join(process.cwd(), ".codex", "agents");
+
+// Mirrors lib/jam-roster.ts: `key` marks a band member, `mention` defaults to @DISPLAY_NAME
+function loadMentionMap(dir: string): Record<string, string> {
+  let files: string[];
+  try {
+    files = fs.readdirSync(dir).filter((file) => file.endsWith(".md")).sort();
+  } catch {
+    return DEFAULT_MENTION_TO_AGENT;
+  }
+
+  const mentions: Record<string, string> = {};
+  for (const file of files) {
+    let content: string;
+    try {
+      content = fs.readFileSync(path.join(dir, file), "utf-8");
+    } catch {
+      continue;
+    }
+    const frontMatter = content.match(/^---\r?\n([\s\S]*?)\r?\n---/)?.[1];
+    if (!frontMatter) continue;
+
+    const field = (name: string): string => {
+      const value = frontMatter.match(new RegExp(`^${name}:\\s*(.*)$`, "m"))?.[1].trim() ?? "";
+      return value.replace(/^(["'])(.*)\1$/, "$2");
+    };
+    const key = field("key");
+    const displayName = field("display_name");
+    if (!key || !displayName) continue;
+
+    const mention = (field("mention") || `@${displayName.replace(/\s+/g, "")}`).toLowerCase();
+    if (!(mention in mentions)) mentions[mention] = key;
+  }
+
+  return Object.keys(mentions).length > 0 ? mentions : DEFAULT_MENTION_TO_AGENT;
+}
+
+const MENTION_TO_AGENT = loadMentionMap(AGENTS_DIR);
+
 function parseMention(text: string): string | null {
   const lower = text.toLowerCase();
   for (const [mention, agent] of Object.entries(MENTION_TO_AGENT)) {
@@ -137,16 +180,6 @@ function send(
   }
 }
 
-function validatePatternSyntax(code: string): string | null {
-  try {
-    // Parse-only validation to catch malformed snippets before dispatching.
-    new Function(code);
-    return null;
-  } catch (error) {
-    return error instanceof Error ? error.message : String(error);
-  }
-}
-
 function normalizeSynthName(name: string): string {
   const normalized = name.trim().toLowerCase();
   if (normalized === "saw") return "sawtooth";
@@ -204,8 +237,8 @@ server.tool(
   { code: z.string().describe("Strudel/Tidal code to execute") },
   async ({ code }) => {
     const normalized = normalizePatternCode(code);
-    const syntaxError = validatePatternSyntax(normalized.code);
-    if (syntaxError) {
+    const check = checkPattern(normalized.code);
+    if (check.syntaxError) {
       return {
         content: [
           {
@@ -213,7 +246,8 @@ server.tool(
             text:
               "Pattern not sent: JavaScript syntax check failed. " +
               "The current audio was left unchanged.\n" +
-              `Details: ${syntaxError}`,
+              `Details: ${check.syntaxError}` +
+              (check.issues.length > 0 ? `\nLocated issues:\n${check.issues.join("\n")}` : ""),
           },
         ],
       };
@@ -224,6 +258,9 @@ server.tool(
     const rewriteNote = normalized.rewrites.length > 0
       ? `\nApplied compatibility rewrites: ${normalized.rewrites.join(", ")}.`
       : "";
+    const adviceNote = check.issues.length > 0
+      ? `\nJam pattern check (advice only; sent as written):\n${check.issues.join("\n")}`
+      : "";
     return {
       content: [
         {
@@ -231,7 +268,8 @@ server.tool(
           text: result.success
             ? (
               `Pattern sent for execution: ${normalized.code.substring(0, 100)}${normalized.code.length > 100 ? "..." : ""}` +
-              rewriteNote
+              rewriteNote +
+              adviceNote
             )
             : result.error!,
         },
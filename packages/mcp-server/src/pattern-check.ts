@@ -0,0 +1,39 @@
+// Pre-send check for execute_pattern.
+// The gate is a plain JavaScript syntax check: normal mode plays any Strudel the
+// REPL accepts (setcpm, n().scale(), $: labels, jux, samples...). The jam
+// validator from lib/pattern-parser.ts is bundled in and only adds located
+// advice, since its allowlist is stricter than Strudel itself.
+
+import {
+  describePatternValidationIssue,
+  validatePatternForJam,
+} from "../../../lib/pattern-parser.js";
+
+export interface PatternCheck {
+  // Set when the code does not parse; the pattern must not be sent
+  syntaxError: string | null;
+  // One line per jam validator issue: code, location, excerpt and fix
+  issues: string[];
+}
+
+function validatePatternSyntax(code: string): string | null {
+  try {
+    // Parse-only validation to catch malformed snippets before dispatching.
+    new Function(code);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+export function checkPattern(code: string): PatternCheck {
+  const validation = validatePatternForJam(code);
+  const checked = validation.code ?? code;
+  const issues = (validation.issues ?? []).map((issue) => {
+    const excerpt = checked.slice(issue.start, issue.end).replace(/\s+/g, " ");
+    const shown = excerpt.length > 40 ? `${excerpt.slice(0, 40)}…` : excerpt;
+    return `- [${issue.code}] ${describePatternValidationIssue(checked, issue)}${shown ? ` (at \`${shown}\`)` : ""}`;
+  });
+
+  return { syntaxError: validatePatternSyntax(code), issues };
+}